@@ -3,15 +3,26 @@
  *
  * Main entry point for the RaceSync mobile application.
  * Sets up navigation, error boundaries, and safe area context.
+ * Runs storage migrations and opens the schedule cache (moving it to
+ * SQLite on first start) before any screen reads stored data.
  *
  * @format
  */
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { StatusBar } from 'react-native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { NavigationContainer } from '@react-navigation/native';
 import { AppNavigator } from './src/navigation/AppNavigator';
+import { StorageMigrator } from './src/shared/storage/StorageMigrator';
+import { openScheduleCache } from './src/features/schedules/services/scheduleCacheBackend';
+import {
+  ScheduleSource,
+  ScheduleSourceContext,
+  createScheduleSource,
+} from './src/features/schedules/hooks/useScheduleSource';
+
+const storageMigrator = new StorageMigrator();
 
 /**
  * Error Boundary Component
@@ -47,12 +58,33 @@ class ErrorBoundary extends React.Component<
  * App - Root component
  */
 function App(): React.JSX.Element {
+  const [scheduleSource, setScheduleSource] = useState<ScheduleSource | null>(null);
+
+  // Upgrade stored data to the current schema, then open the schedule cache;
+  // screens wait for both
+  useEffect(() => {
+    storageMigrator
+      .run()
+      .then(report => {
+        if (report.quarantined.length > 0) {
+          console.warn('Quarantined unreadable stored data:', report.quarantined);
+        }
+      })
+      .catch(error => console.error('Storage migration failed:', error))
+      .then(() => openScheduleCache())
+      .then(cache => setScheduleSource(createScheduleSource(undefined, cache)));
+  }, []);
+
   return (
     <ErrorBoundary>
       <SafeAreaProvider>
         <NavigationContainer>
           <StatusBar barStyle="light-content" backgroundColor="#000000" />
-          <AppNavigator />
+          {scheduleSource ? (
+            <ScheduleSourceContext.Provider value={scheduleSource}>
+              <AppNavigator />
+            </ScheduleSourceContext.Provider>
+          ) : null}
         </NavigationContainer>
       </SafeAreaProvider>
     </ErrorBoundary>
@@ -0,0 +1,48 @@
+/**
+ * Race fixtures shared by the test suites
+ *
+ * Tests override only the fields they care about, so a test reads as the
+ * difference from these defaults.
+ */
+
+import type { Race } from '../../src/features/schedules/types/Race';
+
+/**
+ * Builds a weekly race: Hypercar at Spa-Francorchamps on 2025-11-15 19:00 UTC
+ */
+export const createRace = (overrides: Partial<Race> = {}): Race => ({
+  id: 'spa-week-1',
+  type: 'weekly',
+  tier: null,
+  trackName: 'Spa-Francorchamps',
+  trackConfiguration: null,
+  carClass: 'Hypercar',
+  startTime: '2025-11-15T19:00:00Z',
+  durationMinutes: 45,
+  weatherCondition: 'Clear',
+  timeOfDay: 'Night',
+  licenseRequirement: 'Silver',
+  repeatInterval: null,
+  isLive: false,
+  ...overrides,
+});
+
+/**
+ * Builds a repeating daily race: beginner LMP2 at Monza every 40 minutes
+ * from 2025-11-15 14:00 UTC
+ */
+export const createDailyRace = (overrides: Partial<Race> = {}): Race =>
+  createRace({
+    id: 'race-1',
+    type: 'daily',
+    tier: 'beginner',
+    trackName: 'Monza',
+    trackConfiguration: 'Grand Prix',
+    carClass: 'LMP2',
+    startTime: '2025-11-15T14:00:00Z',
+    durationMinutes: 15,
+    timeOfDay: 'Afternoon',
+    licenseRequirement: 'Bronze',
+    repeatInterval: 40,
+    ...overrides,
+  });
@@ -0,0 +1,24 @@
+import { Database } from 'sql.js';
+import {
+  SqlDatabase,
+  SqlRow,
+} from '../../src/features/schedules/services/SQLiteScheduleRepository';
+
+/**
+ * Adapts an in-memory sql.js database to the SqlDatabase driver interface
+ */
+export const createSqlDatabase = (db: Database): SqlDatabase => ({
+  execute: async (sql, params = []) => {
+    const statement = db.prepare(sql);
+    try {
+      statement.bind(params);
+      const rows: SqlRow[] = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject() as SqlRow);
+      }
+      return rows;
+    } finally {
+      statement.free();
+    }
+  },
+});
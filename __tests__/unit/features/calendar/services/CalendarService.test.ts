@@ -0,0 +1,198 @@
+import {
+  CalendarAccessError,
+  CalendarService,
+} from '../../../../../src/features/calendar/services/CalendarService';
+import { MemoryDeviceCalendarAdapter } from '../../../../../src/features/calendar/services/MemoryDeviceCalendarAdapter';
+import { unavailableCalendarAdapter } from '../../../../../src/features/calendar/services/DeviceCalendarAdapter';
+import { STORAGE_KEYS } from '../../../../../src/shared/constants/storageKeys';
+import { MemoryKeyValueStore } from '../../../../../src/shared/storage/MemoryKeyValueStore';
+import { createRace } from '../../../../fixtures/races';
+
+describe('CalendarService', () => {
+  let calendar: MemoryDeviceCalendarAdapter;
+  let store: MemoryKeyValueStore;
+  let service: CalendarService;
+
+  beforeEach(() => {
+    calendar = new MemoryDeviceCalendarAdapter({ calendarId: 'primary' });
+    store = new MemoryKeyValueStore();
+    service = new CalendarService(calendar, store);
+  });
+
+  describe('isAvailable', () => {
+    it('should report whether the adapter has a device calendar', () => {
+      expect(service.isAvailable()).toBe(true);
+      expect(new CalendarService(unavailableCalendarAdapter, store).isAvailable()).toBe(false);
+    });
+  });
+
+  describe('addRace', () => {
+    it('should create a device event and report the race as in the calendar', async () => {
+      const event = await service.addRace(createRace());
+
+      expect(calendar.events.get(event.eventId)).toMatchObject({
+        calendarId: 'primary',
+        title: 'LMU Race: Spa-Francorchamps - Hypercar',
+        location: 'Spa-Francorchamps',
+      });
+      expect(event).toMatchObject({
+        raceId: 'spa-week-1',
+        practiceSessionId: null,
+        calendarId: 'primary',
+      });
+      expect(service.isInCalendar('spa-week-1')).toBe(true);
+      expect(service.isInCalendar('other-race')).toBe(false);
+    });
+
+    it('should persist the event so a new service finds it', async () => {
+      const event = await service.addRace(createRace());
+
+      const reloaded = new CalendarService(calendar, store);
+      await reloaded.load();
+
+      expect(reloaded.getEvent('spa-week-1')).toEqual(event);
+    });
+
+    it('should create only one event when a race is added twice', async () => {
+      const [first, second] = await Promise.all([
+        service.addRace(createRace()),
+        service.addRace(createRace()),
+      ]);
+      const third = await service.addRace(createRace());
+
+      expect(calendar.events.size).toBe(1);
+      expect(second).toBe(first);
+      expect(third).toBe(first);
+    });
+
+    it('should throw CalendarAccessError without calendar access', async () => {
+      service = new CalendarService(new MemoryDeviceCalendarAdapter({ granted: false }), store);
+
+      await expect(service.addRace(createRace())).rejects.toThrow(CalendarAccessError);
+      expect(service.isInCalendar('spa-week-1')).toBe(false);
+    });
+
+    it('should notify subscribers', async () => {
+      const listener = jest.fn();
+      service.subscribe(listener);
+
+      await service.addRace(createRace());
+
+      expect(listener).toHaveBeenCalled();
+    });
+  });
+
+  describe('removeRace', () => {
+    it('should delete the device event and forget the race', async () => {
+      await service.addRace(createRace());
+
+      await service.removeRace('spa-week-1');
+
+      expect(calendar.events.size).toBe(0);
+      expect(service.isInCalendar('spa-week-1')).toBe(false);
+      expect(JSON.parse((await store.getItem(STORAGE_KEYS.CALENDAR_MAPPINGS)) ?? '')).toEqual([]);
+    });
+  });
+
+  describe('reconcile', () => {
+    const now = new Date('2025-11-10T12:00:00Z');
+    const later = createRace({ id: 'later', startTime: '2025-11-20T19:00:00Z' });
+
+    it('should update events of changed races and report the changes', async () => {
+      const event = await service.addRace(createRace());
+      const moved = createRace({ startTime: '2025-11-15T20:00:00Z' });
+
+      const report = await service.reconcile([moved, later], now);
+
+      expect(report?.entries).toEqual([
+        {
+          action: 'updated',
+          raceId: 'spa-week-1',
+          eventId: event.eventId,
+          title: event.title,
+          changes: ['time'],
+        },
+      ]);
+      expect(service.getEvent('spa-week-1')?.startTime).not.toBe(event.startTime);
+      expect(calendar.events.get(event.eventId)?.startTime).toBe(
+        service.getEvent('spa-week-1')?.startTime,
+      );
+      expect(service.getState().lastReport).toEqual(report);
+    });
+
+    it('should return null and keep the last report when nothing changed', async () => {
+      await service.addRace(createRace());
+      await service.reconcile([createRace({ startTime: '2025-11-15T20:00:00Z' }), later], now);
+      const { lastReport } = service.getState();
+
+      expect(
+        await service.reconcile([createRace({ startTime: '2025-11-15T20:00:00Z' }), later], now),
+      ).toBeNull();
+      expect(service.getState().lastReport).toBe(lastReport);
+    });
+
+    it('should mark events of removed races as cancelled by default', async () => {
+      const event = await service.addRace(createRace());
+
+      const report = await service.reconcile([later], now);
+
+      expect(report?.entries[0]).toMatchObject({ action: 'cancelled', raceId: 'spa-week-1' });
+      expect(calendar.events.get(event.eventId)?.title).toBe(`Cancelled: ${event.title}`);
+      expect(service.getEvent('spa-week-1')?.cancelledAt).toBe(now.toISOString());
+      expect(await service.reconcile([later], now)).toBeNull();
+    });
+
+    it('should delete events of removed races in remove mode', async () => {
+      await service.addRace(createRace());
+      await service.setCancellationMode('remove');
+
+      const report = await service.reconcile([later], now);
+
+      expect(report?.entries[0]).toMatchObject({ action: 'removed', raceId: 'spa-week-1' });
+      expect(calendar.events.size).toBe(0);
+      expect(service.isInCalendar('spa-week-1')).toBe(false);
+    });
+
+    it('should report events the device calendar rejects and keep them for the next sync', async () => {
+      const event = await service.addRace(createRace());
+      calendar.events.delete(event.eventId);
+
+      const report = await service.reconcile([createRace({ durationMinutes: 60 }), later], now);
+
+      expect(report?.entries[0]).toMatchObject({
+        action: 'failed',
+        changes: ['time', 'description'],
+      });
+      expect(service.getEvent('spa-week-1')).toEqual(event);
+    });
+
+    it('should persist the report and cancellation mode', async () => {
+      await service.addRace(createRace());
+      await service.setCancellationMode('remove');
+      const report = await service.reconcile([later], now);
+
+      const reloaded = new CalendarService(calendar, store);
+      await reloaded.load();
+
+      expect(reloaded.getState()).toMatchObject({ lastReport: report, cancellationMode: 'remove' });
+
+      await reloaded.dismissReport();
+      const cleared = new CalendarService(calendar, store);
+      await cleared.load();
+
+      expect(cleared.getState().lastReport).toBeNull();
+    });
+  });
+
+  describe('load', () => {
+    it('should skip invalid stored events', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      await store.setItem(STORAGE_KEYS.CALENDAR_MAPPINGS, JSON.stringify([{ eventId: 'broken' }]));
+
+      await service.load();
+
+      expect(service.getState()).toMatchObject({ events: [], isLoading: false });
+      warn.mockRestore();
+    });
+  });
+});
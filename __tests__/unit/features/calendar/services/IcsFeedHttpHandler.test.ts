@@ -0,0 +1,109 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  ICS_FEED_PATH,
+  IcsFeedHttpHandler,
+} from '../../../../../src/features/calendar/services/IcsFeedHttpHandler';
+import type { IcsFeedService } from '../../../../../src/features/calendar/services/IcsFeedService';
+
+const FEED_BODY = 'BEGIN:VCALENDAR\r\nDTSTAMP:20251110T120000Z\r\nEND:VCALENDAR\r\n';
+
+/**
+ * Serves a handler from a local HTTP server for the duration of a test
+ */
+const serve = async (
+  handler: IcsFeedHttpHandler,
+): Promise<{ url: string; close: () => Promise<void> }> => {
+  const server = http.createServer(async (req, res) => {
+    const response = await handler.handle({
+      method: req.method ?? 'GET',
+      url: req.url ?? '/',
+      headers: req.headers as Record<string, string | undefined>,
+    });
+    res.writeHead(response.status, response.headers);
+    res.end(response.body);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+};
+
+const request = (
+  url: string,
+  options: http.RequestOptions = {},
+): Promise<{ status: number; headers: http.IncomingHttpHeaders; body: string }> =>
+  new Promise((resolve, reject) => {
+    const req = http.request(url, options, res => {
+      let body = '';
+      res.setEncoding('utf8');
+      res.on('data', chunk => (body += chunk));
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, headers: res.headers, body }));
+    });
+    req.on('error', reject);
+    req.end();
+  });
+
+describe('IcsFeedHttpHandler', () => {
+  let render: jest.Mock;
+  let handler: IcsFeedHttpHandler;
+
+  beforeEach(() => {
+    render = jest.fn().mockResolvedValue({ body: FEED_BODY, eventCount: 0 });
+    handler = new IcsFeedHttpHandler({ render } as unknown as IcsFeedService);
+  });
+
+  it('should serve the feed over HTTP', async () => {
+    const server = await serve(handler);
+    try {
+      const response = await request(`${server.url}${ICS_FEED_PATH}`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('text/calendar; charset=utf-8');
+      expect(response.headers.etag).toMatch(/^"[0-9a-f]{8}"$/);
+      expect(response.body).toBe(FEED_BODY);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('should answer 304 when the feed only differs by DTSTAMP', async () => {
+    const first = await handler.handle({ method: 'GET', url: ICS_FEED_PATH });
+    render.mockResolvedValue({ body: FEED_BODY.replace('120000Z', '130000Z'), eventCount: 0 });
+
+    const second = await handler.handle({
+      method: 'GET',
+      url: `http://localhost:8080${ICS_FEED_PATH}?token=abc`,
+      headers: { 'if-none-match': first.headers.ETag },
+    });
+
+    expect(second).toMatchObject({ status: 304, body: '' });
+  });
+
+  it('should leave out the body for HEAD requests', async () => {
+    const response = await handler.handle({ method: 'HEAD', url: ICS_FEED_PATH });
+
+    expect(response).toMatchObject({ status: 200, body: '' });
+  });
+
+  it('should answer 404 for other paths and 405 for other methods', async () => {
+    expect((await handler.handle({ method: 'GET', url: '/feeds/other.ics' })).status).toBe(404);
+
+    const response = await handler.handle({ method: 'POST', url: ICS_FEED_PATH });
+    expect(response.status).toBe(405);
+    expect(response.headers.Allow).toBe('GET, HEAD');
+  });
+
+  it('should answer 500 when the feed cannot be rendered', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    render.mockRejectedValue(new Error('storage failed'));
+
+    const response = await handler.handle({ method: 'GET', url: ICS_FEED_PATH });
+
+    expect(response.status).toBe(500);
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,104 @@
+import { IcsFeedService } from '../../../../../src/features/calendar/services/IcsFeedService';
+import { AsyncStorageScheduleRepository } from '../../../../../src/features/schedules/services/AsyncStorageScheduleRepository';
+import { AsyncStorageFavoritesRepository } from '../../../../../src/features/favorites/services/AsyncStorageFavoritesRepository';
+import {
+  createSeriesRule,
+  getSeriesId,
+} from '../../../../../src/features/favorites/utils/seriesMatching';
+import { MemoryKeyValueStore } from '../../../../../src/shared/storage/MemoryKeyValueStore';
+import { createRace } from '../../../../fixtures/races';
+
+const spa = createRace();
+const monza = createRace({ id: 'monza-week-1', trackName: 'Monza', carClass: 'LMP2' });
+const daily = createRace({ id: 'daily-1', type: 'daily', tier: 'beginner', trackName: 'Imola' });
+
+/**
+ * Gets the value of a property in the VEVENT with the given UID
+ */
+const eventProperty = (ics: string, raceId: string, name: string): string | undefined => {
+  const event = ics
+    .replace(/\r\n /g, '')
+    .split('BEGIN:VEVENT\r\n')
+    .find(block => block.startsWith(`UID:race-${raceId}@`));
+  return event
+    ?.split('\r\n')
+    .find(line => line.startsWith(`${name}:`))
+    ?.slice(name.length + 1);
+};
+
+describe('IcsFeedService', () => {
+  let store: MemoryKeyValueStore;
+  let schedule: AsyncStorageScheduleRepository;
+  let favorites: AsyncStorageFavoritesRepository;
+  let feed: IcsFeedService;
+
+  beforeEach(async () => {
+    store = new MemoryKeyValueStore();
+    schedule = new AsyncStorageScheduleRepository({ store });
+    favorites = new AsyncStorageFavoritesRepository(store);
+    feed = new IcsFeedService(schedule, favorites, store);
+
+    await schedule.saveSchedule([spa, monza, daily]);
+    await favorites.addFavorite({
+      raceId: 'spa-week-1',
+      favoritedAt: new Date('2025-11-01T10:00:00Z'),
+      notificationEnabled: true,
+      reminderLeadMinutes: 30,
+    });
+    const rule = createSeriesRule(monza);
+    await favorites.addSeriesFavorite({
+      id: getSeriesId(rule),
+      rule,
+      favoritedAt: new Date('2025-11-01T10:00:00Z'),
+      notificationEnabled: false,
+    });
+  });
+
+  it('should publish races favorited by ID or by series', async () => {
+    const { body, eventCount } = await feed.render(new Date('2025-11-10T12:00:00Z'));
+
+    expect(eventCount).toBe(2);
+    expect(body).toContain('UID:race-spa-week-1@racesync.app');
+    expect(body).toContain('UID:race-monza-week-1@racesync.app');
+    expect(body).not.toContain('UID:race-daily-1@racesync.app');
+    expect(body).toContain('REFRESH-INTERVAL;VALUE=DURATION:PT60M');
+  });
+
+  it('should use the favorite reminder lead time for alarms', async () => {
+    const { body } = await feed.render();
+
+    expect(eventProperty(body, 'spa-week-1', 'TRIGGER')).toBe('-PT15M');
+    expect(eventProperty(body, 'monza-week-1', 'TRIGGER')).toBe('PT0M');
+  });
+
+  it('should raise SEQUENCE only for races that changed since the last render', async () => {
+    await feed.render();
+    await schedule.saveSchedule([createRace({ startTime: '2025-11-15T20:00:00Z' }), monza, daily]);
+
+    const { body } = await feed.render();
+
+    expect(eventProperty(body, 'spa-week-1', 'SEQUENCE')).toBe('1');
+    expect(eventProperty(body, 'monza-week-1', 'SEQUENCE')).toBeUndefined();
+  });
+
+  it('should keep SEQUENCE across renders and services', async () => {
+    await feed.render();
+    await schedule.saveSchedule([createRace({ weatherCondition: 'Dynamic' }), monza, daily]);
+    await feed.render();
+    await feed.render();
+
+    const { body } = await new IcsFeedService(schedule, favorites, store).render();
+
+    expect(eventProperty(body, 'spa-week-1', 'SEQUENCE')).toBe('1');
+  });
+
+  it('should drop races that are no longer favorited', async () => {
+    await feed.render();
+    await favorites.removeFavorite('spa-week-1');
+
+    const { body, eventCount } = await feed.render();
+
+    expect(eventCount).toBe(1);
+    expect(body).not.toContain('UID:race-spa-week-1@racesync.app');
+  });
+});
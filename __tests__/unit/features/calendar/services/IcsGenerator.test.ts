@@ -0,0 +1,132 @@
+import {
+  IcsGenerator,
+  escapeIcsText,
+  foldIcsLine,
+} from '../../../../../src/features/calendar/services/IcsGenerator';
+import type { PracticeSession } from '../../../../../src/features/calendar/types/PracticeSession';
+import { createRace } from '../../../../fixtures/races';
+
+const session: PracticeSession = {
+  id: 'ps_spa-week-1_1',
+  raceId: 'spa-week-1',
+  sessionType: 'Qualifying Simulation',
+  durationMinutes: 45,
+  scheduleOffsetDays: 2,
+  suggestedStartTime: '2025-11-13T20:00:00',
+  weatherCondition: 'Clear',
+  timeOfDay: 'Night',
+  trackTemperature: null,
+};
+
+const now = new Date('2025-11-10T12:00:00Z');
+
+/**
+ * Unfolds the document and returns the lines of the nth VEVENT
+ */
+const eventLines = (ics: string, index = 0): string[] => {
+  const events = ics.replace(/\r\n /g, '').split('BEGIN:VEVENT\r\n').slice(1);
+  return events[index].split('\r\nEND:VEVENT')[0].split('\r\n');
+};
+
+describe('IcsGenerator', () => {
+  const generator = new IcsGenerator();
+
+  it('should write a VCALENDAR with CRLF line endings', () => {
+    const ics = generator.generate([createRace()], { now, calendarName: 'RaceSync' });
+
+    expect(
+      ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\nPRODID:-//RaceSync//RaceSync//EN\r\n'),
+    ).toBe(true);
+    expect(ics).toContain('\r\nX-WR-CALNAME:RaceSync\r\n');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toContain('\n');
+  });
+
+  it('should write a race event with the pre-race buffer and a stable UID', () => {
+    const lines = eventLines(generator.generate([createRace()], { now }));
+
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        'UID:race-spa-week-1@racesync.app',
+        'DTSTAMP:20251110T120000Z',
+        'DTSTART:20251115T184500Z',
+        'DURATION:PT60M',
+        'SUMMARY:LMU Race: Spa-Francorchamps - Hypercar',
+        'LOCATION:Spa-Francorchamps',
+      ]),
+    );
+    expect(eventLines(generator.generate([createRace({ durationMinutes: 60 })]))[0]).toBe(lines[0]);
+  });
+
+  it('should set the alarm at the reminder lead time before the race start', () => {
+    const ics = generator.generate([createRace(), createRace({ id: 'other' })], {
+      now,
+      getReminderLeadMinutes: race => (race.id === 'other' ? null : 60),
+    });
+
+    // DTSTART is 15 minutes before the race, so 60 minutes before the race is -45 minutes
+    expect(eventLines(ics, 0)).toContain('TRIGGER:-PT45M');
+    expect(eventLines(ics, 1)).not.toContain('BEGIN:VALARM');
+  });
+
+  it('should default to the standard reminder lead time', () => {
+    expect(eventLines(generator.generate([createRace()], { now }))).toContain('TRIGGER:PT0M');
+  });
+
+  it('should add an RRULE for repeating daily races only', () => {
+    const daily = createRace({ id: 'daily', type: 'daily', tier: 'beginner', repeatInterval: 20 });
+
+    const ics = generator.generate([daily, createRace()], { now });
+
+    expect(eventLines(ics, 0)).toContain('RRULE:FREQ=MINUTELY;INTERVAL=20;COUNT=72');
+    expect(eventLines(ics, 1).some(line => line.startsWith('RRULE'))).toBe(false);
+  });
+
+  it('should write practice sessions at their local start time', () => {
+    const ics = generator.generate([], {
+      now,
+      practiceSessions: [{ session, race: createRace() }],
+    });
+
+    expect(eventLines(ics)).toEqual(
+      expect.arrayContaining([
+        'UID:practice-ps_spa-week-1_1@racesync.app',
+        'DTSTART:20251113T200000',
+        'DURATION:PT45M',
+        'SUMMARY:Practice: Qualifying Simulation - Spa-Francorchamps',
+        'TRIGGER:PT0M',
+      ]),
+    );
+  });
+
+  it('should escape descriptions', () => {
+    const lines = eventLines(generator.generate([createRace()], { now }));
+
+    expect(lines).toContain(
+      'DESCRIPTION:Hypercar race at Spa-Francorchamps\\nType: Weekly\\nDuration: 45 min' +
+        '\\nWeather: Clear\\nTime: Night\\nLicense: Silver',
+    );
+  });
+
+  describe('escapeIcsText', () => {
+    it('should escape backslashes, semicolons, commas and newlines', () => {
+      expect(escapeIcsText('a\\b;c,d\ne')).toBe('a\\\\b\\;c\\,d\\ne');
+    });
+  });
+
+  describe('foldIcsLine', () => {
+    it('should fold lines longer than 75 octets', () => {
+      const folded = foldIcsLine(`SUMMARY:${'x'.repeat(100)}`).split('\r\n');
+
+      expect(folded.map(line => line.length)).toEqual([75, 34]);
+      expect(folded[1].startsWith(' ')).toBe(true);
+    });
+
+    it('should not split multi-byte characters', () => {
+      const folded = foldIcsLine(`SUMMARY:${'é'.repeat(40)}`).split('\r\n');
+
+      expect(Buffer.byteLength(folded[0])).toBeLessThanOrEqual(75);
+      expect(folded.join('').replace(/ /g, '')).toBe(`SUMMARY:${'é'.repeat(40)}`);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  CalendarAccessError,
+  CalendarService,
+} from '../../../../../src/features/calendar/services/CalendarService';
+import { MemoryDeviceCalendarAdapter } from '../../../../../src/features/calendar/services/MemoryDeviceCalendarAdapter';
+import {
+  PracticePlanError,
+  PracticePlanner,
+} from '../../../../../src/features/calendar/services/PracticePlanner';
+import { NotificationService } from '../../../../../src/features/notifications/services/NotificationService';
+import { MemoryNotificationScheduler } from '../../../../../src/features/notifications/services/MemoryNotificationScheduler';
+import { MemoryKeyValueStore } from '../../../../../src/shared/storage/MemoryKeyValueStore';
+import { createRace } from '../../../../fixtures/races';
+
+const NOW = new Date(2024, 2, 1, 9, 0);
+
+// Races start at 14:30 local time, so expectations hold in any time zone
+const race = createRace({ startTime: new Date(2024, 2, 15, 14, 30).toISOString() });
+
+describe('PracticePlanner', () => {
+  let calendar: MemoryDeviceCalendarAdapter;
+  let scheduler: MemoryNotificationScheduler;
+  let calendarService: CalendarService;
+  let planner: PracticePlanner;
+
+  beforeEach(() => {
+    const store = new MemoryKeyValueStore();
+    calendar = new MemoryDeviceCalendarAdapter();
+    scheduler = new MemoryNotificationScheduler();
+    calendarService = new CalendarService(calendar, store);
+    planner = new PracticePlanner(calendarService, new NotificationService(scheduler, store));
+  });
+
+  it('should add the race and one event per session to the calendar', async () => {
+    const plan = await planner.schedule(race, planner.plan(race, NOW), NOW);
+
+    expect(calendarService.isInCalendar(race.id)).toBe(true);
+    expect(plan.sessionEvents.map(e => [e.raceId, e.practiceSessionId, e.startTime])).toEqual([
+      [null, 'ps_spa-week-1_0', '2024-03-12T14:30:00'],
+      [null, 'ps_spa-week-1_1', '2024-03-13T14:30:00'],
+      [null, 'ps_spa-week-1_2', '2024-03-14T14:30:00'],
+    ]);
+    expect(calendar.events.get(plan.sessionEvents[1].eventId)).toMatchObject({
+      title: 'Practice: Qualifying Simulation - Spa-Francorchamps',
+      endTime: '2024-03-13T15:15:00',
+    });
+    expect(calendar.events.size).toBe(4);
+  });
+
+  it('should schedule a reminder at the start of each session', async () => {
+    const { reminders } = await planner.schedule(race, planner.plan(race, NOW), NOW);
+
+    expect(reminders).toHaveLength(3);
+    expect(reminders[0]).toMatchObject({
+      notificationType: 'practice-reminder',
+      triggerTime: new Date(2024, 2, 12, 14, 30).toISOString(),
+      body: 'Track Familiarization session for Spa-Francorchamps starts now',
+      raceId: null,
+      practiceSessionId: 'ps_spa-week-1_0',
+    });
+    expect(scheduler.scheduled.size).toBe(3);
+  });
+
+  it('should not duplicate events or reminders when scheduled twice', async () => {
+    const sessions = planner.plan(race, NOW);
+
+    const first = await planner.schedule(race, sessions, NOW);
+    const second = await planner.schedule(race, sessions, NOW);
+
+    expect(second.sessionEvents).toEqual(first.sessionEvents);
+    expect(second.reminders).toEqual(first.reminders);
+    expect(calendar.events.size).toBe(4);
+    expect(scheduler.scheduled.size).toBe(3);
+  });
+
+  it('should reject sessions that end after the race starts', async () => {
+    const [session] = planner.plan(race, NOW);
+
+    await expect(
+      planner.schedule(race, [{ ...session, suggestedStartTime: '2024-03-15T14:15:00' }], NOW),
+    ).rejects.toThrow(PracticePlanError);
+    expect(calendar.events.size).toBe(0);
+  });
+
+  it('should reject sessions planned for another race', () => {
+    const sessions = planner.plan({ ...race, id: 'monza-week-1' }, NOW);
+
+    expect(() => planner.validate(race, sessions)).toThrow(PracticePlanError);
+  });
+
+  it('should fail with CalendarAccessError without calendar access', async () => {
+    const store = new MemoryKeyValueStore();
+    const denied = new PracticePlanner(
+      new CalendarService(new MemoryDeviceCalendarAdapter({ granted: false }), store),
+      new NotificationService(scheduler, store),
+    );
+    await expect(denied.schedule(race, denied.plan(race, NOW), NOW)).rejects.toThrow(
+      CalendarAccessError,
+    );
+    expect(scheduler.scheduled.size).toBe(0);
+  });
+});
@@ -0,0 +1,93 @@
+import {
+  buildRaceEventDetails,
+  formatLocalDateTime,
+  formatPracticeEventDescription,
+  formatPracticeEventTitle,
+  formatRaceEventDescription,
+} from '../../../../../src/features/calendar/utils/calendarEventBuilder';
+import type { PracticeSession } from '../../../../../src/features/calendar/types/PracticeSession';
+import { createRace } from '../../../../fixtures/races';
+
+describe('calendarEventBuilder', () => {
+  describe('formatLocalDateTime', () => {
+    it('should format a date in local time without an offset', () => {
+      expect(formatLocalDateTime(new Date(2024, 2, 15, 14, 15, 0))).toBe('2024-03-15T14:15:00');
+    });
+  });
+
+  describe('buildRaceEventDetails', () => {
+    it('should build the title and location from the track and car class', () => {
+      const details = buildRaceEventDetails(createRace());
+
+      expect(details.title).toBe('LMU Race: Spa-Francorchamps - Hypercar');
+      expect(details.location).toBe('Spa-Francorchamps');
+    });
+
+    it('should start 15 minutes before the race and end when the race ends', () => {
+      const details = buildRaceEventDetails(createRace());
+
+      // Local date-times without an offset parse back in the same local time zone
+      expect(new Date(details.startTime).toISOString()).toBe('2025-11-15T18:45:00.000Z');
+      expect(new Date(details.endTime).toISOString()).toBe('2025-11-15T19:45:00.000Z');
+    });
+  });
+
+  describe('formatRaceEventDescription', () => {
+    it('should list the race details', () => {
+      const race = createRace({ trackConfiguration: 'Grand Prix', weatherCondition: 'Dynamic' });
+
+      expect(formatRaceEventDescription(race)).toBe(
+        [
+          'Hypercar race at Spa-Francorchamps',
+          'Layout: Grand Prix',
+          'Type: Weekly',
+          'Duration: 45 min',
+          'Weather: Dynamic',
+          'Time: Night',
+          'License: Silver',
+        ].join('\n'),
+      );
+    });
+
+    it('should include the tier and leave out a missing layout', () => {
+      const description = formatRaceEventDescription(
+        createRace({ type: 'daily', tier: 'beginner' }),
+      );
+
+      expect(description).toContain('Type: Daily (beginner)');
+      expect(description).not.toContain('Layout:');
+    });
+  });
+
+  describe('practice events', () => {
+    const session: PracticeSession = {
+      id: 'ps_spa-week-1_1',
+      raceId: 'spa-week-1',
+      sessionType: 'Qualifying Simulation',
+      durationMinutes: 45,
+      scheduleOffsetDays: 2,
+      suggestedStartTime: '2024-03-13T14:30:00',
+      weatherCondition: 'Dynamic',
+      timeOfDay: 'Afternoon',
+      trackTemperature: '28°C',
+    };
+
+    it('should build the title from the session type and track', () => {
+      expect(formatPracticeEventTitle(session, createRace())).toBe(
+        'Practice: Qualifying Simulation - Spa-Francorchamps',
+      );
+    });
+
+    it('should list the session details', () => {
+      expect(formatPracticeEventDescription(session)).toBe(
+        [
+          'Qualifying Simulation practice session',
+          'Duration: 45 min',
+          'Weather: Dynamic',
+          'Time: Afternoon',
+          'Track temperature: 28°C',
+        ].join('\n'),
+      );
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  getEventChanges,
+  planCalendarSync,
+} from '../../../../../src/features/calendar/utils/calendarReconciliation';
+import { buildRaceEventDetails } from '../../../../../src/features/calendar/utils/calendarEventBuilder';
+import type { CalendarEvent } from '../../../../../src/features/calendar/types/CalendarEvent';
+import type { Race } from '../../../../../src/features/schedules/types/Race';
+import { createRace } from '../../../../fixtures/races';
+
+const createEvent = (race: Race, overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+  eventId: `event-${race.id}`,
+  raceId: race.id,
+  practiceSessionId: null,
+  ...buildRaceEventDetails(race),
+  calendarId: 'primary',
+  createdAt: '2025-11-01T10:00:00.000Z',
+  ...overrides,
+});
+
+const now = new Date('2025-11-10T12:00:00Z');
+
+describe('calendarReconciliation', () => {
+  describe('getEventChanges', () => {
+    it('should list the changed fields', () => {
+      const before = buildRaceEventDetails(createRace());
+      const after = buildRaceEventDetails(
+        createRace({ startTime: '2025-11-15T20:00:00Z', weatherCondition: 'Dynamic' }),
+      );
+
+      expect(getEventChanges(before, after)).toEqual(['time', 'description']);
+      expect(getEventChanges(before, before)).toEqual([]);
+    });
+  });
+
+  describe('planCalendarSync', () => {
+    it('should update events whose race changed', () => {
+      const race = createRace();
+      const moved = createRace({ startTime: '2025-11-15T21:00:00Z', trackName: 'Monza' });
+
+      const plan = planCalendarSync([createEvent(race)], [moved], now);
+
+      expect(plan.cancellations).toEqual([]);
+      expect(plan.updates).toEqual([
+        {
+          event: createEvent(race),
+          details: buildRaceEventDetails(moved),
+          changes: ['title', 'location', 'time', 'description'],
+        },
+      ]);
+    });
+
+    it('should leave unchanged events alone', () => {
+      const race = createRace();
+
+      expect(planCalendarSync([createEvent(race)], [race], now)).toEqual({
+        updates: [],
+        cancellations: [],
+      });
+    });
+
+    it('should cancel events whose race disappeared within the schedule', () => {
+      const gone = createRace({ id: 'gone' });
+      const later = createRace({ id: 'later', startTime: '2025-11-20T19:00:00Z' });
+
+      const plan = planCalendarSync([createEvent(gone)], [later], now);
+
+      expect(plan.cancellations).toEqual([createEvent(gone)]);
+    });
+
+    it.each([
+      [
+        'races past the schedule horizon',
+        createRace({ id: 'far', startTime: '2025-12-20T19:00:00Z' }),
+        {},
+      ],
+      [
+        'races that already ended',
+        createRace({ id: 'past', startTime: '2025-11-01T19:00:00Z' }),
+        {},
+      ],
+      [
+        'events already cancelled',
+        createRace({ id: 'gone' }),
+        { cancelledAt: '2025-11-09T00:00:00Z' },
+      ],
+      [
+        'practice session events',
+        createRace({ id: 'gone' }),
+        { raceId: null, practiceSessionId: 'ps-1' },
+      ],
+    ])('should not cancel %s', (_description, race, overrides) => {
+      const scheduled = createRace({ id: 'scheduled', startTime: '2025-11-20T19:00:00Z' });
+
+      const plan = planCalendarSync([createEvent(race, overrides)], [scheduled], now);
+
+      expect(plan.cancellations).toEqual([]);
+    });
+
+    it('should restore a cancelled event when its race comes back', () => {
+      const race = createRace();
+      const cancelled = createEvent(race, {
+        title: `Cancelled: ${buildRaceEventDetails(race).title}`,
+        cancelledAt: '2025-11-09T00:00:00Z',
+      });
+
+      const plan = planCalendarSync([cancelled], [race], now);
+
+      expect(plan.updates).toHaveLength(1);
+      expect(plan.updates[0].changes).toEqual(['title']);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import {
+  generatePracticeSessions,
+  isSessionBeforeRace,
+} from '../../../../../src/features/calendar/utils/practiceScheduling';
+import { createRace } from '../../../../fixtures/races';
+
+// Races start at 14:30 local time, so expectations hold in any time zone
+const race = createRace({ startTime: new Date(2024, 2, 15, 14, 30).toISOString() });
+
+describe('practiceScheduling', () => {
+  describe('generatePracticeSessions', () => {
+    it('should schedule three sessions 3, 2 and 1 days before the race at its local time', () => {
+      const sessions = generatePracticeSessions(race, new Date(2024, 2, 1));
+
+      expect(sessions.map(s => [s.sessionType, s.durationMinutes, s.suggestedStartTime])).toEqual([
+        ['Track Familiarization', 30, '2024-03-12T14:30:00'],
+        ['Qualifying Simulation', 45, '2024-03-13T14:30:00'],
+        ['Race Pace', 45, '2024-03-14T14:30:00'],
+      ]);
+    });
+
+    it('should copy the race conditions and give each session a stable ID', () => {
+      const now = new Date(2024, 2, 1);
+      const [session] = generatePracticeSessions(race, now);
+
+      expect(session).toMatchObject({
+        id: 'ps_spa-week-1_0',
+        raceId: 'spa-week-1',
+        weatherCondition: 'Clear',
+        timeOfDay: 'Night',
+        trackTemperature: null,
+      });
+      expect(generatePracticeSessions(race, now)[0].id).toBe(session.id);
+    });
+
+    it('should move sessions whose day has passed to the next free slots', () => {
+      const sessions = generatePracticeSessions(race, new Date(2024, 2, 13, 20, 7));
+
+      expect(sessions.map(s => [s.sessionType, s.suggestedStartTime])).toEqual([
+        ['Track Familiarization', '2024-03-13T20:15:00'],
+        ['Qualifying Simulation', '2024-03-13T20:45:00'],
+        ['Race Pace', '2024-03-14T14:30:00'],
+      ]);
+    });
+
+    it('should leave out sessions that can no longer finish before the race', () => {
+      const sessions = generatePracticeSessions(race, new Date(2024, 2, 15, 13, 20));
+
+      expect(sessions.map(s => [s.sessionType, s.suggestedStartTime])).toEqual([
+        ['Track Familiarization', '2024-03-15T13:30:00'],
+      ]);
+    });
+
+    it('should plan nothing once the race has started', () => {
+      expect(generatePracticeSessions(race, new Date(2024, 2, 15, 14, 35))).toEqual([]);
+    });
+  });
+
+  describe('isSessionBeforeRace', () => {
+    it('should require the session to end by the race start', () => {
+      const [session] = generatePracticeSessions(race, new Date(2024, 2, 1));
+
+      expect(isSessionBeforeRace(session, race)).toBe(true);
+      expect(
+        isSessionBeforeRace({ ...session, suggestedStartTime: '2024-03-15T14:15:00' }, race),
+      ).toBe(false);
+      expect(
+        isSessionBeforeRace({ ...session, suggestedStartTime: '2024-03-15T14:00:00' }, race),
+      ).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import {
+  FavoritesBackupSerializer,
+  FavoritesImportError,
+  UnsupportedBackupVersionError,
+} from '../../../../../src/features/favorites/services/FavoritesBackupSerializer';
+import { AsyncStorageFavoritesRepository } from '../../../../../src/features/favorites/services/AsyncStorageFavoritesRepository';
+import type { Favorite } from '../../../../../src/features/favorites/types/Favorite';
+import type { SeriesFavorite } from '../../../../../src/features/favorites/types/SeriesFavorite';
+import type { FavoritesBackup } from '../../../../../src/features/favorites/types/FavoritesBackup';
+import { MemoryKeyValueStore } from '../../../../../src/shared/storage/MemoryKeyValueStore';
+
+const favorite = (raceId: string, overrides: Partial<Favorite> = {}): Favorite => ({
+  raceId,
+  favoritedAt: new Date('2025-01-01T12:00:00.000Z'),
+  notificationEnabled: false,
+  ...overrides,
+});
+
+const series: SeriesFavorite = {
+  id: 'series:weekly:-:Spa-Francorchamps:Hypercar:6',
+  rule: {
+    type: 'weekly',
+    tier: null,
+    trackName: 'Spa-Francorchamps',
+    carClass: 'Hypercar',
+    weekday: 6,
+    timeZone: 'Europe/Paris',
+  },
+  favoritedAt: new Date('2025-02-01T08:00:00.000Z'),
+  notificationEnabled: true,
+};
+
+const document = (overrides: Record<string, unknown> = {}): string =>
+  JSON.stringify({
+    format: 'racesync-favorites',
+    version: 1,
+    exportedAt: '2025-11-15T12:00:00.000Z',
+    favorites: [
+      { raceId: 'race-1', favoritedAt: '2025-01-01T12:00:00.000Z', notificationEnabled: false },
+    ],
+    ...overrides,
+  });
+
+describe('FavoritesBackupSerializer', () => {
+  const serializer = new FavoritesBackupSerializer();
+
+  const readError = (data: string): unknown => {
+    try {
+      serializer.parse(data);
+    } catch (error) {
+      return error;
+    }
+    return undefined;
+  };
+
+  describe('serialize', () => {
+    it('should write a versioned document that parses back to the same favorites', () => {
+      const backup: FavoritesBackup = {
+        favorites: [
+          favorite('race-1', { note: 'Quali only', tags: ['league'], reminderLeadMinutes: 30 }),
+        ],
+        series: [series],
+      };
+
+      const json = serializer.serialize(backup, new Date('2025-11-15T12:00:00Z'));
+
+      expect(JSON.parse(json)).toMatchObject({
+        format: 'racesync-favorites',
+        version: 1,
+        exportedAt: '2025-11-15T12:00:00.000Z',
+      });
+      expect(serializer.parse(json)).toEqual(backup);
+    });
+
+    it('should leave out series when there are none', () => {
+      const json = serializer.serialize({ favorites: [favorite('race-1')], series: [] });
+
+      expect(JSON.parse(json)).not.toHaveProperty('series');
+    });
+  });
+
+  describe('parse', () => {
+    it('should accept a document without series', () => {
+      expect(serializer.parse(document())).toEqual({ favorites: [favorite('race-1')], series: [] });
+    });
+
+    it('should normalize details, recompute series IDs and drop duplicates', () => {
+      const backup = serializer.parse(
+        document({
+          favorites: [
+            {
+              raceId: 'race-1',
+              favoritedAt: '2025-01-01T12:00:00.000Z',
+              notificationEnabled: false,
+              note: '  ',
+              tags: ['a', 'A'],
+            },
+            {
+              raceId: 'race-1',
+              favoritedAt: '2025-03-01T12:00:00.000Z',
+              notificationEnabled: true,
+            },
+          ],
+          series: [{ ...series, id: 'tampered' }],
+        }),
+      );
+
+      expect(backup.favorites).toEqual([favorite('race-1', { tags: ['a'] })]);
+      expect(backup.series[0].id).toBe(series.id);
+    });
+
+    it('should reject files from a newer app version', () => {
+      const parse = () => serializer.parse(document({ version: 2 }));
+
+      expect(parse).toThrow(UnsupportedBackupVersionError);
+      expect(parse).toThrow('version 2');
+    });
+
+    it.each<[string, string, string | undefined]>([
+      ['not JSON', '{favorites', undefined],
+      ['another format', document({ format: 'other-app' }), 'format'],
+      ['a fractional version', document({ version: 1.5 }), 'version'],
+      ['favorites that are not an array', document({ favorites: {} }), 'favorites'],
+      [
+        'a favorite without a date',
+        document({ favorites: [{ raceId: 'race-1', notificationEnabled: true }] }),
+        'favorites[0].favoritedAt',
+      ],
+      [
+        'an invalid lead time',
+        document({
+          favorites: [
+            {
+              raceId: 'race-1',
+              favoritedAt: '2025-01-01T12:00:00.000Z',
+              notificationEnabled: true,
+              reminderLeadMinutes: -5,
+            },
+          ],
+        }),
+        'favorites[0].reminderLeadMinutes',
+      ],
+      [
+        'an unknown car class',
+        document({ series: [{ ...series, rule: { ...series.rule, carClass: 'GT500' } }] }),
+        'series[0].rule.carClass',
+      ],
+      [
+        'a weekday without a time zone',
+        document({ series: [{ ...series, rule: { ...series.rule, timeZone: undefined } }] }),
+        'series[0].rule.timeZone',
+      ],
+    ])('should reject %s', (_description, data, path) => {
+      const error = readError(data);
+
+      expect(error).toBeInstanceOf(FavoritesImportError);
+      expect((error as FavoritesImportError).path).toBe(path);
+    });
+  });
+});
+
+describe('AsyncStorageFavoritesRepository.importFavorites', () => {
+  let repository: AsyncStorageFavoritesRepository;
+
+  beforeEach(async () => {
+    repository = new AsyncStorageFavoritesRepository(new MemoryKeyValueStore());
+    await repository.replaceAll([favorite('race-1', { note: 'local' }), favorite('race-2')]);
+  });
+
+  const backup: FavoritesBackup = {
+    favorites: [favorite('race-1', { note: 'imported' }), favorite('race-3')],
+    series: [series],
+  };
+
+  it('should add new favorites and keep existing ones when merging', async () => {
+    await repository.importFavorites(backup, 'merge');
+
+    expect(await repository.getFavorites()).toEqual([
+      favorite('race-1', { note: 'local' }),
+      favorite('race-2'),
+      favorite('race-3'),
+    ]);
+    expect(await repository.getSeriesFavorites()).toEqual([series]);
+  });
+
+  it('should replace favorites and series when replacing', async () => {
+    await repository.addSeriesFavorite({ ...series, id: 'series:other' });
+
+    await repository.importFavorites(backup, 'replace');
+
+    expect(await repository.getFavorites()).toEqual(backup.favorites);
+    expect(await repository.getSeriesFavorites()).toEqual([series]);
+  });
+});
@@ -2,6 +2,9 @@ import { AsyncStorageFavoritesRepository } from '../../../../../src/features/fav
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { STORAGE_KEYS } from '../../../../../src/shared/constants/storageKeys';
 import type { Favorite } from '../../../../../src/features/favorites/types/Favorite';
+import type { PendingRelink } from '../../../../../src/features/favorites/types/FavoriteRelink';
+import type { Race } from '../../../../../src/features/schedules/types/Race';
+import { MemoryKeyValueStore } from '../../../../../src/shared/storage/MemoryKeyValueStore';
 
 // Mock AsyncStorage
 jest.mock('@react-native-async-storage/async-storage', () => ({
@@ -225,4 +228,247 @@ describe('FavoritesRepository', () => {
       expect(result).toBe(false);
     });
   });
+
+  describe('removeFavorites', () => {
+    it('should remove several favorites in one write', async () => {
+      const existingFavorites: Favorite[] = ['race-1', 'race-2', 'race-3'].map(raceId => ({
+        raceId,
+        favoritedAt: new Date('2025-01-01T12:00:00Z'),
+        notificationEnabled: false,
+      }));
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify(existingFavorites));
+
+      await repository.removeFavorites(['race-1', 'race-3', 'non-existent']);
+
+      expect(AsyncStorage.setItem).toHaveBeenCalledTimes(1);
+      expect(AsyncStorage.setItem).toHaveBeenCalledWith(
+        STORAGE_KEYS.FAVORITES,
+        JSON.stringify([existingFavorites[1]]),
+      );
+    });
+  });
+
+  describe('updateFavorite', () => {
+    it('should store normalized details on the matching favorite only', async () => {
+      const existingFavorites: Favorite[] = ['race-1', 'race-2'].map(raceId => ({
+        raceId,
+        favoritedAt: new Date('2025-01-01T12:00:00Z'),
+        notificationEnabled: false,
+      }));
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify(existingFavorites));
+
+      await repository.updateFavorite('race-2', {
+        note: '  brake early into T1 ',
+        tags: ['league', 'League', ' wet '],
+        reminderLeadMinutes: 30,
+      });
+
+      expect(AsyncStorage.setItem).toHaveBeenCalledWith(
+        STORAGE_KEYS.FAVORITES,
+        JSON.stringify([
+          existingFavorites[0],
+          {
+            ...existingFavorites[1],
+            note: 'brake early into T1',
+            tags: ['league', 'wet'],
+            reminderLeadMinutes: 30,
+          },
+        ]),
+      );
+    });
+
+    it('should reject an invalid lead time without writing', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(
+        JSON.stringify([
+          { raceId: 'race-1', favoritedAt: '2025-01-01T12:00:00Z', notificationEnabled: false },
+        ]),
+      );
+
+      const update = repository.updateFavorite('race-1', { reminderLeadMinutes: -5 });
+
+      await expect(update).rejects.toThrow('Invalid reminder lead time');
+      expect(AsyncStorage.setItem).not.toHaveBeenCalled();
+    });
+
+    it('should keep a date-like note and tags as strings', async () => {
+      const memoryRepository = new AsyncStorageFavoritesRepository(new MemoryKeyValueStore());
+      await memoryRepository.addFavorite({
+        raceId: 'race-1',
+        favoritedAt: new Date('2025-01-01T12:00:00Z'),
+        notificationEnabled: false,
+      });
+
+      await memoryRepository.updateFavorite('race-1', {
+        note: '2025-11-15T19:00:00Z',
+        tags: ['2025-11-22T19:00:00Z'],
+      });
+
+      const [favorite] = await memoryRepository.getFavorites();
+      expect(favorite.favoritedAt).toEqual(new Date('2025-01-01T12:00:00Z'));
+      expect(favorite.note).toBe('2025-11-15T19:00:00Z');
+      expect(favorite.tags).toEqual(['2025-11-22T19:00:00Z']);
+    });
+  });
+
+  describe('replaceAll', () => {
+    it('should replace the stored list and drop duplicate raceIds', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+      const first: Favorite = {
+        raceId: 'race-1',
+        favoritedAt: new Date('2025-01-01T12:00:00Z'),
+        notificationEnabled: true,
+      };
+      const duplicate: Favorite = { ...first, notificationEnabled: false };
+
+      await repository.replaceAll([first, duplicate]);
+
+      expect(AsyncStorage.setItem).toHaveBeenCalledWith(
+        STORAGE_KEYS.FAVORITES,
+        JSON.stringify([first]),
+      );
+    });
+  });
+
+  describe('relinks', () => {
+    const favorite = (raceId: string): Favorite => ({
+      raceId,
+      favoritedAt: new Date('2025-01-01T12:00:00Z'),
+      notificationEnabled: false,
+    });
+    const previousRace: Race = {
+      id: 'old-id',
+      type: 'daily',
+      tier: 'beginner',
+      trackName: 'Monza',
+      trackConfiguration: null,
+      carClass: 'LMGT3',
+      startTime: '2025-11-15T14:00:00Z',
+      durationMinutes: 20,
+      weatherCondition: 'Clear',
+      timeOfDay: 'Afternoon',
+      licenseRequirement: 'Bronze',
+      repeatInterval: 30,
+      isLive: false,
+    };
+    const pending = (raceId: string): PendingRelink => ({
+      favorite: favorite(raceId),
+      previousRace: { ...previousRace, id: raceId },
+      candidates: [{ raceId: 'candidate', confidence: 0.7 }],
+      detectedAt: new Date('2025-11-15T12:00:00Z'),
+    });
+
+    let memoryRepository: AsyncStorageFavoritesRepository;
+
+    beforeEach(async () => {
+      memoryRepository = new AsyncStorageFavoritesRepository(new MemoryKeyValueStore());
+      await memoryRepository.replaceAll([favorite('kept'), favorite('moved'), favorite('waiting')]);
+    });
+
+    it('should move relinked favorites and park pending ones in one write', async () => {
+      await memoryRepository.applyRelinks(
+        [{ fromRaceId: 'moved', favorite: favorite('new-id'), confidence: 1 }],
+        [pending('waiting')],
+      );
+
+      expect((await memoryRepository.getFavorites()).map(f => f.raceId)).toEqual([
+        'kept',
+        'new-id',
+      ]);
+      const [stored] = await memoryRepository.getPendingRelinks();
+      expect(stored).toEqual(pending('waiting'));
+      // Race times stay ISO strings; only the relink's own dates are revived
+      expect(stored.previousRace.startTime).toBe('2025-11-15T14:00:00Z');
+    });
+
+    it('should not bring back favorites removed while the merge ran', async () => {
+      await memoryRepository.removeFavorites(['moved', 'waiting']);
+
+      await memoryRepository.applyRelinks(
+        [{ fromRaceId: 'moved', favorite: favorite('new-id'), confidence: 1 }],
+        [pending('waiting')],
+      );
+
+      expect((await memoryRepository.getFavorites()).map(f => f.raceId)).toEqual(['kept']);
+      expect(await memoryRepository.getPendingRelinks()).toEqual([]);
+    });
+
+    it('should confirm or dismiss pending relinks', async () => {
+      await memoryRepository.applyRelinks([], [pending('moved'), pending('waiting')]);
+
+      await memoryRepository.resolvePendingRelink('moved', 'candidate');
+      await memoryRepository.resolvePendingRelink('waiting', null);
+
+      expect((await memoryRepository.getFavorites()).map(f => f.raceId)).toEqual([
+        'kept',
+        'candidate',
+      ]);
+      expect(await memoryRepository.getPendingRelinks()).toEqual([]);
+    });
+  });
+
+  describe('concurrent writes', () => {
+    /**
+     * Memory store whose reads and writes finish after a varying number of
+     * ticks, so unqueued read-modify-writes would interleave
+     */
+    class SlowStore extends MemoryKeyValueStore {
+      private calls = 0;
+
+      private async yieldTicks(): Promise<void> {
+        const ticks = (this.calls++ * 7) % 5;
+        for (let i = 0; i < ticks; i++) {
+          await Promise.resolve();
+        }
+      }
+
+      async getItem(key: string): Promise<string | null> {
+        await this.yieldTicks();
+        return super.getItem(key);
+      }
+
+      async setItem(key: string, value: string): Promise<void> {
+        await this.yieldTicks();
+        return super.setItem(key, value);
+      }
+    }
+
+    const favorite = (raceId: string): Favorite => ({
+      raceId,
+      favoritedAt: new Date('2025-01-01T12:00:00Z'),
+      notificationEnabled: false,
+    });
+
+    it('should not lose updates when many writes overlap', async () => {
+      const store = new SlowStore();
+      const repo = new AsyncStorageFavoritesRepository(store);
+      const ids = Array.from({ length: 100 }, (_, i) => `race-${i}`);
+
+      await Promise.all([
+        ...ids.map(id => repo.addFavorite(favorite(id))),
+        // Remove every tenth race while the adds are still queued
+        ...ids.filter((_, i) => i % 10 === 0).map(id => repo.removeFavorite(id)),
+        repo.removeFavorites(['race-1', 'race-2']),
+      ]);
+
+      const stored = (await repo.getFavorites()).map(f => f.raceId);
+      const expected = ids.filter((id, i) => i % 10 !== 0 && id !== 'race-1' && id !== 'race-2');
+      expect(stored).toEqual(expected);
+    });
+
+    it('should keep processing writes after one fails', async () => {
+      const store = new MemoryKeyValueStore();
+      const repo = new AsyncStorageFavoritesRepository(store);
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      jest.spyOn(store, 'setItem').mockRejectedValueOnce(new Error('disk full'));
+
+      const results = await Promise.allSettled([
+        repo.addFavorite(favorite('race-1')),
+        repo.addFavorite(favorite('race-2')),
+      ]);
+
+      expect(results.map(r => r.status)).toEqual(['rejected', 'fulfilled']);
+      expect((await repo.getFavorites()).map(f => f.raceId)).toEqual(['race-2']);
+    });
+  });
 });
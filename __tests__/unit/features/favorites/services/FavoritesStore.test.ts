@@ -0,0 +1,241 @@
+import { FavoritesStore } from '../../../../../src/features/favorites/services/FavoritesStore';
+import { AsyncStorageFavoritesRepository } from '../../../../../src/features/favorites/services/AsyncStorageFavoritesRepository';
+import type { FavoritesRepository } from '../../../../../src/features/favorites/services/FavoritesRepository';
+import type { Favorite } from '../../../../../src/features/favorites/types/Favorite';
+import { MemoryKeyValueStore } from '../../../../../src/shared/storage/MemoryKeyValueStore';
+import { createRace } from '../../../../fixtures/races';
+
+const favorite = (raceId: string): Favorite => ({
+  raceId,
+  favoritedAt: new Date('2025-01-01T12:00:00Z'),
+  notificationEnabled: false,
+});
+
+describe('FavoritesStore', () => {
+  let repository: FavoritesRepository;
+  let store: FavoritesStore;
+
+  beforeEach(async () => {
+    repository = new AsyncStorageFavoritesRepository(new MemoryKeyValueStore());
+    await repository.replaceAll([favorite('race-1')]);
+    store = new FavoritesStore(repository);
+  });
+
+  describe('load', () => {
+    it('should start empty and loading', () => {
+      expect(store.getState()).toMatchObject({ favorites: [], isLoading: true });
+    });
+
+    it('should read the repository only once', async () => {
+      const getFavorites = jest.spyOn(repository, 'getFavorites');
+
+      await Promise.all([store.load(), store.load()]);
+      await store.load();
+
+      expect(getFavorites).toHaveBeenCalledTimes(1);
+      expect(store.getState().isLoading).toBe(false);
+      expect(store.isFavorite('race-1')).toBe(true);
+    });
+
+    it('should reload on refresh', async () => {
+      await store.load();
+      await repository.addFavorite(favorite('race-2'));
+
+      await store.refresh();
+
+      expect(store.isFavorite('race-2')).toBe(true);
+    });
+
+    it('should load as empty when the repository fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      jest.spyOn(repository, 'getFavorites').mockRejectedValue(new Error('Storage error'));
+
+      await store.load();
+
+      expect(store.getState()).toMatchObject({ favorites: [], isLoading: false });
+    });
+  });
+
+  describe('changes', () => {
+    beforeEach(async () => {
+      await store.load();
+    });
+
+    it('should notify every subscriber after a change', async () => {
+      const first = jest.fn();
+      const second = jest.fn();
+      store.subscribe(first);
+      store.subscribe(second);
+
+      await store.addFavorite('race-2');
+
+      expect(first).toHaveBeenCalledTimes(1);
+      expect(second).toHaveBeenCalledTimes(1);
+      expect(store.getState().favorites.map(f => f.raceId)).toEqual(['race-1', 'race-2']);
+      expect((await repository.getFavorites()).map(f => f.raceId)).toEqual(['race-1', 'race-2']);
+    });
+
+    it('should stop notifying after unsubscribe', async () => {
+      const listener = jest.fn();
+      const unsubscribe = store.subscribe(listener);
+
+      unsubscribe();
+      await store.removeFavorite('race-1');
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(store.isFavorite('race-1')).toBe(false);
+    });
+
+    it('should toggle favorite status', async () => {
+      await store.toggleFavorite('race-1');
+      expect(store.isFavorite('race-1')).toBe(false);
+
+      await store.toggleFavorite('race-1', true);
+      expect(store.getState().favorites).toEqual([
+        expect.objectContaining({ raceId: 'race-1', notificationEnabled: true }),
+      ]);
+    });
+
+    it('should not notify when nothing changed', async () => {
+      const listener = jest.fn();
+      store.subscribe(listener);
+      const before = store.getState();
+
+      await store.removeFavorite('not-favorited');
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(store.getState()).toBe(before);
+    });
+
+    it('should update favorite details and keep them across reloads', async () => {
+      const listener = jest.fn();
+      store.subscribe(listener);
+
+      await store.updateFavorite('race-1', { note: 'Quali only', tags: ['league'] });
+      await store.updateFavorite('race-1', { reminderLeadMinutes: 60 });
+
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(store.getFavorite('race-1')).toMatchObject({
+        note: 'Quali only',
+        tags: ['league'],
+        reminderLeadMinutes: 60,
+      });
+
+      const reloaded = new FavoritesStore(repository);
+      await reloaded.load();
+      expect(reloaded.getFavorite('race-1')).toEqual(store.getFavorite('race-1'));
+    });
+
+    it('should leave state unchanged when the write fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      jest.spyOn(repository, 'addFavorite').mockRejectedValue(new Error('disk full'));
+
+      await expect(store.addFavorite('race-2')).rejects.toThrow('disk full');
+
+      expect(store.isFavorite('race-2')).toBe(false);
+    });
+  });
+
+  describe('series favorites', () => {
+    beforeEach(async () => {
+      await store.load();
+    });
+
+    it('should favorite every race in the series and persist the rule', async () => {
+      await store.addSeriesFavorite(createRace());
+
+      expect(store.isRaceFavorited(createRace({ id: 'spa-week-2' }))).toBe(true);
+      expect(store.isRaceFavorited(createRace({ id: 'monza', trackName: 'Monza' }))).toBe(false);
+      expect(store.isFavorite('spa-week-2')).toBe(false);
+      expect(await repository.getSeriesFavorites()).toEqual([
+        expect.objectContaining({ id: 'series:weekly:-:Spa-Francorchamps:Hypercar:-' }),
+      ]);
+    });
+
+    it('should load series favorites with race favorites', async () => {
+      await store.addSeriesFavorite(createRace());
+
+      const reloaded = new FavoritesStore(repository);
+      await reloaded.load();
+
+      expect(
+        reloaded.getMatchingSeries(createRace({ id: 'spa-week-3' }))?.favoritedAt,
+      ).toBeInstanceOf(Date);
+    });
+
+    it('should not add the same series twice', async () => {
+      await store.addSeriesFavorite(createRace());
+      await store.addSeriesFavorite(createRace({ id: 'spa-week-2' }));
+
+      expect(store.getState().series).toHaveLength(1);
+      expect(await repository.getSeriesFavorites()).toHaveLength(1);
+    });
+
+    it('should stop matching after the series is removed', async () => {
+      await store.addSeriesFavorite(createRace());
+      const series = store.getMatchingSeries(createRace());
+
+      await store.removeSeriesFavorite(series!.id);
+
+      expect(store.isRaceFavorited(createRace())).toBe(false);
+      expect(await repository.getSeriesFavorites()).toEqual([]);
+    });
+  });
+
+  describe('mergeSchedule', () => {
+    beforeEach(async () => {
+      await store.load();
+    });
+
+    it('should move a favorite to the race that only changed ID', async () => {
+      await store.mergeSchedule([createRace({ id: 'race-1' })], [createRace({ id: 'spa-week-2' })]);
+
+      expect(store.isFavorite('race-1')).toBe(false);
+      expect(store.isFavorite('spa-week-2')).toBe(true);
+      expect((await repository.getFavorites()).map(f => f.raceId)).toEqual(['spa-week-2']);
+    });
+
+    it('should keep favorites of races after the end of the refreshed schedule', async () => {
+      await store.mergeSchedule(
+        [createRace({ id: 'race-1', startTime: '2025-11-29T19:00:00Z' })],
+        [createRace({ id: 'monza', trackName: 'Monza', startTime: '2025-11-22T19:00:00Z' })],
+      );
+
+      expect(store.isFavorite('race-1')).toBe(true);
+    });
+  });
+
+  describe('pending relinks', () => {
+    beforeEach(async () => {
+      await repository.addFavorite(favorite('race-2'));
+      await repository.applyRelinks(
+        [],
+        ['race-1', 'race-2'].map(raceId => ({
+          favorite: favorite(raceId),
+          previousRace: createRace({ id: raceId }),
+          candidates: [{ raceId: 'spa-week-2', confidence: 0.7 }],
+          detectedAt: new Date('2025-11-15T12:00:00Z'),
+        })),
+      );
+      await store.load();
+    });
+
+    it('should load favorites waiting for review', () => {
+      expect(store.getState().pendingRelinks.map(p => p.favorite.raceId)).toEqual([
+        'race-1',
+        'race-2',
+      ]);
+      expect(store.isFavorite('race-1')).toBe(false);
+    });
+
+    it('should favorite the confirmed race and drop dismissed ones', async () => {
+      await store.confirmRelink('race-1', 'spa-week-2');
+      await store.dismissRelink('race-2');
+
+      expect(store.getState().pendingRelinks).toEqual([]);
+      expect(store.getState().favorites.map(f => f.raceId)).toEqual(['spa-week-2']);
+      expect(await repository.getPendingRelinks()).toEqual([]);
+      expect((await repository.getFavorites()).map(f => f.raceId)).toEqual(['spa-week-2']);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import {
+  FAVORITE_NOTE_MAX_LENGTH,
+  applyFavoriteDetails,
+  getReminderLeadMinutes,
+  getReminderTriggerTime,
+  isValidReminderLead,
+  normalizeNote,
+  normalizeTags,
+  parseTagInput,
+} from '../../../../../src/features/favorites/utils/favoriteDetails';
+import type { Favorite } from '../../../../../src/features/favorites/types/Favorite';
+import { NOTIFICATION_TIMING } from '../../../../../src/features/notifications/types/Notification';
+
+const createFavorite = (overrides: Partial<Favorite> = {}): Favorite => ({
+  raceId: 'race-1',
+  favoritedAt: new Date('2025-01-01T12:00:00Z'),
+  notificationEnabled: true,
+  ...overrides,
+});
+
+describe('favoriteDetails', () => {
+  describe('normalizeNote', () => {
+    it('should trim notes and drop empty ones', () => {
+      expect(normalizeNote('  fuel for 12 laps ')).toBe('fuel for 12 laps');
+      expect(normalizeNote('   ')).toBeUndefined();
+    });
+
+    it('should cap the note length', () => {
+      expect(normalizeNote('x'.repeat(FAVORITE_NOTE_MAX_LENGTH + 10))).toHaveLength(
+        FAVORITE_NOTE_MAX_LENGTH,
+      );
+    });
+  });
+
+  describe('normalizeTags', () => {
+    it('should drop empty and duplicate tags, keeping the first spelling', () => {
+      expect(normalizeTags([' league ', 'League', '', 'wet'])).toEqual(['league', 'wet']);
+    });
+  });
+
+  describe('parseTagInput', () => {
+    it('should split comma-separated input', () => {
+      expect(parseTagInput('league, wet,,setup-test ')).toEqual(['league', 'wet', 'setup-test']);
+      expect(parseTagInput('')).toEqual([]);
+    });
+  });
+
+  describe('isValidReminderLead', () => {
+    it.each<[unknown, boolean]>([
+      [0, true],
+      [30, true],
+      [1440, true],
+      [1441, false],
+      [-1, false],
+      [7.5, false],
+      ['15', false],
+      [NaN, false],
+    ])('should treat %p as %s', (minutes, expected) => {
+      expect(isValidReminderLead(minutes)).toBe(expected);
+    });
+  });
+
+  describe('applyFavoriteDetails', () => {
+    it('should set normalized details', () => {
+      expect(
+        applyFavoriteDetails(createFavorite(), {
+          note: ' Quali only ',
+          tags: ['league', 'LEAGUE'],
+          reminderLeadMinutes: 5,
+        }),
+      ).toEqual(createFavorite({ note: 'Quali only', tags: ['league'], reminderLeadMinutes: 5 }));
+    });
+
+    it('should keep details that were not edited', () => {
+      const favorite = createFavorite({ note: 'Quali only', tags: ['league'] });
+
+      expect(applyFavoriteDetails(favorite, { reminderLeadMinutes: 60 })).toEqual({
+        ...favorite,
+        reminderLeadMinutes: 60,
+      });
+    });
+
+    it('should clear details set to empty values', () => {
+      const favorite = createFavorite({
+        note: 'Quali only',
+        tags: ['league'],
+        reminderLeadMinutes: 60,
+      });
+
+      expect(
+        applyFavoriteDetails(favorite, { note: '', tags: [], reminderLeadMinutes: null }),
+      ).toEqual(createFavorite());
+    });
+
+    it('should throw on an invalid lead time', () => {
+      expect(() => applyFavoriteDetails(createFavorite(), { reminderLeadMinutes: 2000 })).toThrow(
+        'Invalid reminder lead time: 2000',
+      );
+    });
+  });
+
+  describe('getReminderTriggerTime', () => {
+    it('should use the default lead time when none is set', () => {
+      expect(getReminderLeadMinutes(createFavorite())).toBe(NOTIFICATION_TIMING.FAVORITE_REMINDER);
+    });
+
+    it('should fire the custom lead time before the start', () => {
+      expect(
+        getReminderTriggerTime('2025-11-15T14:00:00Z', createFavorite({ reminderLeadMinutes: 60 })),
+      ).toEqual(new Date('2025-11-15T13:00:00Z'));
+    });
+  });
+});
@@ -0,0 +1,214 @@
+import {
+  MAX_RELINK_CANDIDATES,
+  findRelinkCandidates,
+  isConfidentRelink,
+  planFavoriteRelinks,
+  scoreRelinkCandidate,
+} from '../../../../../src/features/favorites/utils/favoriteRelinking';
+import type { Favorite } from '../../../../../src/features/favorites/types/Favorite';
+import type { PendingRelink } from '../../../../../src/features/favorites/types/FavoriteRelink';
+import type { Race } from '../../../../../src/features/schedules/types/Race';
+import { createDailyRace } from '../../../../fixtures/races';
+
+// Favorites start out on the race with ID 'old-id'
+const createRace = (overrides: Partial<Race> = {}): Race =>
+  createDailyRace({ id: 'old-id', ...overrides });
+
+const favorite = (raceId: string): Favorite => ({
+  raceId,
+  favoritedAt: new Date('2025-01-01T12:00:00Z'),
+  notificationEnabled: false,
+});
+
+const now = new Date('2025-11-15T12:00:00Z');
+
+describe('favoriteRelinking', () => {
+  describe('scoreRelinkCandidate', () => {
+    const previous = createRace();
+
+    it('should give an identical race full confidence', () => {
+      expect(scoreRelinkCandidate(previous, createRace({ id: 'new-id' }))).toBe(1);
+    });
+
+    it('should lower confidence as the start time moves away', () => {
+      expect(
+        scoreRelinkCandidate(previous, createRace({ startTime: '2025-11-15T14:30:00Z' })),
+      ).toBe(0.85);
+      expect(
+        scoreRelinkCandidate(previous, createRace({ startTime: '2025-11-15T13:00:00Z' })),
+      ).toBe(0.7);
+    });
+
+    it('should lower confidence when the layout or duration changed', () => {
+      expect(scoreRelinkCandidate(previous, createRace({ trackConfiguration: 'Junior' }))).toBe(
+        0.8,
+      );
+      expect(
+        scoreRelinkCandidate(
+          previous,
+          createRace({ trackConfiguration: null, durationMinutes: 25 }),
+        ),
+      ).toBe(0.6);
+    });
+
+    it.each<[string, Partial<Race>]>([
+      ['type', { type: 'weekly', tier: null }],
+      ['tier', { tier: 'advanced' }],
+      ['track', { trackName: 'Spa-Francorchamps' }],
+      ['car class', { carClass: 'LMGT3' }],
+      ['start time beyond the window', { startTime: '2025-11-15T16:30:00Z' }],
+    ])('should not match a race with a different %s', (_field, overrides) => {
+      expect(scoreRelinkCandidate(previous, createRace(overrides))).toBe(0);
+    });
+  });
+
+  describe('findRelinkCandidates', () => {
+    it('should return plausible races, best first', () => {
+      const races = [
+        createRace({ id: 'later', startTime: '2025-11-15T14:30:00Z' }),
+        createRace({ id: 'same', startTime: '2025-11-15T14:00:00Z' }),
+        createRace({ id: 'far', startTime: '2025-11-15T15:55:00Z', trackConfiguration: null }),
+        createRace({ id: 'other', trackName: 'Spa-Francorchamps' }),
+      ];
+
+      expect(findRelinkCandidates(createRace(), races)).toEqual([
+        { raceId: 'same', confidence: 1 },
+        { raceId: 'later', confidence: 0.85 },
+      ]);
+    });
+  });
+
+  describe('isConfidentRelink', () => {
+    it.each([
+      [[{ raceId: 'a', confidence: 0.9 }], true],
+      [[{ raceId: 'a', confidence: 0.7 }], false],
+      [
+        [
+          { raceId: 'a', confidence: 1 },
+          { raceId: 'b', confidence: 0.85 },
+        ],
+        true,
+      ],
+      [
+        [
+          { raceId: 'a', confidence: 0.9 },
+          { raceId: 'b', confidence: 0.85 },
+        ],
+        false,
+      ],
+      [[], false],
+    ])('should treat %j as %s', (candidates, expected) => {
+      expect(isConfidentRelink(candidates)).toBe(expected);
+    });
+  });
+
+  describe('planFavoriteRelinks', () => {
+    it('should relink confident matches and keep favorite details', () => {
+      const orphan = { ...favorite('old-id'), note: 'practice T1 braking' };
+
+      const plan = planFavoriteRelinks({
+        orphans: [orphan],
+        previousRaces: [createRace()],
+        pending: [],
+        races: [createRace({ id: 'new-id' })],
+        favoritedRaceIds: new Set(),
+        now,
+      });
+
+      expect(plan).toEqual({
+        relinked: [
+          {
+            fromRaceId: 'old-id',
+            favorite: { ...orphan, raceId: 'new-id' },
+            confidence: 1,
+          },
+        ],
+        pending: [],
+        removed: [],
+      });
+    });
+
+    it('should keep ambiguous matches for review', () => {
+      const races = ['14:30', '13:30', '15:00', '13:00'].map(time =>
+        createRace({ id: time, startTime: `2025-11-15T${time}:00Z` }),
+      );
+
+      const plan = planFavoriteRelinks({
+        orphans: [favorite('old-id')],
+        previousRaces: [createRace()],
+        pending: [],
+        races,
+        favoritedRaceIds: new Set(),
+        now,
+      });
+
+      expect(plan.relinked).toEqual([]);
+      expect(plan.pending).toEqual([
+        {
+          favorite: favorite('old-id'),
+          previousRace: createRace(),
+          candidates: expect.any(Array),
+          detectedAt: now,
+        },
+      ]);
+      expect(plan.pending[0].candidates).toHaveLength(MAX_RELINK_CANDIDATES);
+      expect(plan.pending[0].candidates.slice(0, 2).map(c => c.raceId)).toEqual(['14:30', '13:30']);
+    });
+
+    it('should remove orphans with no candidates or no known previous race', () => {
+      const plan = planFavoriteRelinks({
+        orphans: [favorite('old-id'), favorite('unknown')],
+        previousRaces: [createRace()],
+        pending: [],
+        races: [createRace({ id: 'spa', trackName: 'Spa-Francorchamps' })],
+        favoritedRaceIds: new Set(),
+        now,
+      });
+
+      expect(plan.removed).toEqual(['unknown', 'old-id']);
+    });
+
+    it('should not relink to races already favorited or claimed', () => {
+      const plan = planFavoriteRelinks({
+        orphans: [favorite('old-id'), favorite('old-twin')],
+        previousRaces: [createRace(), createRace({ id: 'old-twin' })],
+        pending: [],
+        races: [createRace({ id: 'taken' }), createRace({ id: 'free' })],
+        favoritedRaceIds: new Set(['taken']),
+        now,
+      });
+
+      expect(plan.relinked.map(r => r.favorite.raceId)).toEqual(['free']);
+      expect(plan.removed).toEqual(['old-twin']);
+    });
+
+    it('should re-evaluate pending relinks and drop the ones with no candidates left', () => {
+      const pending = (raceId: string): PendingRelink => ({
+        favorite: favorite(raceId),
+        previousRace: createRace({ id: raceId }),
+        candidates: [],
+        detectedAt: new Date('2025-11-14T12:00:00Z'),
+      });
+
+      const settled = planFavoriteRelinks({
+        orphans: [],
+        previousRaces: [],
+        pending: [pending('old-id')],
+        races: [createRace({ id: 'new-id' })],
+        favoritedRaceIds: new Set(),
+        now,
+      });
+      const gone = planFavoriteRelinks({
+        orphans: [],
+        previousRaces: [],
+        pending: [pending('old-id')],
+        races: [],
+        favoritedRaceIds: new Set(),
+        now,
+      });
+
+      expect(settled.relinked.map(r => r.favorite.raceId)).toEqual(['new-id']);
+      expect(gone).toEqual({ relinked: [], pending: [], removed: [] });
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import {
+  createSeriesRule,
+  findMatchingSeries,
+  getRaceWeekday,
+  getSeriesId,
+  matchesSeries,
+} from '../../../../../src/features/favorites/utils/seriesMatching';
+import type { Race } from '../../../../../src/features/schedules/types/Race';
+import type { SeriesFavorite } from '../../../../../src/features/favorites/types/SeriesFavorite';
+import { createRace } from '../../../../fixtures/races';
+
+describe('seriesMatching', () => {
+  describe('getRaceWeekday', () => {
+    it('should evaluate the weekday in the given time zone', () => {
+      expect(getRaceWeekday('2025-11-15T23:30:00Z', 'UTC')).toBe(6);
+      expect(getRaceWeekday('2025-11-15T23:30:00Z', 'Europe/Paris')).toBe(0);
+    });
+  });
+
+  describe('createSeriesRule', () => {
+    it('should describe the race without a weekday by default', () => {
+      expect(createSeriesRule(createRace())).toEqual({
+        type: 'weekly',
+        tier: null,
+        trackName: 'Spa-Francorchamps',
+        carClass: 'Hypercar',
+        weekday: null,
+      });
+    });
+
+    it('should capture the weekday and time zone when asked to', () => {
+      // Saturday 23:30 UTC = Sunday 00:30 in Paris
+      const rule = createSeriesRule(createRace({ startTime: '2025-11-15T23:30:00Z' }), {
+        includeWeekday: true,
+        timeZone: 'Europe/Paris',
+      });
+
+      expect(rule).toMatchObject({ weekday: 0, timeZone: 'Europe/Paris' });
+    });
+  });
+
+  describe('getSeriesId', () => {
+    it('should give equal rules the same ID', () => {
+      const first = createSeriesRule(createRace({ id: 'week-1' }));
+      const second = createSeriesRule(
+        createRace({ id: 'week-2', startTime: '2025-11-22T20:00:00Z' }),
+      );
+
+      expect(getSeriesId(first)).toBe(getSeriesId(second));
+      expect(getSeriesId(first)).toBe('series:weekly:-:Spa-Francorchamps:Hypercar:-');
+    });
+  });
+
+  describe('matchesSeries', () => {
+    const rule = createSeriesRule(createRace());
+
+    it('should match races from later schedules with new IDs', () => {
+      expect(
+        matchesSeries(createRace({ id: 'next-week', startTime: '2025-11-22T19:00:00Z' }), rule),
+      ).toBe(true);
+    });
+
+    it.each<[string, Partial<Race>]>([
+      ['type', { type: 'special' }],
+      ['tier', { type: 'weekly', tier: 'beginner' }],
+      ['track', { trackName: 'Monza' }],
+      ['car class', { carClass: 'LMP2' }],
+    ])('should not match a race with a different %s', (_field, overrides) => {
+      expect(matchesSeries(createRace(overrides), rule)).toBe(false);
+    });
+
+    it('should only match the same weekday when the rule has one', () => {
+      const weekdayRule = createSeriesRule(createRace(), { includeWeekday: true, timeZone: 'UTC' });
+
+      expect(matchesSeries(createRace({ startTime: '2025-11-22T10:00:00Z' }), weekdayRule)).toBe(
+        true,
+      );
+      expect(matchesSeries(createRace({ startTime: '2025-11-23T10:00:00Z' }), weekdayRule)).toBe(
+        false,
+      );
+    });
+  });
+
+  describe('findMatchingSeries', () => {
+    it('should return the first matching series favorite', () => {
+      const rule = createSeriesRule(createRace());
+      const series: SeriesFavorite = {
+        id: getSeriesId(rule),
+        rule,
+        favoritedAt: new Date('2025-01-01T12:00:00Z'),
+        notificationEnabled: false,
+      };
+
+      expect(findMatchingSeries(createRace(), [series])).toBe(series);
+      expect(findMatchingSeries(createRace({ trackName: 'Monza' }), [series])).toBeUndefined();
+    });
+  });
+});
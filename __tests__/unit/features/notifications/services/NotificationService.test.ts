@@ -0,0 +1,87 @@
+import { NotificationService } from '../../../../../src/features/notifications/services/NotificationService';
+import { MemoryNotificationScheduler } from '../../../../../src/features/notifications/services/MemoryNotificationScheduler';
+import { unavailableNotificationScheduler } from '../../../../../src/features/notifications/services/NotificationScheduler';
+import { generatePracticeSessions } from '../../../../../src/features/calendar/utils/practiceScheduling';
+import { STORAGE_KEYS } from '../../../../../src/shared/constants/storageKeys';
+import { MemoryKeyValueStore } from '../../../../../src/shared/storage/MemoryKeyValueStore';
+import { createRace } from '../../../../fixtures/races';
+
+// Races start at 14:30 local time, so expectations hold in any time zone
+const race = createRace({ startTime: new Date(2024, 2, 15, 14, 30).toISOString() });
+
+const sessions = generatePracticeSessions(race, new Date(2024, 2, 1));
+
+describe('NotificationService', () => {
+  let store: MemoryKeyValueStore;
+  let scheduler: MemoryNotificationScheduler;
+  let service: NotificationService;
+
+  beforeEach(() => {
+    store = new MemoryKeyValueStore();
+    scheduler = new MemoryNotificationScheduler();
+    service = new NotificationService(scheduler, store);
+  });
+
+  describe('isAvailable', () => {
+    it('should report whether the scheduler can show notifications', () => {
+      expect(service.isAvailable()).toBe(true);
+      expect(new NotificationService(unavailableNotificationScheduler, store).isAvailable()).toBe(
+        false,
+      );
+    });
+  });
+
+  describe('schedulePracticeReminders', () => {
+    it('should persist the scheduled reminders', async () => {
+      const reminders = await service.schedulePracticeReminders(
+        race,
+        sessions,
+        new Date(2024, 2, 1),
+      );
+
+      expect(reminders.map(r => r.id)).toEqual([...scheduler.scheduled.keys()]);
+      expect(await new NotificationService(scheduler, store).getNotifications()).toEqual(reminders);
+    });
+
+    it('should skip sessions that have already started', async () => {
+      const reminders = await service.schedulePracticeReminders(
+        race,
+        sessions,
+        new Date(2024, 2, 13, 14, 30),
+      );
+
+      expect(reminders.map(r => r.practiceSessionId)).toEqual(['ps_spa-week-1_2']);
+    });
+
+    it('should schedule nothing without notification permission', async () => {
+      const denied = new NotificationService(
+        new MemoryNotificationScheduler({ granted: false }),
+        store,
+      );
+
+      await expect(
+        denied.schedulePracticeReminders(race, sessions, new Date(2024, 2, 1)),
+      ).resolves.toEqual([]);
+      expect(await store.getItem(STORAGE_KEYS.SCHEDULED_NOTIFICATIONS)).toBeNull();
+    });
+
+    it('should not lose reminders scheduled concurrently', async () => {
+      const now = new Date(2024, 2, 1);
+
+      await Promise.all(
+        sessions.map(session => service.schedulePracticeReminders(race, [session], now)),
+      );
+
+      expect(await service.getNotifications()).toHaveLength(3);
+    });
+  });
+
+  describe('getNotifications', () => {
+    it('should return an empty list when storage holds invalid JSON', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      await store.setItem(STORAGE_KEYS.SCHEDULED_NOTIFICATIONS, '{not json');
+
+      expect(await service.getNotifications()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { AsyncStorageRaceRuleRepository } from '../../../../../src/features/rules/services/AsyncStorageRaceRuleRepository';
+import { RaceRulesStore } from '../../../../../src/features/rules/services/RaceRulesStore';
+import type { RaceRule } from '../../../../../src/features/rules/types/RaceRule';
+import { STORAGE_KEYS } from '../../../../../src/shared/constants/storageKeys';
+import { MemoryKeyValueStore } from '../../../../../src/shared/storage/MemoryKeyValueStore';
+import { createRace } from '../../../../fixtures/races';
+
+const createRule = (overrides: Partial<RaceRule> = {}): RaceRule => ({
+  id: 'rule-1',
+  name: 'LMGT3 in real weather',
+  conditions: [
+    { field: 'carClass', operator: 'is', value: 'LMGT3' },
+    { field: 'weatherCondition', operator: 'is', value: 'Real Weather' },
+  ],
+  action: 'autoFavorite',
+  enabled: true,
+  createdAt: new Date('2025-01-01T12:00:00Z'),
+  ...overrides,
+});
+
+const race = createRace({ carClass: 'LMGT3', weatherCondition: 'Real Weather' });
+
+describe('AsyncStorageRaceRuleRepository', () => {
+  it('should add, replace and remove rules', async () => {
+    const repository = new AsyncStorageRaceRuleRepository(new MemoryKeyValueStore());
+
+    await repository.saveRule(createRule());
+    await repository.saveRule(createRule({ id: 'rule-2', action: 'smartFilter' }));
+    await repository.saveRule(createRule({ name: 'Renamed' }));
+    await repository.removeRule('rule-2');
+
+    const rules = await repository.getRules();
+    expect(rules).toHaveLength(1);
+    expect(rules[0].name).toBe('Renamed');
+    expect(rules[0].createdAt).toBeInstanceOf(Date);
+  });
+
+  it('should skip malformed stored rules', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const store = new MemoryKeyValueStore({
+      [STORAGE_KEYS.RACE_RULES]: JSON.stringify([createRule(), { id: 'broken' }]),
+    });
+
+    const rules = await new AsyncStorageRaceRuleRepository(store).getRules();
+
+    expect(rules.map(rule => rule.id)).toEqual(['rule-1']);
+  });
+});
+
+describe('RaceRulesStore', () => {
+  it('should load rules and find auto-favorite matches', async () => {
+    const repository = new AsyncStorageRaceRuleRepository(new MemoryKeyValueStore());
+    await repository.saveRule(createRule());
+    const store = new RaceRulesStore(repository);
+
+    await store.load();
+
+    expect(store.getState().isLoading).toBe(false);
+    expect(store.getAutoFavoriteRule(race)?.id).toBe('rule-1');
+    expect(store.getAutoFavoriteRule({ ...race, carClass: 'LMP2' })).toBeUndefined();
+  });
+
+  it('should notify subscribers when rules change', async () => {
+    const store = new RaceRulesStore(new AsyncStorageRaceRuleRepository(new MemoryKeyValueStore()));
+    await store.load();
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    await store.saveRule(createRule());
+    await store.saveRule(createRule({ enabled: false }));
+    await store.removeRule('rule-1');
+
+    expect(listener).toHaveBeenCalledTimes(3);
+    expect(store.getState().rules).toEqual([]);
+  });
+});
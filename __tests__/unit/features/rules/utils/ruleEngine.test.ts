@@ -0,0 +1,196 @@
+import {
+  evaluateCondition,
+  filterByRule,
+  findAutoFavoriteRule,
+  getSmartFilterRules,
+  isRaceRule,
+  isRuleCondition,
+  matchesRule,
+} from '../../../../../src/features/rules/utils/ruleEngine';
+import type { RaceRule, RuleCondition } from '../../../../../src/features/rules/types/RaceRule';
+import type { Race } from '../../../../../src/features/schedules/types/Race';
+import { createRace } from '../../../../fixtures/races';
+
+// Only the fields the rules below test differ from the shared fixture
+const createLeMansRace = (overrides: Partial<Race> = {}): Race =>
+  createRace({
+    trackName: 'Circuit de la Sarthe (Le Mans)',
+    carClass: 'Multi-class',
+    durationMinutes: 360,
+    weatherCondition: 'Real Weather',
+    licenseRequirement: 'Gold',
+    ...overrides,
+  });
+
+const createRule = (overrides: Partial<RaceRule> = {}): RaceRule => ({
+  id: 'rule-1',
+  name: 'Gold Multi-class at Le Mans',
+  conditions: [
+    { field: 'licenseRequirement', operator: 'is', value: 'Gold' },
+    { field: 'carClass', operator: 'is', value: 'Multi-class' },
+    { field: 'trackName', operator: 'contains', value: 'le mans' },
+  ],
+  action: 'autoFavorite',
+  enabled: true,
+  createdAt: new Date('2025-01-01T12:00:00Z'),
+  ...overrides,
+});
+
+describe('ruleEngine', () => {
+  describe('evaluateCondition', () => {
+    const race = createLeMansRace();
+
+    it.each<[RuleCondition, boolean]>([
+      [{ field: 'carClass', operator: 'is', value: 'Multi-class' }, true],
+      [{ field: 'carClass', operator: 'is', value: 'LMGT3' }, false],
+      [{ field: 'carClass', operator: 'isNot', value: 'LMGT3' }, true],
+      [{ field: 'carClass', operator: 'isNot', value: 'Multi-class' }, false],
+      [
+        { field: 'weatherCondition', operator: 'isOneOf', values: ['Dynamic', 'Real Weather'] },
+        true,
+      ],
+      [{ field: 'weatherCondition', operator: 'isOneOf', values: ['Clear'] }, false],
+      [{ field: 'weatherCondition', operator: 'isOneOf', values: [] }, false],
+      [{ field: 'trackName', operator: 'contains', value: 'SARTHE' }, true],
+      [{ field: 'trackName', operator: 'contains', value: 'Monza' }, false],
+      [{ field: 'durationMinutes', operator: 'atLeast', value: 360 }, true],
+      [{ field: 'durationMinutes', operator: 'atLeast', value: 361 }, false],
+      [{ field: 'durationMinutes', operator: 'atMost', value: 360 }, true],
+      [{ field: 'durationMinutes', operator: 'atMost', value: 359 }, false],
+    ])('should evaluate %j as %s', (condition, expected) => {
+      expect(evaluateCondition(race, condition)).toBe(expected);
+    });
+
+    describe('null fields', () => {
+      const noTier = createLeMansRace({ tier: null });
+
+      it('should never match "is", "isOneOf" or "contains"', () => {
+        expect(
+          evaluateCondition(noTier, { field: 'tier', operator: 'is', value: 'beginner' }),
+        ).toBe(false);
+        expect(
+          evaluateCondition(noTier, { field: 'tier', operator: 'isOneOf', values: ['beginner'] }),
+        ).toBe(false);
+        expect(evaluateCondition(noTier, { field: 'tier', operator: 'contains', value: '' })).toBe(
+          false,
+        );
+      });
+
+      it('should always match "isNot"', () => {
+        expect(
+          evaluateCondition(noTier, { field: 'tier', operator: 'isNot', value: 'beginner' }),
+        ).toBe(true);
+      });
+    });
+  });
+
+  describe('matchesRule', () => {
+    it('should match when every condition matches', () => {
+      expect(matchesRule(createLeMansRace(), createRule())).toBe(true);
+    });
+
+    it('should not match when any condition fails', () => {
+      expect(matchesRule(createLeMansRace({ licenseRequirement: 'Silver' }), createRule())).toBe(
+        false,
+      );
+    });
+
+    it('should not match anything without conditions', () => {
+      expect(matchesRule(createLeMansRace(), createRule({ conditions: [] }))).toBe(false);
+    });
+
+    it('should ignore the enabled flag', () => {
+      expect(matchesRule(createLeMansRace(), createRule({ enabled: false }))).toBe(true);
+    });
+  });
+
+  describe('filterByRule', () => {
+    it('should keep only matching races in their original order', () => {
+      const rule = createRule({
+        conditions: [
+          { field: 'carClass', operator: 'is', value: 'LMGT3' },
+          { field: 'weatherCondition', operator: 'is', value: 'Real Weather' },
+        ],
+      });
+      const races = [
+        createLeMansRace({ id: 'a', carClass: 'LMGT3' }),
+        createLeMansRace({ id: 'b', carClass: 'LMGT3', weatherCondition: 'Clear' }),
+        createLeMansRace({ id: 'c' }),
+        createLeMansRace({ id: 'd', carClass: 'LMGT3' }),
+      ];
+
+      expect(filterByRule(races, rule).map(race => race.id)).toEqual(['a', 'd']);
+    });
+  });
+
+  describe('findAutoFavoriteRule', () => {
+    it('should return the first enabled auto-favorite rule that matches', () => {
+      const disabled = createRule({ id: 'disabled', enabled: false });
+      const filter = createRule({ id: 'filter', action: 'smartFilter' });
+      const match = createRule({ id: 'match' });
+      const later = createRule({ id: 'later' });
+
+      expect(findAutoFavoriteRule(createLeMansRace(), [disabled, filter, match, later])).toBe(
+        match,
+      );
+    });
+
+    it('should return undefined when no rule matches', () => {
+      expect(
+        findAutoFavoriteRule(createLeMansRace({ carClass: 'LMP2' }), [createRule()]),
+      ).toBeUndefined();
+    });
+  });
+
+  describe('getSmartFilterRules', () => {
+    it('should return enabled smart filter rules only', () => {
+      const filter = createRule({ id: 'filter', action: 'smartFilter' });
+      const rules = [
+        createRule({ id: 'auto' }),
+        filter,
+        createRule({ id: 'off', action: 'smartFilter', enabled: false }),
+      ];
+
+      expect(getSmartFilterRules(rules)).toEqual([filter]);
+    });
+  });
+
+  describe('isRuleCondition', () => {
+    it.each<unknown>([
+      { field: 'trackName', operator: 'contains', value: 'Spa' },
+      { field: 'tier', operator: 'isOneOf', values: ['beginner', 'advanced'] },
+      { field: 'durationMinutes', operator: 'atMost', value: 30 },
+    ])('should accept %j', condition => {
+      expect(isRuleCondition(condition)).toBe(true);
+    });
+
+    it.each<unknown>([
+      null,
+      'trackName',
+      { field: 'startTime', operator: 'is', value: 'x' },
+      { field: 'trackName', operator: 'atLeast', value: 1 },
+      { field: 'trackName', operator: 'is', value: 1 },
+      { field: 'tier', operator: 'isOneOf', values: 'beginner' },
+      { field: 'durationMinutes', operator: 'is', value: 30 },
+      { field: 'durationMinutes', operator: 'atLeast', value: NaN },
+    ])('should reject %j', condition => {
+      expect(isRuleCondition(condition)).toBe(false);
+    });
+  });
+
+  describe('isRaceRule', () => {
+    it('should accept a valid rule', () => {
+      expect(isRaceRule(createRule())).toBe(true);
+    });
+
+    it.each<[string, Partial<Record<keyof RaceRule, unknown>>]>([
+      ['a blank name', { name: '  ' }],
+      ['an unknown action', { action: 'notify' }],
+      ['an invalid condition', { conditions: [{ field: 'id', operator: 'is', value: 'x' }] }],
+      ['a string createdAt', { createdAt: '2025-01-01T12:00:00Z' }],
+      ['a missing enabled flag', { enabled: undefined }],
+    ])('should reject a rule with %s', (_description, overrides) => {
+      expect(isRaceRule({ ...createRule(), ...overrides })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react-native';
+import { NextSlotsDisplay } from '../../../../../src/features/schedules/components/NextSlotsDisplay';
+import { createDailyRace } from '../../../../fixtures/races';
+
+// Local times, so the expected HH:mm labels hold in any test timezone
+const localTime = (day: number, hours: number, minutes: number) =>
+  new Date(2025, 10, day, hours, minutes);
+
+describe('NextSlotsDisplay', () => {
+  const race = createDailyRace({ startTime: localTime(15, 18, 40).toISOString() });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should list today's next slots", () => {
+    jest.useFakeTimers({ now: localTime(15, 18, 30) });
+
+    render(<NextSlotsDisplay race={race} />);
+
+    expect(screen.getByText('Next slots today: 18:40, 19:20, 20:00, 20:40')).toBeTruthy();
+  });
+
+  it("should show tomorrow's first slot once none remain today", () => {
+    jest.useFakeTimers({ now: localTime(15, 23, 50) });
+
+    render(<NextSlotsDisplay race={race} index={2} />);
+
+    expect(screen.getByTestId('race-card-2-next-slots')).toBeTruthy();
+    expect(screen.getByText('Next slot: tomorrow at 00:00')).toBeTruthy();
+  });
+
+  it('should render nothing when the next slot is days away', () => {
+    jest.useFakeTimers({ now: localTime(15, 23, 50) });
+    const later = createDailyRace({
+      startTime: localTime(18, 10, 0).toISOString(),
+      repeatInterval: null,
+    });
+
+    render(<NextSlotsDisplay race={later} />);
+
+    expect(screen.queryByTestId('race-card-0-next-slots')).toBeNull();
+  });
+});
@@ -0,0 +1,68 @@
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import { useRaceSchedule } from '../../../../../src/features/schedules/hooks/useRaceSchedule';
+import { AsyncStorageScheduleRepository } from '../../../../../src/features/schedules/services/AsyncStorageScheduleRepository';
+import { RemoteScheduleRepository } from '../../../../../src/features/schedules/services/RemoteScheduleRepository';
+import { AppStateSource } from '../../../../../src/features/schedules/services/ScheduleRefreshCoordinator';
+import { Race } from '../../../../../src/features/schedules/types/Race';
+import { MemoryKeyValueStore } from '../../../../../src/shared/storage/MemoryKeyValueStore';
+import { createRace } from '../../../../fixtures/races';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const inDays = (days: number) => new Date(Date.now() + days * DAY_MS).toISOString();
+
+const parsed = (races: Race[]) => ({ races, metadata: null, diagnostics: null });
+
+const appState: AppStateSource = {
+  currentState: 'active',
+  addEventListener: () => ({ remove: () => undefined }),
+};
+
+describe('useRaceSchedule', () => {
+  let cache: AsyncStorageScheduleRepository;
+  let fetchParsedSchedule: jest.Mock;
+  let refreshSchedule: jest.Mock;
+  let remote: RemoteScheduleRepository;
+  const thisWeek = createRace({ id: 'this-week', startTime: inDays(1) });
+  const metadata = { generatedAt: inDays(0), validUntil: inDays(1), source: 'racecontrol.gg' };
+
+  beforeEach(async () => {
+    cache = new AsyncStorageScheduleRepository({ store: new MemoryKeyValueStore() });
+    await cache.saveSchedule([thisWeek], metadata);
+    fetchParsedSchedule = jest.fn().mockResolvedValue(parsed([]));
+    refreshSchedule = jest.fn().mockResolvedValue({ status: 'not-modified' });
+    remote = { fetchParsedSchedule, refreshSchedule } as unknown as RemoteScheduleRepository;
+  });
+
+  const renderSchedule = async () => {
+    const hook = renderHook(() => useRaceSchedule(remote, appState, cache));
+    await waitFor(() => expect(hook.result.current.isLoading).toBe(false));
+    return hook;
+  };
+
+  it('should load the next window when the list is scrolled to the end', async () => {
+    const nextWeek = createRace({ id: 'next-week', startTime: inDays(8) });
+    fetchParsedSchedule.mockResolvedValue(parsed([nextWeek]));
+    const { result } = await renderSchedule();
+    expect(result.current.races.map(race => race.id)).toEqual(['this-week']);
+
+    await act(() => result.current.loadMore());
+
+    expect(fetchParsedSchedule).toHaveBeenCalledWith(
+      expect.objectContaining({
+        from: new Date(Date.parse(metadata.generatedAt) + 7 * DAY_MS).toISOString(),
+      }),
+    );
+    expect(result.current.races.map(race => race.id)).toEqual(['this-week', 'next-week']);
+  });
+
+  it('should refresh through the API and keep the races on screen when unchanged', async () => {
+    const { result } = await renderSchedule();
+
+    await act(() => result.current.refresh());
+
+    expect(refreshSchedule).toHaveBeenCalled();
+    expect(result.current.races.map(race => race.id)).toEqual(['this-week']);
+    expect(result.current.error).toBeNull();
+  });
+});
@@ -0,0 +1,163 @@
+import {
+  AsyncStorageScheduleRepository,
+  DEFAULT_FALLBACK_TTL_MS,
+} from '../../../../../src/features/schedules/services/AsyncStorageScheduleRepository';
+import { STORAGE_KEYS } from '../../../../../src/shared/constants/storageKeys';
+import { MemoryKeyValueStore } from '../../../../../src/shared/storage/MemoryKeyValueStore';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const metadata = {
+  generatedAt: '2025-11-15T12:00:00Z',
+  validUntil: '2025-11-15T18:00:00Z',
+  source: 'racecontrol.gg',
+};
+
+describe('AsyncStorageScheduleRepository', () => {
+  let store: MemoryKeyValueStore;
+  let repository: AsyncStorageScheduleRepository;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-11-15T12:00:00Z') });
+    store = new MemoryKeyValueStore();
+    repository = new AsyncStorageScheduleRepository({ store });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('metadata', () => {
+    it('should persist metadata saved with the schedule', async () => {
+      await repository.saveSchedule([], metadata);
+
+      expect(await repository.getMetadata()).toEqual(metadata);
+    });
+
+    it('should drop old metadata when saving without it', async () => {
+      await repository.saveSchedule([], metadata);
+      await repository.saveSchedule([]);
+
+      expect(await repository.getMetadata()).toBeNull();
+    });
+
+    it('should ignore unreadable metadata', async () => {
+      await store.setItem(STORAGE_KEYS.SCHEDULE_METADATA, '{"validUntil":"soon"}');
+
+      expect(await repository.getMetadata()).toBeNull();
+    });
+
+    it('should be removed by clearCache', async () => {
+      await repository.saveSchedule([], metadata);
+      await repository.clearCache();
+
+      expect(await store.getItem(STORAGE_KEYS.SCHEDULE_METADATA)).toBeNull();
+    });
+  });
+
+  describe('getFreshness', () => {
+    it('should report expired when nothing is cached', async () => {
+      expect(await repository.getFreshness()).toEqual({
+        status: 'expired',
+        staleAt: null,
+        expiresAt: null,
+        remainingMs: 0,
+        source: 'none',
+      });
+    });
+
+    it('should stay fresh until metadata.validUntil', async () => {
+      await repository.saveSchedule([], metadata);
+      jest.setSystemTime(new Date('2025-11-15T17:00:00Z'));
+
+      const freshness = await repository.getFreshness();
+
+      expect(freshness.status).toBe('fresh');
+      expect(freshness.source).toBe('metadata');
+      expect(freshness.staleAt).toEqual(new Date(metadata.validUntil));
+      expect(freshness.remainingMs).toBe(HOUR_MS);
+    });
+
+    it('should be stale once validUntil has passed', async () => {
+      await repository.saveSchedule([], metadata);
+      jest.setSystemTime(new Date('2025-11-15T18:00:00Z'));
+
+      expect((await repository.getFreshness()).status).toBe('stale');
+      expect(await repository.isStale()).toBe(true);
+    });
+
+    it('should be expired after the stale grace period', async () => {
+      repository = new AsyncStorageScheduleRepository({ store, staleGraceMs: HOUR_MS });
+      await repository.saveSchedule([], metadata);
+      jest.setSystemTime(new Date('2025-11-15T19:00:00Z'));
+
+      const freshness = await repository.getFreshness();
+
+      expect(freshness.status).toBe('expired');
+      expect(freshness.remainingMs).toBe(0);
+    });
+
+    it('should fall back to the default TTL without metadata', async () => {
+      await repository.saveSchedule([]);
+      jest.advanceTimersByTime(DEFAULT_FALLBACK_TTL_MS - 1);
+
+      const freshness = await repository.getFreshness();
+
+      expect(freshness.status).toBe('fresh');
+      expect(freshness.source).toBe('ttl');
+    });
+
+    it('should use a configured fallback TTL', async () => {
+      repository = new AsyncStorageScheduleRepository({ store, fallbackTtlMs: HOUR_MS });
+      await repository.saveSchedule([]);
+      jest.advanceTimersByTime(HOUR_MS);
+
+      expect(await repository.isStale()).toBe(true);
+    });
+  });
+
+  describe('validators', () => {
+    const validators = { etag: '"v1"', lastModified: 'Sat, 15 Nov 2025 12:00:00 GMT' };
+
+    it('should persist validators saved with the schedule', async () => {
+      await repository.saveSchedule([], metadata, validators);
+
+      expect(await repository.getValidators()).toEqual(validators);
+    });
+
+    it('should drop validators when saving without them', async () => {
+      await repository.saveSchedule([], metadata, validators);
+      await repository.saveSchedule([], metadata);
+
+      expect(await repository.getValidators()).toBeNull();
+    });
+  });
+
+  describe('markRevalidated', () => {
+    it('should bump the timestamp without rewriting the schedule', async () => {
+      await repository.saveSchedule([], metadata);
+      jest.setSystemTime(new Date('2025-11-15T13:00:00Z'));
+      const setItem = jest.spyOn(store, 'setItem');
+
+      await repository.markRevalidated();
+
+      expect(setItem).toHaveBeenCalledTimes(1);
+      expect(setItem).toHaveBeenCalledWith(
+        STORAGE_KEYS.SCHEDULE_LAST_UPDATED,
+        '2025-11-15T13:00:00.000Z',
+      );
+    });
+
+    it('should restart the validity window after validUntil has passed', async () => {
+      await repository.saveSchedule([], metadata);
+      jest.setSystemTime(new Date('2025-11-15T20:00:00Z'));
+      await repository.markRevalidated();
+
+      const freshness = await repository.getFreshness();
+
+      // Window is validUntil - generatedAt = 6h
+      expect(freshness.status).toBe('fresh');
+      expect(freshness.staleAt).toEqual(new Date('2025-11-16T02:00:00Z'));
+    });
+  });
+});
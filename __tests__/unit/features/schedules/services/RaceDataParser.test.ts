@@ -0,0 +1,227 @@
+import {
+  RaceDataParser,
+  RaceDataValidationError,
+} from '../../../../../src/features/schedules/services/RaceDataParser';
+import sampleSchedule from '../../../../../src/data/sampleSchedule.json';
+
+const rawRace = (overrides: Record<string, unknown> = {}) => ({
+  id: '550e8400-e29b-41d4-a716-446655440000',
+  type: 'daily',
+  tier: 'beginner',
+  trackName: 'Monza',
+  trackConfiguration: 'Grand Prix',
+  carClass: 'LMP2',
+  startTime: '2025-11-15T14:00:00Z',
+  durationMinutes: 15,
+  weatherCondition: 'Clear',
+  timeOfDay: 'Afternoon',
+  licenseRequirement: 'Bronze',
+  repeatInterval: 40,
+  ...overrides,
+});
+
+const weeklyRace = rawRace({
+  id: '660e8400-e29b-41d4-a716-446655440001',
+  type: 'weekly',
+  tier: null,
+  repeatInterval: null,
+});
+
+const specialRace = rawRace({
+  id: '770e8400-e29b-41d4-a716-446655440002',
+  type: 'special',
+  tier: null,
+  repeatInterval: null,
+});
+
+describe('RaceDataParser', () => {
+  let parser: RaceDataParser;
+
+  beforeEach(() => {
+    parser = new RaceDataParser();
+  });
+
+  describe('parseSchedule - API ScheduleResponse', () => {
+    const response = {
+      schedule: {
+        daily: [rawRace()],
+        weekly: [weeklyRace],
+        special: [specialRace],
+      },
+      metadata: {
+        generatedAt: '2025-11-15T12:00:00Z',
+        validUntil: '2025-11-16T12:00:00Z',
+        source: 'racecontrol.gg',
+      },
+    };
+
+    it('should flatten daily, weekly and special groups in order', () => {
+      const { races } = parser.parseSchedule(response);
+
+      expect(races.map(race => race.type)).toEqual(['daily', 'weekly', 'special']);
+    });
+
+    it('should return metadata next to the races', () => {
+      const { metadata } = parser.parseSchedule(response);
+
+      expect(metadata).toEqual({
+        generatedAt: '2025-11-15T12:00:00Z',
+        validUntil: '2025-11-16T12:00:00Z',
+        source: 'racecontrol.gg',
+      });
+    });
+
+    it('should treat missing groups as empty', () => {
+      const { races } = parser.parseSchedule({
+        schedule: { weekly: [weeklyRace] },
+        metadata: response.metadata,
+      });
+
+      expect(races).toHaveLength(1);
+    });
+
+    it('should require metadata', () => {
+      expect(() => parser.parseSchedule({ schedule: { daily: [rawRace()] } })).toThrow(
+        RaceDataValidationError,
+      );
+    });
+
+    it('should reject metadata with an invalid validUntil', () => {
+      expect(() =>
+        parser.parseSchedule({
+          ...response,
+          metadata: { generatedAt: '2025-11-15T12:00:00Z', validUntil: 'tomorrow' },
+        }),
+      ).toThrow('metadata.validUntil must be an ISO 8601 UTC string');
+    });
+
+    it('should reject groups that are not arrays', () => {
+      expect(() =>
+        parser.parseSchedule({ schedule: { daily: {} }, metadata: response.metadata }),
+      ).toThrow('schedule.daily must be an array');
+    });
+  });
+
+  describe('parseSchedule - bundled sampleSchedule.json', () => {
+    it('should load every tier, weekly race and special event', () => {
+      const { races, metadata } = parser.parseSchedule(sampleSchedule);
+
+      expect(races).toHaveLength(10);
+      expect(races.filter(race => race.type === 'daily')).toHaveLength(6);
+      expect(races.filter(race => race.type === 'weekly')).toHaveLength(2);
+      expect(races.filter(race => race.type === 'special')).toHaveLength(2);
+      expect(metadata).toBeNull();
+    });
+
+    it('should preserve tier order A, B, C', () => {
+      const { races } = parser.parseSchedule(sampleSchedule);
+
+      expect(races.slice(0, 6).map(race => race.tier)).toEqual([
+        'beginner',
+        'beginner',
+        'intermediate',
+        'intermediate',
+        'advanced',
+        'advanced',
+      ]);
+    });
+  });
+
+  describe('parseSchedule - other inputs', () => {
+    it('should still accept a flat race array', () => {
+      const { races, metadata } = parser.parseSchedule([rawRace()]);
+
+      expect(races).toHaveLength(1);
+      expect(metadata).toBeNull();
+    });
+
+    it('should reject unrecognised envelopes', () => {
+      expect(() => parser.parseSchedule({ races: [] })).toThrow('Unrecognised schedule format');
+    });
+
+    it('should reject non-object input', () => {
+      expect(() => parser.parseSchedule('schedule')).toThrow(RaceDataValidationError);
+    });
+  });
+
+  describe('parseScheduleJSON', () => {
+    it('should parse a JSON string envelope', () => {
+      const { races } = parser.parseScheduleJSON(JSON.stringify(sampleSchedule));
+
+      expect(races).toHaveLength(10);
+    });
+
+    it('should wrap JSON syntax errors', () => {
+      expect(() => parser.parseScheduleJSON('{not json')).toThrow('Failed to parse JSON');
+    });
+  });
+
+  describe('lenient mode', () => {
+    const badWeekly = rawRace({
+      id: 'bad-weekly',
+      type: 'weekly',
+      tier: null,
+      carClass: 'GTE',
+      repeatInterval: null,
+    });
+
+    it('should throw on the first invalid race in strict mode', () => {
+      expect(() => parser.parse([rawRace(), badWeekly])).toThrow(RaceDataValidationError);
+    });
+
+    it('should keep valid races and report rejected ones', () => {
+      const { races, diagnostics } = parser.parseLenient([rawRace(), badWeekly, weeklyRace]);
+
+      expect(races.map(race => race.id)).toEqual([
+        '550e8400-e29b-41d4-a716-446655440000',
+        '660e8400-e29b-41d4-a716-446655440001',
+      ]);
+      expect(diagnostics).toEqual({
+        total: 3,
+        accepted: 2,
+        rejected: [
+          expect.objectContaining({
+            index: 1,
+            source: '[1]',
+            raceId: 'bad-weekly',
+            field: 'carClass',
+          }),
+        ],
+      });
+    });
+
+    it('should report the envelope location of rejected races', () => {
+      const { races, diagnostics } = parser.parseSchedule(
+        {
+          schedule: { daily: [rawRace()], weekly: [badWeekly], special: [specialRace] },
+          metadata: { generatedAt: '2025-11-15T12:00:00Z', validUntil: '2025-11-16T12:00:00Z' },
+        },
+        { lenient: true },
+      );
+
+      expect(races).toHaveLength(2);
+      expect(diagnostics?.rejected[0]).toMatchObject({
+        index: 1,
+        source: 'schedule.weekly[0]',
+        reason: expect.stringContaining('carClass must be one of'),
+      });
+    });
+
+    it('should reject non-object records without crashing', () => {
+      const { races, diagnostics } = parser.parseLenient([null, rawRace()] as never[]);
+
+      expect(races).toHaveLength(1);
+      expect(diagnostics.rejected[0]).toMatchObject({ index: 0, raceId: null, field: null });
+    });
+
+    it('should still throw on envelope errors', () => {
+      expect(() => parser.parseSchedule({ races: [] }, { lenient: true })).toThrow(
+        'Unrecognised schedule format',
+      );
+    });
+
+    it('should not include diagnostics in strict mode', () => {
+      expect(parser.parseSchedule([rawRace()]).diagnostics).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import {
+  RaceRecurrence,
+  buildOccurrenceId,
+  parseOccurrenceId,
+} from '../../../../../src/features/schedules/services/RaceRecurrence';
+import { createDailyRace } from '../../../../fixtures/races';
+
+const startTimes = (occurrences: Array<{ startTime: string }>) =>
+  occurrences.map(occurrence => occurrence.startTime);
+
+describe('RaceRecurrence', () => {
+  let recurrence: RaceRecurrence;
+
+  beforeEach(() => {
+    recurrence = new RaceRecurrence({ timeZone: 'UTC' });
+  });
+
+  describe('getNextOccurrences', () => {
+    it('should expand slots every repeatInterval minutes from the anchor', () => {
+      const occurrences = recurrence.getNextOccurrences(
+        createDailyRace(),
+        new Date('2025-11-15T18:30:00Z'),
+        4,
+      );
+
+      expect(startTimes(occurrences)).toEqual([
+        '2025-11-15T18:40:00.000Z',
+        '2025-11-15T19:20:00.000Z',
+        '2025-11-15T20:00:00.000Z',
+        '2025-11-15T20:40:00.000Z',
+      ]);
+    });
+
+    it('should include a slot starting exactly at the reference time', () => {
+      const [first] = recurrence.getNextOccurrences(
+        createDailyRace(),
+        new Date('2025-11-15T14:40:00Z'),
+        1,
+      );
+
+      expect(first.startTime).toBe('2025-11-15T14:40:00.000Z');
+    });
+
+    it('should start at the anchor when the series has not begun', () => {
+      const [first] = recurrence.getNextOccurrences(
+        createDailyRace(),
+        new Date('2025-11-15T09:00:00Z'),
+        1,
+      );
+
+      expect(first.startTime).toBe('2025-11-15T14:00:00.000Z');
+    });
+
+    it('should return a single occurrence for non-repeating races', () => {
+      const race = createDailyRace({ type: 'weekly', tier: null, repeatInterval: null });
+
+      expect(recurrence.getNextOccurrences(race, new Date('2025-11-15T09:00:00Z'), 4)).toHaveLength(
+        1,
+      );
+      expect(recurrence.getNextOccurrences(race, new Date('2025-11-15T15:00:00Z'), 4)).toEqual([]);
+    });
+  });
+
+  describe('getOccurrences', () => {
+    it('should return slots within a half-open window', () => {
+      const occurrences = recurrence.getOccurrences(
+        createDailyRace(),
+        new Date('2025-11-15T14:00:00Z'),
+        new Date('2025-11-15T16:00:00Z'),
+      );
+
+      expect(startTimes(occurrences)).toEqual([
+        '2025-11-15T14:00:00.000Z',
+        '2025-11-15T14:40:00.000Z',
+        '2025-11-15T15:20:00.000Z',
+      ]);
+    });
+  });
+
+  describe('occurrence IDs', () => {
+    it('should be stable across different query windows', () => {
+      const race = createDailyRace();
+      const [fromMorning] = recurrence
+        .getOccurrences(race, new Date('2025-11-15T14:00:00Z'), new Date('2025-11-16T00:00:00Z'))
+        .filter(occurrence => occurrence.startTime === '2025-11-15T20:00:00.000Z');
+      const [fromEvening] = recurrence.getNextOccurrences(
+        race,
+        new Date('2025-11-15T19:50:00Z'),
+        1,
+      );
+
+      expect(fromMorning.id).toBe(fromEvening.id);
+      expect(fromEvening.id).toBe('race-1@2025-11-15T20:00:00.000Z');
+    });
+
+    it('should not depend on the configured timezone', () => {
+      const tokyo = new RaceRecurrence({ timeZone: 'Asia/Tokyo' });
+      const now = new Date('2025-11-15T18:30:00Z');
+
+      expect(tokyo.getNextOccurrences(createDailyRace(), now, 1)[0].id).toBe(
+        recurrence.getNextOccurrences(createDailyRace(), now, 1)[0].id,
+      );
+    });
+
+    it('should round-trip through parseOccurrenceId', () => {
+      const id = buildOccurrenceId('race@1', new Date('2025-11-15T20:00:00Z'));
+
+      expect(parseOccurrenceId(id)).toEqual({
+        raceId: 'race@1',
+        startTime: '2025-11-15T20:00:00.000Z',
+      });
+      expect(parseOccurrenceId('race-1')).toBeNull();
+    });
+  });
+
+  describe('getDailySlots', () => {
+    it('should return the next four slots today', () => {
+      const { today, tomorrow } = recurrence.getDailySlots(
+        createDailyRace(),
+        new Date('2025-11-15T18:30:00Z'),
+      );
+
+      expect(today).toHaveLength(4);
+      expect(tomorrow).toBeNull();
+    });
+
+    it('should return only the slots left before midnight', () => {
+      const { today } = recurrence.getDailySlots(
+        createDailyRace(),
+        new Date('2025-11-15T22:50:00Z'),
+      );
+
+      expect(startTimes(today)).toEqual(['2025-11-15T23:20:00.000Z']);
+    });
+
+    it('should return the first slot tomorrow when none remain today', () => {
+      const { today, tomorrow } = recurrence.getDailySlots(
+        createDailyRace(),
+        new Date('2025-11-15T23:30:00Z'),
+      );
+
+      expect(today).toEqual([]);
+      expect(tomorrow?.startTime).toBe('2025-11-16T00:00:00.000Z');
+    });
+
+    it('should not return a tomorrow slot when the next slot is days away', () => {
+      const { today, tomorrow } = recurrence.getDailySlots(
+        createDailyRace({ startTime: '2025-11-18T10:00:00Z', repeatInterval: null }),
+        new Date('2025-11-15T23:30:00Z'),
+      );
+
+      expect(today).toEqual([]);
+      expect(tomorrow).toBeNull();
+    });
+
+    it('should use the configured timezone for day boundaries', () => {
+      // 23:30 UTC is 18:30 in New York, so the local day still has slots
+      const newYork = new RaceRecurrence({ timeZone: 'America/New_York' });
+
+      const { today, tomorrow } = newYork.getDailySlots(
+        createDailyRace(),
+        new Date('2025-11-15T23:30:00Z'),
+      );
+
+      expect(today).toHaveLength(4);
+      expect(tomorrow).toBeNull();
+    });
+
+    it('should end the local day at local midnight', () => {
+      // Tokyo is UTC+9, so local midnight on Nov 16 is 15:00 UTC on Nov 15
+      const tokyo = new RaceRecurrence({ timeZone: 'Asia/Tokyo' });
+
+      const { today } = tokyo.getDailySlots(createDailyRace(), new Date('2025-11-15T14:10:00Z'));
+
+      expect(startTimes(today)).toEqual(['2025-11-15T14:40:00.000Z']);
+    });
+  });
+});
@@ -0,0 +1,398 @@
+import {
+  RemoteScheduleRepository,
+  ScheduleApiError,
+} from '../../../../../src/features/schedules/services/RemoteScheduleRepository';
+import { AsyncStorageScheduleRepository } from '../../../../../src/features/schedules/services/AsyncStorageScheduleRepository';
+import { SCHEDULE_API_BASE_URLS } from '../../../../../src/shared/constants/apiEndpoints';
+import { MemoryKeyValueStore } from '../../../../../src/shared/storage/MemoryKeyValueStore';
+
+const rawRace = (overrides: Record<string, unknown> = {}) => ({
+  id: '550e8400-e29b-41d4-a716-446655440000',
+  type: 'daily',
+  tier: 'beginner',
+  trackName: 'Monza',
+  trackConfiguration: 'Grand Prix',
+  carClass: 'LMP2',
+  startTime: '2025-11-15T14:00:00Z',
+  durationMinutes: 15,
+  weatherCondition: 'Clear',
+  timeOfDay: 'Afternoon',
+  licenseRequirement: 'Bronze',
+  repeatInterval: 40,
+  ...overrides,
+});
+
+const scheduleResponse = {
+  schedule: {
+    daily: [rawRace()],
+    weekly: [
+      rawRace({
+        id: '660e8400-e29b-41d4-a716-446655440001',
+        type: 'weekly',
+        tier: null,
+        trackName: 'Spa-Francorchamps',
+        carClass: 'Hypercar',
+        startTime: '2025-11-19T19:00:00Z',
+        repeatInterval: null,
+      }),
+    ],
+    special: [],
+  },
+  metadata: {
+    generatedAt: '2025-11-15T12:00:00Z',
+    validUntil: '2025-11-16T12:00:00Z',
+    source: 'racecontrol.gg',
+  },
+};
+
+const emptyScheduleResponse = {
+  ...scheduleResponse,
+  schedule: { daily: [], weekly: [], special: [] },
+};
+
+const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  ({
+    ok: status >= 200 && status < 300,
+    status,
+    headers: { get: (name: string) => headers[name] ?? null },
+    json: jest.fn().mockResolvedValue(body),
+  } as unknown as Response);
+
+const notModifiedResponse = () =>
+  ({
+    ok: false,
+    status: 304,
+    headers: { get: () => null },
+    json: jest.fn().mockRejectedValue(new Error('no body')),
+  } as unknown as Response);
+
+describe('RemoteScheduleRepository', () => {
+  let fetchFn: jest.Mock;
+  let cache: AsyncStorageScheduleRepository;
+  let repository: RemoteScheduleRepository;
+
+  beforeEach(() => {
+    fetchFn = jest.fn();
+    cache = new AsyncStorageScheduleRepository({ store: new MemoryKeyValueStore() });
+    repository = new RemoteScheduleRepository({
+      baseUrl: SCHEDULE_API_BASE_URLS.localMock,
+      cache,
+      fetchFn,
+    });
+  });
+
+  describe('fetchSchedule', () => {
+    it('should call GET /schedules/lmu on the injected base URL', async () => {
+      fetchFn.mockResolvedValue(jsonResponse(200, scheduleResponse));
+
+      await repository.fetchSchedule();
+
+      expect(fetchFn).toHaveBeenCalledWith(
+        'http://localhost:3000/api/v1/schedules/lmu',
+        expect.objectContaining({ method: 'GET' }),
+      );
+    });
+
+    it('should encode from, to and type query parameters', async () => {
+      fetchFn.mockResolvedValue(jsonResponse(200, scheduleResponse));
+
+      await repository.fetchSchedule({
+        from: '2025-11-15T00:00:00Z',
+        to: '2025-11-22T23:59:59Z',
+        type: 'weekly',
+      });
+
+      expect(fetchFn.mock.calls[0][0]).toBe(
+        'http://localhost:3000/api/v1/schedules/lmu' +
+          '?from=2025-11-15T00%3A00%3A00Z&to=2025-11-22T23%3A59%3A59Z&type=weekly',
+      );
+    });
+
+    it('should flatten daily, weekly and special groups into races', async () => {
+      fetchFn.mockResolvedValue(jsonResponse(200, scheduleResponse));
+
+      const races = await repository.fetchSchedule();
+
+      expect(races.map(race => race.type)).toEqual(['daily', 'weekly']);
+      expect(races[1].trackName).toBe('Spa-Francorchamps');
+    });
+
+    it('should map INVALID_RANGE errors', async () => {
+      fetchFn.mockResolvedValue(
+        jsonResponse(400, {
+          error: 'Invalid date range',
+          message: 'Date range cannot exceed 7 days',
+          code: 'INVALID_RANGE',
+          details: { requestedDays: 10, maxDays: 7 },
+        }),
+      );
+
+      await expect(repository.fetchSchedule()).rejects.toMatchObject({
+        name: 'ScheduleApiError',
+        code: 'INVALID_RANGE',
+        status: 400,
+        message: 'Date range cannot exceed 7 days',
+        details: { requestedDays: 10, maxDays: 7 },
+      });
+    });
+
+    it('should map UPSTREAM_ERROR errors', async () => {
+      fetchFn.mockResolvedValue(
+        jsonResponse(500, {
+          error: 'Internal server error',
+          message: 'Failed to fetch schedule from upstream source',
+          code: 'UPSTREAM_ERROR',
+        }),
+      );
+
+      await expect(repository.fetchSchedule()).rejects.toMatchObject({
+        code: 'UPSTREAM_ERROR',
+        status: 500,
+      });
+    });
+
+    it('should fall back to a status-based code when the body has none', async () => {
+      fetchFn.mockResolvedValue({
+        ok: false,
+        status: 404,
+        json: jest.fn().mockRejectedValue(new Error('not json')),
+      });
+
+      await expect(repository.fetchSchedule()).rejects.toMatchObject({
+        code: 'HTTP_ERROR',
+        status: 404,
+      });
+    });
+
+    it('should report network failures as NETWORK_ERROR', async () => {
+      fetchFn.mockRejectedValue(new TypeError('Network request failed'));
+
+      const error = await repository.fetchSchedule().catch(e => e);
+
+      expect(error).toBeInstanceOf(ScheduleApiError);
+      expect(error.code).toBe('NETWORK_ERROR');
+    });
+
+    it('should skip invalid races by default and report diagnostics', async () => {
+      fetchFn.mockResolvedValue(
+        jsonResponse(200, {
+          ...scheduleResponse,
+          schedule: {
+            ...scheduleResponse.schedule,
+            special: [rawRace({ id: 'x', carClass: 'GTE' })],
+          },
+        }),
+      );
+
+      const { races, diagnostics } = await repository.fetchParsedSchedule();
+
+      expect(races).toHaveLength(2);
+      expect(diagnostics?.rejected).toHaveLength(1);
+      expect(diagnostics?.rejected[0].source).toBe('schedule.special[0]');
+    });
+
+    it('should reject the whole payload in strict mode', async () => {
+      repository = new RemoteScheduleRepository({ cache, fetchFn, lenient: false });
+      fetchFn.mockResolvedValue(
+        jsonResponse(200, {
+          ...scheduleResponse,
+          schedule: { daily: [rawRace({ carClass: 'GTE' })] },
+        }),
+      );
+
+      await expect(repository.fetchSchedule()).rejects.toThrow('carClass must be one of');
+    });
+
+    it('should reject payloads without a schedule object', async () => {
+      fetchFn.mockResolvedValue(jsonResponse(200, { races: [] }));
+
+      await expect(repository.fetchSchedule()).rejects.toMatchObject({
+        code: 'INVALID_RESPONSE',
+      });
+    });
+  });
+
+  describe('getSchedule', () => {
+    it('should fetch and cache when no cache exists', async () => {
+      fetchFn.mockResolvedValue(jsonResponse(200, scheduleResponse));
+
+      const races = await repository.getSchedule();
+
+      expect(races).toHaveLength(2);
+      expect(await cache.getCachedSchedule()).toHaveLength(2);
+    });
+
+    describe('freshness', () => {
+      beforeEach(() => {
+        jest.useFakeTimers({ now: new Date('2025-11-15T13:00:00Z') });
+      });
+
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+
+      it('should return fresh cache without hitting the network', async () => {
+        fetchFn.mockResolvedValue(jsonResponse(200, scheduleResponse));
+        await repository.getSchedule();
+        fetchFn.mockClear();
+
+        const races = await repository.getSchedule();
+
+        expect(races).toHaveLength(2);
+        expect(fetchFn).not.toHaveBeenCalled();
+      });
+
+      it('should save metadata so the cache expires at validUntil', async () => {
+        fetchFn.mockResolvedValue(jsonResponse(200, scheduleResponse));
+        await repository.getSchedule();
+
+        expect(await repository.getFreshness()).toMatchObject({
+          status: 'fresh',
+          source: 'metadata',
+          staleAt: new Date('2025-11-16T12:00:00Z'),
+        });
+      });
+
+      it('should refetch once validUntil has passed', async () => {
+        fetchFn.mockResolvedValue(jsonResponse(200, scheduleResponse));
+        await repository.getSchedule();
+        fetchFn.mockClear();
+        jest.setSystemTime(new Date('2025-11-16T12:00:00Z'));
+
+        await repository.getSchedule();
+
+        expect(fetchFn).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    it('should fall back to stale cache when the fetch fails', async () => {
+      fetchFn.mockResolvedValue(jsonResponse(200, scheduleResponse));
+      await repository.getSchedule();
+      jest.spyOn(cache, 'isStale').mockResolvedValue(true);
+      fetchFn.mockRejectedValue(new TypeError('Network request failed'));
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const races = await repository.getSchedule();
+
+      expect(races).toHaveLength(2);
+    });
+
+    it('should not replace the cache with a filtered fetch', async () => {
+      fetchFn.mockResolvedValue(jsonResponse(200, scheduleResponse));
+      await repository.getSchedule();
+      fetchFn.mockResolvedValue(jsonResponse(200, emptyScheduleResponse));
+
+      const races = await repository.getSchedule({ type: 'special' });
+
+      expect(races).toEqual([]);
+      expect(fetchFn).toHaveBeenCalledTimes(2);
+      expect(await cache.getCachedSchedule()).toHaveLength(2);
+    });
+
+    it('should filter the cache when a filtered fetch fails', async () => {
+      fetchFn.mockResolvedValue(jsonResponse(200, scheduleResponse));
+      await repository.getSchedule();
+      fetchFn.mockRejectedValue(new TypeError('Network request failed'));
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const races = await repository.getSchedule({ type: 'weekly' });
+
+      expect(races.map(race => race.trackName)).toEqual(['Spa-Francorchamps']);
+    });
+
+    it('should throw when the fetch fails and nothing is cached', async () => {
+      fetchFn.mockResolvedValue(jsonResponse(500, { code: 'UPSTREAM_ERROR', message: 'down' }));
+
+      await expect(repository.getSchedule()).rejects.toBeInstanceOf(ScheduleApiError);
+    });
+  });
+
+  describe('conditional refresh', () => {
+    const validatorHeaders = {
+      ETag: '"schedule-v1"',
+      'Last-Modified': 'Sat, 15 Nov 2025 12:00:00 GMT',
+    };
+
+    it('should store ETag and Last-Modified with the cache', async () => {
+      fetchFn.mockResolvedValue(jsonResponse(200, scheduleResponse, validatorHeaders));
+
+      const result = await repository.refreshSchedule();
+
+      expect(result.status).toBe('updated');
+      expect(await cache.getValidators()).toEqual({
+        etag: '"schedule-v1"',
+        lastModified: 'Sat, 15 Nov 2025 12:00:00 GMT',
+      });
+    });
+
+    it('should send stored validators as conditional headers', async () => {
+      fetchFn.mockResolvedValue(jsonResponse(200, scheduleResponse, validatorHeaders));
+      await repository.refreshSchedule();
+      fetchFn.mockResolvedValue(notModifiedResponse());
+
+      await repository.refreshSchedule();
+
+      expect(fetchFn.mock.calls[1][1].headers).toMatchObject({
+        'If-None-Match': '"schedule-v1"',
+        'If-Modified-Since': 'Sat, 15 Nov 2025 12:00:00 GMT',
+      });
+    });
+
+    it('should not send validators when nothing is cached', async () => {
+      fetchFn.mockResolvedValue(jsonResponse(200, scheduleResponse));
+
+      await repository.refreshSchedule();
+
+      expect(fetchFn.mock.calls[0][1].headers).toEqual({ Accept: 'application/json' });
+    });
+
+    it('should not send validators for filtered queries', async () => {
+      fetchFn.mockResolvedValue(jsonResponse(200, scheduleResponse, validatorHeaders));
+      await repository.refreshSchedule();
+
+      await repository.refreshSchedule({ type: 'weekly' });
+
+      expect(fetchFn.mock.calls[1][1].headers['If-None-Match']).toBeUndefined();
+    });
+
+    it('should leave the cache untouched for filtered queries', async () => {
+      fetchFn.mockResolvedValue(jsonResponse(200, scheduleResponse, validatorHeaders));
+      await repository.refreshSchedule();
+      fetchFn.mockResolvedValue(jsonResponse(200, emptyScheduleResponse));
+
+      await repository.refreshSchedule({ from: '2025-11-20T00:00:00Z' });
+
+      expect(await cache.getCachedSchedule()).toHaveLength(2);
+      expect(await cache.getValidators()).toEqual({
+        etag: '"schedule-v1"',
+        lastModified: 'Sat, 15 Nov 2025 12:00:00 GMT',
+      });
+    });
+
+    it('should only bump the timestamp on 304', async () => {
+      fetchFn.mockResolvedValue(jsonResponse(200, scheduleResponse, validatorHeaders));
+      await repository.refreshSchedule();
+      fetchFn.mockResolvedValue(notModifiedResponse());
+      const saveSpy = jest.spyOn(cache, 'saveSchedule');
+      const revalidateSpy = jest.spyOn(cache, 'markRevalidated');
+
+      const result = await repository.refreshSchedule();
+
+      expect(result).toEqual({ status: 'not-modified' });
+      expect(saveSpy).not.toHaveBeenCalled();
+      expect(revalidateSpy).toHaveBeenCalledTimes(1);
+      expect(await cache.getCachedSchedule()).toHaveLength(2);
+    });
+
+    it('should serve the cache from getSchedule on 304', async () => {
+      fetchFn.mockResolvedValue(jsonResponse(200, scheduleResponse, validatorHeaders));
+      await repository.getSchedule();
+      jest.spyOn(cache, 'isStale').mockResolvedValue(true);
+      fetchFn.mockResolvedValue(notModifiedResponse());
+
+      const races = await repository.getSchedule();
+
+      expect(races).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,246 @@
+import initSqlJs, { Database, SqlJsStatic } from 'sql.js';
+import { SQLiteScheduleRepository } from '../../../../../src/features/schedules/services/SQLiteScheduleRepository';
+import { AsyncStorageScheduleRepository } from '../../../../../src/features/schedules/services/AsyncStorageScheduleRepository';
+import { MemoryKeyValueStore } from '../../../../../src/shared/storage/MemoryKeyValueStore';
+import { createDailyRace } from '../../../../fixtures/races';
+import { createSqlDatabase } from '../../../../fixtures/sqlDatabase';
+
+const metadata = {
+  generatedAt: '2025-11-15T12:00:00Z',
+  validUntil: '2025-11-15T18:00:00Z',
+};
+
+describe('SQLiteScheduleRepository', () => {
+  let SQL: SqlJsStatic;
+  let db: Database;
+  let repository: SQLiteScheduleRepository;
+
+  beforeAll(async () => {
+    SQL = await initSqlJs();
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-11-15T12:00:00Z') });
+    db = new SQL.Database();
+    repository = new SQLiteScheduleRepository(createSqlDatabase(db));
+  });
+
+  afterEach(() => {
+    db.close();
+    jest.useRealTimers();
+  });
+
+  it('should return null before anything is saved', async () => {
+    expect(await repository.getCachedSchedule()).toBeNull();
+    expect(await repository.getSchedule()).toEqual([]);
+  });
+
+  it('should round-trip races ordered by start time', async () => {
+    const later = createDailyRace({ id: 'later', startTime: '2025-11-16T10:00:00Z' });
+    const special = createDailyRace({
+      id: 'special',
+      type: 'special',
+      tier: null,
+      trackConfiguration: null,
+      startTime: '2025-11-15T11:55:00Z',
+      repeatInterval: null,
+      isLive: true,
+    });
+
+    await repository.saveSchedule([later, special]);
+
+    expect(await repository.getCachedSchedule()).toEqual([special, later]);
+  });
+
+  it('should recompute isLive when reading', async () => {
+    await repository.saveSchedule([
+      createDailyRace({ startTime: '2025-11-15T11:55:00Z', isLive: true }),
+    ]);
+    jest.setSystemTime(new Date('2025-11-15T12:30:00Z'));
+
+    expect((await repository.getCachedSchedule())?.[0].isLive).toBe(false);
+  });
+
+  it('should replace the previous schedule on save', async () => {
+    await repository.saveSchedule([createDailyRace({ id: 'old' })]);
+    await repository.saveSchedule([createDailyRace({ id: 'new' })]);
+
+    expect((await repository.getCachedSchedule())?.map(race => race.id)).toEqual(['new']);
+  });
+
+  it('should save an empty schedule as an empty cache', async () => {
+    await repository.saveSchedule([]);
+
+    expect(await repository.getCachedSchedule()).toEqual([]);
+  });
+
+  describe('queryRaces', () => {
+    beforeEach(async () => {
+      await repository.saveSchedule([
+        createDailyRace({ id: 'monza', startTime: '2025-11-15T14:00:00Z' }),
+        createDailyRace({
+          id: 'spa',
+          trackName: 'Spa',
+          carClass: 'Hypercar',
+          type: 'weekly',
+          startTime: '2025-11-16T14:00:00Z',
+        }),
+        createDailyRace({
+          id: 'le-mans',
+          trackName: 'Le Mans',
+          carClass: 'Hypercar',
+          type: 'special',
+          startTime: '2025-11-20T14:00:00Z',
+        }),
+      ]);
+    });
+
+    it('should filter by start time range', async () => {
+      const races = await repository.queryRaces({
+        from: new Date('2025-11-15T15:00:00Z'),
+        to: new Date('2025-11-20T14:00:00Z'),
+      });
+
+      expect(races.map(race => race.id)).toEqual(['spa']);
+    });
+
+    it('should filter by type, track and car class', async () => {
+      expect((await repository.queryRaces({ types: ['weekly', 'special'] })).length).toBe(2);
+      expect((await repository.queryRaces({ trackName: 'Spa' }))[0].id).toBe('spa');
+      expect(
+        (await repository.queryRaces({ carClass: 'Hypercar', limit: 1 })).map(race => race.id),
+      ).toEqual(['spa']);
+    });
+
+    it('should use the start time index', async () => {
+      const [plan] = db.exec('EXPLAIN QUERY PLAN SELECT * FROM races WHERE start_at >= 0');
+
+      expect(JSON.stringify(plan.values)).toContain('idx_races_start_at');
+    });
+  });
+
+  describe('mergeRaces and removeRaces', () => {
+    it('should upsert races without touching the timestamp', async () => {
+      await repository.saveSchedule([createDailyRace({ id: 'a', trackName: 'Old' })], metadata);
+      jest.setSystemTime(new Date('2025-11-15T13:00:00Z'));
+
+      const merged = await repository.mergeRaces([
+        createDailyRace({ id: 'a', trackName: 'New' }),
+        createDailyRace({ id: 'b', startTime: '2025-11-16T14:00:00Z' }),
+      ]);
+
+      expect(merged.map(race => [race.id, race.trackName])).toEqual([
+        ['a', 'New'],
+        ['b', 'Monza'],
+      ]);
+      expect(await repository.getLastUpdated()).toEqual(new Date('2025-11-15T12:00:00Z'));
+      expect(await repository.getMetadata()).toEqual(metadata);
+    });
+
+    it('should remove races by ID', async () => {
+      await repository.saveSchedule([createDailyRace({ id: 'a' }), createDailyRace({ id: 'b' })]);
+
+      const remaining = await repository.removeRaces(['a']);
+
+      expect(remaining.map(race => race.id)).toEqual(['b']);
+    });
+  });
+
+  describe('freshness', () => {
+    it('should follow metadata.validUntil', async () => {
+      await repository.saveSchedule([], metadata);
+      jest.setSystemTime(new Date('2025-11-15T17:00:00Z'));
+      expect((await repository.getFreshness()).status).toBe('fresh');
+
+      jest.setSystemTime(new Date('2025-11-15T18:00:00Z'));
+      expect(await repository.isStale()).toBe(true);
+    });
+
+    it('should keep validators until the next save without them', async () => {
+      const validators = { etag: '"v1"', lastModified: null };
+      await repository.saveSchedule([], metadata, validators);
+      expect(await repository.getValidators()).toEqual(validators);
+
+      await repository.saveSchedule([], metadata);
+      expect(await repository.getValidators()).toBeNull();
+    });
+
+    it('should bump only the timestamp on markRevalidated', async () => {
+      await repository.saveSchedule([createDailyRace()], metadata);
+      jest.setSystemTime(new Date('2025-11-15T20:00:00Z'));
+
+      await repository.markRevalidated();
+
+      expect(await repository.getLastUpdated()).toEqual(new Date('2025-11-15T20:00:00Z'));
+      expect(await repository.getCachedSchedule()).toHaveLength(1);
+      expect((await repository.getFreshness()).status).toBe('fresh');
+    });
+
+    it('should clear races and metadata', async () => {
+      await repository.saveSchedule([createDailyRace()], metadata);
+
+      await repository.clearCache();
+
+      expect(await repository.getCachedSchedule()).toBeNull();
+      expect(await repository.getMetadata()).toBeNull();
+    });
+  });
+
+  describe('migrateFromAsyncStorage', () => {
+    let source: AsyncStorageScheduleRepository;
+
+    beforeEach(() => {
+      source = new AsyncStorageScheduleRepository({ store: new MemoryKeyValueStore() });
+    });
+
+    it('should copy the AsyncStorage cache with its timestamp and clear it', async () => {
+      const validators = { etag: '"v1"', lastModified: null };
+      await source.saveSchedule(
+        [createDailyRace({ id: 'a' }), createDailyRace({ id: 'b' })],
+        metadata,
+        validators,
+      );
+      jest.setSystemTime(new Date('2025-11-15T13:00:00Z'));
+
+      const migrated = await repository.migrateFromAsyncStorage(source);
+
+      expect(migrated).toBe(2);
+      expect((await repository.getCachedSchedule())?.map(race => race.id)).toEqual(['a', 'b']);
+      expect(await repository.getLastUpdated()).toEqual(new Date('2025-11-15T12:00:00Z'));
+      expect(await repository.getMetadata()).toEqual(metadata);
+      expect(await repository.getValidators()).toEqual(validators);
+      expect(await source.getCachedSchedule()).toBeNull();
+    });
+
+    it('should only run once', async () => {
+      await source.saveSchedule([createDailyRace()]);
+      await repository.migrateFromAsyncStorage(source);
+      await repository.clearCache();
+      await source.saveSchedule([createDailyRace({ id: 'late-write' })]);
+
+      expect(await repository.migrateFromAsyncStorage(source)).toBe(0);
+      expect(await repository.getCachedSchedule()).toBeNull();
+    });
+
+    it('should mark the migration done when there is nothing to migrate', async () => {
+      expect(await repository.migrateFromAsyncStorage(source)).toBe(0);
+
+      await source.saveSchedule([createDailyRace()]);
+      expect(await repository.migrateFromAsyncStorage(source)).toBe(0);
+    });
+  });
+
+  it('should roll back a failed save', async () => {
+    await repository.saveSchedule([createDailyRace({ id: 'kept' })]);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(
+      repository.saveSchedule([
+        createDailyRace({ id: 'broken', trackName: null as unknown as string }),
+      ]),
+    ).rejects.toThrow();
+
+    expect((await repository.getCachedSchedule())?.map(race => race.id)).toEqual(['kept']);
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,109 @@
+import { ScheduleDiff } from '../../../../../src/features/schedules/services/ScheduleDiff';
+import { createDailyRace } from '../../../../fixtures/races';
+
+describe('ScheduleDiff', () => {
+  let scheduleDiff: ScheduleDiff;
+
+  beforeEach(() => {
+    scheduleDiff = new ScheduleDiff();
+  });
+
+  it('should report identical schedules as unchanged', () => {
+    const result = scheduleDiff.diff([createDailyRace()], [createDailyRace()]);
+
+    expect(result.unchanged).toEqual(['race-1']);
+    expect(scheduleDiff.hasChanges(result)).toBe(false);
+  });
+
+  it('should classify added and removed races', () => {
+    const oldRace = createDailyRace({ id: 'old' });
+    const newRace = createDailyRace({ id: 'new' });
+
+    const result = scheduleDiff.diff([oldRace], [newRace]);
+
+    expect(result.added).toEqual([
+      { kind: 'added', raceId: 'new', before: null, after: newRace, fields: [] },
+    ]);
+    expect(result.removed).toEqual([
+      { kind: 'removed', raceId: 'old', before: oldRace, after: null, fields: [] },
+    ]);
+  });
+
+  it('should classify start time changes as rescheduled', () => {
+    const result = scheduleDiff.diff(
+      [createDailyRace()],
+      [createDailyRace({ startTime: '2025-11-15T15:00:00Z' })],
+    );
+
+    expect(result.rescheduled).toHaveLength(1);
+    expect(result.rescheduled[0].fields).toEqual([
+      { field: 'startTime', before: '2025-11-15T14:00:00Z', after: '2025-11-15T15:00:00Z' },
+    ]);
+    expect(result.modified).toEqual([]);
+  });
+
+  it('should keep other field changes on a rescheduled race', () => {
+    const result = scheduleDiff.diff(
+      [createDailyRace()],
+      [createDailyRace({ startTime: '2025-11-15T15:00:00Z', trackName: 'Spa-Francorchamps' })],
+    );
+
+    expect(result.rescheduled[0].fields.map(change => change.field)).toEqual([
+      'trackName',
+      'startTime',
+    ]);
+  });
+
+  it('should classify track, car class, weather and duration changes as modified', () => {
+    const result = scheduleDiff.diff(
+      [createDailyRace()],
+      [
+        createDailyRace({
+          trackName: 'Spa-Francorchamps',
+          carClass: 'Hypercar',
+          weatherCondition: 'Dynamic',
+          durationMinutes: 20,
+        }),
+      ],
+    );
+
+    expect(result.modified).toHaveLength(1);
+    expect(result.modified[0].fields).toEqual([
+      { field: 'trackName', before: 'Monza', after: 'Spa-Francorchamps' },
+      { field: 'carClass', before: 'LMP2', after: 'Hypercar' },
+      { field: 'durationMinutes', before: 15, after: 20 },
+      { field: 'weatherCondition', before: 'Clear', after: 'Dynamic' },
+    ]);
+  });
+
+  it('should treat equivalent ISO strings as the same start time', () => {
+    const result = scheduleDiff.diff(
+      [createDailyRace()],
+      [createDailyRace({ startTime: '2025-11-15T14:00:00.000Z' })],
+    );
+
+    expect(result.unchanged).toEqual(['race-1']);
+  });
+
+  it('should ignore computed and user-specific fields', () => {
+    const result = scheduleDiff.diff(
+      [createDailyRace({ isLive: false, isFavorited: true })],
+      [createDailyRace({ isLive: true })],
+    );
+
+    expect(scheduleDiff.hasChanges(result)).toBe(false);
+  });
+
+  it('should flatten all changes with getChanges', () => {
+    const result = scheduleDiff.diff(
+      [createDailyRace({ id: 'a' }), createDailyRace({ id: 'b' })],
+      [createDailyRace({ id: 'b', carClass: 'LMGT3' }), createDailyRace({ id: 'c' })],
+    );
+
+    expect(scheduleDiff.getChanges(result).map(change => [change.kind, change.raceId])).toEqual([
+      ['added', 'c'],
+      ['removed', 'a'],
+      ['modified', 'b'],
+    ]);
+  });
+});
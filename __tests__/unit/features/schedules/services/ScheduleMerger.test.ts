@@ -2,6 +2,26 @@ import { ScheduleMerger } from '../../../../../src/features/schedules/services/S
 import type { Race } from '../../../../../src/features/schedules/types/Race';
 import type { Favorite } from '../../../../../src/features/favorites/types/Favorite';
 import type { FavoritesRepository } from '../../../../../src/features/favorites/services/FavoritesRepository';
+import type { SeriesFavorite } from '../../../../../src/features/favorites/types/SeriesFavorite';
+import { AsyncStorageFavoritesRepository } from '../../../../../src/features/favorites/services/AsyncStorageFavoritesRepository';
+import { MemoryKeyValueStore } from '../../../../../src/shared/storage/MemoryKeyValueStore';
+
+const createRace = (overrides: Partial<Race> = {}): Race => ({
+  id: 'race-1',
+  type: 'weekly',
+  tier: null,
+  trackName: 'Track A',
+  trackConfiguration: null,
+  carClass: 'Hypercar',
+  startTime: '2025-03-15T10:00:00Z',
+  durationMinutes: 120,
+  weatherCondition: 'Clear',
+  timeOfDay: 'Afternoon',
+  licenseRequirement: 'Silver',
+  repeatInterval: null,
+  isLive: false,
+  ...overrides,
+});
 
 describe('ScheduleMerger - Favorite Race Merging', () => {
   let merger: ScheduleMerger;
@@ -12,6 +32,16 @@ describe('ScheduleMerger - Favorite Race Merging', () => {
       getFavorites: jest.fn(),
       addFavorite: jest.fn(),
       removeFavorite: jest.fn(),
+      updateFavorite: jest.fn(),
+      removeFavorites: jest.fn(),
+      replaceAll: jest.fn(),
+      getSeriesFavorites: jest.fn().mockResolvedValue([]),
+      addSeriesFavorite: jest.fn(),
+      removeSeriesFavorite: jest.fn(),
+      getPendingRelinks: jest.fn().mockResolvedValue([]),
+      applyRelinks: jest.fn(),
+      resolvePendingRelink: jest.fn(),
+      importFavorites: jest.fn(),
       isFavorite: jest.fn(),
     };
     merger = new ScheduleMerger();
@@ -20,43 +50,35 @@ describe('ScheduleMerger - Favorite Race Merging', () => {
   describe('merge with favorites', () => {
     it('should preserve favorite status when race exists in updated schedule', async () => {
       const existingRaces: Race[] = [
-        {
+        createRace({
           id: 'race-1',
-          name: 'Spring Championship',
-          startTime: new Date('2025-03-15T10:00:00Z'),
-          endTime: new Date('2025-03-15T12:00:00Z'),
-          location: 'Track A',
-          category: 'Varsity',
+          trackName: 'Track A',
+          trackConfiguration: 'Spring Championship',
+          startTime: '2025-03-15T10:00:00Z',
           isFavorited: true,
-        },
-        {
+        }),
+        createRace({
           id: 'race-2',
-          name: 'Summer Race',
-          startTime: new Date('2025-06-15T10:00:00Z'),
-          endTime: new Date('2025-06-15T12:00:00Z'),
-          location: 'Track B',
-          category: 'JV',
+          trackName: 'Track B',
+          trackConfiguration: 'Summer Race',
+          startTime: '2025-06-15T10:00:00Z',
           isFavorited: false,
-        },
+        }),
       ];
 
       const newRaces: Race[] = [
-        {
+        createRace({
           id: 'race-1',
-          name: 'Spring Championship - Updated',
-          startTime: new Date('2025-03-15T11:00:00Z'), // Time changed
-          endTime: new Date('2025-03-15T13:00:00Z'),
-          location: 'Track A - Field 2', // Location changed
-          category: 'Varsity',
-        },
-        {
+          trackName: 'Track A - Field 2', // Track changed
+          trackConfiguration: 'Spring Championship - Updated',
+          startTime: '2025-03-15T11:00:00Z', // Time changed
+        }),
+        createRace({
           id: 'race-2',
-          name: 'Summer Race',
-          startTime: new Date('2025-06-15T10:00:00Z'),
-          endTime: new Date('2025-06-15T12:00:00Z'),
-          location: 'Track B',
-          category: 'JV',
-        },
+          trackName: 'Track B',
+          trackConfiguration: 'Summer Race',
+          startTime: '2025-06-15T10:00:00Z',
+        }),
       ];
 
       const favorites: Favorite[] = [
@@ -77,8 +99,8 @@ describe('ScheduleMerger - Favorite Race Merging', () => {
       expect(mergedRaces).toHaveLength(2);
       // Race 1 should have updated data but preserved favorite status
       expect(mergedRaces[0].id).toBe('race-1');
-      expect(mergedRaces[0].name).toBe('Spring Championship - Updated');
-      expect(mergedRaces[0].location).toBe('Track A - Field 2');
+      expect(mergedRaces[0].trackConfiguration).toBe('Spring Championship - Updated');
+      expect(mergedRaces[0].trackName).toBe('Track A - Field 2');
       expect(mergedRaces[0].isFavorited).toBe(true);
       // Race 2 should remain unfavorited
       expect(mergedRaces[1].isFavorited).toBe(false);
@@ -88,14 +110,12 @@ describe('ScheduleMerger - Favorite Race Merging', () => {
       const existingRaces: Race[] = [];
 
       const newRaces: Race[] = [
-        {
+        createRace({
           id: 'race-1',
-          name: 'New Race',
-          startTime: new Date('2025-03-15T10:00:00Z'),
-          endTime: new Date('2025-03-15T12:00:00Z'),
-          location: 'Track A',
-          category: 'Varsity',
-        },
+          trackName: 'Track A',
+          trackConfiguration: 'New Race',
+          startTime: '2025-03-15T10:00:00Z',
+        }),
       ];
 
       const favorites: Favorite[] = [
@@ -119,27 +139,23 @@ describe('ScheduleMerger - Favorite Race Merging', () => {
 
     it('should remove favorite status from races no longer in schedule', async () => {
       const existingRaces: Race[] = [
-        {
+        createRace({
           id: 'race-1',
-          name: 'Old Race',
-          startTime: new Date('2025-03-15T10:00:00Z'),
-          endTime: new Date('2025-03-15T12:00:00Z'),
-          location: 'Track A',
-          category: 'Varsity',
+          trackName: 'Track A',
+          trackConfiguration: 'Old Race',
+          startTime: '2025-03-15T10:00:00Z',
           isFavorited: true,
-        },
+        }),
       ];
 
       const newRaces: Race[] = [
         // race-1 is no longer in the schedule
-        {
+        createRace({
           id: 'race-2',
-          name: 'New Race',
-          startTime: new Date('2025-06-15T10:00:00Z'),
-          endTime: new Date('2025-06-15T12:00:00Z'),
-          location: 'Track B',
-          category: 'JV',
-        },
+          trackName: 'Track B',
+          trackConfiguration: 'New Race',
+          startTime: '2025-06-15T10:00:00Z',
+        }),
       ];
 
       const favorites: Favorite[] = [
@@ -158,7 +174,7 @@ describe('ScheduleMerger - Favorite Race Merging', () => {
       );
 
       // Should remove race-1 from favorites since it's no longer in schedule
-      expect(mockFavoritesRepository.removeFavorite).toHaveBeenCalledWith('race-1');
+      expect(mockFavoritesRepository.removeFavorites).toHaveBeenCalledWith(['race-1']);
       expect(mergedRaces).toHaveLength(1);
       expect(mergedRaces[0].id).toBe('race-2');
       expect(mergedRaces[0].isFavorited).toBe(false);
@@ -166,51 +182,41 @@ describe('ScheduleMerger - Favorite Race Merging', () => {
 
     it('should handle multiple favorited races correctly', async () => {
       const existingRaces: Race[] = [
-        {
+        createRace({
           id: 'race-1',
-          name: 'Race 1',
-          startTime: new Date('2025-03-15T10:00:00Z'),
-          endTime: new Date('2025-03-15T12:00:00Z'),
-          location: 'Track A',
-          category: 'Varsity',
+          trackName: 'Track A',
+          trackConfiguration: 'Race 1',
+          startTime: '2025-03-15T10:00:00Z',
           isFavorited: true,
-        },
-        {
+        }),
+        createRace({
           id: 'race-2',
-          name: 'Race 2',
-          startTime: new Date('2025-04-15T10:00:00Z'),
-          endTime: new Date('2025-04-15T12:00:00Z'),
-          location: 'Track B',
-          category: 'JV',
+          trackName: 'Track B',
+          trackConfiguration: 'Race 2',
+          startTime: '2025-04-15T10:00:00Z',
           isFavorited: true,
-        },
+        }),
       ];
 
       const newRaces: Race[] = [
-        {
+        createRace({
           id: 'race-1',
-          name: 'Race 1 - Updated',
-          startTime: new Date('2025-03-15T11:00:00Z'),
-          endTime: new Date('2025-03-15T13:00:00Z'),
-          location: 'Track A',
-          category: 'Varsity',
-        },
-        {
+          trackName: 'Track A',
+          trackConfiguration: 'Race 1 - Updated',
+          startTime: '2025-03-15T11:00:00Z',
+        }),
+        createRace({
           id: 'race-2',
-          name: 'Race 2 - Updated',
-          startTime: new Date('2025-04-15T11:00:00Z'),
-          endTime: new Date('2025-04-15T13:00:00Z'),
-          location: 'Track B',
-          category: 'JV',
-        },
-        {
+          trackName: 'Track B',
+          trackConfiguration: 'Race 2 - Updated',
+          startTime: '2025-04-15T11:00:00Z',
+        }),
+        createRace({
           id: 'race-3',
-          name: 'Race 3 - New',
-          startTime: new Date('2025-05-15T10:00:00Z'),
-          endTime: new Date('2025-05-15T12:00:00Z'),
-          location: 'Track C',
-          category: 'Novice',
-        },
+          trackName: 'Track C',
+          trackConfiguration: 'Race 3 - New',
+          startTime: '2025-05-15T10:00:00Z',
+        }),
       ];
 
       const favorites: Favorite[] = [
@@ -242,14 +248,12 @@ describe('ScheduleMerger - Favorite Race Merging', () => {
     it('should handle empty existing races', async () => {
       const existingRaces: Race[] = [];
       const newRaces: Race[] = [
-        {
+        createRace({
           id: 'race-1',
-          name: 'First Race',
-          startTime: new Date('2025-03-15T10:00:00Z'),
-          endTime: new Date('2025-03-15T12:00:00Z'),
-          location: 'Track A',
-          category: 'Varsity',
-        },
+          trackName: 'Track A',
+          trackConfiguration: 'First Race',
+          startTime: '2025-03-15T10:00:00Z',
+        }),
       ];
 
       const favorites: Favorite[] = [];
@@ -267,15 +271,13 @@ describe('ScheduleMerger - Favorite Race Merging', () => {
 
     it('should handle empty new races', async () => {
       const existingRaces: Race[] = [
-        {
+        createRace({
           id: 'race-1',
-          name: 'Old Race',
-          startTime: new Date('2025-03-15T10:00:00Z'),
-          endTime: new Date('2025-03-15T12:00:00Z'),
-          location: 'Track A',
-          category: 'Varsity',
+          trackName: 'Track A',
+          trackConfiguration: 'Old Race',
+          startTime: '2025-03-15T10:00:00Z',
           isFavorited: true,
-        },
+        }),
       ];
       const newRaces: Race[] = [];
 
@@ -295,8 +297,122 @@ describe('ScheduleMerger - Favorite Race Merging', () => {
       );
 
       // Should remove all favorites since no races exist
-      expect(mockFavoritesRepository.removeFavorite).toHaveBeenCalledWith('race-1');
+      expect(mockFavoritesRepository.removeFavorites).toHaveBeenCalledWith(['race-1']);
       expect(mergedRaces).toHaveLength(0);
     });
+
+    it('should favorite every race matching a series favorite across rotations', async () => {
+      const series: SeriesFavorite = {
+        id: 'series:weekly:-:Spa:Hypercar:-',
+        rule: { type: 'weekly', tier: null, trackName: 'Spa', carClass: 'Hypercar', weekday: null },
+        favoritedAt: new Date('2025-01-01T12:00:00Z'),
+        notificationEnabled: false,
+      };
+      mockFavoritesRepository.getFavorites.mockResolvedValue([]);
+      mockFavoritesRepository.getSeriesFavorites.mockResolvedValue([series]);
+
+      // Next week's schedule has new IDs for the same series
+      const newRaces: Race[] = [
+        createRace({ id: 'week-2-spa', trackName: 'Spa' }),
+        createRace({ id: 'week-2-spa-lmp2', trackName: 'Spa', carClass: 'LMP2' }),
+        createRace({ id: 'week-2-monza', trackName: 'Monza' }),
+      ];
+
+      const mergedRaces = await merger.mergeWithFavorites([], newRaces, mockFavoritesRepository);
+
+      expect(mergedRaces.map(race => race.isFavorited)).toEqual([true, false, false]);
+      expect(mockFavoritesRepository.removeSeriesFavorite).not.toHaveBeenCalled();
+    });
+
+    it('should keep notes, tags and lead times on favorites that survive the merge', async () => {
+      const repository = new AsyncStorageFavoritesRepository(new MemoryKeyValueStore());
+      const kept: Favorite = {
+        raceId: 'race-1',
+        favoritedAt: new Date('2025-01-01T12:00:00Z'),
+        notificationEnabled: true,
+        note: 'practice T1 braking',
+        tags: ['league'],
+        reminderLeadMinutes: 60,
+      };
+      await repository.replaceAll([kept, { ...kept, raceId: 'race-gone' }]);
+
+      await merger.mergeWithFavorites([], [createRace({ id: 'race-1' })], repository);
+
+      expect(await repository.getFavorites()).toEqual([kept]);
+    });
+
+    describe('re-linking orphaned favorites', () => {
+      const previous = createRace({
+        id: 'old-id',
+        trackName: 'Spa',
+        startTime: '2025-03-15T10:00:00Z',
+      });
+      let repository: AsyncStorageFavoritesRepository;
+
+      beforeEach(async () => {
+        repository = new AsyncStorageFavoritesRepository(new MemoryKeyValueStore());
+        await repository.replaceAll([
+          {
+            raceId: 'old-id',
+            favoritedAt: new Date('2025-01-01T12:00:00Z'),
+            notificationEnabled: true,
+            note: 'practice T1 braking',
+          },
+        ]);
+      });
+
+      it('should move a favorite to the race that only changed ID', async () => {
+        const newRaces = [
+          createRace({ id: 'new-id', trackName: 'Spa', startTime: '2025-03-15T10:00:00Z' }),
+          createRace({ id: 'monza', trackName: 'Monza', startTime: '2025-03-15T10:00:00Z' }),
+        ];
+
+        const mergedRaces = await merger.mergeWithFavorites([previous], newRaces, repository);
+
+        expect(mergedRaces.map(race => race.isFavorited)).toEqual([true, false]);
+        expect(await repository.getFavorites()).toEqual([
+          expect.objectContaining({ raceId: 'new-id', note: 'practice T1 braking' }),
+        ]);
+        expect(await repository.getPendingRelinks()).toEqual([]);
+      });
+
+      it('should keep ambiguous matches for review instead of deleting them', async () => {
+        // Two sessions of the same race, equally close to the old start time
+        const newRaces = [
+          createRace({ id: 'early', trackName: 'Spa', startTime: '2025-03-15T09:30:00Z' }),
+          createRace({ id: 'late', trackName: 'Spa', startTime: '2025-03-15T10:30:00Z' }),
+        ];
+
+        const mergedRaces = await merger.mergeWithFavorites([previous], newRaces, repository);
+
+        expect(mergedRaces.some(race => race.isFavorited)).toBe(false);
+        expect(await repository.getFavorites()).toEqual([]);
+        const [pending] = await repository.getPendingRelinks();
+        expect(pending.favorite.note).toBe('practice T1 braking');
+        expect(pending.previousRace.startTime).toBe('2025-03-15T10:00:00Z');
+        expect(pending.candidates.map(candidate => candidate.raceId)).toEqual(['early', 'late']);
+      });
+
+      it('should move a pending favorite once a later schedule settles the match', async () => {
+        await merger.mergeWithFavorites(
+          [previous],
+          [
+            createRace({ id: 'early', trackName: 'Spa', startTime: '2025-03-15T09:30:00Z' }),
+            createRace({ id: 'late', trackName: 'Spa', startTime: '2025-03-15T10:30:00Z' }),
+          ],
+          repository,
+        );
+
+        const mergedRaces = await merger.mergeWithFavorites(
+          [],
+          [createRace({ id: 'final', trackName: 'Spa', startTime: '2025-03-15T10:00:00Z' })],
+          repository,
+        );
+
+        expect(mergedRaces[0].isFavorited).toBe(true);
+        expect((await repository.getFavorites()).map(f => f.raceId)).toEqual(['final']);
+        expect(await repository.getPendingRelinks()).toEqual([]);
+      });
+    });
   });
 });
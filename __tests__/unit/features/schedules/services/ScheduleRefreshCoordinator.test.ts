@@ -0,0 +1,177 @@
+import { AppStateStatus } from 'react-native';
+import {
+  AppStateSource,
+  ScheduleRefreshCoordinator,
+} from '../../../../../src/features/schedules/services/ScheduleRefreshCoordinator';
+
+/**
+ * AppState stand-in that lets tests move the app between states
+ */
+const createFakeAppState = () => {
+  const listeners = new Set<Parameters<AppStateSource['addEventListener']>[1]>();
+  const appState: AppStateSource & {
+    emit: (state: AppStateStatus) => void;
+    listenerCount: () => number;
+  } = {
+    currentState: 'active',
+    addEventListener: (_type, listener) => {
+      listeners.add(listener);
+      return { remove: () => listeners.delete(listener) };
+    },
+    emit: state => {
+      appState.currentState = state;
+      listeners.forEach(listener => listener(state));
+    },
+    listenerCount: () => listeners.size,
+  };
+  return appState;
+};
+
+/**
+ * Lets pending promise callbacks run
+ */
+const flushPromises = () =>
+  new Promise(resolve => jest.requireActual('timers').setImmediate(resolve));
+
+describe('ScheduleRefreshCoordinator', () => {
+  let appState: ReturnType<typeof createFakeAppState>;
+  let isStale: jest.Mock;
+  let refresh: jest.Mock;
+  let coordinator: ScheduleRefreshCoordinator;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-11-15T12:00:00Z') });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    appState = createFakeAppState();
+    isStale = jest.fn().mockResolvedValue(true);
+    refresh = jest.fn().mockResolvedValue(undefined);
+    coordinator = new ScheduleRefreshCoordinator(
+      { isStale, refresh },
+      { appState, initialBackoffMs: 1000, maxBackoffMs: 4000 },
+    );
+  });
+
+  afterEach(() => {
+    coordinator.stop();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('foreground', () => {
+    it('should refresh when the app returns to the foreground with stale data', async () => {
+      coordinator.start();
+
+      appState.emit('background');
+      appState.emit('active');
+      await flushPromises();
+
+      expect(refresh).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not refresh when the cache is fresh', async () => {
+      isStale.mockResolvedValue(false);
+      coordinator.start();
+
+      appState.emit('background');
+      appState.emit('active');
+      await flushPromises();
+
+      expect(isStale).toHaveBeenCalled();
+      expect(refresh).not.toHaveBeenCalled();
+    });
+
+    it('should ignore changes that do not come back from the background', async () => {
+      coordinator.start();
+
+      appState.emit('active');
+      await flushPromises();
+
+      expect(isStale).not.toHaveBeenCalled();
+    });
+
+    it('should stop listening on stop', () => {
+      coordinator.start();
+      coordinator.start();
+      expect(appState.listenerCount()).toBe(1);
+
+      coordinator.stop();
+      expect(appState.listenerCount()).toBe(0);
+    });
+  });
+
+  describe('deduplication', () => {
+    it('should share one in-flight refresh between callers', async () => {
+      let finish: () => void = () => {};
+      refresh.mockImplementation(() => new Promise<void>(resolve => (finish = resolve)));
+
+      const background = coordinator.refreshIfStale();
+      await flushPromises();
+      const manual = coordinator.refreshNow();
+      const again = coordinator.refreshIfStale();
+      finish();
+
+      await expect(Promise.all([background, manual, again])).resolves.toEqual([
+        true,
+        undefined,
+        true,
+      ]);
+      expect(refresh).toHaveBeenCalledTimes(1);
+    });
+
+    it('should start a new refresh once the previous one settled', async () => {
+      await coordinator.refreshNow();
+      await coordinator.refreshNow();
+
+      expect(refresh).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('backoff', () => {
+    it('should skip background refreshes until the backoff delay has passed', async () => {
+      refresh.mockRejectedValue(new Error('offline'));
+
+      expect(await coordinator.refreshIfStale()).toBe(false);
+      expect(coordinator.getFailureCount()).toBe(1);
+      expect(coordinator.getBackoffUntil()).toEqual(new Date('2025-11-15T12:00:01Z'));
+
+      expect(await coordinator.refreshIfStale()).toBe(false);
+      expect(refresh).toHaveBeenCalledTimes(1);
+
+      jest.advanceTimersByTime(1000);
+      await coordinator.refreshIfStale();
+      expect(refresh).toHaveBeenCalledTimes(2);
+    });
+
+    it('should double the delay up to the maximum', async () => {
+      refresh.mockRejectedValue(new Error('offline'));
+      const delays: number[] = [];
+
+      for (let attempt = 0; attempt < 4; attempt++) {
+        await coordinator.refreshIfStale();
+        const until = coordinator.getBackoffUntil()?.getTime() ?? 0;
+        delays.push(until - Date.now());
+        jest.setSystemTime(until);
+      }
+
+      expect(delays).toEqual([1000, 2000, 4000, 4000]);
+    });
+
+    it('should reset after a successful refresh', async () => {
+      refresh.mockRejectedValueOnce(new Error('offline'));
+      await coordinator.refreshIfStale();
+
+      await coordinator.refreshNow();
+
+      expect(coordinator.getFailureCount()).toBe(0);
+      expect(coordinator.getBackoffUntil()).toBeNull();
+    });
+
+    it('should let manual refreshes through and rethrow their errors', async () => {
+      refresh.mockRejectedValue(new Error('offline'));
+      await coordinator.refreshIfStale();
+
+      await expect(coordinator.refreshNow()).rejects.toThrow('offline');
+      expect(refresh).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { AsyncStorageScheduleRepository } from '../../../../../src/features/schedules/services/AsyncStorageScheduleRepository';
+import { RemoteScheduleRepository } from '../../../../../src/features/schedules/services/RemoteScheduleRepository';
+import { ScheduleWindowService } from '../../../../../src/features/schedules/services/ScheduleWindowService';
+import { Race } from '../../../../../src/features/schedules/types/Race';
+import { MemoryKeyValueStore } from '../../../../../src/shared/storage/MemoryKeyValueStore';
+import { createRace } from '../../../../fixtures/races';
+
+const NOW = new Date('2025-11-15T12:00:00Z');
+
+const parsed = (races: Race[]) => ({ races, metadata: null, diagnostics: null });
+
+describe('ScheduleWindowService', () => {
+  let fetchParsedSchedule: jest.Mock;
+  let cache: AsyncStorageScheduleRepository;
+  let service: ScheduleWindowService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    fetchParsedSchedule = jest.fn().mockResolvedValue(parsed([]));
+    const store = new MemoryKeyValueStore();
+    cache = new AsyncStorageScheduleRepository({ store });
+    const remote = { fetchParsedSchedule } as unknown as RemoteScheduleRepository;
+    service = new ScheduleWindowService(remote, { cache, store, horizonDays: 21 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('loadWindow', () => {
+    it('should cap the requested range at 7 days', async () => {
+      await service.loadWindow(NOW, new Date('2025-12-15T12:00:00Z'));
+
+      expect(fetchParsedSchedule).toHaveBeenCalledWith({
+        from: '2025-11-15T12:00:00.000Z',
+        to: '2025-11-22T12:00:00.000Z',
+      });
+    });
+
+    it('should merge window races into the cache without duplicates', async () => {
+      await cache.saveSchedule([createRace({ id: 'base', trackName: 'Old' })]);
+      fetchParsedSchedule.mockResolvedValue(
+        parsed([createRace({ id: 'base', trackName: 'New' }), createRace({ id: 'extra' })]),
+      );
+
+      await service.loadWindow(NOW);
+
+      const cached = await cache.getCachedSchedule();
+      expect(cached?.map(race => race.id)).toEqual(['base', 'extra']);
+      expect(cached?.[0].trackName).toBe('New');
+    });
+
+    it('should combine overlapping windows into one', async () => {
+      fetchParsedSchedule.mockResolvedValueOnce(parsed([createRace({ id: 'a' })]));
+      await service.loadWindow(NOW);
+      fetchParsedSchedule.mockResolvedValueOnce(parsed([createRace({ id: 'b' })]));
+      await service.loadWindow(new Date('2025-11-20T12:00:00Z'));
+
+      const windows = await service.getWindows();
+      expect(windows).toHaveLength(1);
+      expect(windows[0].from).toBe('2025-11-15T12:00:00.000Z');
+      expect(windows[0].to).toBe('2025-11-27T12:00:00.000Z');
+      expect(windows[0].raceIds).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('loadNextWindow', () => {
+    it('should start where the base schedule ends when no window is loaded', async () => {
+      await cache.saveSchedule([createRace()], {
+        generatedAt: '2025-11-14T12:00:00Z',
+        validUntil: '2025-11-15T12:00:00Z',
+        source: 'racecontrol.gg',
+      });
+      fetchParsedSchedule.mockResolvedValue(parsed([createRace({ id: 'next' })]));
+
+      await service.loadNextWindow(NOW);
+
+      expect(fetchParsedSchedule).toHaveBeenCalledWith({
+        from: '2025-11-21T12:00:00.000Z',
+        to: '2025-11-28T12:00:00.000Z',
+      });
+    });
+
+    it('should not skip ahead to a far-future special event in the base schedule', async () => {
+      await cache.saveSchedule([
+        createRace({ id: 'today' }),
+        createRace({ id: 'finale', type: 'special', startTime: '2026-01-10T18:00:00Z' }),
+      ]);
+      fetchParsedSchedule.mockResolvedValue(parsed([createRace({ id: 'next' })]));
+
+      await service.loadNextWindow(NOW);
+
+      expect(fetchParsedSchedule).toHaveBeenCalledWith({
+        from: '2025-11-22T12:00:00.000Z',
+        to: '2025-11-29T12:00:00.000Z',
+      });
+    });
+
+    it('should continue from the end of the last window', async () => {
+      fetchParsedSchedule.mockResolvedValue(parsed([createRace({ id: 'a' })]));
+      await service.loadWindow(NOW);
+      fetchParsedSchedule.mockResolvedValue(parsed([createRace({ id: 'b' })]));
+
+      const result = await service.loadNextWindow(NOW);
+
+      expect(fetchParsedSchedule).toHaveBeenLastCalledWith({
+        from: '2025-11-22T12:00:00.000Z',
+        to: '2025-11-29T12:00:00.000Z',
+      });
+      expect(result.races.map(race => race.id)).toEqual(['a', 'b']);
+      expect(result.hasMore).toBe(true);
+    });
+
+    it('should skip empty windows until the horizon', async () => {
+      const result = await service.loadNextWindow(NOW);
+
+      expect(fetchParsedSchedule).toHaveBeenCalledTimes(3);
+      expect(result.window?.to).toBe('2025-12-06T12:00:00.000Z');
+      expect(result.hasMore).toBe(false);
+    });
+  });
+
+  describe('evictPastWindows', () => {
+    it('should drop past windows and their finished races', async () => {
+      const finished = createRace({ id: 'finished', startTime: '2025-11-15T13:00:00Z' });
+      const repeating = createRace({
+        id: 'repeating',
+        startTime: '2025-11-15T13:00:00Z',
+        repeatInterval: 60,
+      });
+      fetchParsedSchedule.mockResolvedValue(parsed([finished, repeating]));
+      await service.loadWindow(NOW, new Date('2025-11-16T12:00:00Z'));
+
+      const evicted = await service.evictPastWindows(new Date('2025-11-16T12:00:00Z'));
+
+      expect(evicted).toEqual(['finished']);
+      expect(await service.getWindows()).toEqual([]);
+      expect((await cache.getCachedSchedule())?.map(race => race.id)).toEqual(['repeating']);
+    });
+
+    it('should keep windows that have not ended', async () => {
+      await service.loadWindow(NOW);
+
+      expect(await service.evictPastWindows(new Date('2025-11-20T00:00:00Z'))).toEqual([]);
+      expect(await service.getWindows()).toHaveLength(1);
+    });
+  });
+
+  it('should forget all windows on reset', async () => {
+    await service.loadWindow(NOW);
+    await service.reset();
+
+    expect(await service.getWindows()).toEqual([]);
+  });
+});
@@ -0,0 +1,68 @@
+import initSqlJs, { SqlJsStatic } from 'sql.js';
+import { AsyncStorageScheduleRepository } from '../../../../../src/features/schedules/services/AsyncStorageScheduleRepository';
+import { SQLiteScheduleRepository } from '../../../../../src/features/schedules/services/SQLiteScheduleRepository';
+import {
+  openQuickSqliteDatabase,
+  openScheduleCache,
+} from '../../../../../src/features/schedules/services/scheduleCacheBackend';
+import { MemoryKeyValueStore } from '../../../../../src/shared/storage/MemoryKeyValueStore';
+import { createDailyRace } from '../../../../fixtures/races';
+import { createSqlDatabase } from '../../../../fixtures/sqlDatabase';
+
+describe('scheduleCacheBackend', () => {
+  let SQL: SqlJsStatic;
+  let legacyCache: AsyncStorageScheduleRepository;
+
+  beforeAll(async () => {
+    SQL = await initSqlJs();
+  });
+
+  beforeEach(() => {
+    legacyCache = new AsyncStorageScheduleRepository({ store: new MemoryKeyValueStore() });
+  });
+
+  describe('openScheduleCache', () => {
+    it('should move the AsyncStorage cache into SQLite', async () => {
+      await legacyCache.saveSchedule([createDailyRace({ id: 'a' })]);
+      const db = createSqlDatabase(new SQL.Database());
+
+      const cache = await openScheduleCache('sqlite', () => db, legacyCache);
+
+      expect(cache).toBeInstanceOf(SQLiteScheduleRepository);
+      expect((await cache.getCachedSchedule())?.map(race => race.id)).toEqual(['a']);
+      expect(await legacyCache.getCachedSchedule()).toBeNull();
+    });
+
+    it('should use AsyncStorage when SQLite is unavailable', async () => {
+      const cache = await openScheduleCache('sqlite', () => null, legacyCache);
+
+      expect(cache).toBe(legacyCache);
+    });
+
+    it('should not open the database for the AsyncStorage backend', async () => {
+      const openDatabase = jest.fn();
+
+      const cache = await openScheduleCache('asyncStorage', openDatabase, legacyCache);
+
+      expect(cache).toBe(legacyCache);
+      expect(openDatabase).not.toHaveBeenCalled();
+    });
+
+    it('should keep the AsyncStorage cache when the migration fails', async () => {
+      await legacyCache.saveSchedule([createDailyRace()]);
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      const execute = jest.fn().mockRejectedValue(new Error('disk I/O error'));
+
+      const cache = await openScheduleCache('sqlite', () => ({ execute }), legacyCache);
+
+      expect(cache).toBe(legacyCache);
+      expect(await legacyCache.getCachedSchedule()).toHaveLength(1);
+    });
+  });
+
+  it('should report SQLite as unavailable when the native module is missing', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(openQuickSqliteDatabase()).toBeNull();
+  });
+});
@@ -12,7 +12,17 @@
  * - Positive number constraint for durationMinutes
  */
 
-import { Race, RaceType, RaceTier, CarClass, WeatherCondition, TimeOfDay, LicenseRequirement } from '../../../../../src/features/schedules/types/Race';
+import {
+  Race,
+  RaceType,
+  RaceTier,
+  CarClass,
+  WeatherCondition,
+  TimeOfDay,
+  LicenseRequirement,
+  RACE_SCHEMA,
+  isRace,
+} from '../../../../../src/features/schedules/types/Race';
 
 describe('Race Type Validation', () => {
   describe('RaceType enum', () => {
@@ -357,4 +367,60 @@ describe('Race Type Validation', () => {
       expect(notLiveRace.isLive).toBe(false);
     });
   });
+
+  describe('Runtime schema', () => {
+    const validRace: Race = {
+      id: '550e8400-e29b-41d4-a716-446655440000',
+      type: 'daily',
+      tier: 'beginner',
+      trackName: 'Monza',
+      trackConfiguration: null,
+      carClass: 'LMP2',
+      startTime: '2024-03-15T14:30:00Z',
+      durationMinutes: 30,
+      weatherCondition: 'Clear',
+      timeOfDay: 'Morning',
+      licenseRequirement: 'Bronze',
+      repeatInterval: 60,
+      isLive: false,
+    };
+
+    it('should describe every Race field', () => {
+      expect(Object.keys(RACE_SCHEMA).sort()).toEqual(
+        [...Object.keys(validRace), 'isFavorited'].sort(),
+      );
+    });
+
+    it('should accept a canonical race', () => {
+      expect(isRace(validRace)).toBe(true);
+      expect(isRace({ ...validRace, isFavorited: true })).toBe(true);
+    });
+
+    it('should reject enum values outside the unions', () => {
+      expect(isRace({ ...validRace, type: 'championship' })).toBe(false);
+      expect(isRace({ ...validRace, carClass: 'GTE' })).toBe(false);
+      expect(isRace({ ...validRace, licenseRequirement: 'Platinum' })).toBe(false);
+    });
+
+    it('should reject the legacy name/location/category shape', () => {
+      expect(
+        isRace({
+          id: 'race-1',
+          name: 'Spring Championship',
+          startTime: '2025-03-15T10:00:00.000Z',
+          endTime: '2025-03-15T12:00:00.000Z',
+          location: 'Track A',
+          category: 'Varsity',
+        }),
+      ).toBe(false);
+    });
+
+    it('should reject non-positive durations and missing fields', () => {
+      expect(isRace({ ...validRace, durationMinutes: 0 })).toBe(false);
+      const { trackName, ...withoutTrack } = validRace;
+      expect(trackName).toBe('Monza');
+      expect(isRace(withoutTrack)).toBe(false);
+      expect(isRace(null)).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,91 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  adaptLegacyRace,
+  isLegacyRace,
+  normalizeCachedRaces,
+} from '../../../../../src/features/schedules/utils/legacyRaceAdapter';
+import { AsyncStorageScheduleRepository } from '../../../../../src/features/schedules/services/AsyncStorageScheduleRepository';
+import { STORAGE_KEYS } from '../../../../../src/shared/constants/storageKeys';
+import { createRace } from '../../../../fixtures/races';
+
+const legacyRace = {
+  id: 'race-1',
+  name: 'Hypercar Sprint',
+  startTime: '2025-03-15T10:00:00.000Z',
+  endTime: '2025-03-15T10:45:00.000Z',
+  location: 'Monza',
+  category: 'Daily',
+  isFavorited: true,
+};
+
+const canonicalRace = createRace({ id: 'race-2' });
+
+describe('legacyRaceAdapter', () => {
+  describe('isLegacyRace', () => {
+    it('should detect the legacy shape', () => {
+      expect(isLegacyRace(legacyRace)).toBe(true);
+    });
+
+    it('should not treat canonical races as legacy', () => {
+      expect(isLegacyRace(canonicalRace)).toBe(false);
+    });
+  });
+
+  describe('adaptLegacyRace', () => {
+    it('should map legacy fields onto the canonical model', () => {
+      const race = adaptLegacyRace(legacyRace);
+
+      expect(race).toMatchObject({
+        id: 'race-1',
+        type: 'daily',
+        trackName: 'Monza',
+        carClass: 'Hypercar',
+        startTime: '2025-03-15T10:00:00.000Z',
+        durationMinutes: 45,
+        isFavorited: true,
+      });
+    });
+
+    it('should fall back to special and Multi-class for unknown values', () => {
+      const race = adaptLegacyRace({
+        ...legacyRace,
+        name: 'Spring Championship',
+        category: 'Varsity',
+      });
+
+      expect(race?.type).toBe('special');
+      expect(race?.carClass).toBe('Multi-class');
+    });
+
+    it('should return null for unusable dates', () => {
+      expect(adaptLegacyRace({ ...legacyRace, endTime: 'not a date' })).toBeNull();
+      expect(adaptLegacyRace({ ...legacyRace, endTime: legacyRace.startTime })).toBeNull();
+    });
+  });
+
+  describe('normalizeCachedRaces', () => {
+    it('should pass canonical races through and adapt legacy ones', () => {
+      const races = normalizeCachedRaces([canonicalRace, legacyRace, { id: 'garbage' }]);
+
+      expect(races).toHaveLength(2);
+      expect(races[0]).toBe(canonicalRace);
+      expect(races[1].trackName).toBe('Monza');
+    });
+  });
+
+  describe('AsyncStorageScheduleRepository integration', () => {
+    beforeEach(async () => {
+      await AsyncStorage.clear();
+    });
+
+    it('should read a cache written in the legacy shape', async () => {
+      await AsyncStorage.setItem(STORAGE_KEYS.SCHEDULE, JSON.stringify([legacyRace]));
+      const repository = new AsyncStorageScheduleRepository();
+
+      const races = await repository.getCachedSchedule();
+
+      expect(races).toHaveLength(1);
+      expect(races?.[0].type).toBe('daily');
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { MemoryKeyValueStore } from '../../../../src/shared/storage/MemoryKeyValueStore';
+import { NamespacedKeyValueStore } from '../../../../src/shared/storage/NamespacedKeyValueStore';
+import {
+  ENCRYPTED_VALUE_PREFIX,
+  EncryptedKeyValueStore,
+  ValueCipher,
+} from '../../../../src/shared/storage/EncryptedKeyValueStore';
+import { createJsonCodec, readValue, writeValue } from '../../../../src/shared/storage/jsonCodec';
+import { STORAGE_KEYS } from '../../../../src/shared/constants/storageKeys';
+
+/**
+ * Reversible stand-in for a real cipher
+ */
+const reverseCipher: ValueCipher = {
+  encrypt: async plaintext => plaintext.split('').reverse().join(''),
+  decrypt: async ciphertext => ciphertext.split('').reverse().join(''),
+};
+
+describe('MemoryKeyValueStore', () => {
+  it('should read, write and remove values', async () => {
+    const store = new MemoryKeyValueStore({ a: '1' });
+
+    expect(await store.getItem('a')).toBe('1');
+    expect(await store.getItem('missing')).toBeNull();
+
+    await store.setItem('b', '2');
+    await store.removeItem('a');
+
+    expect(await store.getAllKeys()).toEqual(['b']);
+  });
+
+  it('should support multi-key operations', async () => {
+    const store = new MemoryKeyValueStore();
+
+    await store.multiSet([
+      ['a', '1'],
+      ['b', '2'],
+    ]);
+    expect(await store.multiGet(['a', 'b', 'c'])).toEqual([
+      ['a', '1'],
+      ['b', '2'],
+      ['c', null],
+    ]);
+
+    await store.multiRemove(['a', 'c']);
+    expect(await store.getAllKeys()).toEqual(['b']);
+
+    await store.clear();
+    expect(await store.getAllKeys()).toEqual([]);
+  });
+});
+
+describe('NamespacedKeyValueStore', () => {
+  it('should prefix bare keys and keep namespaced keys as they are', async () => {
+    const backing = new MemoryKeyValueStore();
+    const store = new NamespacedKeyValueStore(backing);
+
+    await store.setItem('theme', 'dark');
+
+    expect(await backing.getItem('racesync:theme')).toBe('dark');
+    expect(await store.getItem(STORAGE_KEYS.THEME)).toBe('dark');
+    expect(store.toStorageKey(STORAGE_KEYS.THEME)).toBe(STORAGE_KEYS.THEME);
+  });
+
+  it('should only list and clear keys inside the namespace', async () => {
+    const backing = new MemoryKeyValueStore({ 'other-lib:token': 'abc' });
+    const store = new NamespacedKeyValueStore(backing);
+    await store.multiSet([
+      ['theme', 'dark'],
+      ['favorites', '[]'],
+    ]);
+
+    expect((await store.getAllKeys()).sort()).toEqual(['racesync:favorites', 'racesync:theme']);
+
+    await store.clear();
+
+    expect(await backing.getAllKeys()).toEqual(['other-lib:token']);
+  });
+});
+
+describe('EncryptedKeyValueStore', () => {
+  it('should store ciphertext and read back plaintext', async () => {
+    const backing = new MemoryKeyValueStore();
+    const store = new EncryptedKeyValueStore(backing, reverseCipher);
+
+    await store.setItem('secret', 'hello');
+
+    expect(await backing.getItem('secret')).toBe(`${ENCRYPTED_VALUE_PREFIX}olleh`);
+    expect(await store.getItem('secret')).toBe('hello');
+  });
+
+  it('should encrypt and decrypt multi-key operations', async () => {
+    const backing = new MemoryKeyValueStore();
+    const store = new EncryptedKeyValueStore(backing, reverseCipher);
+
+    await store.multiSet([
+      ['a', 'ab'],
+      ['b', 'cd'],
+    ]);
+
+    expect(await backing.multiGet(['a', 'b'])).toEqual([
+      ['a', `${ENCRYPTED_VALUE_PREFIX}ba`],
+      ['b', `${ENCRYPTED_VALUE_PREFIX}dc`],
+    ]);
+    expect(await store.multiGet(['a', 'b', 'c'])).toEqual([
+      ['a', 'ab'],
+      ['b', 'cd'],
+      ['c', null],
+    ]);
+  });
+
+  it('should pass through values written before encryption was enabled', async () => {
+    const backing = new MemoryKeyValueStore({ legacy: 'plain' });
+    const store = new EncryptedKeyValueStore(backing, reverseCipher);
+
+    expect(await store.getItem('legacy')).toBe('plain');
+  });
+
+  it('should reject values the cipher cannot decrypt', async () => {
+    const cipher: ValueCipher = {
+      encrypt: reverseCipher.encrypt,
+      decrypt: () => Promise.reject(new Error('bad key')),
+    };
+    const store = new EncryptedKeyValueStore(
+      new MemoryKeyValueStore({ secret: `${ENCRYPTED_VALUE_PREFIX}xyz` }),
+      cipher,
+    );
+
+    await expect(store.getItem('secret')).rejects.toThrow('bad key');
+  });
+});
+
+describe('jsonCodec', () => {
+  it('should revive ISO dates when asked to', async () => {
+    const store = new MemoryKeyValueStore();
+    const codec = createJsonCodec<{ at: Date; label: string }>({ reviveDates: true });
+    const at = new Date('2025-11-15T14:00:00.000Z');
+
+    await writeValue(store, 'value', { at, label: '2025-11-15' }, codec);
+    const value = await readValue(store, 'value', codec);
+
+    expect(value?.at).toBeInstanceOf(Date);
+    expect(value?.at.getTime()).toBe(at.getTime());
+    expect(value?.label).toBe('2025-11-15');
+  });
+
+  it('should keep ISO strings as strings by default', async () => {
+    const store = new MemoryKeyValueStore();
+    const codec = createJsonCodec<{ startTime: string }>();
+
+    await writeValue(store, 'race', { startTime: '2025-11-15T14:00:00Z' }, codec);
+
+    expect((await readValue(store, 'race', codec))?.startTime).toBe('2025-11-15T14:00:00Z');
+  });
+
+  it('should return null for missing keys', async () => {
+    const codec = createJsonCodec<string[]>();
+
+    expect(await readValue(new MemoryKeyValueStore(), 'missing', codec)).toBeNull();
+  });
+});
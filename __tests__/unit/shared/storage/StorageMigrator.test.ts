@@ -0,0 +1,234 @@
+import {
+  StorageMigration,
+  StorageMigrator,
+  getQuarantineKey,
+} from '../../../../src/shared/storage/StorageMigrator';
+import { STORAGE_MIGRATIONS } from '../../../../src/shared/storage/storageMigrations';
+import { MemoryKeyValueStore } from '../../../../src/shared/storage/MemoryKeyValueStore';
+import { STORAGE_KEYS } from '../../../../src/shared/constants/storageKeys';
+import { createDailyRace } from '../../../fixtures/races';
+
+const canonicalRace = createDailyRace();
+
+const legacyRace = {
+  id: 'legacy-1',
+  name: 'Hypercar Sprint',
+  startTime: '2025-11-15T10:00:00.000Z',
+  endTime: '2025-11-15T10:45:00.000Z',
+  location: 'Spa',
+  category: 'Weekly',
+};
+
+describe('StorageMigrator', () => {
+  let store: MemoryKeyValueStore;
+
+  const readJson = async (key: string) => JSON.parse((await store.getItem(key)) ?? 'null');
+
+  beforeEach(() => {
+    store = new MemoryKeyValueStore();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('runner', () => {
+    const key = STORAGE_KEYS.THEME;
+    const steps: StorageMigration[] = [
+      { key, version: 3, description: 'upper', migrate: value => value.toUpperCase() },
+      { key, version: 2, description: 'suffix', migrate: value => `${value}-v2` },
+    ];
+
+    it('should apply pending steps in version order and record the version', async () => {
+      await store.setItem(key, 'dark');
+
+      const report = await new StorageMigrator(steps, store).run();
+
+      expect(await store.getItem(key)).toBe('DARK-V2');
+      expect(report.migrated).toEqual([key]);
+      expect(await readJson(STORAGE_KEYS.SCHEMA_VERSION)).toEqual({ [key]: 3 });
+    });
+
+    it('should only run steps newer than the recorded version', async () => {
+      await store.setItem(key, 'dark');
+      await store.setItem(STORAGE_KEYS.SCHEMA_VERSION, JSON.stringify({ [key]: 2 }));
+
+      await new StorageMigrator(steps, store).run();
+
+      expect(await store.getItem(key)).toBe('DARK');
+    });
+
+    it('should do nothing on a second run', async () => {
+      await store.setItem(key, 'dark');
+      const migrator = new StorageMigrator(steps, store);
+      await migrator.run();
+
+      const report = await migrator.run();
+
+      expect(report.migrated).toEqual([]);
+      expect(await store.getItem(key)).toBe('DARK-V2');
+    });
+
+    it('should record the latest version for keys with no stored value', async () => {
+      const report = await new StorageMigrator(steps, store).run();
+
+      expect(report.migrated).toEqual([]);
+      expect(report.versions).toEqual({ [key]: 3 });
+    });
+
+    it('should delete the value when a step returns null', async () => {
+      await store.setItem(key, 'dark');
+
+      await new StorageMigrator(
+        [{ key, version: 2, description: 'drop', migrate: () => null }],
+        store,
+      ).run();
+
+      expect(await store.getItem(key)).toBeNull();
+    });
+
+    it('should quarantine a value whose migration fails', async () => {
+      await store.setItem(key, 'dark');
+      const failing: StorageMigration = {
+        key,
+        version: 2,
+        description: 'fail',
+        migrate: () => {
+          throw new Error('bad value');
+        },
+      };
+      const migrator = new StorageMigrator([failing], store);
+
+      const report = await migrator.run();
+
+      expect(report.quarantined).toEqual([key]);
+      expect(await store.getItem(key)).toBeNull();
+      expect(await migrator.getQuarantined(key)).toMatchObject({
+        key,
+        value: 'dark',
+        version: 1,
+        error: 'bad value',
+      });
+      expect(report.versions[key]).toBe(2);
+    });
+
+    it('should reject two steps for the same version', () => {
+      expect(() => new StorageMigrator([steps[1], { ...steps[1] }])).toThrow('Duplicate');
+    });
+  });
+
+  describe('STORAGE_MIGRATIONS', () => {
+    it('should register every storage key', () => {
+      const keys = Object.values(STORAGE_KEYS).filter(key => key !== STORAGE_KEYS.SCHEMA_VERSION);
+
+      keys.forEach(key => {
+        expect(STORAGE_MIGRATIONS.some(migration => migration.key === key)).toBe(true);
+      });
+    });
+
+    it('should record the baseline version of keys without upgrade steps', async () => {
+      await store.setItem(STORAGE_KEYS.THEME, 'dark');
+
+      const report = await new StorageMigrator(STORAGE_MIGRATIONS, store).run();
+
+      expect(report.migrated).toEqual([]);
+      expect(report.versions[STORAGE_KEYS.THEME]).toBe(1);
+      expect(report.versions[STORAGE_KEYS.FAVORITES]).toBe(3);
+      expect(await store.getItem(STORAGE_KEYS.THEME)).toBe('dark');
+    });
+
+    it('should flatten a grouped schedule and adapt legacy races', async () => {
+      await store.setItem(
+        STORAGE_KEYS.SCHEDULE,
+        JSON.stringify({
+          dailyRaces: [canonicalRace],
+          weeklyRaces: [legacyRace],
+          specialEvents: [],
+        }),
+      );
+
+      await new StorageMigrator(STORAGE_MIGRATIONS, store).run();
+
+      const races = await readJson(STORAGE_KEYS.SCHEDULE);
+      expect(races.map((race: { id: string }) => race.id)).toEqual(['race-1', 'legacy-1']);
+      expect(races[1]).toMatchObject({ type: 'weekly', trackName: 'Spa', durationMinutes: 45 });
+    });
+
+    it('should keep a canonical schedule unchanged', async () => {
+      await store.setItem(STORAGE_KEYS.SCHEDULE, JSON.stringify([canonicalRace]));
+
+      await new StorageMigrator(STORAGE_MIGRATIONS, store).run();
+
+      expect(await readJson(STORAGE_KEYS.SCHEDULE)).toEqual([canonicalRace]);
+    });
+
+    it('should quarantine an unreadable schedule', async () => {
+      await store.setItem(STORAGE_KEYS.SCHEDULE, '{"races":');
+
+      const report = await new StorageMigrator(STORAGE_MIGRATIONS, store).run();
+
+      expect(report.quarantined).toEqual([STORAGE_KEYS.SCHEDULE]);
+      expect(await store.getItem(getQuarantineKey(STORAGE_KEYS.SCHEDULE))).toContain(
+        '{\\"races\\":',
+      );
+    });
+
+    it('should repair favorites records', async () => {
+      await store.setItem(
+        STORAGE_KEYS.FAVORITES,
+        JSON.stringify([
+          { raceId: 'a', favoritedAt: '2025-11-01T00:00:00.000Z' },
+          { raceId: 'a', favoritedAt: '2025-11-02T00:00:00.000Z', notificationEnabled: true },
+          { favoritedAt: '2025-11-01T00:00:00.000Z' },
+          { raceId: 'b', favoritedAt: 'yesterday', notificationEnabled: true },
+        ]),
+      );
+
+      await new StorageMigrator(STORAGE_MIGRATIONS, store).run();
+
+      expect(await readJson(STORAGE_KEYS.FAVORITES)).toEqual([
+        { raceId: 'a', favoritedAt: '2025-11-01T00:00:00.000Z', notificationEnabled: false },
+        { raceId: 'b', favoritedAt: '1970-01-01T00:00:00.000Z', notificationEnabled: true },
+      ]);
+    });
+
+    it('should keep only usable favorite notes, tags and lead times', async () => {
+      await store.setItem(
+        STORAGE_KEYS.FAVORITES,
+        JSON.stringify([
+          {
+            raceId: 'a',
+            favoritedAt: '2025-11-01T00:00:00.000Z',
+            notificationEnabled: true,
+            note: '  practice T1 braking  ',
+            tags: ['league', ' League ', 7, ''],
+            reminderLeadMinutes: 30,
+          },
+          {
+            raceId: 'b',
+            favoritedAt: '2025-11-01T00:00:00.000Z',
+            notificationEnabled: false,
+            note: '   ',
+            tags: 'league',
+            reminderLeadMinutes: -5,
+          },
+        ]),
+      );
+
+      await new StorageMigrator(STORAGE_MIGRATIONS, store).run();
+
+      expect(await readJson(STORAGE_KEYS.FAVORITES)).toEqual([
+        {
+          raceId: 'a',
+          favoritedAt: '2025-11-01T00:00:00.000Z',
+          notificationEnabled: true,
+          note: 'practice T1 braking',
+          tags: ['league'],
+          reminderLeadMinutes: 30,
+        },
+        { raceId: 'b', favoritedAt: '2025-11-01T00:00:00.000Z', notificationEnabled: false },
+      ]);
+    });
+  });
+});
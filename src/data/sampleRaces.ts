@@ -32,7 +32,7 @@ export const sampleRaces: Race[] = [
     carClass: 'LMP2',
     startTime: new Date(Date.now() + 90 * 60 * 1000).toISOString(), // 1.5 hours from now
     durationMinutes: 30,
-    weatherCondition: 'Partly Cloudy',
+    weatherCondition: 'Dynamic',
     timeOfDay: 'Morning',
     licenseRequirement: 'Silver',
     repeatInterval: 120,
@@ -59,18 +59,18 @@ export const sampleRaces: Race[] = [
     tier: 'advanced',
     trackName: 'Nürburgring',
     trackConfiguration: 'Nordschleife',
-    carClass: 'GTE',
+    carClass: 'LMGT3',
     startTime: new Date(Date.now() + 240 * 60 * 1000).toISOString(), // 4 hours from now
     durationMinutes: 60,
-    weatherCondition: 'Rainy',
-    timeOfDay: 'Evening',
+    weatherCondition: 'Dynamic',
+    timeOfDay: 'Sunset',
     licenseRequirement: 'Gold',
     repeatInterval: 180,
     isLive: false,
   },
   {
     id: '5',
-    type: 'championship',
+    type: 'special',
     tier: null,
     trackName: 'Le Mans',
     trackConfiguration: '24 Hours Layout',
@@ -79,7 +79,7 @@ export const sampleRaces: Race[] = [
     durationMinutes: 1440,
     weatherCondition: 'Real Weather',
     timeOfDay: 'Full Day Cycle',
-    licenseRequirement: 'Platinum',
+    licenseRequirement: 'Gold',
     repeatInterval: null,
     isLive: false,
   },
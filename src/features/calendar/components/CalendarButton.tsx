@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { TouchableOpacity, Text, StyleSheet, ActivityIndicator, Alert } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../../../navigation/AppNavigator';
+import { useCalendarService } from '../hooks/useCalendarService';
+import { useIsInCalendar } from '../hooks/useIsInCalendar';
+import { CalendarAccessError } from '../services/CalendarService';
+import type { Race } from '../../schedules/types/Race';
+
+interface CalendarButtonProps {
+  /**
+   * Race to add to or remove from the calendar
+   */
+  race: Race;
+
+  /**
+   * Size of the icon (default: 20)
+   */
+  size?: number;
+}
+
+/**
+ * CalendarButton adds a race to the device calendar
+ * Asks whether to add practice sessions too, and opens the Practice Planner
+ * if so. Shows a checkmark once the race is in the calendar; pressing it
+ * again removes the event. Renders nothing when the device has no calendar
+ */
+export const CalendarButton: React.FC<CalendarButtonProps> = ({ race, size = 20 }) => {
+  const calendarService = useCalendarService();
+  const inCalendar = useIsInCalendar(race.id);
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const [isBusy, setIsBusy] = useState(false);
+
+  const updateCalendar = async (): Promise<void> => {
+    try {
+      setIsBusy(true);
+      if (inCalendar) {
+        await calendarService.removeRace(race.id);
+      } else {
+        await calendarService.addRace(race);
+      }
+    } catch (error) {
+      if (error instanceof CalendarAccessError) {
+        Alert.alert('Calendar access needed', 'Allow calendar access to add races to it.');
+      } else {
+        console.error('Error updating calendar:', error);
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handlePress = (): void => {
+    if (inCalendar) {
+      updateCalendar();
+      return;
+    }
+    Alert.alert('Add to calendar', 'Add with practice sessions?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'No', onPress: () => updateCalendar() },
+      { text: 'Yes', onPress: () => navigation.navigate('PracticePlanner', { race }) },
+    ]);
+  };
+
+  if (!calendarService.isAvailable()) {
+    return null;
+  }
+
+  return (
+    <TouchableOpacity
+      onPress={handlePress}
+      disabled={isBusy}
+      style={styles.button}
+      accessibilityRole="button"
+      accessibilityLabel={inCalendar ? 'Remove from calendar' : 'Add to calendar'}
+      accessibilityState={{ checked: inCalendar }}
+      testID={`calendar-button-${race.id}`}
+    >
+      {isBusy ? (
+        <ActivityIndicator size="small" color="#4CAF50" />
+      ) : (
+        <Text style={[styles.icon, { fontSize: size }, inCalendar && styles.iconAdded]}>
+          {inCalendar ? '✓' : '📅'}
+        </Text>
+      )}
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  button: {
+    padding: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  icon: {
+    textAlign: 'center',
+    color: '#CCCCCC',
+  },
+  iconAdded: {
+    color: '#4CAF50',
+    fontWeight: 'bold',
+  },
+});
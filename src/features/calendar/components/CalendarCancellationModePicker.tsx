@@ -0,0 +1,75 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useCalendarSync } from '../hooks/useCalendarSync';
+import type { CalendarCancellationMode } from '../types/CalendarSync';
+import { SPACING } from '../../../shared/constants/spacing';
+
+const MODE_OPTIONS: Array<{ mode: CalendarCancellationMode; label: string }> = [
+  { mode: 'mark', label: 'Mark cancelled' },
+  { mode: 'remove', label: 'Remove event' },
+];
+
+/**
+ * CalendarCancellationModePicker chooses what schedule syncing does with
+ * calendar events of races that disappear from the schedule
+ * Shown in the calendar settings and in the sync report
+ */
+export const CalendarCancellationModePicker: React.FC = () => {
+  const { cancellationMode, setCancellationMode } = useCalendarSync();
+
+  const handleModeChange = async (mode: CalendarCancellationMode): Promise<void> => {
+    try {
+      await setCancellationMode(mode);
+    } catch (error) {
+      console.error('Error saving calendar cancellation mode:', error);
+    }
+  };
+
+  return (
+    <>
+      <Text style={styles.hint}>When a race is removed from the schedule:</Text>
+      <View style={styles.options}>
+        {MODE_OPTIONS.map(({ mode, label }) => (
+          <TouchableOpacity
+            key={mode}
+            style={[styles.option, cancellationMode === mode && styles.optionSelected]}
+            onPress={() => handleModeChange(mode)}
+            accessibilityRole="button"
+            accessibilityState={{ selected: cancellationMode === mode }}
+            testID={`calendar-cancellation-${mode}`}
+          >
+            <Text style={styles.optionText}>{label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  hint: {
+    fontSize: 12,
+    color: '#cccccc',
+    marginTop: SPACING.sm,
+  },
+  options: {
+    flexDirection: 'row',
+    gap: SPACING.xs,
+    marginTop: SPACING.xs,
+  },
+  option: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#555555',
+  },
+  optionSelected: {
+    borderColor: '#4CAF50',
+    backgroundColor: '#2d4a2f',
+  },
+  optionText: {
+    fontSize: 12,
+    color: '#ffffff',
+  },
+});
@@ -0,0 +1,52 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../../../navigation/AppNavigator';
+import { useCalendarService } from '../hooks/useCalendarService';
+import { SPACING } from '../../../shared/constants/spacing';
+
+/**
+ * CalendarSettingsButton opens the calendar settings. Renders nothing when
+ * the device has no calendar.
+ */
+export const CalendarSettingsButton: React.FC = () => {
+  const calendarService = useCalendarService();
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+
+  if (!calendarService.isAvailable()) {
+    return null;
+  }
+
+  return (
+    <View style={styles.bar}>
+      <TouchableOpacity
+        onPress={() => navigation.navigate('CalendarSettings')}
+        style={styles.chip}
+        accessibilityRole="button"
+        accessibilityLabel="Calendar settings"
+        testID="calendar-settings-button"
+      >
+        <Text style={styles.chipText}>Calendar settings</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  bar: {
+    flexDirection: 'row',
+    paddingTop: SPACING.sm,
+  },
+  chip: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#555555',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#cccccc',
+  },
+});
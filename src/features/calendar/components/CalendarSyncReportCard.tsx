@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useCalendarSync } from '../hooks/useCalendarSync';
+import type {
+  CalendarEventChange,
+  CalendarSyncAction,
+  CalendarSyncEntry,
+} from '../types/CalendarSync';
+import { CalendarCancellationModePicker } from './CalendarCancellationModePicker';
+import { SPACING } from '../../../shared/constants/spacing';
+
+const ACTION_LABELS: Record<CalendarSyncAction, string> = {
+  updated: 'Updated',
+  cancelled: 'Marked cancelled',
+  removed: 'Removed',
+  failed: 'Could not update',
+};
+
+const CHANGE_LABELS: Record<CalendarEventChange, string> = {
+  title: 'title',
+  location: 'track',
+  time: 'time',
+  description: 'conditions',
+};
+
+const describeEntry = (entry: CalendarSyncEntry): string => {
+  const changes = entry.changes.map(change => CHANGE_LABELS[change]).join(', ');
+  return changes ? `${ACTION_LABELS[entry.action]} (${changes})` : ACTION_LABELS[entry.action];
+};
+
+/**
+ * CalendarSyncReportCard shows which calendar events the last schedule
+ * refresh updated, cancelled or removed, and lets the user choose what
+ * happens to events of races that disappear (also in CalendarSettingsScreen).
+ * Renders nothing when there is no report.
+ */
+export const CalendarSyncReportCard: React.FC = () => {
+  const { report, dismissReport } = useCalendarSync();
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (!report) {
+    return null;
+  }
+
+  const failedCount = report.entries.filter(e => e.action === 'failed').length;
+  const changedCount = report.entries.length - failedCount;
+
+  const handleDismiss = async (): Promise<void> => {
+    try {
+      setIsExpanded(false);
+      await dismissReport();
+    } catch (error) {
+      console.error('Error dismissing calendar sync report:', error);
+    }
+  };
+
+  return (
+    <View style={styles.container} testID="calendar-sync-report">
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.summary}
+          onPress={() => setIsExpanded(expanded => !expanded)}
+          accessibilityRole="button"
+          accessibilityState={{ expanded: isExpanded }}
+        >
+          <Text style={styles.title}>
+            📅 Calendar: {changedCount} event{changedCount === 1 ? '' : 's'} changed
+            {failedCount > 0 ? `, ${failedCount} failed` : ''}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={handleDismiss} accessibilityRole="button">
+          <Text style={styles.dismissText}>Dismiss</Text>
+        </TouchableOpacity>
+      </View>
+
+      {isExpanded && (
+        <>
+          {report.entries.map(entry => (
+            <Text key={entry.eventId} style={styles.entry}>
+              {entry.title}: {describeEntry(entry)}
+            </Text>
+          ))}
+          <CalendarCancellationModePicker />
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    backgroundColor: '#1f2a20',
+    borderBottomWidth: 1,
+    borderBottomColor: '#333333',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  summary: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4CAF50',
+  },
+  dismissText: {
+    fontSize: 12,
+    color: '#cccccc',
+  },
+  entry: {
+    fontSize: 12,
+    color: '#ffffff',
+    marginTop: SPACING.xs,
+  },
+});
@@ -0,0 +1,65 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import type { Race } from '../../schedules/types/Race';
+import { useIcsShare } from '../hooks/useIcsShare';
+import { SPACING } from '../../../shared/constants/spacing';
+
+interface ShareIcsButtonProps {
+  /**
+   * Races to share, e.g. the currently filtered list
+   */
+  races: Race[];
+}
+
+/**
+ * ShareIcsButton shares races as an iCalendar (.ics) file, for calendars the
+ * app can't write to directly. Renders nothing when there are no races.
+ */
+export const ShareIcsButton: React.FC<ShareIcsButtonProps> = ({ races }) => {
+  const shareIcs = useIcsShare();
+
+  if (races.length === 0) {
+    return null;
+  }
+
+  const handlePress = async (): Promise<void> => {
+    try {
+      await shareIcs(races);
+    } catch (error) {
+      console.error('Error sharing races as .ics:', error);
+    }
+  };
+
+  return (
+    <View style={styles.bar}>
+      <TouchableOpacity
+        onPress={handlePress}
+        style={styles.chip}
+        accessibilityRole="button"
+        accessibilityLabel={`Share ${races.length} races as an iCalendar file`}
+        testID="share-ics-button"
+      >
+        <Text style={styles.chipText}>Share as .ics</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  bar: {
+    flexDirection: 'row',
+    paddingHorizontal: SPACING.md,
+    paddingTop: SPACING.sm,
+  },
+  chip: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#555555',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#cccccc',
+  },
+});
@@ -0,0 +1,28 @@
+import { createContext, useContext, useEffect } from 'react';
+import { CalendarService } from '../services/CalendarService';
+import { unavailableCalendarAdapter } from '../services/DeviceCalendarAdapter';
+
+// App-wide service used when no provider supplies one
+const defaultCalendarService = new CalendarService(unavailableCalendarAdapter);
+
+/**
+ * Context holding the CalendarService shared by all calendar hooks
+ */
+export const CalendarServiceContext = createContext<CalendarService>(defaultCalendarService);
+
+/**
+ * Gets the shared CalendarService and makes sure it has been loaded
+ *
+ * @param service - Optional service that overrides the one from context
+ * @returns The CalendarService
+ */
+export function useCalendarService(service?: CalendarService): CalendarService {
+  const contextService = useContext(CalendarServiceContext);
+  const resolvedService = service ?? contextService;
+
+  useEffect(() => {
+    resolvedService.load();
+  }, [resolvedService]);
+
+  return resolvedService;
+}
@@ -0,0 +1,49 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import type { CalendarService } from '../services/CalendarService';
+import type { CalendarCancellationMode, CalendarSyncReport } from '../types/CalendarSync';
+import { useCalendarService } from './useCalendarService';
+
+interface UseCalendarSyncResult {
+  /**
+   * Outcome of the last sync that changed anything, until dismissed
+   */
+  report: CalendarSyncReport | null;
+
+  /**
+   * What syncing does with events of races that disappear
+   */
+  cancellationMode: CalendarCancellationMode;
+
+  /**
+   * Clears the report
+   */
+  dismissReport: () => Promise<void>;
+
+  /**
+   * Chooses what syncing does with events of races that disappear
+   */
+  setCancellationMode: (mode: CalendarCancellationMode) => Promise<void>;
+}
+
+/**
+ * Hook for the calendar sync report and cancellation setting
+ *
+ * @param service - Optional service that overrides the one from context
+ * @returns Sync report, cancellation mode and functions to change them
+ */
+export function useCalendarSync(service?: CalendarService): UseCalendarSyncResult {
+  const calendarService = useCalendarService(service);
+  const { lastReport, cancellationMode } = useSyncExternalStore(
+    calendarService.subscribe,
+    calendarService.getState,
+  );
+
+  const dismissReport = useCallback(() => calendarService.dismissReport(), [calendarService]);
+
+  const setCancellationMode = useCallback(
+    (mode: CalendarCancellationMode) => calendarService.setCancellationMode(mode),
+    [calendarService],
+  );
+
+  return { report: lastReport, cancellationMode, dismissReport, setCancellationMode };
+}
@@ -0,0 +1,39 @@
+import { useCallback } from 'react';
+import { Share } from 'react-native';
+import type { Race } from '../../schedules/types/Race';
+import type { FavoritesStore } from '../../favorites/services/FavoritesStore';
+import { useFavoritesStore } from '../../favorites/hooks/useFavoritesStore';
+import { getReminderLeadMinutes } from '../../favorites/utils/favoriteDetails';
+import { NOTIFICATION_TIMING } from '../../notifications/types/Notification';
+import { IcsGenerator } from '../services/IcsGenerator';
+
+const generator = new IcsGenerator();
+
+/**
+ * Hook for sharing races as an .ics file
+ *
+ * Alarms use each favorite's reminder lead time, and the default lead time
+ * for races that aren't favorited by ID.
+ *
+ * @param store - Optional favorites store that overrides the one from context
+ * @returns Function that opens the share sheet with the races as iCalendar
+ */
+export function useIcsShare(store?: FavoritesStore): (races: Race[]) => Promise<void> {
+  const favoritesStore = useFavoritesStore(store);
+
+  return useCallback(
+    async (races: Race[]): Promise<void> => {
+      const ics = generator.generate(races, {
+        calendarName: 'RaceSync',
+        getReminderLeadMinutes: race => {
+          const favorite = favoritesStore.getFavorite(race.id);
+          return favorite
+            ? getReminderLeadMinutes(favorite)
+            : NOTIFICATION_TIMING.FAVORITE_REMINDER;
+        },
+      });
+      await Share.share({ title: 'RaceSync races.ics', message: ics });
+    },
+    [favoritesStore],
+  );
+}
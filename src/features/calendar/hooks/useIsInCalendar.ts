@@ -0,0 +1,22 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import type { CalendarService } from '../services/CalendarService';
+import { useCalendarService } from './useCalendarService';
+
+/**
+ * Hook that tracks whether a single race has a calendar event
+ * Re-renders only when that race's calendar status changes
+ *
+ * @param raceId - ID of the race to watch
+ * @param service - Optional service that overrides the one from context
+ * @returns True if the race is in the calendar
+ */
+export function useIsInCalendar(raceId: string, service?: CalendarService): boolean {
+  const calendarService = useCalendarService(service);
+
+  const getSnapshot = useCallback(
+    () => calendarService.isInCalendar(raceId),
+    [calendarService, raceId],
+  );
+
+  return useSyncExternalStore(calendarService.subscribe, getSnapshot);
+}
@@ -0,0 +1,66 @@
+import { useCallback, useMemo, useState } from 'react';
+import type { Race } from '../../schedules/types/Race';
+import { useNotificationService } from '../../notifications/hooks/useNotificationService';
+import { PracticePlanner, ScheduledPracticePlan } from '../services/PracticePlanner';
+import type { PracticeSession } from '../types/PracticeSession';
+import { useCalendarService } from './useCalendarService';
+
+interface UsePracticePlannerResult {
+  /**
+   * Suggested sessions, planned when the hook mounts
+   */
+  sessions: PracticeSession[];
+
+  /**
+   * Whether session reminders can be scheduled on this device
+   */
+  remindersAvailable: boolean;
+
+  /**
+   * Whether the plan is being added to the calendar
+   */
+  isScheduling: boolean;
+
+  /**
+   * Adds the race and the suggested sessions to the calendar
+   */
+  schedule: () => Promise<ScheduledPracticePlan>;
+}
+
+/**
+ * Hook for planning practice sessions before a race
+ *
+ * @param race - Race to practice for
+ * @param planner - Optional planner that overrides the one built from context
+ * @returns Suggested sessions and a function that schedules them
+ */
+export function usePracticePlanner(
+  race: Race,
+  planner?: PracticePlanner,
+): UsePracticePlannerResult {
+  const calendarService = useCalendarService();
+  const notificationService = useNotificationService();
+  const resolvedPlanner = useMemo(
+    () => planner ?? new PracticePlanner(calendarService, notificationService),
+    [planner, calendarService, notificationService],
+  );
+
+  const sessions = useMemo(() => resolvedPlanner.plan(race), [resolvedPlanner, race]);
+  const [isScheduling, setIsScheduling] = useState(false);
+
+  const schedule = useCallback(async (): Promise<ScheduledPracticePlan> => {
+    setIsScheduling(true);
+    try {
+      return await resolvedPlanner.schedule(race, sessions);
+    } finally {
+      setIsScheduling(false);
+    }
+  }, [resolvedPlanner, race, sessions]);
+
+  return {
+    sessions,
+    remindersAvailable: notificationService.isAvailable(),
+    isScheduling,
+    schedule,
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * CalendarSettingsScreen - Calendar sync settings
+ *
+ * Opened from the Race Schedule header. Lets the user choose what happens
+ * to calendar events of races that disappear from the schedule before any
+ * race actually disappears; the sync report offers the same choice after.
+ */
+
+import React from 'react';
+import { ScrollView, StyleSheet, Text, View } from 'react-native';
+import { CalendarCancellationModePicker } from '../components/CalendarCancellationModePicker';
+import { SPACING } from '../../../shared/constants/spacing';
+
+/**
+ * CalendarSettingsScreen - Shows the calendar sync settings
+ *
+ * @example
+ * ```tsx
+ * navigation.navigate('CalendarSettings');
+ * ```
+ */
+export const CalendarSettingsScreen: React.FC = () => {
+  return (
+    <ScrollView style={styles.container} testID="calendar-settings-screen">
+      <View style={styles.section}>
+        <Text style={styles.title}>Removed races</Text>
+        <Text style={styles.description}>
+          Races you added to your calendar sometimes disappear from the schedule. Their events can
+          stay in the calendar marked as cancelled, or be removed.
+        </Text>
+        <CalendarCancellationModePicker />
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  section: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.md,
+    borderBottomWidth: 1,
+    borderBottomColor: '#333333',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+    marginBottom: SPACING.xs,
+  },
+  description: {
+    fontSize: 13,
+    color: '#999999',
+  },
+});
@@ -0,0 +1,189 @@
+/**
+ * PracticePlannerScreen - Practice sessions before a race
+ *
+ * Opened when the user chooses to add a race to the calendar with practice
+ * sessions. Shows the suggested sessions with the race's conditions, and
+ * adds the race and all sessions to the calendar once confirmed. Says so
+ * when the device can't show session reminders.
+ *
+ * User Story 4: Plan Practice Sessions with Race Conditions
+ */
+
+import React from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../../../navigation/AppNavigator';
+import { usePracticePlanner } from '../hooks/usePracticePlanner';
+import { CalendarAccessError } from '../services/CalendarService';
+import { PracticePlanError } from '../services/PracticePlanner';
+import type { PracticeSession } from '../types/PracticeSession';
+import { formatDuration, formatRaceTitle } from '../../../shared/utils/formatters';
+import { formatLocalTime } from '../../../shared/utils/dateUtils';
+import { SPACING } from '../../../shared/constants/spacing';
+
+type PracticePlannerScreenProps = NativeStackScreenProps<RootStackParamList, 'PracticePlanner'>;
+
+const SESSION_TIME_FORMAT = 'EEE d MMM, HH:mm';
+
+const formatSessionTime = (session: PracticeSession): string => {
+  const start = formatLocalTime(new Date(session.suggestedStartTime), SESSION_TIME_FORMAT);
+  return `${start} · ${formatDuration(session.durationMinutes)}`;
+};
+
+const formatConditions = (session: PracticeSession): string => {
+  const conditions = [`Weather: ${session.weatherCondition}`, `Time: ${session.timeOfDay}`];
+  if (session.trackTemperature) {
+    conditions.push(`Track: ${session.trackTemperature}`);
+  }
+  return conditions.join(' · ');
+};
+
+/**
+ * PracticePlannerScreen - Reviews and confirms a practice plan
+ *
+ * @example
+ * ```tsx
+ * navigation.navigate('PracticePlanner', { race });
+ * ```
+ */
+export const PracticePlannerScreen: React.FC<PracticePlannerScreenProps> = ({
+  route,
+  navigation,
+}) => {
+  const { race } = route.params;
+  const { sessions, remindersAvailable, isScheduling, schedule } = usePracticePlanner(race);
+  const raceStart = formatLocalTime(new Date(race.startTime), SESSION_TIME_FORMAT);
+
+  const handleConfirm = async (): Promise<void> => {
+    try {
+      await schedule();
+      navigation.goBack();
+    } catch (error) {
+      if (error instanceof CalendarAccessError) {
+        Alert.alert('Calendar access needed', 'Allow calendar access to add races to it.');
+      } else if (error instanceof PracticePlanError) {
+        Alert.alert('Practice plan out of date', error.message);
+      } else {
+        console.error('Error adding practice plan to calendar:', error);
+        Alert.alert('Could not add to calendar', 'Please try again.');
+      }
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} testID="practice-planner-screen">
+      <View style={styles.header}>
+        <Text style={styles.title}>{formatRaceTitle(race)}</Text>
+        <Text style={styles.subtitle}>
+          {`${raceStart} · ${race.weatherCondition} · ${race.timeOfDay}`}
+        </Text>
+      </View>
+
+      {sessions.length === 0 ? (
+        <Text style={styles.empty}>The race is too close to fit practice sessions in.</Text>
+      ) : (
+        sessions.map(session => (
+          <View key={session.id} style={styles.session} testID={`practice-session-${session.id}`}>
+            <Text style={styles.sessionType}>{session.sessionType}</Text>
+            <Text style={styles.sessionDetail}>{formatSessionTime(session)}</Text>
+            <Text style={styles.sessionDetail}>{formatConditions(session)}</Text>
+          </View>
+        ))
+      )}
+
+      {sessions.length > 0 && !remindersAvailable && (
+        <Text style={styles.note} testID="practice-planner-no-reminders">
+          Reminders aren't available on this device; sessions are added to the calendar only.
+        </Text>
+      )}
+
+      <TouchableOpacity
+        style={styles.confirm}
+        onPress={handleConfirm}
+        disabled={isScheduling}
+        accessibilityRole="button"
+        testID="practice-planner-confirm"
+      >
+        {isScheduling ? (
+          <ActivityIndicator size="small" color="#ffffff" />
+        ) : (
+          <Text style={styles.confirmText}>
+            {sessions.length > 0 ? 'Add race and practice to calendar' : 'Add race to calendar'}
+          </Text>
+        )}
+      </TouchableOpacity>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  header: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.md,
+    borderBottomWidth: 1,
+    borderBottomColor: '#333333',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#ffffff',
+    marginBottom: SPACING.xs,
+  },
+  subtitle: {
+    fontSize: 13,
+    color: '#999999',
+  },
+  empty: {
+    fontSize: 14,
+    color: '#cccccc',
+    padding: SPACING.md,
+  },
+  note: {
+    fontSize: 13,
+    color: '#999999',
+    paddingHorizontal: SPACING.md,
+    paddingTop: SPACING.md,
+  },
+  session: {
+    marginHorizontal: SPACING.md,
+    marginTop: SPACING.md,
+    padding: SPACING.md,
+    borderRadius: 8,
+    backgroundColor: '#1a1a1a',
+  },
+  sessionType: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+    marginBottom: SPACING.xs,
+  },
+  sessionDetail: {
+    fontSize: 13,
+    color: '#cccccc',
+    marginTop: 2,
+  },
+  confirm: {
+    margin: SPACING.md,
+    paddingVertical: SPACING.md,
+    borderRadius: 8,
+    alignItems: 'center',
+    backgroundColor: '#4CAF50',
+  },
+  confirmText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+});
@@ -0,0 +1,489 @@
+/**
+ * CalendarService
+ *
+ * Adds races and their practice sessions to the device calendar and
+ * remembers which calendar event belongs to which race or session, so the
+ * UI can show what is already in the calendar and events can be found again
+ * later. After each schedule refresh, reconcile() keeps those events in
+ * line with the new schedule.
+ *
+ * The device calendar is reached through a DeviceCalendarAdapter; the
+ * created events are persisted as CalendarEvent records under
+ * STORAGE_KEYS.CALENDAR_MAPPINGS.
+ */
+
+import type { Race } from '../../schedules/types/Race';
+import { STORAGE_KEYS } from '../../../shared/constants/storageKeys';
+import type { KeyValueStore } from '../../../shared/storage/KeyValueStore';
+import { defaultKeyValueStore } from '../../../shared/storage/defaultKeyValueStore';
+import { createJsonCodec, readValue, writeValue } from '../../../shared/storage/jsonCodec';
+import type { CalendarEvent } from '../types/CalendarEvent';
+import type { PracticeSession } from '../types/PracticeSession';
+import {
+  CANCELLED_EVENT_TITLE_PREFIX,
+  CalendarCancellationMode,
+  CalendarSyncEntry,
+  CalendarSyncReport,
+  DEFAULT_CANCELLATION_MODE,
+} from '../types/CalendarSync';
+import { buildPracticeEventDetails, buildRaceEventDetails } from '../utils/calendarEventBuilder';
+import { planCalendarSync } from '../utils/calendarReconciliation';
+import type { DeviceCalendarAdapter } from './DeviceCalendarAdapter';
+
+/**
+ * Error thrown when the user hasn't allowed calendar access
+ */
+export class CalendarAccessError extends Error {
+  constructor(message: string = 'Calendar access was not granted') {
+    super(message);
+    this.name = 'CalendarAccessError';
+  }
+}
+
+/**
+ * Snapshot of the calendar events held by a CalendarService
+ */
+export interface CalendarState {
+  /**
+   * Calendar events created for races and practice sessions
+   */
+  events: CalendarEvent[];
+
+  /**
+   * IDs of the races that have a calendar event, for fast lookups
+   */
+  raceIds: ReadonlySet<string>;
+
+  /**
+   * Outcome of the last sync that changed anything
+   */
+  lastReport: CalendarSyncReport | null;
+
+  /**
+   * What syncing does with events of races that disappear
+   */
+  cancellationMode: CalendarCancellationMode;
+
+  /**
+   * Whether the events are currently loading
+   */
+  isLoading: boolean;
+}
+
+type Listener = () => void;
+
+/**
+ * Calendar events are stored as plain JSON; their times are ISO strings
+ */
+const eventsCodec = createJsonCodec<unknown[]>();
+const reportCodec = createJsonCodec<CalendarSyncReport>();
+
+const isCalendarEvent = (value: unknown): value is CalendarEvent => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const event = value as Record<string, unknown>;
+  return (
+    typeof event.eventId === 'string' &&
+    (typeof event.raceId === 'string' || event.raceId === null) &&
+    (typeof event.practiceSessionId === 'string' || event.practiceSessionId === null) &&
+    ['title', 'location', 'startTime', 'endTime', 'description', 'calendarId', 'createdAt'].every(
+      field => typeof event[field] === 'string',
+    )
+  );
+};
+
+/**
+ * Service for adding races to the device calendar
+ *
+ * Same shape as FavoritesStore: loads once, persists every change, and
+ * notifies subscribers, so it works with useSyncExternalStore.
+ *
+ * @example
+ * ```typescript
+ * const service = new CalendarService(new MemoryDeviceCalendarAdapter());
+ * await service.load();
+ * await service.addRace(race);
+ * service.isInCalendar(race.id); // true
+ * ```
+ */
+export class CalendarService {
+  private state: CalendarState = {
+    events: [],
+    raceIds: new Set(),
+    lastReport: null,
+    cancellationMode: DEFAULT_CANCELLATION_MODE,
+    isLoading: true,
+  };
+  private readonly listeners = new Set<Listener>();
+  private loading: Promise<void> | null = null;
+  private writes: Promise<unknown> = Promise.resolve();
+  private readonly adding = new Map<string, Promise<CalendarEvent>>();
+
+  /**
+   * @param adapter - Device calendar to create events in
+   * @param store - Key-value store to persist to (default: AsyncStorage)
+   */
+  constructor(
+    private readonly adapter: DeviceCalendarAdapter,
+    private readonly store: KeyValueStore = defaultKeyValueStore,
+  ) {}
+
+  /**
+   * Registers a listener called after every state change
+   * @returns Function that removes the listener
+   */
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Gets the current snapshot
+   */
+  getState = (): CalendarState => this.state;
+
+  /**
+   * Checks if the device has a calendar to add races to
+   * @returns False when no native calendar module is linked
+   */
+  isAvailable(): boolean {
+    return this.adapter.isAvailable;
+  }
+
+  /**
+   * Checks if a race has a calendar event
+   * @param raceId - ID of the race to check
+   * @returns True if the race was added to the calendar
+   */
+  isInCalendar(raceId: string): boolean {
+    return this.state.raceIds.has(raceId);
+  }
+
+  /**
+   * Gets the calendar event of a race
+   * @param raceId - ID of the race
+   * @returns Calendar event, or undefined if the race isn't in the calendar
+   */
+  getEvent(raceId: string): CalendarEvent | undefined {
+    return this.state.events.find(e => e.raceId === raceId);
+  }
+
+  /**
+   * Gets the calendar event of a practice session
+   * @param sessionId - ID of the practice session
+   * @returns Calendar event, or undefined if the session isn't in the calendar
+   */
+  getPracticeEvent(sessionId: string): CalendarEvent | undefined {
+    return this.state.events.find(e => e.practiceSessionId === sessionId);
+  }
+
+  /**
+   * Loads calendar events from storage
+   * Only the first call reads storage; later calls share its result
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFromStorage();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Adds a race to the device calendar
+   *
+   * Adding a race that is already in the calendar returns its existing event.
+   *
+   * @param race - Race to add
+   * @returns The created (or existing) calendar event
+   * @throws CalendarAccessError if calendar access isn't granted
+   * @throws If the device calendar or the storage write fails
+   */
+  async addRace(race: Race): Promise<CalendarEvent> {
+    await this.load();
+
+    const existing = this.getEvent(race.id);
+    if (existing) {
+      return existing;
+    }
+
+    // A second tap while the first add is still running gets the same event
+    let adding = this.adding.get(race.id);
+    if (!adding) {
+      adding = this.createRaceEvent(race).finally(() => this.adding.delete(race.id));
+      this.adding.set(race.id, adding);
+    }
+    return adding;
+  }
+
+  /**
+   * Adds practice sessions to the device calendar, one event each
+   *
+   * Sessions already in the calendar keep their existing event. If the
+   * device calendar fails partway, the events created so far are kept.
+   *
+   * @param race - Race the sessions prepare for
+   * @param sessions - Sessions to add
+   * @returns The calendar events of the sessions, in the order given
+   * @throws CalendarAccessError if calendar access isn't granted
+   * @throws If the device calendar or the storage write fails
+   */
+  async addPracticeSessions(race: Race, sessions: PracticeSession[]): Promise<CalendarEvent[]> {
+    await this.load();
+
+    const pending = sessions.filter(session => !this.getPracticeEvent(session.id));
+    if (pending.length > 0) {
+      if (!(await this.adapter.requestAccess())) {
+        throw new CalendarAccessError();
+      }
+
+      const calendarId = await this.adapter.getDefaultCalendarId();
+      const created: CalendarEvent[] = [];
+      try {
+        for (const session of pending) {
+          const details = buildPracticeEventDetails(session, race);
+          const eventId = await this.adapter.createEvent(calendarId, details);
+          created.push({
+            eventId,
+            raceId: null,
+            practiceSessionId: session.id,
+            ...details,
+            calendarId,
+            createdAt: new Date().toISOString(),
+          });
+        }
+      } finally {
+        if (created.length > 0) {
+          this.setEvents([...this.state.events, ...created]);
+          await this.save();
+        }
+      }
+    }
+
+    return sessions.flatMap(session => {
+      const event = this.getPracticeEvent(session.id);
+      return event ? [event] : [];
+    });
+  }
+
+  /**
+   * Removes a race's event from the device calendar
+   * @param raceId - ID of the race
+   * @throws If the device calendar or the storage write fails
+   */
+  async removeRace(raceId: string): Promise<void> {
+    await this.load();
+
+    const event = this.getEvent(raceId);
+    if (!event) {
+      return;
+    }
+
+    await this.adapter.deleteEvent(event.eventId);
+    this.setEvents(this.state.events.filter(e => e !== event));
+    await this.save();
+  }
+
+  /**
+   * Brings race events in line with a freshly saved schedule
+   *
+   * Events of changed races are rewritten. Events of races that disappeared
+   * are marked as cancelled or deleted, depending on the cancellation mode.
+   * A device calendar error on one event is recorded in the report and
+   * doesn't stop the others.
+   *
+   * @param races - Races in the new schedule
+   * @param now - Current time (default: now)
+   * @returns Report of what changed, or null if nothing did
+   * @throws If the storage write fails
+   */
+  async reconcile(races: Race[], now: Date = new Date()): Promise<CalendarSyncReport | null> {
+    await this.load();
+
+    const plan = planCalendarSync(this.state.events, races, now);
+    const entries: CalendarSyncEntry[] = [];
+    const replaced = new Map<string, CalendarEvent>();
+    const deleted = new Set<string>();
+
+    for (const { event, details, changes } of plan.updates) {
+      const entry = { raceId: event.raceId as string, eventId: event.eventId, title: event.title };
+      try {
+        await this.adapter.updateEvent(event.eventId, details);
+        // A cancelled race that is back in the schedule is no longer cancelled
+        const scheduled: CalendarEvent = { ...event, ...details };
+        delete scheduled.cancelledAt;
+        replaced.set(event.eventId, scheduled);
+        entries.push({ ...entry, action: 'updated', changes });
+      } catch (error) {
+        entries.push({ ...entry, action: 'failed', changes, error: (error as Error).message });
+      }
+    }
+
+    for (const event of plan.cancellations) {
+      const entry = { raceId: event.raceId as string, eventId: event.eventId, title: event.title };
+      try {
+        if (this.state.cancellationMode === 'remove') {
+          await this.adapter.deleteEvent(event.eventId);
+          deleted.add(event.eventId);
+          entries.push({ ...entry, action: 'removed', changes: [] });
+        } else {
+          const title = `${CANCELLED_EVENT_TITLE_PREFIX}${event.title}`;
+          const { location, startTime, endTime, description } = event;
+          await this.adapter.updateEvent(event.eventId, {
+            title,
+            location,
+            startTime,
+            endTime,
+            description,
+          });
+          replaced.set(event.eventId, { ...event, title, cancelledAt: now.toISOString() });
+          entries.push({ ...entry, action: 'cancelled', changes: [] });
+        }
+      } catch (error) {
+        entries.push({ ...entry, action: 'failed', changes: [], error: (error as Error).message });
+      }
+    }
+
+    if (entries.length === 0) {
+      return null;
+    }
+
+    // Races added or removed while syncing are kept as they are now
+    const report: CalendarSyncReport = { syncedAt: now.toISOString(), entries };
+    this.setEvents(
+      this.state.events.filter(e => !deleted.has(e.eventId)).map(e => replaced.get(e.eventId) ?? e),
+      { lastReport: report },
+    );
+    await this.save();
+    return report;
+  }
+
+  /**
+   * Clears the last sync report once the user has seen it
+   * @throws If the storage write fails
+   */
+  async dismissReport(): Promise<void> {
+    this.setEvents(this.state.events, { lastReport: null });
+    await this.enqueue(() => this.store.removeItem(STORAGE_KEYS.CALENDAR_SYNC_REPORT));
+  }
+
+  /**
+   * Chooses what syncing does with events of races that disappear
+   * @param mode - Mark events as cancelled, or remove them
+   * @throws If the storage write fails
+   */
+  async setCancellationMode(mode: CalendarCancellationMode): Promise<void> {
+    await this.load();
+    this.setEvents(this.state.events, { cancellationMode: mode });
+    await this.enqueue(() => this.store.setItem(STORAGE_KEYS.CALENDAR_CANCELLATION_MODE, mode));
+  }
+
+  /**
+   * Creates the device event for a race and records it
+   * @private
+   */
+  private async createRaceEvent(race: Race): Promise<CalendarEvent> {
+    if (!(await this.adapter.requestAccess())) {
+      throw new CalendarAccessError();
+    }
+
+    const calendarId = await this.adapter.getDefaultCalendarId();
+    const details = buildRaceEventDetails(race);
+    const eventId = await this.adapter.createEvent(calendarId, details);
+    const event: CalendarEvent = {
+      eventId,
+      raceId: race.id,
+      practiceSessionId: null,
+      ...details,
+      calendarId,
+      createdAt: new Date().toISOString(),
+    };
+
+    this.setEvents([...this.state.events, event]);
+    await this.save();
+    return event;
+  }
+
+  /**
+   * Reads calendar events into memory; an unreadable list loads as empty
+   * @private
+   */
+  private async readFromStorage(): Promise<void> {
+    let events: CalendarEvent[] = [];
+    try {
+      const stored = await readValue(this.store, STORAGE_KEYS.CALENDAR_MAPPINGS, eventsCodec);
+      events = Array.isArray(stored) ? stored.filter(isCalendarEvent) : [];
+      if (Array.isArray(stored) && events.length < stored.length) {
+        console.warn(`Skipped ${stored.length - events.length} invalid calendar event(s)`);
+      }
+    } catch (error) {
+      console.error('Error loading calendar events:', error);
+    }
+
+    let lastReport: CalendarSyncReport | null = null;
+    let cancellationMode = DEFAULT_CANCELLATION_MODE;
+    try {
+      lastReport = await readValue(this.store, STORAGE_KEYS.CALENDAR_SYNC_REPORT, reportCodec);
+      const mode = await this.store.getItem(STORAGE_KEYS.CALENDAR_CANCELLATION_MODE);
+      if (mode === 'mark' || mode === 'remove') {
+        cancellationMode = mode;
+      }
+    } catch (error) {
+      console.error('Error loading calendar sync settings:', error);
+    }
+
+    this.setEvents(events, { lastReport, cancellationMode, isLoading: false });
+  }
+
+  /**
+   * Writes the current events and sync report
+   * @private
+   */
+  private save(): Promise<void> {
+    return this.enqueue(async () => {
+      await writeValue(this.store, STORAGE_KEYS.CALENDAR_MAPPINGS, this.state.events, eventsCodec);
+      if (this.state.lastReport) {
+        await writeValue(
+          this.store,
+          STORAGE_KEYS.CALENDAR_SYNC_REPORT,
+          this.state.lastReport,
+          reportCodec,
+        );
+      }
+    });
+  }
+
+  /**
+   * Runs storage writes one at a time
+   * @private
+   */
+  private enqueue(run: () => Promise<void>): Promise<void> {
+    const result = this.writes.then(run, run);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Replaces the events, rebuilds the race ID index and notifies subscribers
+   * @private
+   */
+  private setEvents(
+    events: CalendarEvent[],
+    {
+      lastReport = this.state.lastReport,
+      cancellationMode = this.state.cancellationMode,
+      isLoading = this.state.isLoading,
+    } = {},
+  ): void {
+    this.state = {
+      events,
+      raceIds: new Set(events.flatMap(e => (e.raceId ? [e.raceId] : []))),
+      lastReport,
+      cancellationMode,
+      isLoading,
+    };
+    this.listeners.forEach(listener => listener());
+  }
+}
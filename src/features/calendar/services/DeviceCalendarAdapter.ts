@@ -0,0 +1,71 @@
+import type { CalendarEventDetails } from '../types/CalendarEvent';
+
+/**
+ * Adapter interface for the device's native calendar
+ *
+ * CalendarService only talks to the calendar through this interface, so the
+ * native module can be swapped for MemoryDeviceCalendarAdapter in tests.
+ */
+export interface DeviceCalendarAdapter {
+  /**
+   * Whether a device calendar exists at all; calendar features are hidden
+   * when it doesn't
+   */
+  readonly isAvailable: boolean;
+
+  /**
+   * Asks for permission to write to the calendar, if not already granted
+   * @returns True if the app may create events
+   */
+  requestAccess(): Promise<boolean>;
+
+  /**
+   * Gets the calendar new events are created in
+   * @returns Platform-specific calendar ID
+   */
+  getDefaultCalendarId(): Promise<string>;
+
+  /**
+   * Creates an event
+   * @param calendarId - Calendar to create the event in
+   * @param details - Event fields
+   * @returns Platform-specific ID of the new event
+   */
+  createEvent(calendarId: string, details: CalendarEventDetails): Promise<string>;
+
+  /**
+   * Rewrites an existing event
+   * @param eventId - ID returned by createEvent
+   * @param details - New event fields
+   * @throws If the event no longer exists
+   */
+  updateEvent(eventId: string, details: CalendarEventDetails): Promise<void>;
+
+  /**
+   * Deletes an event; deleting an event that no longer exists is not an error
+   * @param eventId - ID returned by createEvent
+   */
+  deleteEvent(eventId: string): Promise<void>;
+}
+
+/**
+ * Adapter used until a native calendar module is linked
+ *
+ * Reports itself as unavailable so the UI hides calendar features. Never
+ * grants access either, so adding races to the calendar fails with
+ * CalendarAccessError instead of silently doing nothing.
+ */
+export const unavailableCalendarAdapter: DeviceCalendarAdapter = {
+  isAvailable: false,
+  requestAccess: async () => false,
+  getDefaultCalendarId: async () => {
+    throw new Error('No device calendar is available');
+  },
+  createEvent: async () => {
+    throw new Error('No device calendar is available');
+  },
+  updateEvent: async () => {
+    throw new Error('No device calendar is available');
+  },
+  deleteEvent: async () => undefined,
+};
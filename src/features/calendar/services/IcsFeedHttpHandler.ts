@@ -0,0 +1,123 @@
+/**
+ * IcsFeedHttpHandler
+ *
+ * Serves the favorites feed over HTTP so calendar apps can subscribe to it.
+ * The handler only maps requests to responses; whichever local HTTP server
+ * hosts it passes requests in and writes the responses out.
+ *
+ * Responses carry an ETag computed without DTSTAMP lines, so clients polling
+ * an unchanged feed get a 304 instead of the whole document.
+ */
+
+import type { IcsFeedService } from './IcsFeedService';
+
+/**
+ * Path the feed is served at
+ */
+export const ICS_FEED_PATH = '/feeds/favorites.ics';
+
+/**
+ * Incoming request, as passed by the hosting server
+ */
+export interface FeedHttpRequest {
+  method: string;
+
+  /**
+   * Request target, either a path ("/feeds/favorites.ics?x=1") or an absolute URL
+   */
+  url: string;
+
+  /**
+   * Request headers with lower-case names
+   */
+  headers?: Record<string, string | undefined>;
+}
+
+/**
+ * Response for the hosting server to write
+ */
+export interface FeedHttpResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * 32-bit polynomial hash of a string, as 8 hex digits
+ */
+const hashString = (value: string): string => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) % 0x100000000;
+  }
+  return hash.toString(16).padStart(8, '0');
+};
+
+const textResponse = (
+  status: number,
+  body: string,
+  headers: Record<string, string> = {},
+): FeedHttpResponse => ({
+  status,
+  headers: { 'Content-Type': 'text/plain; charset=utf-8', ...headers },
+  body,
+});
+
+/**
+ * HTTP handler for the favorites calendar feed
+ *
+ * @example
+ * ```typescript
+ * const handler = new IcsFeedHttpHandler(feedService);
+ * const response = await handler.handle({ method: 'GET', url: ICS_FEED_PATH });
+ * ```
+ */
+export class IcsFeedHttpHandler {
+  /**
+   * @param feed - Service that renders the feed
+   * @param path - Path to serve the feed at (default: ICS_FEED_PATH)
+   */
+  constructor(
+    private readonly feed: IcsFeedService,
+    private readonly path: string = ICS_FEED_PATH,
+  ) {}
+
+  /**
+   * Answers a request
+   *
+   * GET and HEAD on the feed path return the feed; other paths return 404
+   * and other methods 405. Rendering errors return 500.
+   *
+   * @param request - Incoming request
+   * @returns Response to send
+   */
+  async handle(request: FeedHttpRequest): Promise<FeedHttpResponse> {
+    const path = request.url.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]+/i, '').split(/[?#]/)[0];
+    if (path !== this.path) {
+      return textResponse(404, 'Not found');
+    }
+
+    const method = request.method.toUpperCase();
+    if (method !== 'GET' && method !== 'HEAD') {
+      return textResponse(405, 'Method not allowed', { Allow: 'GET, HEAD' });
+    }
+
+    try {
+      const { body } = await this.feed.render();
+      const etag = `"${hashString(body.replace(/^DTSTAMP:.*\r\n/gm, ''))}"`;
+      const headers = {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Cache-Control': 'no-cache',
+        ETag: etag,
+      };
+
+      if (request.headers?.['if-none-match'] === etag) {
+        return { status: 304, headers, body: '' };
+      }
+      return { status: 200, headers, body: method === 'HEAD' ? '' : body };
+    } catch (error) {
+      console.error('Error rendering calendar feed:', error);
+      return textResponse(500, 'Could not render the calendar feed');
+    }
+  }
+}
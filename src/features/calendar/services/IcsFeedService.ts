@@ -0,0 +1,167 @@
+/**
+ * IcsFeedService
+ *
+ * Renders the user's favorites as a subscribable iCalendar feed. Unlike a
+ * one-off .ics export, the feed is fetched again and again by calendar apps,
+ * so each event carries a SEQUENCE that is raised whenever its race changes;
+ * clients use it to replace their copy of the event.
+ *
+ * Changes are found with ScheduleDiff, against the races published in the
+ * previous render (persisted under STORAGE_KEYS.ICS_FEED_STATE).
+ */
+
+import type { Race } from '../../schedules/types/Race';
+import type { ScheduleRepository } from '../../schedules/services/ScheduleRepository';
+import { ScheduleDiff } from '../../schedules/services/ScheduleDiff';
+import type { FavoritesRepository } from '../../favorites/services/FavoritesRepository';
+import { findMatchingSeries } from '../../favorites/utils/seriesMatching';
+import { getReminderLeadMinutes } from '../../favorites/utils/favoriteDetails';
+import { NOTIFICATION_TIMING } from '../../notifications/types/Notification';
+import { STORAGE_KEYS } from '../../../shared/constants/storageKeys';
+import type { KeyValueStore } from '../../../shared/storage/KeyValueStore';
+import { defaultKeyValueStore } from '../../../shared/storage/defaultKeyValueStore';
+import { createJsonCodec, readValue, writeValue } from '../../../shared/storage/jsonCodec';
+import { IcsGenerator } from './IcsGenerator';
+
+/**
+ * How often subscribed calendars should fetch the feed again
+ */
+export const ICS_FEED_REFRESH_MINUTES = 60;
+
+/**
+ * Races published in the last render, with the SEQUENCE of each event
+ */
+export interface IcsFeedState {
+  races: Race[];
+  sequences: Record<string, number>;
+}
+
+/**
+ * Rendered feed
+ */
+export interface IcsFeed {
+  /**
+   * iCalendar document
+   */
+  body: string;
+
+  /**
+   * Number of events in the feed
+   */
+  eventCount: number;
+}
+
+/**
+ * Feed state is stored as plain JSON; Race.startTime stays an ISO string
+ */
+const stateCodec = createJsonCodec<IcsFeedState>();
+
+const isFeedState = (value: unknown): value is IcsFeedState =>
+  typeof value === 'object' &&
+  value !== null &&
+  Array.isArray((value as IcsFeedState).races) &&
+  typeof (value as IcsFeedState).sequences === 'object' &&
+  (value as IcsFeedState).sequences !== null;
+
+/**
+ * Service that renders the favorites calendar feed
+ *
+ * @example
+ * ```typescript
+ * const feed = new IcsFeedService(scheduleRepository, favoritesRepository);
+ * const { body } = await feed.render();
+ * ```
+ */
+export class IcsFeedService {
+  private readonly generator = new IcsGenerator();
+  private readonly scheduleDiff = new ScheduleDiff();
+  private renders: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param schedule - Source of the cached schedule
+   * @param favorites - Source of race and series favorites
+   * @param store - Key-value store for the feed state (default: AsyncStorage)
+   */
+  constructor(
+    private readonly schedule: ScheduleRepository,
+    private readonly favorites: FavoritesRepository,
+    private readonly store: KeyValueStore = defaultKeyValueStore,
+  ) {}
+
+  /**
+   * Renders the feed from the cached schedule and current favorites
+   *
+   * Includes races favorited by ID and races matching a series favorite.
+   * Renders run one at a time, so each sees the state the previous one saved.
+   *
+   * @param now - Time written as DTSTAMP (default: now)
+   * @returns The feed document
+   */
+  render(now: Date = new Date()): Promise<IcsFeed> {
+    const run = () => this.renderNow(now);
+    const result = this.renders.then(run, run);
+    this.renders = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Renders the feed and saves the new feed state
+   * @private
+   */
+  private async renderNow(now: Date): Promise<IcsFeed> {
+    const [races, favorites, series, previous] = await Promise.all([
+      this.schedule.getCachedSchedule(),
+      this.favorites.getFavorites(),
+      this.favorites.getSeriesFavorites(),
+      this.readState(),
+    ]);
+
+    const favoritesById = new Map(favorites.map(favorite => [favorite.raceId, favorite]));
+    const published = (races ?? []).filter(
+      race => favoritesById.has(race.id) || findMatchingSeries(race, series) !== undefined,
+    );
+
+    const diff = this.scheduleDiff.diff(previous.races, published);
+    const changedIds = new Set([...diff.rescheduled, ...diff.modified].map(c => c.raceId));
+    const sequences: Record<string, number> = {};
+    for (const race of published) {
+      const sequence = previous.sequences[race.id] ?? 0;
+      sequences[race.id] = changedIds.has(race.id) ? sequence + 1 : sequence;
+    }
+
+    if (this.scheduleDiff.hasChanges(diff)) {
+      await writeValue(
+        this.store,
+        STORAGE_KEYS.ICS_FEED_STATE,
+        { races: published, sequences },
+        stateCodec,
+      );
+    }
+
+    const body = this.generator.generate(published, {
+      calendarName: 'RaceSync favorites',
+      refreshIntervalMinutes: ICS_FEED_REFRESH_MINUTES,
+      getSequence: race => sequences[race.id] ?? 0,
+      getReminderLeadMinutes: race => {
+        const favorite = favoritesById.get(race.id);
+        return favorite ? getReminderLeadMinutes(favorite) : NOTIFICATION_TIMING.FAVORITE_REMINDER;
+      },
+      now,
+    });
+    return { body, eventCount: published.length };
+  }
+
+  /**
+   * Reads the last feed state; a missing or unreadable state starts over
+   * @private
+   */
+  private async readState(): Promise<IcsFeedState> {
+    try {
+      const stored = await readValue(this.store, STORAGE_KEYS.ICS_FEED_STATE, stateCodec);
+      return isFeedState(stored) ? stored : { races: [], sequences: {} };
+    } catch (error) {
+      console.error('Error reading calendar feed state:', error);
+      return { races: [], sequences: {} };
+    }
+  }
+}
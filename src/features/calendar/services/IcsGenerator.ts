@@ -0,0 +1,290 @@
+/**
+ * IcsGenerator Service
+ *
+ * Writes races and practice sessions as an iCalendar (RFC 5545) document,
+ * for users who can't give the app calendar access. Each event has a UID
+ * derived from the race or session ID, so importing a newer file updates
+ * the events from an earlier import instead of duplicating them.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc5545
+ */
+
+import { format } from 'date-fns';
+import type { Race } from '../../schedules/types/Race';
+import { NOTIFICATION_TIMING } from '../../notifications/types/Notification';
+import { CALENDAR_EVENT_BUFFER_MINUTES } from '../types/CalendarEvent';
+import type { PracticeSession } from '../types/PracticeSession';
+import {
+  formatPracticeEventDescription,
+  formatPracticeEventTitle,
+  formatRaceEventDescription,
+  formatRaceEventTitle,
+} from '../utils/calendarEventBuilder';
+
+/**
+ * PRODID of generated documents
+ */
+export const ICS_PRODUCT_ID = '-//RaceSync//RaceSync//EN';
+
+/**
+ * Domain part of generated UIDs
+ */
+export const ICS_UID_DOMAIN = 'racesync.app';
+
+/**
+ * How long a repeating daily race's RRULE runs, in minutes from its first slot
+ */
+export const DAILY_REPEAT_SPAN_MINUTES = 24 * 60;
+
+/**
+ * Maximum line length in octets before folding (RFC 5545 section 3.1)
+ */
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Practice session exported with the race it prepares for
+ */
+export interface IcsPracticeEntry {
+  session: PracticeSession;
+  race: Race;
+}
+
+/**
+ * Options for IcsGenerator.generate
+ */
+export interface IcsOptions {
+  /**
+   * Practice sessions to export alongside the races
+   */
+  practiceSessions?: IcsPracticeEntry[];
+
+  /**
+   * Minutes before a race's start its alarm fires, or null for no alarm
+   * (default: NOTIFICATION_TIMING.FAVORITE_REMINDER for every race)
+   */
+  getReminderLeadMinutes?: (race: Race) => number | null;
+
+  /**
+   * SEQUENCE of a race's event, raised each time the race changes
+   * (default: no SEQUENCE, i.e. 0)
+   */
+  getSequence?: (race: Race) => number;
+
+  /**
+   * Calendar name shown by calendar apps
+   */
+  calendarName?: string;
+
+  /**
+   * How often subscribed calendar apps should fetch the document again
+   */
+  refreshIntervalMinutes?: number;
+
+  /**
+   * Time written as DTSTAMP (default: now)
+   */
+  now?: Date;
+}
+
+/**
+ * Escapes a TEXT property value (RFC 5545 section 3.3.11)
+ */
+export const escapeIcsText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/**
+ * Formats a time as a UTC DATE-TIME, e.g. "20251115T190000Z"
+ */
+export const formatIcsUtc = (date: Date): string =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+
+/**
+ * Formats a signed duration in minutes, e.g. "-PT30M" or "PT0M"
+ */
+export const formatIcsDuration = (minutes: number): string =>
+  `${minutes < 0 ? '-' : ''}PT${Math.abs(Math.round(minutes))}M`;
+
+const utf8Length = (char: string): number => {
+  const codePoint = char.codePointAt(0) ?? 0;
+  return codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+};
+
+/**
+ * Folds a content line into 75-octet lines (RFC 5545 section 3.1)
+ * Continuation lines start with a space, which counts towards their length
+ */
+export const foldIcsLine = (line: string): string => {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const length = utf8Length(char);
+    if (octets + length > MAX_LINE_OCTETS) {
+      lines.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += length;
+  }
+  lines.push(current);
+
+  return lines.join('\r\n');
+};
+
+/**
+ * Service for exporting races as iCalendar files
+ *
+ * @example
+ * ```typescript
+ * const generator = new IcsGenerator();
+ * const ics = generator.generate(favoriteRaces, {
+ *   getReminderLeadMinutes: race => leadTimes.get(race.id) ?? null,
+ * });
+ * ```
+ */
+export class IcsGenerator {
+  /**
+   * Writes a VCALENDAR document
+   *
+   * Race events start CALENDAR_EVENT_BUFFER_MINUTES before the race, like
+   * device calendar events. Repeating daily races get an RRULE covering
+   * DAILY_REPEAT_SPAN_MINUTES of slots.
+   *
+   * @param races - Races to export
+   * @param options - Practice sessions, alarms and metadata
+   * @returns iCalendar document with CRLF line endings
+   */
+  generate(races: Race[], options: IcsOptions = {}): string {
+    const {
+      practiceSessions = [],
+      calendarName,
+      refreshIntervalMinutes,
+      now = new Date(),
+    } = options;
+    const getLead = options.getReminderLeadMinutes ?? (() => NOTIFICATION_TIMING.FAVORITE_REMINDER);
+
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:${ICS_PRODUCT_ID}`,
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      ...(calendarName ? [`X-WR-CALNAME:${escapeIcsText(calendarName)}`] : []),
+      ...(refreshIntervalMinutes
+        ? [
+            `REFRESH-INTERVAL;VALUE=DURATION:${formatIcsDuration(refreshIntervalMinutes)}`,
+            `X-PUBLISHED-TTL:${formatIcsDuration(refreshIntervalMinutes)}`,
+          ]
+        : []),
+      ...races.flatMap(race =>
+        this.buildRaceEvent(race, getLead(race), options.getSequence?.(race) ?? 0, now),
+      ),
+      ...practiceSessions.flatMap(entry => this.buildPracticeEvent(entry, now)),
+      'END:VCALENDAR',
+    ];
+
+    return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Gets the UID of a race's event
+   * @param raceId - ID of the race
+   * @returns UID, the same every time for the same race
+   */
+  getRaceUid(raceId: string): string {
+    return `race-${raceId}@${ICS_UID_DOMAIN}`;
+  }
+
+  /**
+   * Gets the UID of a practice session's event
+   * @param sessionId - ID of the practice session
+   * @returns UID, the same every time for the same session
+   */
+  getPracticeUid(sessionId: string): string {
+    return `practice-${sessionId}@${ICS_UID_DOMAIN}`;
+  }
+
+  /**
+   * Writes the VEVENT lines of a race
+   * @private
+   */
+  private buildRaceEvent(
+    race: Race,
+    leadMinutes: number | null,
+    sequence: number,
+    now: Date,
+  ): string[] {
+    const start = new Date(Date.parse(race.startTime) - CALENDAR_EVENT_BUFFER_MINUTES * 60000);
+    const duration = CALENDAR_EVENT_BUFFER_MINUTES + Math.max(0, race.durationMinutes);
+    const lines = [
+      'BEGIN:VEVENT',
+      `UID:${this.getRaceUid(race.id)}`,
+      `DTSTAMP:${formatIcsUtc(now)}`,
+      `DTSTART:${formatIcsUtc(start)}`,
+      `DURATION:${formatIcsDuration(duration)}`,
+      ...(sequence > 0 ? [`SEQUENCE:${sequence}`] : []),
+      `SUMMARY:${escapeIcsText(formatRaceEventTitle(race))}`,
+      `LOCATION:${escapeIcsText(race.trackName)}`,
+      `DESCRIPTION:${escapeIcsText(formatRaceEventDescription(race))}`,
+    ];
+
+    if (race.type === 'daily' && race.repeatInterval !== null && race.repeatInterval > 0) {
+      const count = Math.max(1, Math.floor(DAILY_REPEAT_SPAN_MINUTES / race.repeatInterval));
+      lines.push(`RRULE:FREQ=MINUTELY;INTERVAL=${race.repeatInterval};COUNT=${count}`);
+    }
+    if (leadMinutes !== null) {
+      // TRIGGER is relative to DTSTART, which is already before the race start
+      lines.push(
+        ...this.buildAlarm(CALENDAR_EVENT_BUFFER_MINUTES - leadMinutes, formatRaceEventTitle(race)),
+      );
+    }
+
+    lines.push('END:VEVENT');
+    return lines;
+  }
+
+  /**
+   * Writes the VEVENT lines of a practice session
+   *
+   * suggestedStartTime is local time, so it is written as a floating
+   * DATE-TIME that calendar apps show at the same wall-clock time.
+   *
+   * @private
+   */
+  private buildPracticeEvent({ session, race }: IcsPracticeEntry, now: Date): string[] {
+    const title = formatPracticeEventTitle(session, race);
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${this.getPracticeUid(session.id)}`,
+      `DTSTAMP:${formatIcsUtc(now)}`,
+      `DTSTART:${format(new Date(session.suggestedStartTime), "yyyyMMdd'T'HHmmss")}`,
+      `DURATION:${formatIcsDuration(session.durationMinutes)}`,
+      `SUMMARY:${escapeIcsText(title)}`,
+      `LOCATION:${escapeIcsText(race.trackName)}`,
+      `DESCRIPTION:${escapeIcsText(formatPracticeEventDescription(session))}`,
+      ...this.buildAlarm(-NOTIFICATION_TIMING.PRACTICE_REMINDER, title),
+      'END:VEVENT',
+    ];
+  }
+
+  /**
+   * Writes a display VALARM
+   * @param offsetMinutes - Minutes after DTSTART the alarm fires (negative: before)
+   * @private
+   */
+  private buildAlarm(offsetMinutes: number, title: string): string[] {
+    return [
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `TRIGGER:${formatIcsDuration(offsetMinutes)}`,
+      `DESCRIPTION:${escapeIcsText(title)}`,
+      'END:VALARM',
+    ];
+  }
+}
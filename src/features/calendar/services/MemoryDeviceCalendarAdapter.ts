@@ -0,0 +1,72 @@
+/**
+ * In-memory implementation of DeviceCalendarAdapter
+ *
+ * Nothing reaches a real calendar. Used in tests, where the created events
+ * can be inspected directly.
+ *
+ * @see DeviceCalendarAdapter for interface documentation
+ */
+
+import type { CalendarEventDetails } from '../types/CalendarEvent';
+import type { DeviceCalendarAdapter } from './DeviceCalendarAdapter';
+
+/**
+ * Event stored by MemoryDeviceCalendarAdapter
+ */
+export interface MemoryCalendarEvent extends CalendarEventDetails {
+  calendarId: string;
+}
+
+/**
+ * DeviceCalendarAdapter backed by a Map
+ *
+ * @example
+ * ```typescript
+ * const calendar = new MemoryDeviceCalendarAdapter();
+ * const service = new CalendarService(calendar, new MemoryKeyValueStore());
+ * await service.addRace(race);
+ * calendar.events.size; // 1
+ * ```
+ */
+export class MemoryDeviceCalendarAdapter implements DeviceCalendarAdapter {
+  readonly isAvailable = true;
+
+  /**
+   * Created events by event ID
+   */
+  readonly events = new Map<string, MemoryCalendarEvent>();
+
+  private nextId = 1;
+
+  /**
+   * @param options.granted - Whether requestAccess grants access (default: true)
+   * @param options.calendarId - ID of the default calendar (default: 'memory')
+   */
+  constructor(private readonly options: { granted?: boolean; calendarId?: string } = {}) {}
+
+  async requestAccess(): Promise<boolean> {
+    return this.options.granted ?? true;
+  }
+
+  async getDefaultCalendarId(): Promise<string> {
+    return this.options.calendarId ?? 'memory';
+  }
+
+  async createEvent(calendarId: string, details: CalendarEventDetails): Promise<string> {
+    const eventId = `memory-event-${this.nextId++}`;
+    this.events.set(eventId, { ...details, calendarId });
+    return eventId;
+  }
+
+  async updateEvent(eventId: string, details: CalendarEventDetails): Promise<void> {
+    const event = this.events.get(eventId);
+    if (!event) {
+      throw new Error(`Calendar event ${eventId} not found`);
+    }
+    this.events.set(eventId, { ...event, ...details });
+  }
+
+  async deleteEvent(eventId: string): Promise<void> {
+    this.events.delete(eventId);
+  }
+}
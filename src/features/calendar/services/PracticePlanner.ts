@@ -0,0 +1,126 @@
+/**
+ * PracticePlanner
+ *
+ * Plans practice sessions for a race and puts them in the user's calendar
+ * and reminders (User Story 4). A plan holds up to three sessions from
+ * DEFAULT_PRACTICE_SESSIONS, each with the race's conditions, so the user
+ * can practice in the same weather and light they'll race in.
+ *
+ * Sessions are generated on demand and not stored; the calendar events and
+ * notifications created for them are.
+ */
+
+import type { Race } from '../../schedules/types/Race';
+import type { Notification } from '../../notifications/types/Notification';
+import type { NotificationService } from '../../notifications/services/NotificationService';
+import type { CalendarEvent } from '../types/CalendarEvent';
+import type { PracticeSession } from '../types/PracticeSession';
+import { generatePracticeSessions, isSessionBeforeRace } from '../utils/practiceScheduling';
+import type { CalendarService } from './CalendarService';
+
+/**
+ * Error thrown when a practice plan can't be scheduled as given
+ */
+export class PracticePlanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PracticePlanError';
+  }
+}
+
+/**
+ * What scheduling a practice plan created
+ */
+export interface ScheduledPracticePlan {
+  /**
+   * Calendar event of the race
+   */
+  raceEvent: CalendarEvent;
+
+  /**
+   * Calendar events of the sessions
+   */
+  sessionEvents: CalendarEvent[];
+
+  /**
+   * Reminders at the start of each session; empty without notification permission
+   */
+  reminders: Notification[];
+}
+
+/**
+ * Service for planning practice sessions before a race
+ *
+ * @example
+ * ```typescript
+ * const planner = new PracticePlanner(calendarService, notificationService);
+ * const sessions = planner.plan(race);
+ * await planner.schedule(race, sessions);
+ * ```
+ */
+export class PracticePlanner {
+  /**
+   * @param calendar - Calendar to add the race and sessions to
+   * @param notifications - Where session reminders are scheduled
+   */
+  constructor(
+    private readonly calendar: CalendarService,
+    private readonly notifications: NotificationService,
+  ) {}
+
+  /**
+   * Suggests practice sessions for a race
+   *
+   * @param race - Race to practice for
+   * @param now - Current time (default: now)
+   * @returns Sessions in chronological order; fewer than three when the
+   * race is too close for all of them, none when it has started
+   */
+  plan(race: Race, now: Date = new Date()): PracticeSession[] {
+    return generatePracticeSessions(race, now);
+  }
+
+  /**
+   * Checks that sessions belong to the race and end before it starts
+   *
+   * @param race - Race the sessions prepare for
+   * @param sessions - Sessions to check
+   * @throws PracticePlanError naming the first session that doesn't fit
+   */
+  validate(race: Race, sessions: PracticeSession[]): void {
+    for (const session of sessions) {
+      if (session.raceId !== race.id) {
+        throw new PracticePlanError(`${session.sessionType} belongs to a different race`);
+      }
+      if (!isSessionBeforeRace(session, race)) {
+        throw new PracticePlanError(`${session.sessionType} doesn't end before the race starts`);
+      }
+    }
+  }
+
+  /**
+   * Adds the race and its practice sessions to the calendar, then schedules
+   * a reminder for each session
+   *
+   * @param race - Race the sessions prepare for
+   * @param sessions - Sessions to schedule, usually from plan()
+   * @param now - Current time (default: now)
+   * @returns The calendar events and reminders
+   * @throws PracticePlanError if a session doesn't end before the race
+   * @throws CalendarAccessError if calendar access isn't granted
+   * @throws If the device calendar, notifications or storage fail
+   */
+  async schedule(
+    race: Race,
+    sessions: PracticeSession[],
+    now: Date = new Date(),
+  ): Promise<ScheduledPracticePlan> {
+    this.validate(race, sessions);
+
+    const raceEvent = await this.calendar.addRace(race);
+    const sessionEvents = await this.calendar.addPracticeSessions(race, sessions);
+    const reminders = await this.notifications.schedulePracticeReminders(race, sessions, now);
+
+    return { raceEvent, sessionEvents, reminders };
+  }
+}
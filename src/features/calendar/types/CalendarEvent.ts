@@ -80,8 +80,28 @@ export interface CalendarEvent {
    * @example "2024-03-15T10:30:00Z"
    */
   createdAt: string;
+
+  /**
+   * Timestamp when the race disappeared from the schedule and this event was
+   * marked as cancelled; absent while the race is scheduled
+   * ISO 8601 UTC format
+   */
+  cancelledAt?: string;
 }
 
+/**
+ * Minutes calendar events start before the race, to allow for preparation
+ */
+export const CALENDAR_EVENT_BUFFER_MINUTES = 15;
+
+/**
+ * Fields written to the device calendar for an event
+ */
+export type CalendarEventDetails = Pick<
+  CalendarEvent,
+  'title' | 'location' | 'startTime' | 'endTime' | 'description'
+>;
+
 /**
  * AsyncStorage key for calendar event mappings
  */
@@ -0,0 +1,75 @@
+/**
+ * Calendar sync types
+ *
+ * After each schedule refresh, calendar events created for races are
+ * reconciled with the new schedule: changed races get their events updated
+ * and races that disappeared get their events cancelled. The outcome is kept
+ * as a CalendarSyncReport so the user can see what was changed.
+ */
+
+/**
+ * What to do with the event of a race that disappeared from the schedule
+ * - mark: keep the event and prefix its title with CANCELLED_EVENT_TITLE_PREFIX
+ * - remove: delete the event from the calendar
+ */
+export type CalendarCancellationMode = 'mark' | 'remove';
+
+/**
+ * Cancellation mode used until the user picks one
+ */
+export const DEFAULT_CANCELLATION_MODE: CalendarCancellationMode = 'mark';
+
+/**
+ * Title prefix of events whose race was cancelled
+ */
+export const CANCELLED_EVENT_TITLE_PREFIX = 'Cancelled: ';
+
+/**
+ * Calendar event field that changed during a sync
+ */
+export type CalendarEventChange = 'title' | 'location' | 'time' | 'description';
+
+/**
+ * What a sync did to one event
+ * - updated: the race changed and the event was rewritten
+ * - cancelled: the race disappeared and the event was marked as cancelled
+ * - removed: the race disappeared and the event was deleted
+ * - failed: the device calendar rejected the change
+ */
+export type CalendarSyncAction = 'updated' | 'cancelled' | 'removed' | 'failed';
+
+/**
+ * One event changed (or not changed, when failed) by a sync
+ */
+export interface CalendarSyncEntry {
+  action: CalendarSyncAction;
+  raceId: string;
+  eventId: string;
+
+  /**
+   * Event title before the sync
+   */
+  title: string;
+
+  /**
+   * Fields that changed (empty for cancelled and removed events)
+   */
+  changes: CalendarEventChange[];
+
+  /**
+   * Error message when the action failed
+   */
+  error?: string;
+}
+
+/**
+ * Outcome of the last sync that changed anything
+ */
+export interface CalendarSyncReport {
+  /**
+   * ISO 8601 UTC time of the sync
+   */
+  syncedAt: string;
+
+  entries: CalendarSyncEntry[];
+}
@@ -120,61 +120,19 @@ export const DEFAULT_PRACTICE_SESSIONS: Array<{
  * Example usage:
  *
  * ```typescript
- * import { Race } from '../../schedules/types/Race';
+ * import { PracticePlanner } from '../services/PracticePlanner';
  *
- * // Creating practice sessions for a race
- * function generatePracticeSessions(race: Race): PracticeSession[] {
- *   const raceStartTime = new Date(race.startTime);
+ * // Sessions are generated by generatePracticeSessions (utils/practiceScheduling)
+ * const planner = new PracticePlanner(calendarService, notificationService);
+ * const sessions = planner.plan(race);
  *
- *   return DEFAULT_PRACTICE_SESSIONS.map((config, index) => {
- *     // Calculate suggested start time (offsetDays before race)
- *     const sessionTime = new Date(raceStartTime);
- *     sessionTime.setDate(sessionTime.getDate() - config.scheduleOffsetDays);
- *
- *     return {
- *       id: `ps_${race.id}_${index}`,
- *       raceId: race.id,
- *       sessionType: config.sessionType,
- *       durationMinutes: config.durationMinutes,
- *       scheduleOffsetDays: config.scheduleOffsetDays,
- *       suggestedStartTime: sessionTime.toISOString().split('T')[0] + 'T' + race.startTime.split('T')[1].substring(0, 8),
- *       weatherCondition: race.weatherCondition,
- *       timeOfDay: race.timeOfDay,
- *       trackTemperature: null, // Could be derived from race if available
- *     };
- *   });
- * }
- *
- * // Example race
- * const race: Race = {
- *   id: '550e8400-e29b-41d4-a716-446655440000',
- *   type: 'weekly',
- *   tier: null,
- *   trackName: 'Circuit de la Sarthe',
- *   trackConfiguration: '24h Layout',
- *   carClass: 'Hypercar',
- *   startTime: '2024-03-15T14:30:00Z',
- *   durationMinutes: 45,
- *   weatherCondition: 'Dynamic',
- *   timeOfDay: 'Afternoon',
- *   licenseRequirement: 'Silver',
- *   repeatInterval: null,
- *   isLive: false,
- * };
- *
- * // Generate all three practice sessions
- * const sessions = generatePracticeSessions(race);
- *
- * // Result:
+ * // For a race on 2024-03-15 at 14:30 local time:
  * // sessions[0]: Track Familiarization, 30 min, 3 days before (2024-03-12T14:30:00)
  * // sessions[1]: Qualifying Simulation, 45 min, 2 days before (2024-03-13T14:30:00)
  * // sessions[2]: Race Pace, 45 min, 1 day before (2024-03-14T14:30:00)
  *
- * // Validation: Ensure practice session precedes race
- * function isValidPracticeSession(session: PracticeSession, race: Race): boolean {
- *   const sessionTime = new Date(session.suggestedStartTime);
- *   const raceTime = new Date(race.startTime);
- *   return sessionTime < raceTime;
- * }
+ * // Checks every session ends before the race, then adds the race, the
+ * // sessions and their reminders
+ * await planner.schedule(race, sessions);
  * ```
  */
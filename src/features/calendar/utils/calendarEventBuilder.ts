@@ -0,0 +1,138 @@
+import { addMinutes, format, parseISO } from 'date-fns';
+import type { Race } from '../../schedules/types/Race';
+import type { PracticeSession } from '../types/PracticeSession';
+import { formatDuration } from '../../../shared/utils/formatters';
+import { CALENDAR_EVENT_BUFFER_MINUTES, CalendarEventDetails } from '../types/CalendarEvent';
+
+/**
+ * Formats a date as an ISO 8601 local date-time without offset, as stored
+ * in CalendarEvent.startTime and endTime
+ *
+ * @example
+ * ```typescript
+ * formatLocalDateTime(new Date(2024, 2, 15, 14, 15)) // "2024-03-15T14:15:00"
+ * ```
+ */
+export function formatLocalDateTime(date: Date): string {
+  return format(date, "yyyy-MM-dd'T'HH:mm:ss");
+}
+
+/**
+ * Builds the calendar event title for a race
+ *
+ * @example
+ * ```typescript
+ * formatRaceEventTitle(race) // "LMU Race: Circuit de la Sarthe - Hypercar"
+ * ```
+ */
+export function formatRaceEventTitle(race: Race): string {
+  return `LMU Race: ${race.trackName} - ${race.carClass}`;
+}
+
+/**
+ * Builds the calendar event description for a race: a summary line, then
+ * one "Label: value" line per detail
+ *
+ * @example
+ * ```typescript
+ * formatRaceEventDescription(race)
+ * // "Hypercar race at Circuit de la Sarthe\nLayout: 24h Layout\nType: Weekly\n
+ * //  Duration: 45 min\nWeather: Dynamic\nTime: Afternoon\nLicense: Silver"
+ * ```
+ */
+export function formatRaceEventDescription(race: Race): string {
+  const type = race.type.charAt(0).toUpperCase() + race.type.slice(1);
+  const lines = [`${race.carClass} race at ${race.trackName}`];
+
+  if (race.trackConfiguration) {
+    lines.push(`Layout: ${race.trackConfiguration}`);
+  }
+  lines.push(race.tier ? `Type: ${type} (${race.tier})` : `Type: ${type}`);
+  lines.push(`Duration: ${formatDuration(race.durationMinutes)}`);
+  lines.push(`Weather: ${race.weatherCondition}`);
+  lines.push(`Time: ${race.timeOfDay}`);
+  lines.push(`License: ${race.licenseRequirement}`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Builds the calendar fields for a race
+ *
+ * The event starts CALENDAR_EVENT_BUFFER_MINUTES before the race and ends
+ * when the race ends. Times are in the device's local time zone.
+ *
+ * @param race - Race to add to the calendar
+ * @returns Event fields for DeviceCalendarAdapter.createEvent
+ */
+export function buildRaceEventDetails(race: Race): CalendarEventDetails {
+  const start = parseISO(race.startTime);
+
+  return {
+    title: formatRaceEventTitle(race),
+    location: race.trackName,
+    startTime: formatLocalDateTime(addMinutes(start, -CALENDAR_EVENT_BUFFER_MINUTES)),
+    endTime: formatLocalDateTime(addMinutes(start, Math.max(0, race.durationMinutes))),
+    description: formatRaceEventDescription(race),
+  };
+}
+
+/**
+ * Builds the calendar event title for a practice session
+ *
+ * @example
+ * ```typescript
+ * formatPracticeEventTitle(session, race) // "Practice: Qualifying Simulation - Spa-Francorchamps"
+ * ```
+ */
+export function formatPracticeEventTitle(session: PracticeSession, race: Race): string {
+  return `Practice: ${session.sessionType} - ${race.trackName}`;
+}
+
+/**
+ * Builds the calendar event description for a practice session, in the
+ * same format as race descriptions
+ *
+ * @example
+ * ```typescript
+ * formatPracticeEventDescription(session)
+ * // "Qualifying Simulation practice session\nDuration: 45 min\nWeather: Dynamic\nTime: Afternoon"
+ * ```
+ */
+export function formatPracticeEventDescription(session: PracticeSession): string {
+  const lines = [
+    `${session.sessionType} practice session`,
+    `Duration: ${formatDuration(session.durationMinutes)}`,
+    `Weather: ${session.weatherCondition}`,
+    `Time: ${session.timeOfDay}`,
+  ];
+  if (session.trackTemperature) {
+    lines.push(`Track temperature: ${session.trackTemperature}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Builds the calendar fields for a practice session
+ *
+ * Unlike race events there's no buffer: the event covers the session itself.
+ * suggestedStartTime is already local time.
+ *
+ * @param session - Practice session to add to the calendar
+ * @param race - Race the session prepares for
+ * @returns Event fields for DeviceCalendarAdapter.createEvent
+ */
+export function buildPracticeEventDetails(
+  session: PracticeSession,
+  race: Race,
+): CalendarEventDetails {
+  const start = parseISO(session.suggestedStartTime);
+
+  return {
+    title: formatPracticeEventTitle(session, race),
+    location: race.trackName,
+    startTime: formatLocalDateTime(start),
+    endTime: formatLocalDateTime(addMinutes(start, session.durationMinutes)),
+    description: formatPracticeEventDescription(session),
+  };
+}
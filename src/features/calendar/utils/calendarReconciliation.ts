@@ -0,0 +1,108 @@
+import { addMinutes } from 'date-fns';
+import type { Race } from '../../schedules/types/Race';
+import {
+  CALENDAR_EVENT_BUFFER_MINUTES,
+  CalendarEvent,
+  CalendarEventDetails,
+} from '../types/CalendarEvent';
+import type { CalendarEventChange } from '../types/CalendarSync';
+import { buildRaceEventDetails } from './calendarEventBuilder';
+
+/**
+ * Calendar event whose race changed, with its rebuilt fields
+ */
+export interface CalendarEventUpdate {
+  event: CalendarEvent;
+  details: CalendarEventDetails;
+  changes: CalendarEventChange[];
+}
+
+/**
+ * Changes needed to bring calendar events in line with a schedule
+ */
+export interface CalendarSyncPlan {
+  /**
+   * Events whose race changed (or came back after being cancelled)
+   */
+  updates: CalendarEventUpdate[];
+
+  /**
+   * Events whose race disappeared from the schedule
+   */
+  cancellations: CalendarEvent[];
+}
+
+/**
+ * Lists the fields that differ between a stored event and rebuilt fields
+ */
+export function getEventChanges(
+  event: CalendarEventDetails,
+  details: CalendarEventDetails,
+): CalendarEventChange[] {
+  const changes: CalendarEventChange[] = [];
+  if (event.title !== details.title) {
+    changes.push('title');
+  }
+  if (event.location !== details.location) {
+    changes.push('location');
+  }
+  if (event.startTime !== details.startTime || event.endTime !== details.endTime) {
+    changes.push('time');
+  }
+  if (event.description !== details.description) {
+    changes.push('description');
+  }
+  return changes;
+}
+
+/**
+ * Works out which race events need updating or cancelling
+ *
+ * A race counts as gone only if it hasn't ended and starts no later than the
+ * last race in the schedule: races past the schedule's horizon (e.g. added
+ * from a window that a refresh dropped) are left alone, as are past races.
+ * Practice session events and already cancelled events of still-missing
+ * races are skipped.
+ *
+ * @param events - Stored calendar events
+ * @param races - Races in the new schedule
+ * @param now - Current time
+ * @returns Events to update and events to cancel
+ */
+export function planCalendarSync(
+  events: CalendarEvent[],
+  races: Race[],
+  now: Date = new Date(),
+): CalendarSyncPlan {
+  const racesById = new Map(races.map(race => [race.id, race]));
+  const horizon = races.reduce(
+    (latest, race) => Math.max(latest, new Date(race.startTime).getTime()),
+    -Infinity,
+  );
+  const plan: CalendarSyncPlan = { updates: [], cancellations: [] };
+
+  for (const event of events) {
+    if (!event.raceId) {
+      continue;
+    }
+
+    const race = racesById.get(event.raceId);
+    if (race) {
+      const details = buildRaceEventDetails(race);
+      const changes = getEventChanges(event, details);
+      if (changes.length > 0) {
+        plan.updates.push({ event, details, changes });
+      }
+      continue;
+    }
+
+    // Event times are local date-times, which Date parses in the local time zone
+    const raceStart = addMinutes(new Date(event.startTime), CALENDAR_EVENT_BUFFER_MINUTES);
+    const hasEnded = new Date(event.endTime).getTime() <= now.getTime();
+    if (!event.cancelledAt && !hasEnded && raceStart.getTime() <= horizon) {
+      plan.cancellations.push(event);
+    }
+  }
+
+  return plan;
+}
@@ -0,0 +1,90 @@
+import { addMinutes, parseISO, subDays } from 'date-fns';
+import type { Race } from '../../schedules/types/Race';
+import { DEFAULT_PRACTICE_SESSIONS, PracticeSession } from '../types/PracticeSession';
+import { formatLocalDateTime } from './calendarEventBuilder';
+
+/**
+ * Sessions moved because their default day has passed start on a multiple
+ * of this many minutes
+ */
+export const PRACTICE_SLOT_MINUTES = 15;
+
+/**
+ * Rounds a time up to the next practice slot
+ */
+const roundUpToSlot = (date: Date): Date => {
+  const slotMs = PRACTICE_SLOT_MINUTES * 60000;
+  return new Date(Math.ceil(date.getTime() / slotMs) * slotMs);
+};
+
+/**
+ * Gets the ID of a race's practice session; the same every time, so
+ * planning the same race twice doesn't duplicate calendar events
+ *
+ * @example
+ * ```typescript
+ * getPracticeSessionId('spa-week-1', 0) // "ps_spa-week-1_0"
+ * ```
+ */
+export function getPracticeSessionId(raceId: string, index: number): string {
+  return `ps_${raceId}_${index}`;
+}
+
+/**
+ * Gets when a practice session ends
+ */
+export function getPracticeSessionEnd(session: PracticeSession): Date {
+  return addMinutes(parseISO(session.suggestedStartTime), session.durationMinutes);
+}
+
+/**
+ * Checks that a practice session is over before its race starts
+ */
+export function isSessionBeforeRace(session: PracticeSession, race: Race): boolean {
+  return getPracticeSessionEnd(session).getTime() <= parseISO(race.startTime).getTime();
+}
+
+/**
+ * Builds the practice sessions for a race from DEFAULT_PRACTICE_SESSIONS
+ *
+ * Each session starts scheduleOffsetDays before the race at the race's local
+ * start time, and copies the race's weather and time of day. When the race
+ * is less than three days away, sessions whose day has passed move to the
+ * next free slot after `now` instead; sessions that can no longer finish
+ * before the race are left out.
+ *
+ * @param race - Race to practice for
+ * @param now - Current time (default: now)
+ * @returns Sessions in chronological order, possibly fewer than three
+ */
+export function generatePracticeSessions(race: Race, now: Date = new Date()): PracticeSession[] {
+  const raceStart = parseISO(race.startTime);
+  const sessions: PracticeSession[] = [];
+  let earliest = roundUpToSlot(now);
+
+  DEFAULT_PRACTICE_SESSIONS.forEach((config, index) => {
+    // subDays keeps the local wall-clock time across DST changes
+    const suggested = subDays(raceStart, config.scheduleOffsetDays);
+    const start = suggested < earliest ? earliest : suggested;
+    const end = addMinutes(start, config.durationMinutes);
+    if (end > raceStart) {
+      return;
+    }
+
+    sessions.push({
+      id: getPracticeSessionId(race.id, index),
+      raceId: race.id,
+      sessionType: config.sessionType,
+      durationMinutes: config.durationMinutes,
+      scheduleOffsetDays: config.scheduleOffsetDays,
+      suggestedStartTime: formatLocalDateTime(start),
+      weatherCondition: race.weatherCondition,
+      timeOfDay: race.timeOfDay,
+      // The schedule doesn't publish track temperatures yet
+      trackTemperature: null,
+    });
+    earliest = end;
+  });
+
+  return sessions;
+}
@@ -5,7 +5,12 @@ import {
   StyleSheet,
   ActivityIndicator,
 } from 'react-native';
-import { useFavorites } from '../hooks/useFavorites';
+import { useIsFavorite } from '../hooks/useIsFavorite';
+import { useFavoritesStore } from '../hooks/useFavoritesStore';
+import { useFavoriteSeries } from '../hooks/useFavoriteSeries';
+import { useFavoriteDetailsEditor } from '../hooks/useFavoriteDetailsEditor';
+import { useAutoFavoriteRule } from '../../rules/hooks/useAutoFavoriteRule';
+import type { Race } from '../../schedules/types/Race';
 
 interface FavoriteButtonProps {
   /**
@@ -13,6 +18,12 @@ interface FavoriteButtonProps {
    */
   raceId: string;
 
+  /**
+   * The race itself; when given, the star is also filled for races matched
+   * by a series favorite or an auto-favorite rule
+   */
+  race?: Race;
+
   /**
    * Size of the star icon (default: 24)
    */
@@ -42,25 +53,48 @@ interface FavoriteButtonProps {
 /**
  * FavoriteButton component displays a star icon that toggles favorite status
  * Star is filled when the race is favorited, outlined when not favorited
+ * Subscribes to this race only, so toggling one star doesn't re-render the others
+ * Races favorited through a series or an auto-favorite rule show a filled
+ * star that can't be toggled; the series or rule has to be removed instead
+ * Long-press opens the screen's details editor (FavoriteDetailsEditorHost),
+ * favoriting the race first if needed, including series and rule favorites
  * Component is under 200 lines as required
  */
 export const FavoriteButton: React.FC<FavoriteButtonProps> = ({
   raceId,
+  race,
   size = 24,
   favoritedColor = '#FFD700',
   unfavoritedColor = '#CCCCCC',
   onToggle,
   enableNotifications = false,
 }) => {
-  const { isFavorite, toggleFavorite } = useFavorites();
+  const favoritesStore = useFavoritesStore();
+  const favoritedByRace = useIsFavorite(raceId);
+  const series = useFavoriteSeries(race);
+  const rule = useAutoFavoriteRule(race);
+  const favoritedBySeries = !favoritedByRace && series !== undefined;
+  const favoritedByRule = !favoritedByRace && !favoritedBySeries && rule !== undefined;
+  const favorited = favoritedByRace || favoritedBySeries || favoritedByRule;
+  const accessibilityLabel = favoritedBySeries
+    ? 'Favorited as part of a series'
+    : favoritedByRule
+    ? `Favorited by rule ${rule.name}`
+    : favorited
+    ? 'Remove from favorites'
+    : 'Add to favorites';
   const [isToggling, setIsToggling] = useState(false);
-
-  const favorited = isFavorite(raceId);
+  const openDetails = useFavoriteDetailsEditor();
 
   const handlePress = async (): Promise<void> => {
+    // Series and rule favorites are removed from the series or rule
+    if (favoritedBySeries || favoritedByRule) {
+      return;
+    }
+
     try {
       setIsToggling(true);
-      await toggleFavorite(raceId, enableNotifications);
+      await favoritesStore.toggleFavorite(raceId, enableNotifications);
 
       // Call optional callback
       if (onToggle) {
@@ -73,13 +107,29 @@ export const FavoriteButton: React.FC<FavoriteButtonProps> = ({
     }
   };
 
+  const handleLongPress = async (open: (raceId: string) => void): Promise<void> => {
+    try {
+      if (!favoritedByRace) {
+        setIsToggling(true);
+        await favoritesStore.addFavorite(raceId, enableNotifications);
+        onToggle?.(true);
+      }
+      open(raceId);
+    } catch (error) {
+      console.error('Error favoriting before editing:', error);
+    } finally {
+      setIsToggling(false);
+    }
+  };
+
   return (
     <TouchableOpacity
       onPress={handlePress}
+      onLongPress={openDetails ? () => handleLongPress(openDetails) : undefined}
       disabled={isToggling}
       style={styles.button}
       accessibilityRole="button"
-      accessibilityLabel={favorited ? 'Remove from favorites' : 'Add to favorites'}
+      accessibilityLabel={accessibilityLabel}
       accessibilityState={{ selected: favorited }}
       testID={`favorite-button-${raceId}`}
     >
@@ -0,0 +1,247 @@
+import React, { useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { useFavorite } from '../hooks/useFavorite';
+import { useFavoritesStore } from '../hooks/useFavoritesStore';
+import {
+  FAVORITE_NOTE_MAX_LENGTH,
+  REMINDER_LEAD_OPTIONS,
+  parseTagInput,
+} from '../utils/favoriteDetails';
+import { NOTIFICATION_TIMING } from '../../notifications/types/Notification';
+import { SPACING } from '../../../shared/constants/spacing';
+
+interface FavoriteDetailsEditorProps {
+  /**
+   * ID of the favorited race to edit
+   */
+  raceId: string;
+
+  /**
+   * Whether the editor is shown
+   */
+  visible: boolean;
+
+  /**
+   * Called when the editor is dismissed or saved
+   */
+  onClose: () => void;
+}
+
+/**
+ * FavoriteDetailsEditor edits a favorite's note, tags and reminder lead time
+ * Rendered once per screen by FavoriteDetailsEditorHost and opened by
+ * long-pressing a FavoriteButton; the host remounts it for each race so
+ * unsaved edits are dropped
+ */
+export const FavoriteDetailsEditor: React.FC<FavoriteDetailsEditorProps> = ({
+  raceId,
+  visible,
+  onClose,
+}) => {
+  const favoritesStore = useFavoritesStore();
+  const favorite = useFavorite(raceId);
+  // Starts from the stored values; remount with a new key to reopen fresh
+  const [note, setNote] = useState(favorite?.note ?? '');
+  const [tagInput, setTagInput] = useState(favorite?.tags?.join(', ') ?? '');
+  const [leadMinutes, setLeadMinutes] = useState(favorite?.reminderLeadMinutes ?? null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async (): Promise<void> => {
+    try {
+      setIsSaving(true);
+      await favoritesStore.updateFavorite(raceId, {
+        note,
+        tags: parseTagInput(tagInput),
+        reminderLeadMinutes: leadMinutes,
+      });
+      onClose();
+    } catch (saveError) {
+      console.error('Error saving favorite details:', saveError);
+      setError('Could not save changes');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const currentLead = leadMinutes ?? NOTIFICATION_TIMING.FAVORITE_REMINDER;
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet} testID={`favorite-details-${raceId}`}>
+          <Text style={styles.title}>Favorite details</Text>
+
+          <Text style={styles.label}>Note</Text>
+          <TextInput
+            style={[styles.input, styles.noteInput]}
+            value={note}
+            onChangeText={setNote}
+            placeholder="e.g. practice T1 braking"
+            placeholderTextColor="#666666"
+            maxLength={FAVORITE_NOTE_MAX_LENGTH}
+            multiline
+            testID="favorite-details-note"
+          />
+
+          <Text style={styles.label}>Tags (comma separated)</Text>
+          <TextInput
+            style={styles.input}
+            value={tagInput}
+            onChangeText={setTagInput}
+            placeholder="league, setup-test"
+            placeholderTextColor="#666666"
+            autoCapitalize="none"
+            testID="favorite-details-tags"
+          />
+
+          <Text style={styles.label}>Reminder ({currentLead} min before start)</Text>
+          <View style={styles.options}>
+            {[null, ...REMINDER_LEAD_OPTIONS].map(option => {
+              const isActive = option === leadMinutes;
+              return (
+                <TouchableOpacity
+                  key={option ?? 'default'}
+                  style={[styles.option, isActive && styles.optionActive]}
+                  onPress={() => setLeadMinutes(option)}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: isActive }}
+                  testID={`favorite-details-lead-${option ?? 'default'}`}
+                >
+                  <Text style={[styles.optionText, isActive && styles.optionTextActive]}>
+                    {option === null
+                      ? `Default (${NOTIFICATION_TIMING.FAVORITE_REMINDER} min)`
+                      : `${option} min`}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {error && <Text style={styles.error}>{error}</Text>}
+
+          <View style={styles.actions}>
+            <TouchableOpacity onPress={onClose} style={styles.action} accessibilityRole="button">
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={handleSave}
+              disabled={isSaving || !favorite}
+              style={[styles.action, styles.saveAction]}
+              accessibilityRole="button"
+              testID="favorite-details-save"
+            >
+              {isSaving ? (
+                <ActivityIndicator size="small" color="#000000" />
+              ) : (
+                <Text style={styles.saveText}>Save</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  sheet: {
+    backgroundColor: '#1a1a1a',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: SPACING.lg,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#ffffff',
+    marginBottom: SPACING.md,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#999999',
+    marginTop: SPACING.md,
+    marginBottom: SPACING.xs,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#333333',
+    borderRadius: 8,
+    padding: SPACING.sm,
+    color: '#ffffff',
+    fontSize: 14,
+  },
+  noteInput: {
+    minHeight: 72,
+    textAlignVertical: 'top',
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.xs,
+  },
+  option: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#555555',
+  },
+  optionActive: {
+    borderColor: '#FFD700',
+    backgroundColor: '#3a3320',
+  },
+  optionText: {
+    fontSize: 12,
+    color: '#999999',
+  },
+  optionTextActive: {
+    color: '#FFD700',
+    fontWeight: '600',
+  },
+  error: {
+    marginTop: SPACING.sm,
+    color: '#ff4444',
+    fontSize: 13,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: SPACING.sm,
+    marginTop: SPACING.lg,
+  },
+  action: {
+    minHeight: 44,
+    minWidth: 88,
+    paddingHorizontal: SPACING.md,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 8,
+  },
+  saveAction: {
+    backgroundColor: '#FFD700',
+  },
+  cancelText: {
+    fontSize: 15,
+    color: '#cccccc',
+  },
+  saveText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#000000',
+  },
+});
@@ -0,0 +1,33 @@
+import React, { useState } from 'react';
+import { FavoriteDetailsEditorContext } from '../hooks/useFavoriteDetailsEditor';
+import { FavoriteDetailsEditor } from './FavoriteDetailsEditor';
+
+interface FavoriteDetailsEditorHostProps {
+  children: React.ReactNode;
+}
+
+/**
+ * FavoriteDetailsEditorHost renders one FavoriteDetailsEditor for a screen
+ * FavoriteButtons below it open the editor on long-press instead of each
+ * mounting their own Modal
+ * The editor is mounted fresh for every race it opens, so unsaved edits are dropped
+ */
+export const FavoriteDetailsEditorHost: React.FC<FavoriteDetailsEditorHostProps> = ({
+  children,
+}) => {
+  const [editingRaceId, setEditingRaceId] = useState<string | null>(null);
+
+  return (
+    <FavoriteDetailsEditorContext.Provider value={setEditingRaceId}>
+      {children}
+      {editingRaceId !== null && (
+        <FavoriteDetailsEditor
+          key={editingRaceId}
+          raceId={editingRaceId}
+          visible
+          onClose={() => setEditingRaceId(null)}
+        />
+      )}
+    </FavoriteDetailsEditorContext.Provider>
+  );
+};
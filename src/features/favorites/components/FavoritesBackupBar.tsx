@@ -0,0 +1,233 @@
+import React, { useState } from 'react';
+import { Modal, View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { useFavoritesBackup } from '../hooks/useFavoritesBackup';
+import { FavoritesImportError } from '../services/FavoritesBackupSerializer';
+import type { FavoritesBackup, FavoritesImportMode } from '../types/FavoritesBackup';
+import { SPACING } from '../../../shared/constants/spacing';
+
+/**
+ * FavoritesBackupBar offers exporting favorites through the share sheet and
+ * importing a backup pasted from another device
+ *
+ * Importing checks the file first and shows what it contains, then lets the
+ * user merge it with the current favorites or replace them.
+ */
+export const FavoritesBackupBar: React.FC = () => {
+  const { exportFavorites, readBackup, importFavorites } = useFavoritesBackup();
+  const [isImporting, setIsImporting] = useState(false);
+  const [input, setInput] = useState('');
+  const [backup, setBackup] = useState<FavoritesBackup | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const closeImport = (): void => {
+    setIsImporting(false);
+    setInput('');
+    setBackup(null);
+    setError(null);
+  };
+
+  const handleExport = async (): Promise<void> => {
+    try {
+      await exportFavorites();
+    } catch (exportError) {
+      console.error('Error exporting favorites:', exportError);
+    }
+  };
+
+  const handleCheck = (): void => {
+    try {
+      setBackup(readBackup(input));
+      setError(null);
+    } catch (readError) {
+      setBackup(null);
+      setError(
+        readError instanceof FavoritesImportError ? readError.message : 'Could not read the file',
+      );
+    }
+  };
+
+  const handleImport = async (mode: FavoritesImportMode): Promise<void> => {
+    if (!backup) {
+      return;
+    }
+    try {
+      await importFavorites(backup, mode);
+      closeImport();
+    } catch (importError) {
+      console.error('Error importing favorites:', importError);
+      setError('Could not save the imported favorites');
+    }
+  };
+
+  return (
+    <View style={styles.bar} testID="favorites-backup-bar">
+      <TouchableOpacity onPress={handleExport} style={styles.chip} accessibilityRole="button">
+        <Text style={styles.chipText}>Export favorites</Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        onPress={() => setIsImporting(true)}
+        style={styles.chip}
+        accessibilityRole="button"
+        testID="favorites-import-open"
+      >
+        <Text style={styles.chipText}>Import</Text>
+      </TouchableOpacity>
+
+      <Modal visible={isImporting} transparent animationType="slide" onRequestClose={closeImport}>
+        <View style={styles.backdrop}>
+          <View style={styles.sheet}>
+            <Text style={styles.title}>Import favorites</Text>
+            <TextInput
+              style={styles.input}
+              value={input}
+              onChangeText={text => {
+                setInput(text);
+                setBackup(null);
+              }}
+              placeholder="Paste the contents of an exported favorites file"
+              placeholderTextColor="#666666"
+              autoCapitalize="none"
+              autoCorrect={false}
+              multiline
+              testID="favorites-import-input"
+            />
+
+            {error && <Text style={styles.error}>{error}</Text>}
+            {backup && (
+              <Text style={styles.summary} testID="favorites-import-summary">
+                {backup.favorites.length} favorites, {backup.series.length} series
+              </Text>
+            )}
+
+            <View style={styles.actions}>
+              <TouchableOpacity
+                onPress={closeImport}
+                style={styles.action}
+                accessibilityRole="button"
+              >
+                <Text style={styles.cancelText}>Cancel</Text>
+              </TouchableOpacity>
+              {backup ? (
+                <>
+                  <TouchableOpacity
+                    onPress={() => handleImport('replace')}
+                    style={styles.action}
+                    accessibilityRole="button"
+                    testID="favorites-import-replace"
+                  >
+                    <Text style={styles.replaceText}>Replace all</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => handleImport('merge')}
+                    style={[styles.action, styles.primaryAction]}
+                    accessibilityRole="button"
+                    testID="favorites-import-merge"
+                  >
+                    <Text style={styles.primaryText}>Merge</Text>
+                  </TouchableOpacity>
+                </>
+              ) : (
+                <TouchableOpacity
+                  onPress={handleCheck}
+                  disabled={input.trim().length === 0}
+                  style={[styles.action, styles.primaryAction]}
+                  accessibilityRole="button"
+                  testID="favorites-import-check"
+                >
+                  <Text style={styles.primaryText}>Check file</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  bar: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+  },
+  chip: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#555555',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#cccccc',
+  },
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  sheet: {
+    backgroundColor: '#1a1a1a',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: SPACING.lg,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#ffffff',
+    marginBottom: SPACING.md,
+  },
+  input: {
+    minHeight: 120,
+    maxHeight: 240,
+    borderWidth: 1,
+    borderColor: '#333333',
+    borderRadius: 8,
+    padding: SPACING.sm,
+    color: '#ffffff',
+    fontSize: 12,
+    textAlignVertical: 'top',
+  },
+  error: {
+    marginTop: SPACING.sm,
+    color: '#ff4444',
+    fontSize: 13,
+  },
+  summary: {
+    marginTop: SPACING.sm,
+    color: '#4CAF50',
+    fontSize: 13,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: SPACING.sm,
+    marginTop: SPACING.lg,
+  },
+  action: {
+    minHeight: 44,
+    paddingHorizontal: SPACING.md,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 8,
+  },
+  primaryAction: {
+    backgroundColor: '#FFD700',
+  },
+  cancelText: {
+    fontSize: 15,
+    color: '#cccccc',
+  },
+  replaceText: {
+    fontSize: 15,
+    color: '#ff4444',
+  },
+  primaryText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#000000',
+  },
+});
@@ -0,0 +1,20 @@
+import React from 'react';
+import type { FavoritesStore } from '../services/FavoritesStore';
+import { FavoritesStoreContext } from '../hooks/useFavoritesStore';
+
+interface FavoritesProviderProps {
+  /**
+   * Store shared by every favorites hook below this provider
+   */
+  store: FavoritesStore;
+
+  children: React.ReactNode;
+}
+
+/**
+ * FavoritesProvider supplies a FavoritesStore to the component tree
+ * Without a provider, hooks use the app-wide AsyncStorage-backed store
+ */
+export const FavoritesProvider: React.FC<FavoritesProviderProps> = ({ store, children }) => (
+  <FavoritesStoreContext.Provider value={store}>{children}</FavoritesStoreContext.Provider>
+);
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import type { Race } from '../../schedules/types/Race';
+import type { PendingRelink } from '../types/FavoriteRelink';
+import { usePendingRelinks } from '../hooks/usePendingRelinks';
+import { useFavoritesStore } from '../hooks/useFavoritesStore';
+import { formatRaceTitle, formatTimeRange } from '../../../shared/utils/formatters';
+import { SPACING } from '../../../shared/constants/spacing';
+
+interface PendingRelinkReviewProps {
+  /**
+   * Races in the current schedule, used to describe the candidates
+   */
+  races: Race[];
+}
+
+/**
+ * PendingRelinkReview lists favorites whose race changed ID and couldn't be
+ * matched with confidence, so the user can pick the new race or drop the
+ * favorite. Renders nothing when no favorite is waiting for review.
+ */
+export const PendingRelinkReview: React.FC<PendingRelinkReviewProps> = ({ races }) => {
+  const favoritesStore = useFavoritesStore();
+  const pendingRelinks = usePendingRelinks();
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  if (pendingRelinks.length === 0) {
+    return null;
+  }
+
+  const resolve = async (pending: PendingRelink, targetRaceId: string | null): Promise<void> => {
+    const { raceId } = pending.favorite;
+    try {
+      setResolvingId(raceId);
+      if (targetRaceId) {
+        await favoritesStore.confirmRelink(raceId, targetRaceId);
+      } else {
+        await favoritesStore.dismissRelink(raceId);
+      }
+    } catch (error) {
+      console.error('Error resolving pending relink:', error);
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <View style={styles.container} testID="pending-relink-review">
+      {pendingRelinks.map(pending => {
+        const { previousRace } = pending;
+        const isResolving = resolvingId === pending.favorite.raceId;
+        const previousTime = formatTimeRange(previousRace.startTime, previousRace.durationMinutes);
+
+        return (
+          <View key={pending.favorite.raceId} style={styles.item}>
+            <Text style={styles.title}>
+              ★ {formatRaceTitle(previousRace)} ({previousTime}) moved
+            </Text>
+            <Text style={styles.hint}>Which race is it now?</Text>
+            <View style={styles.options}>
+              {pending.candidates.flatMap(candidate => {
+                const race = races.find(r => r.id === candidate.raceId);
+                if (!race) {
+                  return [];
+                }
+                return [
+                  <TouchableOpacity
+                    key={candidate.raceId}
+                    style={styles.option}
+                    onPress={() => resolve(pending, candidate.raceId)}
+                    disabled={isResolving}
+                    accessibilityRole="button"
+                    testID={`relink-confirm-${pending.favorite.raceId}-${candidate.raceId}`}
+                  >
+                    <Text style={styles.optionText}>
+                      {formatTimeRange(race.startTime, race.durationMinutes)} ·{' '}
+                      {Math.round(candidate.confidence * 100)}%
+                    </Text>
+                  </TouchableOpacity>,
+                ];
+              })}
+              <TouchableOpacity
+                style={styles.option}
+                onPress={() => resolve(pending, null)}
+                disabled={isResolving}
+                accessibilityRole="button"
+                testID={`relink-dismiss-${pending.favorite.raceId}`}
+              >
+                <Text style={styles.dismissText}>Remove favorite</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    backgroundColor: '#3a3320',
+    borderBottomWidth: 1,
+    borderBottomColor: '#333333',
+  },
+  item: {
+    paddingVertical: SPACING.xs,
+  },
+  title: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#FFD700',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#cccccc',
+    marginTop: 2,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.xs,
+    marginTop: SPACING.xs,
+  },
+  option: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#555555',
+  },
+  optionText: {
+    fontSize: 12,
+    color: '#ffffff',
+  },
+  dismissText: {
+    fontSize: 12,
+    color: '#ff4444',
+  },
+});
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { TouchableOpacity, Text, StyleSheet } from 'react-native';
+import type { Race } from '../../schedules/types/Race';
+import { useFavoritesStore } from '../hooks/useFavoritesStore';
+import { useFavoriteSeries } from '../hooks/useFavoriteSeries';
+
+interface SeriesFavoriteButtonProps {
+  /**
+   * Race whose series is followed/unfollowed
+   */
+  race: Race;
+
+  /**
+   * Also match the race's weekday when following (default: false)
+   */
+  includeWeekday?: boolean;
+}
+
+/**
+ * SeriesFavoriteButton toggles a series favorite for the race's series
+ * (same type, tier, track and car class), so future races in the series are
+ * favorited automatically
+ */
+export const SeriesFavoriteButton: React.FC<SeriesFavoriteButtonProps> = ({
+  race,
+  includeWeekday = false,
+}) => {
+  const favoritesStore = useFavoritesStore();
+  const series = useFavoriteSeries(race);
+  const [isToggling, setIsToggling] = useState(false);
+
+  const handlePress = async (): Promise<void> => {
+    try {
+      setIsToggling(true);
+      if (series) {
+        await favoritesStore.removeSeriesFavorite(series.id);
+      } else {
+        await favoritesStore.addSeriesFavorite(race, { includeWeekday });
+      }
+    } catch (error) {
+      console.error('Error toggling favorite series:', error);
+    } finally {
+      setIsToggling(false);
+    }
+  };
+
+  return (
+    <TouchableOpacity
+      onPress={handlePress}
+      disabled={isToggling}
+      style={[styles.chip, series && styles.chipActive]}
+      accessibilityRole="button"
+      accessibilityLabel={series ? 'Stop following this series' : 'Follow this series'}
+      accessibilityState={{ selected: series !== undefined, busy: isToggling }}
+      testID={`series-favorite-button-${race.id}`}
+    >
+      <Text style={[styles.label, series && styles.labelActive]}>
+        {series ? '↻ Following' : '↻ Follow'}
+      </Text>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  chip: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#555555',
+  },
+  chipActive: {
+    borderColor: '#FFD700',
+    backgroundColor: '#3a3320',
+  },
+  label: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#999999',
+  },
+  labelActive: {
+    color: '#FFD700',
+  },
+});
@@ -0,0 +1,23 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import type { Favorite } from '../types/Favorite';
+import type { FavoritesStore } from '../services/FavoritesStore';
+import { useFavoritesStore } from './useFavoritesStore';
+
+/**
+ * Hook that tracks the favorite record of a single race
+ * Re-renders only when that record changes
+ *
+ * @param raceId - ID of the race to watch
+ * @param store - Optional store that overrides the one from context
+ * @returns Favorite, or undefined if the race is not favorited by ID
+ */
+export function useFavorite(raceId: string, store?: FavoritesStore): Favorite | undefined {
+  const favoritesStore = useFavoritesStore(store);
+
+  const getSnapshot = useCallback(
+    () => favoritesStore.getFavorite(raceId),
+    [favoritesStore, raceId],
+  );
+
+  return useSyncExternalStore(favoritesStore.subscribe, getSnapshot);
+}
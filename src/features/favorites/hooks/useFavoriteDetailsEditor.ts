@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+
+/**
+ * Opens the favorite details editor for a race
+ */
+export type OpenFavoriteDetails = (raceId: string) => void;
+
+/**
+ * Context holding the opener of the screen's FavoriteDetailsEditorHost
+ * Null when no host is mounted, so there is no editor to open
+ */
+export const FavoriteDetailsEditorContext = createContext<OpenFavoriteDetails | null>(null);
+
+/**
+ * Gets the opener of the nearest FavoriteDetailsEditorHost
+ *
+ * @returns Function that opens the editor for a race, or null without a host
+ */
+export function useFavoriteDetailsEditor(): OpenFavoriteDetails | null {
+  return useContext(FavoriteDetailsEditorContext);
+}
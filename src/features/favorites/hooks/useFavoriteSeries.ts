@@ -0,0 +1,27 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import type { Race } from '../../schedules/types/Race';
+import type { FavoritesStore } from '../services/FavoritesStore';
+import type { SeriesFavorite } from '../types/SeriesFavorite';
+import { useFavoritesStore } from './useFavoritesStore';
+
+/**
+ * Hook that tracks the series favorite a race belongs to
+ * Re-renders only when the matching series changes
+ *
+ * @param race - Race to watch (undefined always returns undefined)
+ * @param store - Optional store that overrides the one from context
+ * @returns Matching series favorite, or undefined if none match
+ */
+export function useFavoriteSeries(
+  race: Race | undefined,
+  store?: FavoritesStore,
+): SeriesFavorite | undefined {
+  const favoritesStore = useFavoritesStore(store);
+
+  const getSnapshot = useCallback(
+    () => (race ? favoritesStore.getMatchingSeries(race) : undefined),
+    [favoritesStore, race],
+  );
+
+  return useSyncExternalStore(favoritesStore.subscribe, getSnapshot);
+}
@@ -1,10 +1,10 @@
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useCallback, useSyncExternalStore } from 'react';
+import type { Race } from '../../schedules/types/Race';
 import type { Favorite } from '../types/Favorite';
-import type { FavoritesRepository } from '../services/FavoritesRepository';
-import { AsyncStorageFavoritesRepository } from '../services/AsyncStorageFavoritesRepository';
-
-// Create singleton repository instance to avoid re-creating on every render
-const defaultRepository = new AsyncStorageFavoritesRepository();
+import type { SeriesFavorite } from '../types/SeriesFavorite';
+import type { FavoritesStore } from '../services/FavoritesStore';
+import { findMatchingSeries } from '../utils/seriesMatching';
+import { useFavoritesStore } from './useFavoritesStore';
 
 interface UseFavoritesResult {
   /**
@@ -12,6 +12,11 @@ interface UseFavoritesResult {
    */
   favorites: Favorite[];
 
+  /**
+   * Array of all favorited race series
+   */
+  series: SeriesFavorite[];
+
   /**
    * Whether the favorites are currently loading
    */
@@ -24,6 +29,13 @@ interface UseFavoritesResult {
    */
   isFavorite: (raceId: string) => boolean;
 
+  /**
+   * Checks if a race is favorited by ID or through a series favorite
+   * @param race - Race to check
+   * @returns True if the race is favorited
+   */
+  isRaceFavorited: (race: Race) => boolean;
+
   /**
    * Toggles the favorite status of a race
    * @param raceId - ID of the race to toggle
@@ -52,51 +64,37 @@ interface UseFavoritesResult {
 
 /**
  * Hook for managing favorite races
- * Handles favorite state and persistence to repository
+ * Reads from the shared FavoritesStore, so every consumer sees the same
+ * favorites and updates when any of them changes
+ *
+ * Components that only need one race's status should use useIsFavorite,
+ * which re-renders less often.
  *
- * @param repository - Optional custom repository (defaults to AsyncStorageFavoritesRepository)
+ * @param store - Optional store that overrides the one from context
  * @returns Object with favorites state and management functions
  */
-export function useFavorites(
-  repository?: FavoritesRepository
-): UseFavoritesResult {
-  // Use provided repository or default singleton
-  const repo = repository || defaultRepository;
-
-  const [favorites, setFavorites] = useState<Favorite[]>([]);
-  const [isLoading, setIsLoading] = useState<boolean>(true);
-
-  /**
-   * Loads favorites from the repository
-   */
-  const loadFavorites = useCallback(async () => {
-    try {
-      setIsLoading(true);
-      const loadedFavorites = await repo.getFavorites();
-      setFavorites(loadedFavorites);
-    } catch (error) {
-      console.error('Error loading favorites:', error);
-      setFavorites([]);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [repo]);
+export function useFavorites(store?: FavoritesStore): UseFavoritesResult {
+  const favoritesStore = useFavoritesStore(store);
+  const { favorites, favoriteIds, series, isLoading } = useSyncExternalStore(
+    favoritesStore.subscribe,
+    favoritesStore.getState,
+  );
 
   /**
-   * Initial load of favorites
+   * Checks if a race is favorited
    */
-  useEffect(() => {
-    loadFavorites();
-  }, [loadFavorites]);
+  const isFavorite = useCallback(
+    (raceId: string): boolean => favoriteIds.has(raceId),
+    [favoriteIds],
+  );
 
   /**
-   * Checks if a race is favorited
+   * Checks if a race is favorited by ID or through a series favorite
    */
-  const isFavorite = useCallback(
-    (raceId: string): boolean => {
-      return favorites.some((f) => f.raceId === raceId);
-    },
-    [favorites]
+  const isRaceFavorited = useCallback(
+    (race: Race): boolean =>
+      favoriteIds.has(race.id) || findMatchingSeries(race, series) !== undefined,
+    [favoriteIds, series],
   );
 
   /**
@@ -105,28 +103,13 @@ export function useFavorites(
   const addFavorite = useCallback(
     async (raceId: string, notificationEnabled: boolean = false): Promise<void> => {
       try {
-        const favorite: Favorite = {
-          raceId,
-          favoritedAt: new Date(),
-          notificationEnabled,
-        };
-
-        await repo.addFavorite(favorite);
-
-        // Update local state
-        setFavorites((prev) => {
-          // Don't add if already exists
-          if (prev.some((f) => f.raceId === raceId)) {
-            return prev;
-          }
-          return [...prev, favorite];
-        });
+        await favoritesStore.addFavorite(raceId, notificationEnabled);
       } catch (error) {
         console.error('Error adding favorite:', error);
         throw error;
       }
     },
-    [repo]
+    [favoritesStore],
   );
 
   /**
@@ -135,16 +118,13 @@ export function useFavorites(
   const removeFavorite = useCallback(
     async (raceId: string): Promise<void> => {
       try {
-        await repo.removeFavorite(raceId);
-
-        // Update local state
-        setFavorites((prev) => prev.filter((f) => f.raceId !== raceId));
+        await favoritesStore.removeFavorite(raceId);
       } catch (error) {
         console.error('Error removing favorite:', error);
         throw error;
       }
     },
-    [repo]
+    [favoritesStore],
   );
 
   /**
@@ -152,26 +132,27 @@ export function useFavorites(
    */
   const toggleFavorite = useCallback(
     async (raceId: string, notificationEnabled: boolean = false): Promise<void> => {
-      if (isFavorite(raceId)) {
-        await removeFavorite(raceId);
-      } else {
-        await addFavorite(raceId, notificationEnabled);
+      try {
+        await favoritesStore.toggleFavorite(raceId, notificationEnabled);
+      } catch (error) {
+        console.error('Error toggling favorite:', error);
+        throw error;
       }
     },
-    [isFavorite, addFavorite, removeFavorite]
+    [favoritesStore],
   );
 
   /**
    * Refreshes the favorites list from storage
    */
-  const refresh = useCallback(async (): Promise<void> => {
-    await loadFavorites();
-  }, [loadFavorites]);
+  const refresh = useCallback(() => favoritesStore.refresh(), [favoritesStore]);
 
   return {
     favorites,
+    series,
     isLoading,
     isFavorite,
+    isRaceFavorited,
     toggleFavorite,
     addFavorite,
     removeFavorite,
@@ -0,0 +1,53 @@
+import { useCallback } from 'react';
+import { Share } from 'react-native';
+import type { FavoritesStore } from '../services/FavoritesStore';
+import { FavoritesBackupSerializer } from '../services/FavoritesBackupSerializer';
+import type { FavoritesBackup, FavoritesImportMode } from '../types/FavoritesBackup';
+import { useFavoritesStore } from './useFavoritesStore';
+
+const serializer = new FavoritesBackupSerializer();
+
+interface UseFavoritesBackupResult {
+  /**
+   * Opens the share sheet with a backup of the current favorites
+   */
+  exportFavorites: () => Promise<void>;
+
+  /**
+   * Reads a backup file's contents
+   * @throws FavoritesImportError if the file can't be imported
+   */
+  readBackup: (data: string) => FavoritesBackup;
+
+  /**
+   * Imports a backup read with readBackup
+   */
+  importFavorites: (backup: FavoritesBackup, mode: FavoritesImportMode) => Promise<void>;
+}
+
+/**
+ * Hook for exporting favorites and importing them on another device
+ *
+ * @param store - Optional store that overrides the one from context
+ * @returns Export and import functions
+ */
+export function useFavoritesBackup(store?: FavoritesStore): UseFavoritesBackupResult {
+  const favoritesStore = useFavoritesStore(store);
+
+  const exportFavorites = useCallback(async (): Promise<void> => {
+    await Share.share({
+      title: 'RaceSync favorites',
+      message: serializer.serialize(favoritesStore.getBackup()),
+    });
+  }, [favoritesStore]);
+
+  const readBackup = useCallback((data: string) => serializer.parse(data), []);
+
+  const importFavorites = useCallback(
+    (backup: FavoritesBackup, mode: FavoritesImportMode) =>
+      favoritesStore.importFavorites(backup, mode),
+    [favoritesStore],
+  );
+
+  return { exportFavorites, readBackup, importFavorites };
+}
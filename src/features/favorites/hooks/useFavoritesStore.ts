@@ -0,0 +1,29 @@
+import { createContext, useContext, useEffect } from 'react';
+import { FavoritesStore } from '../services/FavoritesStore';
+import { AsyncStorageFavoritesRepository } from '../services/AsyncStorageFavoritesRepository';
+
+// App-wide store used when no FavoritesProvider supplies one
+const defaultFavoritesStore = new FavoritesStore(new AsyncStorageFavoritesRepository());
+
+/**
+ * Context holding the FavoritesStore shared by all favorites hooks
+ */
+export const FavoritesStoreContext = createContext<FavoritesStore>(defaultFavoritesStore);
+
+/**
+ * Gets the shared FavoritesStore and makes sure it has been loaded
+ *
+ * @param store - Optional store that overrides the one from context
+ * @returns The FavoritesStore
+ */
+export function useFavoritesStore(store?: FavoritesStore): FavoritesStore {
+  const contextStore = useContext(FavoritesStoreContext);
+  const resolvedStore = store ?? contextStore;
+
+  // load() only reads storage the first time, however many hooks call it
+  useEffect(() => {
+    resolvedStore.load();
+  }, [resolvedStore]);
+
+  return resolvedStore;
+}
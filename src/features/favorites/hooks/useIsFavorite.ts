@@ -0,0 +1,22 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import type { FavoritesStore } from '../services/FavoritesStore';
+import { useFavoritesStore } from './useFavoritesStore';
+
+/**
+ * Hook that tracks whether a single race is favorited
+ * Re-renders only when that race's favorite status changes
+ *
+ * @param raceId - ID of the race to watch
+ * @param store - Optional store that overrides the one from context
+ * @returns True if the race is favorited
+ */
+export function useIsFavorite(raceId: string, store?: FavoritesStore): boolean {
+  const favoritesStore = useFavoritesStore(store);
+
+  const getSnapshot = useCallback(
+    () => favoritesStore.isFavorite(raceId),
+    [favoritesStore, raceId],
+  );
+
+  return useSyncExternalStore(favoritesStore.subscribe, getSnapshot);
+}
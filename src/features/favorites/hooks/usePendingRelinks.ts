@@ -0,0 +1,19 @@
+import { useSyncExternalStore } from 'react';
+import type { FavoritesStore } from '../services/FavoritesStore';
+import type { PendingRelink } from '../types/FavoriteRelink';
+import { useFavoritesStore } from './useFavoritesStore';
+
+/**
+ * Hook that tracks favorites waiting for the user to confirm their new race
+ *
+ * @param store - Optional store that overrides the one from context
+ * @returns Pending relinks, oldest first
+ */
+export function usePendingRelinks(store?: FavoritesStore): PendingRelink[] {
+  const favoritesStore = useFavoritesStore(store);
+
+  return useSyncExternalStore(
+    favoritesStore.subscribe,
+    () => favoritesStore.getState().pendingRelinks,
+  );
+}
@@ -1,32 +1,84 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { STORAGE_KEYS } from '../../../shared/constants/storageKeys';
-import type { Favorite } from '../types/Favorite';
+import type { KeyValueStore } from '../../../shared/storage/KeyValueStore';
+import { defaultKeyValueStore } from '../../../shared/storage/defaultKeyValueStore';
+import { readValue, writeValue, ValueCodec } from '../../../shared/storage/jsonCodec';
+import type { Favorite, FavoriteDetails } from '../types/Favorite';
+import type { SeriesFavorite } from '../types/SeriesFavorite';
+import type { PendingRelink, RelinkedFavorite } from '../types/FavoriteRelink';
+import type { FavoritesBackup, FavoritesImportMode } from '../types/FavoritesBackup';
+import { applyFavoriteDetails } from '../utils/favoriteDetails';
 import type { FavoritesRepository } from './FavoritesRepository';
 
+/**
+ * Favorites are stored as JSON; favoritedAt is revived as a Date. Notes,
+ * tags and reminder lead times are stored only when set, and stay strings
+ * even when they look like dates.
+ */
+const favoritesCodec: ValueCodec<Favorite[]> = {
+  encode: value => JSON.stringify(value),
+  decode: data =>
+    (JSON.parse(data) as Favorite[]).map(favorite => ({
+      ...favorite,
+      favoritedAt: new Date(favorite.favoritedAt),
+    })),
+};
+
+const seriesCodec: ValueCodec<SeriesFavorite[]> = {
+  encode: value => JSON.stringify(value),
+  decode: data =>
+    (JSON.parse(data) as SeriesFavorite[]).map(series => ({
+      ...series,
+      favoritedAt: new Date(series.favoritedAt),
+    })),
+};
+
+/**
+ * Pending relinks hold races, whose start times must stay ISO strings, so
+ * only their own dates are revived
+ */
+const pendingRelinksCodec: ValueCodec<PendingRelink[]> = {
+  encode: value => JSON.stringify(value),
+  decode: data =>
+    (JSON.parse(data) as PendingRelink[]).map(pending => ({
+      ...pending,
+      favorite: { ...pending.favorite, favoritedAt: new Date(pending.favorite.favoritedAt) },
+      detectedAt: new Date(pending.detectedAt),
+    })),
+};
+
+/**
+ * Favorites and pending relinks, changed together when favorites move
+ */
+interface RelinkState {
+  favorites: Favorite[];
+  pending: PendingRelink[];
+}
+
 /**
  * AsyncStorage implementation of FavoritesRepository
  * Persists favorites to device storage using AsyncStorage
+ *
+ * Every write is a read-modify-write of the whole list, so writes are queued
+ * and run one at a time. Concurrent toggles and schedule merges can't
+ * overwrite each other's changes.
  */
 export class AsyncStorageFavoritesRepository implements FavoritesRepository {
+  private writes: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param store - Key-value store to persist to (default: AsyncStorage)
+   */
+  constructor(private readonly store: KeyValueStore = defaultKeyValueStore) {}
+
   /**
    * Gets all favorited races from AsyncStorage
    * @returns Array of favorites
    */
   async getFavorites(): Promise<Favorite[]> {
     try {
-      const favoritesJson = await AsyncStorage.getItem(STORAGE_KEYS.FAVORITES);
-
-      if (!favoritesJson) {
-        return [];
-      }
+      const favorites = await readValue(this.store, STORAGE_KEYS.FAVORITES, favoritesCodec);
 
-      const favorites = JSON.parse(favoritesJson) as Favorite[];
-
-      // Convert date strings back to Date objects
-      return favorites.map((favorite) => ({
-        ...favorite,
-        favoritedAt: new Date(favorite.favoritedAt),
-      }));
+      return favorites ?? [];
     } catch (error) {
       console.error('Error reading favorites from storage:', error);
       return [];
@@ -40,25 +92,9 @@ export class AsyncStorageFavoritesRepository implements FavoritesRepository {
    */
   async addFavorite(favorite: Favorite): Promise<void> {
     try {
-      const favorites = await this.getFavorites();
-
-      // Check if already favorited
-      const exists = favorites.some((f) => f.raceId === favorite.raceId);
-      if (exists) {
+      await this.update(favorites =>
         // Don't add duplicate
-        await AsyncStorage.setItem(
-          STORAGE_KEYS.FAVORITES,
-          JSON.stringify(favorites)
-        );
-        return;
-      }
-
-      // Add new favorite
-      favorites.push(favorite);
-
-      await AsyncStorage.setItem(
-        STORAGE_KEYS.FAVORITES,
-        JSON.stringify(favorites)
+        favorites.some(f => f.raceId === favorite.raceId) ? favorites : [...favorites, favorite],
       );
     } catch (error) {
       console.error('Error adding favorite to storage:', error);
@@ -72,16 +108,221 @@ export class AsyncStorageFavoritesRepository implements FavoritesRepository {
    */
   async removeFavorite(raceId: string): Promise<void> {
     try {
-      const favorites = await this.getFavorites();
+      await this.update(favorites => favorites.filter(f => f.raceId !== raceId));
+    } catch (error) {
+      console.error('Error removing favorite from storage:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Updates the details of a favorite
+   * Does nothing if the race is not favorited
+   * @param raceId - ID of the favorited race
+   * @param details - Changed details
+   * @throws Error if the reminder lead time is invalid
+   */
+  async updateFavorite(raceId: string, details: FavoriteDetails): Promise<void> {
+    try {
+      await this.update(favorites =>
+        favorites.map(f => (f.raceId === raceId ? applyFavoriteDetails(f, details) : f)),
+      );
+    } catch (error) {
+      console.error('Error updating favorite in storage:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Removes several races from favorites in one write
+   * @param raceIds - IDs of the races to unfavorite
+   */
+  async removeFavorites(raceIds: string[]): Promise<void> {
+    const removed = new Set(raceIds);
+
+    try {
+      await this.update(favorites => favorites.filter(f => !removed.has(f.raceId)));
+    } catch (error) {
+      console.error('Error removing favorites from storage:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces the whole favorites list
+   * Later entries with the same raceId are dropped
+   * @param favorites - The new list of favorites
+   */
+  async replaceAll(favorites: Favorite[]): Promise<void> {
+    const seen = new Set<string>();
+    const unique = favorites.filter(favorite => {
+      if (seen.has(favorite.raceId)) {
+        return false;
+      }
+      seen.add(favorite.raceId);
+      return true;
+    });
+
+    try {
+      await this.update(() => unique);
+    } catch (error) {
+      console.error('Error replacing favorites in storage:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets all favorited race series from AsyncStorage
+   * @returns Array of series favorites
+   */
+  async getSeriesFavorites(): Promise<SeriesFavorite[]> {
+    try {
+      const series = await readValue(this.store, STORAGE_KEYS.FAVORITE_SERIES, seriesCodec);
+
+      return series ?? [];
+    } catch (error) {
+      console.error('Error reading favorite series from storage:', error);
+      return [];
+    }
+  }
 
-      const filteredFavorites = favorites.filter((f) => f.raceId !== raceId);
+  /**
+   * Adds a race series to favorites
+   * Does not add duplicate series (same id)
+   * @param series - The series favorite to add
+   */
+  async addSeriesFavorite(series: SeriesFavorite): Promise<void> {
+    try {
+      await this.updateSeries(favorites =>
+        favorites.some(s => s.id === series.id) ? favorites : [...favorites, series],
+      );
+    } catch (error) {
+      console.error('Error adding favorite series to storage:', error);
+      throw error;
+    }
+  }
 
-      await AsyncStorage.setItem(
-        STORAGE_KEYS.FAVORITES,
-        JSON.stringify(filteredFavorites)
+  /**
+   * Removes a race series from favorites
+   * @param seriesId - ID of the series to unfavorite
+   */
+  async removeSeriesFavorite(seriesId: string): Promise<void> {
+    try {
+      await this.updateSeries(favorites => favorites.filter(s => s.id !== seriesId));
+    } catch (error) {
+      console.error('Error removing favorite series from storage:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the favorites waiting for review from AsyncStorage
+   * @returns Array of pending relinks
+   */
+  async getPendingRelinks(): Promise<PendingRelink[]> {
+    try {
+      const pending = await readValue(
+        this.store,
+        STORAGE_KEYS.PENDING_RELINKS,
+        pendingRelinksCodec,
       );
+
+      return pending ?? [];
     } catch (error) {
-      console.error('Error removing favorite from storage:', error);
+      console.error('Error reading pending relinks from storage:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Applies the result of a re-linking pass
+   * Favorites the user removed or resolved while the pass ran stay that way
+   * @param relinked - Favorites moved to a new race
+   * @param pending - Every favorite now waiting for review
+   */
+  async applyRelinks(relinked: RelinkedFavorite[], pending: PendingRelink[]): Promise<void> {
+    const moved = new Set(relinked.map(r => r.fromRaceId));
+    const waiting = new Set(pending.map(p => p.favorite.raceId));
+
+    try {
+      await this.updateRelinks(state => {
+        const stillOrphaned = new Set(
+          [...state.favorites, ...state.pending.map(p => p.favorite)].map(f => f.raceId),
+        );
+        const kept = state.favorites.filter(f => !moved.has(f.raceId) && !waiting.has(f.raceId));
+        const added = relinked
+          .filter(r => stillOrphaned.has(r.fromRaceId))
+          .map(r => r.favorite)
+          .filter(favorite => !kept.some(f => f.raceId === favorite.raceId));
+
+        return {
+          favorites: [...kept, ...added],
+          pending: pending.filter(p => stillOrphaned.has(p.favorite.raceId)),
+        };
+      });
+    } catch (error) {
+      console.error('Error applying favorite relinks to storage:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Confirms or dismisses a pending relink
+   * Does nothing if no favorite is pending under raceId
+   * @param raceId - Race ID the favorite was stored under
+   * @param targetRaceId - Race to move the favorite to, or null to drop it
+   */
+  async resolvePendingRelink(raceId: string, targetRaceId: string | null): Promise<void> {
+    try {
+      await this.updateRelinks(({ favorites, pending }) => {
+        const entry = pending.find(p => p.favorite.raceId === raceId);
+        const rest = pending.filter(p => p !== entry);
+
+        if (!entry || targetRaceId === null || favorites.some(f => f.raceId === targetRaceId)) {
+          return { favorites, pending: rest };
+        }
+        return {
+          favorites: [...favorites, { ...entry.favorite, raceId: targetRaceId }],
+          pending: rest,
+        };
+      });
+    } catch (error) {
+      console.error('Error resolving pending relink in storage:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Imports favorites and series favorites from a backup
+   * When merging, favorites and series already on the device are kept as
+   * they are and only new ones are added
+   * @param backup - Favorites read from a backup file
+   * @param mode - Merge with or replace the current favorites
+   */
+  async importFavorites(backup: FavoritesBackup, mode: FavoritesImportMode): Promise<void> {
+    try {
+      await this.enqueue(async () => {
+        let { favorites, series } = backup;
+        if (mode === 'merge') {
+          const [current, currentSeries] = await Promise.all([
+            this.getFavorites(),
+            this.getSeriesFavorites(),
+          ]);
+          favorites = [
+            ...current,
+            ...favorites.filter(f => !current.some(c => c.raceId === f.raceId)),
+          ];
+          series = [
+            ...currentSeries,
+            ...series.filter(s => !currentSeries.some(c => c.id === s.id)),
+          ];
+        }
+
+        await writeValue(this.store, STORAGE_KEYS.FAVORITES, favorites, favoritesCodec);
+        await writeValue(this.store, STORAGE_KEYS.FAVORITE_SERIES, series, seriesCodec);
+      });
+    } catch (error) {
+      console.error('Error importing favorites to storage:', error);
       throw error;
     }
   }
@@ -94,10 +335,60 @@ export class AsyncStorageFavoritesRepository implements FavoritesRepository {
   async isFavorite(raceId: string): Promise<boolean> {
     try {
       const favorites = await this.getFavorites();
-      return favorites.some((f) => f.raceId === raceId);
+      return favorites.some(f => f.raceId === raceId);
     } catch (error) {
       console.error('Error checking favorite status:', error);
       return false;
     }
   }
+
+  /**
+   * Reads, changes and writes the favorites list, one update at a time
+   * @private
+   */
+  private update(change: (favorites: Favorite[]) => Favorite[]): Promise<void> {
+    return this.enqueue(async () => {
+      const favorites = await this.getFavorites();
+      await writeValue(this.store, STORAGE_KEYS.FAVORITES, change(favorites), favoritesCodec);
+    });
+  }
+
+  /**
+   * Reads, changes and writes the series favorites list in the same queue
+   * @private
+   */
+  private updateSeries(change: (series: SeriesFavorite[]) => SeriesFavorite[]): Promise<void> {
+    return this.enqueue(async () => {
+      const series = await this.getSeriesFavorites();
+      await writeValue(this.store, STORAGE_KEYS.FAVORITE_SERIES, change(series), seriesCodec);
+    });
+  }
+
+  /**
+   * Reads, changes and writes favorites and pending relinks in the same queue
+   * @private
+   */
+  private updateRelinks(change: (state: RelinkState) => RelinkState): Promise<void> {
+    return this.enqueue(async () => {
+      const [favorites, pending] = await Promise.all([
+        this.getFavorites(),
+        this.getPendingRelinks(),
+      ]);
+      const next = change({ favorites, pending });
+      await writeValue(this.store, STORAGE_KEYS.FAVORITES, next.favorites, favoritesCodec);
+      await writeValue(this.store, STORAGE_KEYS.PENDING_RELINKS, next.pending, pendingRelinksCodec);
+    });
+  }
+
+  /**
+   * Runs a write after every write queued before it
+   *
+   * A failed write doesn't block the ones queued after it.
+   * @private
+   */
+  private enqueue(run: () => Promise<void>): Promise<void> {
+    const result = this.writes.then(run, run);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
 }
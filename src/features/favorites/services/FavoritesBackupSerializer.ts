@@ -0,0 +1,301 @@
+/**
+ * FavoritesBackupSerializer Service
+ *
+ * Writes favorites to a portable, versioned JSON document and reads them
+ * back. There are no accounts, so this file is the only way to move
+ * favorites between devices or keep a backup.
+ *
+ * Reading is strict: a file with any invalid entry is rejected as a whole,
+ * with the path of the first problem, rather than imported partially.
+ */
+
+import {
+  CAR_CLASSES,
+  RACE_TIERS,
+  RACE_TYPES,
+  CarClass,
+  RaceTier,
+  RaceType,
+} from '../../schedules/types/Race';
+import { isValidISOString } from '../../../shared/utils/dateUtils';
+import type { Favorite } from '../types/Favorite';
+import type { SeriesFavorite, SeriesRule } from '../types/SeriesFavorite';
+import {
+  FAVORITES_BACKUP_FORMAT,
+  FAVORITES_BACKUP_VERSION,
+  FavoritesBackup,
+  FavoritesBackupDocument,
+} from '../types/FavoritesBackup';
+import { getSeriesId } from '../utils/seriesMatching';
+import { applyFavoriteDetails, isValidReminderLead } from '../utils/favoriteDetails';
+
+/**
+ * Error for files that can't be imported
+ */
+export class FavoritesImportError extends Error {
+  constructor(message: string, public path?: string) {
+    super(message);
+    this.name = 'FavoritesImportError';
+  }
+}
+
+/**
+ * Error for files written by a newer version of the app
+ */
+export class UnsupportedBackupVersionError extends FavoritesImportError {
+  constructor(public version: number) {
+    super(
+      `This file uses favorites format version ${version}, but this app only reads up to ` +
+        `version ${FAVORITES_BACKUP_VERSION}. Update the app to import it.`,
+      'version',
+    );
+    this.name = 'UnsupportedBackupVersionError';
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (values as readonly string[]).includes(value);
+
+/**
+ * Service for exporting and importing favorites backups
+ */
+export class FavoritesBackupSerializer {
+  /**
+   * Writes favorites to a backup document
+   *
+   * @param backup - Favorites and series favorites to export
+   * @param exportedAt - Export time (default: now)
+   * @returns JSON document
+   *
+   * @example
+   * ```typescript
+   * const serializer = new FavoritesBackupSerializer();
+   * const json = serializer.serialize({ favorites, series });
+   * await Share.share({ title: 'RaceSync favorites', message: json });
+   * ```
+   */
+  serialize(backup: FavoritesBackup, exportedAt: Date = new Date()): string {
+    const document: FavoritesBackupDocument = {
+      format: FAVORITES_BACKUP_FORMAT,
+      version: FAVORITES_BACKUP_VERSION,
+      exportedAt: exportedAt.toISOString(),
+      favorites: backup.favorites,
+    };
+    if (backup.series.length > 0) {
+      document.series = backup.series;
+    }
+    return JSON.stringify(document, null, 2);
+  }
+
+  /**
+   * Reads favorites from a backup document
+   *
+   * Notes and tags are normalized the same way as when edited in the app,
+   * and series IDs are recomputed from their rules.
+   *
+   * @param data - Contents of an exported file
+   * @returns Favorites and series favorites in the file
+   * @throws UnsupportedBackupVersionError if the file is from a newer app version
+   * @throws FavoritesImportError if the file is not a valid favorites backup
+   */
+  parse(data: string): FavoritesBackup {
+    let document: unknown;
+    try {
+      document = JSON.parse(data);
+    } catch (error) {
+      throw new FavoritesImportError(`File is not valid JSON: ${(error as Error).message}`);
+    }
+
+    if (!isObject(document) || document.format !== FAVORITES_BACKUP_FORMAT) {
+      throw new FavoritesImportError('File is not a RaceSync favorites backup', 'format');
+    }
+
+    const { version } = document;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+      throw new FavoritesImportError('Backup version must be a positive integer', 'version');
+    }
+    if (version > FAVORITES_BACKUP_VERSION) {
+      throw new UnsupportedBackupVersionError(version);
+    }
+
+    if (!Array.isArray(document.favorites)) {
+      throw new FavoritesImportError('favorites must be an array', 'favorites');
+    }
+    if (document.series !== undefined && !Array.isArray(document.series)) {
+      throw new FavoritesImportError('series must be an array', 'series');
+    }
+
+    return {
+      favorites: this.unique(
+        document.favorites.map((item, index) => this.parseFavorite(item, `favorites[${index}]`)),
+        favorite => favorite.raceId,
+      ),
+      series: this.unique(
+        (document.series ?? []).map((item, index) => this.parseSeries(item, `series[${index}]`)),
+        series => series.id,
+      ),
+    };
+  }
+
+  /**
+   * Validates one exported favorite
+   * @private
+   */
+  private parseFavorite(value: unknown, path: string): Favorite {
+    if (!isObject(value)) {
+      throw new FavoritesImportError(`${path} must be an object`, path);
+    }
+    if (typeof value.raceId !== 'string' || value.raceId.length === 0) {
+      throw new FavoritesImportError(`${path}.raceId must be a non-empty string`, `${path}.raceId`);
+    }
+    if (typeof value.notificationEnabled !== 'boolean') {
+      throw new FavoritesImportError(
+        `${path}.notificationEnabled must be a boolean`,
+        `${path}.notificationEnabled`,
+      );
+    }
+    if (value.note !== undefined && typeof value.note !== 'string') {
+      throw new FavoritesImportError(`${path}.note must be a string`, `${path}.note`);
+    }
+    if (
+      value.tags !== undefined &&
+      !(Array.isArray(value.tags) && value.tags.every(tag => typeof tag === 'string'))
+    ) {
+      throw new FavoritesImportError(`${path}.tags must be an array of strings`, `${path}.tags`);
+    }
+    if (
+      value.reminderLeadMinutes !== undefined &&
+      !isValidReminderLead(value.reminderLeadMinutes)
+    ) {
+      throw new FavoritesImportError(
+        `${path}.reminderLeadMinutes must be a whole number of minutes`,
+        `${path}.reminderLeadMinutes`,
+      );
+    }
+
+    return applyFavoriteDetails(
+      {
+        raceId: value.raceId,
+        favoritedAt: this.parseDate(value.favoritedAt, `${path}.favoritedAt`),
+        notificationEnabled: value.notificationEnabled,
+      },
+      {
+        note: value.note,
+        tags: value.tags as string[] | undefined,
+        reminderLeadMinutes: value.reminderLeadMinutes as number | undefined,
+      },
+    );
+  }
+
+  /**
+   * Validates one exported series favorite
+   * @private
+   */
+  private parseSeries(value: unknown, path: string): SeriesFavorite {
+    if (!isObject(value)) {
+      throw new FavoritesImportError(`${path} must be an object`, path);
+    }
+    if (typeof value.notificationEnabled !== 'boolean') {
+      throw new FavoritesImportError(
+        `${path}.notificationEnabled must be a boolean`,
+        `${path}.notificationEnabled`,
+      );
+    }
+
+    const rule = this.parseSeriesRule(value.rule, `${path}.rule`);
+    return {
+      id: getSeriesId(rule),
+      rule,
+      favoritedAt: this.parseDate(value.favoritedAt, `${path}.favoritedAt`),
+      notificationEnabled: value.notificationEnabled,
+    };
+  }
+
+  /**
+   * Validates an exported series rule
+   * @private
+   */
+  private parseSeriesRule(value: unknown, path: string): SeriesRule {
+    if (!isObject(value)) {
+      throw new FavoritesImportError(`${path} must be an object`, path);
+    }
+    if (!isOneOf<RaceType>(RACE_TYPES, value.type)) {
+      throw new FavoritesImportError(
+        `${path}.type must be one of: ${RACE_TYPES.join(', ')}`,
+        `${path}.type`,
+      );
+    }
+    if (value.tier !== null && !isOneOf<RaceTier>(RACE_TIERS, value.tier)) {
+      throw new FavoritesImportError(
+        `${path}.tier must be null or one of: ${RACE_TIERS.join(', ')}`,
+        `${path}.tier`,
+      );
+    }
+    if (typeof value.trackName !== 'string' || value.trackName.length === 0) {
+      throw new FavoritesImportError(
+        `${path}.trackName must be a non-empty string`,
+        `${path}.trackName`,
+      );
+    }
+    if (!isOneOf<CarClass>(CAR_CLASSES, value.carClass)) {
+      throw new FavoritesImportError(
+        `${path}.carClass must be one of: ${CAR_CLASSES.join(', ')}`,
+        `${path}.carClass`,
+      );
+    }
+
+    const rule: SeriesRule = {
+      type: value.type,
+      tier: value.tier,
+      trackName: value.trackName,
+      carClass: value.carClass,
+      weekday: null,
+    };
+
+    const { weekday, timeZone } = value;
+    if (weekday === null) {
+      return rule;
+    }
+    if (typeof weekday !== 'number' || !Number.isInteger(weekday) || weekday < 0 || weekday > 6) {
+      throw new FavoritesImportError(`${path}.weekday must be null or 0-6`, `${path}.weekday`);
+    }
+    if (typeof timeZone !== 'string' || timeZone.length === 0) {
+      throw new FavoritesImportError(
+        `${path}.timeZone is required when weekday is set`,
+        `${path}.timeZone`,
+      );
+    }
+    return { ...rule, weekday, timeZone };
+  }
+
+  /**
+   * Parses an exported ISO 8601 date
+   * @private
+   */
+  private parseDate(value: unknown, path: string): Date {
+    if (typeof value !== 'string' || !isValidISOString(value)) {
+      throw new FavoritesImportError(`${path} must be an ISO 8601 date-time`, path);
+    }
+    return new Date(value);
+  }
+
+  /**
+   * Keeps the first item for each key
+   * @private
+   */
+  private unique<T>(items: T[], key: (item: T) => string): T[] {
+    const seen = new Set<string>();
+    return items.filter(item => {
+      if (seen.has(key(item))) {
+        return false;
+      }
+      seen.add(key(item));
+      return true;
+    });
+  }
+}
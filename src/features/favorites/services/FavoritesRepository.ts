@@ -1,7 +1,13 @@
-import type { Favorite } from '../types/Favorite';
+import type { Favorite, FavoriteDetails } from '../types/Favorite';
+import type { SeriesFavorite } from '../types/SeriesFavorite';
+import type { PendingRelink, RelinkedFavorite } from '../types/FavoriteRelink';
+import type { FavoritesBackup, FavoritesImportMode } from '../types/FavoritesBackup';
 
 /**
  * Repository interface for managing favorite races
+ *
+ * Writes must not lose each other's changes when they overlap (e.g. a
+ * toggle during a schedule merge).
  */
 export interface FavoritesRepository {
   /**
@@ -22,6 +28,73 @@ export interface FavoritesRepository {
    */
   removeFavorite(raceId: string): Promise<void>;
 
+  /**
+   * Updates the note, tags, reminder lead time or notification flag of a favorite
+   * Does nothing if the race is not favorited
+   * @param raceId - ID of the favorited race
+   * @param details - Changed details
+   */
+  updateFavorite(raceId: string, details: FavoriteDetails): Promise<void>;
+
+  /**
+   * Removes several races from favorites in one write
+   * @param raceIds - IDs of the races to unfavorite
+   */
+  removeFavorites(raceIds: string[]): Promise<void>;
+
+  /**
+   * Replaces the whole favorites list
+   * @param favorites - The new list of favorites
+   */
+  replaceAll(favorites: Favorite[]): Promise<void>;
+
+  /**
+   * Gets all favorited race series
+   * @returns Array of series favorites
+   */
+  getSeriesFavorites(): Promise<SeriesFavorite[]>;
+
+  /**
+   * Adds a race series to favorites
+   * @param series - The series favorite to add (ignored if its id already exists)
+   */
+  addSeriesFavorite(series: SeriesFavorite): Promise<void>;
+
+  /**
+   * Removes a race series from favorites
+   * @param seriesId - ID of the series to unfavorite
+   */
+  removeSeriesFavorite(seriesId: string): Promise<void>;
+
+  /**
+   * Gets the favorites waiting for the user to confirm their new race
+   * @returns Array of pending relinks
+   */
+  getPendingRelinks(): Promise<PendingRelink[]>;
+
+  /**
+   * Applies the result of a re-linking pass in one write
+   * Relinked favorites move to their new race ID, favorites in the pending
+   * list leave the favorites list, and the pending list is replaced
+   * @param relinked - Favorites moved to a new race
+   * @param pending - Every favorite now waiting for review
+   */
+  applyRelinks(relinked: RelinkedFavorite[], pending: PendingRelink[]): Promise<void>;
+
+  /**
+   * Confirms or dismisses a pending relink
+   * @param raceId - Race ID the favorite was stored under
+   * @param targetRaceId - Race to move the favorite to, or null to drop it
+   */
+  resolvePendingRelink(raceId: string, targetRaceId: string | null): Promise<void>;
+
+  /**
+   * Imports favorites and series favorites from a backup in one write
+   * @param backup - Favorites read from a backup file
+   * @param mode - Merge with or replace the current favorites
+   */
+  importFavorites(backup: FavoritesBackup, mode: FavoritesImportMode): Promise<void>;
+
   /**
    * Checks if a race is favorited
    * @param raceId - ID of the race to check
@@ -0,0 +1,382 @@
+import type { Race } from '../../schedules/types/Race';
+import type { Favorite, FavoriteDetails } from '../types/Favorite';
+import type { SeriesFavorite } from '../types/SeriesFavorite';
+import type { PendingRelink } from '../types/FavoriteRelink';
+import type { FavoritesBackup, FavoritesImportMode } from '../types/FavoritesBackup';
+import { createSeriesRule, findMatchingSeries, getSeriesId } from '../utils/seriesMatching';
+import { applyFavoriteDetails } from '../utils/favoriteDetails';
+import type { FavoritesRepository } from './FavoritesRepository';
+import { ScheduleMerger } from '../../schedules/services/ScheduleMerger';
+
+/**
+ * Snapshot of the favorites held by a FavoritesStore
+ *
+ * Snapshots are immutable: every change produces a new object, so React can
+ * compare them by reference.
+ */
+export interface FavoritesState {
+  /**
+   * Array of all favorited races
+   */
+  favorites: Favorite[];
+
+  /**
+   * IDs of the favorited races, for fast lookups
+   */
+  favoriteIds: ReadonlySet<string>;
+
+  /**
+   * Favorited race series
+   */
+  series: SeriesFavorite[];
+
+  /**
+   * Favorites waiting for the user to confirm their new race
+   */
+  pendingRelinks: PendingRelink[];
+
+  /**
+   * Whether the favorites are currently loading
+   */
+  isLoading: boolean;
+}
+
+type Listener = () => void;
+
+// Stateless; shared by every store
+const scheduleMerger = new ScheduleMerger();
+
+/**
+ * In-memory favorites shared by every screen and component
+ *
+ * Holds race favorites, series favorites and favorites waiting for re-link
+ * review. Loads them from the repository once, applies changes to the
+ * repository, and notifies subscribers after each change. Works with React's
+ * useSyncExternalStore via subscribe/getState.
+ *
+ * @example
+ * ```typescript
+ * const store = new FavoritesStore(new AsyncStorageFavoritesRepository());
+ * const unsubscribe = store.subscribe(() => console.log(store.getState().favorites));
+ * await store.load();
+ * await store.toggleFavorite('race-1');
+ * ```
+ */
+export class FavoritesStore {
+  private state: FavoritesState = {
+    favorites: [],
+    favoriteIds: new Set(),
+    series: [],
+    pendingRelinks: [],
+    isLoading: true,
+  };
+  private readonly listeners = new Set<Listener>();
+  private loading: Promise<void> | null = null;
+
+  /**
+   * @param repository - Repository favorites are persisted to
+   */
+  constructor(private readonly repository: FavoritesRepository) {}
+
+  /**
+   * Registers a listener called after every state change
+   * @returns Function that removes the listener
+   */
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Gets the current snapshot
+   */
+  getState = (): FavoritesState => this.state;
+
+  /**
+   * Checks if a race is favorited by ID (series favorites are not checked)
+   * @param raceId - ID of the race to check
+   * @returns True if the race is favorited
+   */
+  isFavorite(raceId: string): boolean {
+    return this.state.favoriteIds.has(raceId);
+  }
+
+  /**
+   * Gets the favorite record of a race
+   * @param raceId - ID of the race
+   * @returns Favorite, or undefined if the race is not favorited by ID
+   */
+  getFavorite(raceId: string): Favorite | undefined {
+    return this.state.favorites.find(f => f.raceId === raceId);
+  }
+
+  /**
+   * Checks if a race is favorited by ID or through a series favorite
+   * @param race - Race to check
+   * @returns True if the race is favorited
+   */
+  isRaceFavorited(race: Race): boolean {
+    return this.isFavorite(race.id) || this.getMatchingSeries(race) !== undefined;
+  }
+
+  /**
+   * Finds the series favorite a race belongs to
+   * @param race - Race to check
+   * @returns Matching series favorite, or undefined if none match
+   */
+  getMatchingSeries(race: Race): SeriesFavorite | undefined {
+    return findMatchingSeries(race, this.state.series);
+  }
+
+  /**
+   * Loads favorites from the repository
+   * Only the first call reads storage; later calls share its result
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFromRepository();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Reloads favorites from the repository
+   * Use after something other than this store changed the repository
+   */
+  async refresh(): Promise<void> {
+    this.loading = this.readFromRepository();
+    await this.loading;
+  }
+
+  /**
+   * Adds a race to favorites
+   * @param raceId - ID of the race to favorite
+   * @param notificationEnabled - Whether to enable notifications (default: false)
+   * @throws If the repository write fails
+   */
+  async addFavorite(raceId: string, notificationEnabled: boolean = false): Promise<void> {
+    const favorite: Favorite = {
+      raceId,
+      favoritedAt: new Date(),
+      notificationEnabled,
+    };
+
+    await this.repository.addFavorite(favorite);
+
+    // Another add may have finished while this one was being written
+    if (!this.isFavorite(raceId)) {
+      this.setFavorites([...this.state.favorites, favorite]);
+    }
+  }
+
+  /**
+   * Removes a race from favorites
+   * @param raceId - ID of the race to unfavorite
+   * @throws If the repository write fails
+   */
+  async removeFavorite(raceId: string): Promise<void> {
+    await this.repository.removeFavorite(raceId);
+
+    if (this.isFavorite(raceId)) {
+      this.setFavorites(this.state.favorites.filter(f => f.raceId !== raceId));
+    }
+  }
+
+  /**
+   * Updates the note, tags, reminder lead time or notification flag of a favorite
+   * @param raceId - ID of the favorited race
+   * @param details - Changed details
+   * @throws If the details are invalid or the repository write fails
+   */
+  async updateFavorite(raceId: string, details: FavoriteDetails): Promise<void> {
+    await this.repository.updateFavorite(raceId, details);
+
+    if (this.isFavorite(raceId)) {
+      this.setFavorites(
+        this.state.favorites.map(f => (f.raceId === raceId ? applyFavoriteDetails(f, details) : f)),
+      );
+    }
+  }
+
+  /**
+   * Toggles the favorite status of a race
+   * @param raceId - ID of the race to toggle
+   * @param notificationEnabled - Whether to enable notifications (default: false)
+   * @throws If the repository write fails
+   */
+  async toggleFavorite(raceId: string, notificationEnabled: boolean = false): Promise<void> {
+    if (this.isFavorite(raceId)) {
+      await this.removeFavorite(raceId);
+    } else {
+      await this.addFavorite(raceId, notificationEnabled);
+    }
+  }
+
+  /**
+   * Favorites the series a race belongs to
+   * @param race - Any race in the series
+   * @param options.includeWeekday - Only match races on the race's weekday (default: false)
+   * @param options.notificationEnabled - Whether to enable notifications (default: false)
+   * @throws If the repository write fails
+   */
+  async addSeriesFavorite(
+    race: Race,
+    { includeWeekday = false, notificationEnabled = false } = {},
+  ): Promise<void> {
+    const rule = createSeriesRule(race, { includeWeekday });
+    const series: SeriesFavorite = {
+      id: getSeriesId(rule),
+      rule,
+      favoritedAt: new Date(),
+      notificationEnabled,
+    };
+
+    await this.repository.addSeriesFavorite(series);
+
+    if (!this.state.series.some(s => s.id === series.id)) {
+      this.setState({ ...this.state, series: [...this.state.series, series] });
+    }
+  }
+
+  /**
+   * Removes a series favorite
+   * @param seriesId - ID of the series to unfavorite
+   * @throws If the repository write fails
+   */
+  async removeSeriesFavorite(seriesId: string): Promise<void> {
+    await this.repository.removeSeriesFavorite(seriesId);
+
+    if (this.state.series.some(s => s.id === seriesId)) {
+      this.setState({ ...this.state, series: this.state.series.filter(s => s.id !== seriesId) });
+    }
+  }
+
+  /**
+   * Moves a favorite waiting for review to the race the user picked
+   * @param raceId - Race ID the favorite was stored under
+   * @param targetRaceId - ID of the race to move the favorite to
+   * @throws If the repository write fails
+   */
+  async confirmRelink(raceId: string, targetRaceId: string): Promise<void> {
+    const entry = this.state.pendingRelinks.find(p => p.favorite.raceId === raceId);
+
+    await this.repository.resolvePendingRelink(raceId, targetRaceId);
+
+    if (entry) {
+      const pendingRelinks = this.state.pendingRelinks.filter(p => p !== entry);
+      const favorites = this.isFavorite(targetRaceId)
+        ? this.state.favorites
+        : [...this.state.favorites, { ...entry.favorite, raceId: targetRaceId }];
+      this.setFavorites(favorites, { pendingRelinks });
+    }
+  }
+
+  /**
+   * Drops a favorite waiting for review
+   * @param raceId - Race ID the favorite was stored under
+   * @throws If the repository write fails
+   */
+  async dismissRelink(raceId: string): Promise<void> {
+    await this.repository.resolvePendingRelink(raceId, null);
+
+    if (this.state.pendingRelinks.some(p => p.favorite.raceId === raceId)) {
+      this.setState({
+        ...this.state,
+        pendingRelinks: this.state.pendingRelinks.filter(p => p.favorite.raceId !== raceId),
+      });
+    }
+  }
+
+  /**
+   * Re-links or removes favorites whose race left the schedule, then reloads
+   * Previous races starting after the last fresh race are beyond what the
+   * refresh covered (e.g. loaded windows), so their favorites are kept
+   * @param previousRaces - Cached schedule before the refresh
+   * @param races - Schedule that was just saved
+   * @throws If the repository write fails
+   */
+  async mergeSchedule(previousRaces: Race[], races: Race[]): Promise<void> {
+    const lastStart = races.reduce(
+      (latest, race) => Math.max(latest, Date.parse(race.startTime)),
+      -Infinity,
+    );
+    const beyondRefresh = previousRaces.filter(race => Date.parse(race.startTime) > lastStart);
+
+    await scheduleMerger.mergeWithFavorites(
+      previousRaces,
+      [...races, ...beyondRefresh],
+      this.repository,
+    );
+    await this.refresh();
+  }
+
+  /**
+   * Gets the favorites and series favorites to export
+   * @returns Current favorites as a backup
+   */
+  getBackup(): FavoritesBackup {
+    return { favorites: this.state.favorites, series: this.state.series };
+  }
+
+  /**
+   * Imports favorites from a backup, then reloads from the repository
+   * @param backup - Favorites read from a backup file
+   * @param mode - Merge with or replace the current favorites
+   * @throws If the repository write fails
+   */
+  async importFavorites(backup: FavoritesBackup, mode: FavoritesImportMode): Promise<void> {
+    await this.repository.importFavorites(backup, mode);
+    await this.refresh();
+  }
+
+  /**
+   * Reads favorites into the store; an unreadable list loads as empty
+   * @private
+   */
+  private async readFromRepository(): Promise<void> {
+    this.setState({ ...this.state, isLoading: true });
+    try {
+      const [favorites, series, pendingRelinks] = await Promise.all([
+        this.repository.getFavorites(),
+        this.repository.getSeriesFavorites(),
+        this.repository.getPendingRelinks(),
+      ]);
+      this.setFavorites(favorites, { series, pendingRelinks, isLoading: false });
+    } catch (error) {
+      console.error('Error loading favorites:', error);
+      this.setFavorites([], { series: [], pendingRelinks: [], isLoading: false });
+    }
+  }
+
+  /**
+   * Replaces the favorites list and rebuilds the ID index
+   * @private
+   */
+  private setFavorites(
+    favorites: Favorite[],
+    {
+      series = this.state.series,
+      pendingRelinks = this.state.pendingRelinks,
+      isLoading = this.state.isLoading,
+    } = {},
+  ): void {
+    this.setState({
+      favorites,
+      favoriteIds: new Set(favorites.map(f => f.raceId)),
+      series,
+      pendingRelinks,
+      isLoading,
+    });
+  }
+
+  /**
+   * Stores a new snapshot and notifies subscribers
+   * @private
+   */
+  private setState(state: FavoritesState): void {
+    this.state = state;
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -16,4 +16,35 @@ export interface Favorite {
    * Whether notifications are enabled for this favorited race
    */
   notificationEnabled: boolean;
+
+  /**
+   * Free-text note
+   * @example "practice T1 braking"
+   */
+  note?: string;
+
+  /**
+   * User tags, unique ignoring case
+   * @example ["league", "setup-test"]
+   */
+  tags?: string[];
+
+  /**
+   * Minutes before the start to send the reminder
+   * Falls back to NOTIFICATION_TIMING.FAVORITE_REMINDER when not set
+   */
+  reminderLeadMinutes?: number;
+}
+
+/**
+ * Editable details of a favorite
+ *
+ * Omitted fields are left unchanged. An empty note or tag list removes the
+ * field, and a null lead time goes back to the default.
+ */
+export interface FavoriteDetails {
+  note?: string;
+  tags?: string[];
+  reminderLeadMinutes?: number | null;
+  notificationEnabled?: boolean;
 }
@@ -0,0 +1,86 @@
+import type { Race } from '../../schedules/types/Race';
+import type { Favorite } from './Favorite';
+
+/**
+ * A new race an orphaned favorite may belong to
+ */
+export interface RelinkCandidate {
+  /**
+   * ID of the race in the new schedule
+   */
+  raceId: string;
+
+  /**
+   * How likely the race is the favorited one, from 0 to 1
+   * @see scoreRelinkCandidate
+   */
+  confidence: number;
+}
+
+/**
+ * Favorite moved to a new race ID during a schedule merge
+ */
+export interface RelinkedFavorite {
+  /**
+   * Race ID the favorite was stored under
+   */
+  fromRaceId: string;
+
+  /**
+   * Favorite with its new race ID; note, tags and settings are unchanged
+   */
+  favorite: Favorite;
+
+  /**
+   * Confidence of the match
+   */
+  confidence: number;
+}
+
+/**
+ * Orphaned favorite waiting for the user to pick its new race
+ *
+ * Created when several new races match about equally well, or when the best
+ * match isn't close enough to move the favorite automatically.
+ */
+export interface PendingRelink {
+  /**
+   * Favorite as stored under its old race ID
+   */
+  favorite: Favorite;
+
+  /**
+   * The race the favorite pointed to, as last seen in the schedule
+   */
+  previousRace: Race;
+
+  /**
+   * Possible new races, best match first
+   */
+  candidates: RelinkCandidate[];
+
+  /**
+   * When the favorite was first found without its race
+   */
+  detectedAt: Date;
+}
+
+/**
+ * Outcome of matching orphaned favorites against a new schedule
+ */
+export interface RelinkPlan {
+  /**
+   * Favorites moved to a new race automatically
+   */
+  relinked: RelinkedFavorite[];
+
+  /**
+   * Every favorite now waiting for review, including ones found earlier
+   */
+  pending: PendingRelink[];
+
+  /**
+   * IDs of favorites whose race is gone with no plausible replacement
+   */
+  removed: string[];
+}
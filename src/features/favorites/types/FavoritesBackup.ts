@@ -0,0 +1,57 @@
+import type { Favorite } from './Favorite';
+import type { SeriesFavorite } from './SeriesFavorite';
+
+/**
+ * Identifies a favorites backup document
+ */
+export const FAVORITES_BACKUP_FORMAT = 'racesync-favorites' as const;
+
+/**
+ * Schema version written by this app
+ * Files with a higher version were made by a newer app and are rejected
+ */
+export const FAVORITES_BACKUP_VERSION = 1;
+
+/**
+ * Favorites moved between devices
+ */
+export interface FavoritesBackup {
+  /**
+   * Favorited races
+   */
+  favorites: Favorite[];
+
+  /**
+   * Favorited race series
+   */
+  series: SeriesFavorite[];
+}
+
+/**
+ * How an imported backup is combined with the favorites already on the device
+ * - merge: add favorites and series that aren't there yet; existing ones are kept as they are
+ * - replace: the backup becomes the whole favorites list
+ */
+export type FavoritesImportMode = 'merge' | 'replace';
+
+/**
+ * Backup document as written to the exported file (version 1)
+ *
+ * Dates are ISO 8601 strings. `series` is omitted when there are no series
+ * favorites.
+ *
+ * @example
+ * {
+ *   "format": "racesync-favorites",
+ *   "version": 1,
+ *   "exportedAt": "2025-11-15T12:00:00.000Z",
+ *   "favorites": [{ "raceId": "race-1", "favoritedAt": "2025-11-01T09:00:00.000Z", "notificationEnabled": true }]
+ * }
+ */
+export interface FavoritesBackupDocument {
+  format: typeof FAVORITES_BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  favorites: Favorite[];
+  series?: SeriesFavorite[];
+}
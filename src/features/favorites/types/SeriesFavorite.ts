@@ -0,0 +1,67 @@
+import type { CarClass, RaceTier, RaceType } from '../../schedules/types/Race';
+
+/**
+ * Describes a recurring race series
+ *
+ * A race belongs to the series when all fields match. Race IDs change as the
+ * schedule rotates; these fields don't.
+ */
+export interface SeriesRule {
+  /**
+   * Race category
+   */
+  type: RaceType;
+
+  /**
+   * Skill tier (null for weekly/special races)
+   */
+  tier: RaceTier | null;
+
+  /**
+   * Circuit name
+   */
+  trackName: string;
+
+  /**
+   * Car category
+   */
+  carClass: CarClass;
+
+  /**
+   * Day of the week the race starts on (0 = Sunday … 6 = Saturday),
+   * or null to match every day
+   */
+  weekday: number | null;
+
+  /**
+   * IANA time zone the weekday is evaluated in (required when weekday is set)
+   * @example "Europe/Paris"
+   */
+  timeZone?: string;
+}
+
+/**
+ * Favorite entity representing a user's favorited race series
+ */
+export interface SeriesFavorite {
+  /**
+   * Stable identifier derived from the rule
+   * @see getSeriesId
+   */
+  id: string;
+
+  /**
+   * Races matched by this favorite
+   */
+  rule: SeriesRule;
+
+  /**
+   * Timestamp when the series was favorited
+   */
+  favoritedAt: Date;
+
+  /**
+   * Whether notifications are enabled for races in this series
+   */
+  notificationEnabled: boolean;
+}
@@ -0,0 +1,140 @@
+/**
+ * Favorite Details Utilities
+ *
+ * Normalizes notes, tags and reminder lead times, and computes when a
+ * favorite's reminder fires. Used by the repository, the details editor and
+ * the storage migration, so all three accept the same values.
+ */
+
+import { NOTIFICATION_TIMING } from '../../notifications/types/Notification';
+import type { Favorite, FavoriteDetails } from '../types/Favorite';
+
+/**
+ * Longest note kept, in characters
+ */
+export const FAVORITE_NOTE_MAX_LENGTH = 500;
+
+/**
+ * Longest tag kept, in characters
+ */
+export const FAVORITE_TAG_MAX_LENGTH = 30;
+
+/**
+ * Longest reminder lead time accepted (one day), in minutes
+ */
+export const MAX_REMINDER_LEAD_MINUTES = 24 * 60;
+
+/**
+ * Lead times offered by the details editor, in minutes
+ */
+export const REMINDER_LEAD_OPTIONS = [5, 15, 30, 60, 120] as const;
+
+/**
+ * Trims a note and caps its length
+ *
+ * @param note - Note as entered
+ * @returns Normalized note, or undefined if it is empty
+ */
+export const normalizeNote = (note: string): string | undefined => {
+  const trimmed = note.trim().slice(0, FAVORITE_NOTE_MAX_LENGTH);
+  return trimmed.length > 0 ? trimmed : undefined;
+};
+
+/**
+ * Trims tags, drops empty ones and removes duplicates (ignoring case)
+ *
+ * @param tags - Tags as entered
+ * @returns Normalized tags in their original order
+ *
+ * @example
+ * normalizeTags([' league ', 'League', '', 'wet']) // ['league', 'wet']
+ */
+export const normalizeTags = (tags: string[]): string[] => {
+  const seen = new Set<string>();
+  return tags.flatMap(tag => {
+    const trimmed = tag.trim().slice(0, FAVORITE_TAG_MAX_LENGTH);
+    const key = trimmed.toLowerCase();
+    if (trimmed.length === 0 || seen.has(key)) {
+      return [];
+    }
+    seen.add(key);
+    return [trimmed];
+  });
+};
+
+/**
+ * Splits comma-separated tag input into normalized tags
+ *
+ * @param input - Text such as "league, wet, setup-test"
+ * @returns Normalized tags
+ */
+export const parseTagInput = (input: string): string[] => normalizeTags(input.split(','));
+
+/**
+ * Checks if a value is a usable reminder lead time
+ *
+ * @param minutes - Value to check
+ * @returns True for whole minutes from 0 to MAX_REMINDER_LEAD_MINUTES
+ */
+export const isValidReminderLead = (minutes: unknown): minutes is number =>
+  typeof minutes === 'number' &&
+  Number.isInteger(minutes) &&
+  minutes >= 0 &&
+  minutes <= MAX_REMINDER_LEAD_MINUTES;
+
+/**
+ * Applies edited details to a favorite
+ *
+ * @param favorite - Favorite to update
+ * @param details - Changed details
+ * @returns New favorite with normalized details
+ * @throws Error if the lead time is not a valid number of minutes
+ */
+export const applyFavoriteDetails = (favorite: Favorite, details: FavoriteDetails): Favorite => {
+  const { note, tags, reminderLeadMinutes, ...rest } = favorite;
+  const next: Favorite = { ...rest };
+
+  const nextNote = details.note !== undefined ? normalizeNote(details.note) : note;
+  if (nextNote !== undefined) {
+    next.note = nextNote;
+  }
+
+  const nextTags = details.tags !== undefined ? normalizeTags(details.tags) : tags;
+  if (nextTags !== undefined && nextTags.length > 0) {
+    next.tags = nextTags;
+  }
+
+  if (details.reminderLeadMinutes !== undefined && details.reminderLeadMinutes !== null) {
+    if (!isValidReminderLead(details.reminderLeadMinutes)) {
+      throw new Error(`Invalid reminder lead time: ${details.reminderLeadMinutes}`);
+    }
+    next.reminderLeadMinutes = details.reminderLeadMinutes;
+  } else if (details.reminderLeadMinutes === undefined && reminderLeadMinutes !== undefined) {
+    next.reminderLeadMinutes = reminderLeadMinutes;
+  }
+
+  if (details.notificationEnabled !== undefined) {
+    next.notificationEnabled = details.notificationEnabled;
+  }
+
+  return next;
+};
+
+/**
+ * Gets how many minutes before the start a favorite's reminder fires
+ *
+ * @param favorite - Favorite to check
+ * @returns Custom lead time, or NOTIFICATION_TIMING.FAVORITE_REMINDER
+ */
+export const getReminderLeadMinutes = (favorite: Favorite): number =>
+  favorite.reminderLeadMinutes ?? NOTIFICATION_TIMING.FAVORITE_REMINDER;
+
+/**
+ * Gets when a favorite's reminder fires
+ *
+ * @param startTime - Race start time (ISO 8601 UTC)
+ * @param favorite - Favorite for the race
+ * @returns Reminder time
+ */
+export const getReminderTriggerTime = (startTime: string, favorite: Favorite): Date =>
+  new Date(new Date(startTime).getTime() - getReminderLeadMinutes(favorite) * 60000);
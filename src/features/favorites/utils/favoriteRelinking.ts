@@ -0,0 +1,180 @@
+/**
+ * Favorite Re-linking Utilities
+ *
+ * Upstream race IDs are regenerated more often than races disappear. These
+ * functions find the race an orphaned favorite most likely moved to, so the
+ * schedule merge can move it instead of deleting it.
+ */
+
+import type { Race } from '../../schedules/types/Race';
+import type { Favorite } from '../types/Favorite';
+import type {
+  PendingRelink,
+  RelinkCandidate,
+  RelinkPlan,
+  RelinkedFavorite,
+} from '../types/FavoriteRelink';
+
+/**
+ * Largest start time difference for a race to count as a match, in minutes
+ */
+export const RELINK_WINDOW_MINUTES = 120;
+
+/**
+ * Lowest confidence at which a favorite moves without asking the user
+ */
+export const AUTO_RELINK_CONFIDENCE = 0.8;
+
+/**
+ * Lowest confidence at which a race is offered for review
+ */
+export const MIN_RELINK_CONFIDENCE = 0.3;
+
+/**
+ * How far the best match must lead the runner-up to move automatically
+ */
+export const RELINK_AMBIGUITY_MARGIN = 0.1;
+
+/**
+ * Most candidates kept on a pending relink
+ */
+export const MAX_RELINK_CANDIDATES = 3;
+
+/**
+ * Scores how likely a new race is the one an orphaned favorite pointed to
+ *
+ * Type, tier, track and car class must match and the start times must be
+ * within RELINK_WINDOW_MINUTES. Closer start times score higher (up to 0.6),
+ * and an unchanged track layout and duration add 0.2 each.
+ *
+ * @param previous - Race the favorite pointed to
+ * @param candidate - Race from the new schedule
+ * @returns Confidence from 0 (not the same race) to 1
+ *
+ * @example
+ * // Same race, start moved by 30 minutes
+ * scoreRelinkCandidate(previous, moved) // 0.85
+ */
+export const scoreRelinkCandidate = (previous: Race, candidate: Race): number => {
+  if (
+    previous.type !== candidate.type ||
+    previous.tier !== candidate.tier ||
+    previous.trackName !== candidate.trackName ||
+    previous.carClass !== candidate.carClass
+  ) {
+    return 0;
+  }
+
+  const minutesApart =
+    Math.abs(new Date(candidate.startTime).getTime() - new Date(previous.startTime).getTime()) /
+    60000;
+  if (!(minutesApart <= RELINK_WINDOW_MINUTES)) {
+    return 0;
+  }
+
+  const timeScore = 0.6 * (1 - minutesApart / RELINK_WINDOW_MINUTES);
+  const layoutScore = previous.trackConfiguration === candidate.trackConfiguration ? 0.2 : 0;
+  const durationScore = previous.durationMinutes === candidate.durationMinutes ? 0.2 : 0;
+  return Math.round((timeScore + layoutScore + durationScore) * 1000) / 1000;
+};
+
+/**
+ * Finds the new races an orphaned favorite may belong to
+ *
+ * @param previous - Race the favorite pointed to
+ * @param races - Races to choose from
+ * @returns Candidates scoring at least MIN_RELINK_CONFIDENCE, best first
+ */
+export const findRelinkCandidates = (previous: Race, races: Race[]): RelinkCandidate[] =>
+  races
+    .map(race => ({ raceId: race.id, confidence: scoreRelinkCandidate(previous, race) }))
+    .filter(candidate => candidate.confidence >= MIN_RELINK_CONFIDENCE)
+    .sort((a, b) => b.confidence - a.confidence);
+
+/**
+ * Checks if the best candidate is good enough to move a favorite without asking
+ *
+ * @param candidates - Candidates, best first
+ * @returns True if the best candidate is confident and clearly ahead
+ */
+export const isConfidentRelink = (candidates: RelinkCandidate[]): boolean => {
+  const [best, runnerUp] = candidates;
+  return (
+    best !== undefined &&
+    best.confidence >= AUTO_RELINK_CONFIDENCE &&
+    (runnerUp === undefined || best.confidence - runnerUp.confidence >= RELINK_AMBIGUITY_MARGIN)
+  );
+};
+
+/**
+ * Decides what happens to each orphaned favorite after a schedule update
+ *
+ * Orphans are favorites whose race ID is not in the new schedule, plus
+ * favorites still waiting for review from an earlier update. Each moves to
+ * its best candidate when that match is confident, waits for review when
+ * there are plausible candidates, and is removed otherwise. Races that are
+ * already favorited, or claimed by an earlier orphan, are not candidates.
+ *
+ * @param options.orphans - Favorites whose race ID is gone
+ * @param options.previousRaces - Races from before the update, to look orphans up in
+ * @param options.pending - Favorites already waiting for review
+ * @param options.races - Races in the new schedule
+ * @param options.favoritedRaceIds - IDs of races already favorited
+ * @param options.now - Detection time for new pending relinks (default: now)
+ * @returns Relinked, pending and removed favorites
+ */
+export const planFavoriteRelinks = ({
+  orphans,
+  previousRaces,
+  pending,
+  races,
+  favoritedRaceIds,
+  now = new Date(),
+}: {
+  orphans: Favorite[];
+  previousRaces: Race[];
+  pending: PendingRelink[];
+  races: Race[];
+  favoritedRaceIds: ReadonlySet<string>;
+  now?: Date;
+}): RelinkPlan => {
+  const previousById = new Map(previousRaces.map(race => [race.id, race]));
+  const claimed = new Set(favoritedRaceIds);
+  const plan: RelinkPlan = { relinked: [], pending: [], removed: [] };
+
+  const entries: PendingRelink[] = [
+    ...pending,
+    ...orphans.flatMap(favorite => {
+      const previousRace = previousById.get(favorite.raceId);
+      if (!previousRace) {
+        plan.removed.push(favorite.raceId);
+        return [];
+      }
+      return [{ favorite, previousRace, candidates: [], detectedAt: now }];
+    }),
+  ];
+
+  entries.forEach(entry => {
+    const candidates = findRelinkCandidates(
+      entry.previousRace,
+      races.filter(race => !claimed.has(race.id)),
+    );
+
+    if (isConfidentRelink(candidates)) {
+      const [best] = candidates;
+      const relinked: RelinkedFavorite = {
+        fromRaceId: entry.favorite.raceId,
+        favorite: { ...entry.favorite, raceId: best.raceId },
+        confidence: best.confidence,
+      };
+      claimed.add(best.raceId);
+      plan.relinked.push(relinked);
+    } else if (candidates.length > 0) {
+      plan.pending.push({ ...entry, candidates: candidates.slice(0, MAX_RELINK_CANDIDATES) });
+    } else if (!pending.includes(entry)) {
+      plan.removed.push(entry.favorite.raceId);
+    }
+  });
+
+  return plan;
+};
@@ -0,0 +1,101 @@
+/**
+ * Series Matching Utilities
+ *
+ * Functions for building series rules from races and checking which races
+ * a series favorite applies to.
+ */
+
+import { parseISO } from 'date-fns';
+import { toZonedTime } from 'date-fns-tz';
+import type { Race } from '../../schedules/types/Race';
+import type { SeriesFavorite, SeriesRule } from '../types/SeriesFavorite';
+import { getDeviceTimezone } from '../../../shared/utils/timezoneUtils';
+
+/**
+ * Gets the day of the week a race starts on in a time zone
+ *
+ * @param startTime - Race start time (ISO 8601 UTC)
+ * @param timeZone - IANA time zone
+ * @returns 0 (Sunday) to 6 (Saturday)
+ */
+export const getRaceWeekday = (startTime: string, timeZone: string): number =>
+  toZonedTime(parseISO(startTime), timeZone).getDay();
+
+/**
+ * Builds the series rule a race belongs to
+ *
+ * @param race - Race to describe
+ * @param options.includeWeekday - Only match races on the same weekday (default: false)
+ * @param options.timeZone - Time zone for the weekday (default: device time zone)
+ * @returns Series rule matching the race
+ *
+ * @example
+ * ```typescript
+ * // "Hypercar at Spa, weekly, on Saturdays"
+ * const rule = createSeriesRule(race, { includeWeekday: true });
+ * ```
+ */
+export const createSeriesRule = (
+  race: Race,
+  { includeWeekday = false, timeZone = getDeviceTimezone() } = {},
+): SeriesRule => {
+  const rule: SeriesRule = {
+    type: race.type,
+    tier: race.tier,
+    trackName: race.trackName,
+    carClass: race.carClass,
+    weekday: includeWeekday ? getRaceWeekday(race.startTime, timeZone) : null,
+  };
+  if (includeWeekday) {
+    rule.timeZone = timeZone;
+  }
+  return rule;
+};
+
+/**
+ * Gets the stable ID of a series rule
+ * Equal rules always get the same ID, so a series can't be favorited twice
+ *
+ * @param rule - Series rule
+ * @returns ID such as "series:weekly:-:Spa-Francorchamps:Hypercar:6"
+ */
+export const getSeriesId = (rule: SeriesRule): string =>
+  ['series', rule.type, rule.tier ?? '-', rule.trackName, rule.carClass, rule.weekday ?? '-'].join(
+    ':',
+  );
+
+/**
+ * Checks whether a race belongs to a series
+ *
+ * @param race - Race to check
+ * @param rule - Series rule
+ * @returns True if every field of the rule matches the race
+ */
+export const matchesSeries = (race: Race, rule: SeriesRule): boolean => {
+  if (
+    race.type !== rule.type ||
+    race.tier !== rule.tier ||
+    race.trackName !== rule.trackName ||
+    race.carClass !== rule.carClass
+  ) {
+    return false;
+  }
+
+  if (rule.weekday === null) {
+    return true;
+  }
+
+  return getRaceWeekday(race.startTime, rule.timeZone ?? getDeviceTimezone()) === rule.weekday;
+};
+
+/**
+ * Finds the first series favorite a race belongs to
+ *
+ * @param race - Race to check
+ * @param series - Series favorites
+ * @returns Matching series favorite, or undefined if none match
+ */
+export const findMatchingSeries = (
+  race: Race,
+  series: SeriesFavorite[],
+): SeriesFavorite | undefined => series.find(favorite => matchesSeries(race, favorite.rule));
@@ -0,0 +1,24 @@
+import { createContext, useContext } from 'react';
+import { NotificationService } from '../services/NotificationService';
+import { unavailableNotificationScheduler } from '../services/NotificationScheduler';
+
+// App-wide service used when no provider supplies one
+const defaultNotificationService = new NotificationService(unavailableNotificationScheduler);
+
+/**
+ * Context holding the NotificationService shared by all notification hooks
+ */
+export const NotificationServiceContext = createContext<NotificationService>(
+  defaultNotificationService,
+);
+
+/**
+ * Gets the shared NotificationService
+ *
+ * @param service - Optional service that overrides the one from context
+ * @returns The NotificationService
+ */
+export function useNotificationService(service?: NotificationService): NotificationService {
+  const contextService = useContext(NotificationServiceContext);
+  return service ?? contextService;
+}
@@ -0,0 +1,51 @@
+/**
+ * In-memory implementation of NotificationScheduler
+ *
+ * Nothing is shown to the user. Used in tests, where the scheduled
+ * notifications can be inspected directly.
+ *
+ * @see NotificationScheduler for interface documentation
+ */
+
+import type { NotificationContent, NotificationScheduler } from './NotificationScheduler';
+
+/**
+ * NotificationScheduler backed by a Map
+ *
+ * @example
+ * ```typescript
+ * const scheduler = new MemoryNotificationScheduler();
+ * const service = new NotificationService(scheduler, new MemoryKeyValueStore());
+ * await service.schedulePracticeReminders(race, sessions);
+ * scheduler.scheduled.size; // 3
+ * ```
+ */
+export class MemoryNotificationScheduler implements NotificationScheduler {
+  readonly isAvailable = true;
+
+  /**
+   * Scheduled notifications by ID
+   */
+  readonly scheduled = new Map<string, NotificationContent>();
+
+  private nextId = 1;
+
+  /**
+   * @param options.granted - Whether requestPermission grants permission (default: true)
+   */
+  constructor(private readonly options: { granted?: boolean } = {}) {}
+
+  async requestPermission(): Promise<boolean> {
+    return this.options.granted ?? true;
+  }
+
+  async schedule(content: NotificationContent): Promise<string> {
+    const id = `memory-notification-${this.nextId++}`;
+    this.scheduled.set(id, { ...content });
+    return id;
+  }
+
+  async cancel(id: string): Promise<void> {
+    this.scheduled.delete(id);
+  }
+}
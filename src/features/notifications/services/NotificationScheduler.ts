@@ -0,0 +1,54 @@
+import type { Notification } from '../types/Notification';
+
+/**
+ * Fields handed to the device when scheduling a notification
+ */
+export type NotificationContent = Pick<Notification, 'title' | 'body' | 'triggerTime'>;
+
+/**
+ * Adapter interface for the device's local notifications
+ *
+ * NotificationService only schedules notifications through this interface,
+ * so the native module can be swapped for MemoryNotificationScheduler in tests.
+ */
+export interface NotificationScheduler {
+  /**
+   * Whether the device can show local notifications at all
+   */
+  readonly isAvailable: boolean;
+
+  /**
+   * Asks for permission to show notifications, if not already granted
+   * @returns True if the app may schedule notifications
+   */
+  requestPermission(): Promise<boolean>;
+
+  /**
+   * Schedules a notification
+   * @param content - Title, body and delivery time
+   * @returns Platform-specific ID of the notification
+   */
+  schedule(content: NotificationContent): Promise<string>;
+
+  /**
+   * Cancels a scheduled notification; cancelling one that was already
+   * delivered or cancelled is not an error
+   * @param id - ID returned by schedule
+   */
+  cancel(id: string): Promise<void>;
+}
+
+/**
+ * Scheduler used until a native notifications module is linked
+ *
+ * Reports itself as unavailable and never grants permission, so no
+ * reminders are scheduled.
+ */
+export const unavailableNotificationScheduler: NotificationScheduler = {
+  isAvailable: false,
+  requestPermission: async () => false,
+  schedule: async () => {
+    throw new Error('No notification scheduler is available');
+  },
+  cancel: async () => undefined,
+};
@@ -0,0 +1,163 @@
+/**
+ * NotificationService
+ *
+ * Schedules local notifications and remembers which notification belongs to
+ * which race or practice session, so the same reminder isn't scheduled
+ * twice. The device is reached through a NotificationScheduler; scheduled
+ * notifications are persisted as Notification records under
+ * STORAGE_KEYS.SCHEDULED_NOTIFICATIONS.
+ */
+
+import { parseISO } from 'date-fns';
+import type { Race } from '../../schedules/types/Race';
+import type { PracticeSession } from '../../calendar/types/PracticeSession';
+import { STORAGE_KEYS } from '../../../shared/constants/storageKeys';
+import type { KeyValueStore } from '../../../shared/storage/KeyValueStore';
+import { defaultKeyValueStore } from '../../../shared/storage/defaultKeyValueStore';
+import { createJsonCodec, readValue, writeValue } from '../../../shared/storage/jsonCodec';
+import { NOTIFICATION_TIMING, Notification } from '../types/Notification';
+import type { NotificationContent, NotificationScheduler } from './NotificationScheduler';
+
+/**
+ * Notifications are stored as plain JSON; triggerTime stays an ISO string
+ */
+const notificationsCodec = createJsonCodec<Notification[]>();
+
+/**
+ * Service for scheduling reminders
+ *
+ * Every write is a read-modify-write of the whole list, so writes are queued
+ * and run one at a time.
+ *
+ * @example
+ * ```typescript
+ * const service = new NotificationService(new MemoryNotificationScheduler());
+ * await service.schedulePracticeReminders(race, sessions);
+ * ```
+ */
+export class NotificationService {
+  private writes: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param scheduler - Device notifications to schedule with
+   * @param store - Key-value store to persist to (default: AsyncStorage)
+   */
+  constructor(
+    private readonly scheduler: NotificationScheduler,
+    private readonly store: KeyValueStore = defaultKeyValueStore,
+  ) {}
+
+  /**
+   * Checks if the device can show reminders
+   * @returns False when no native notifications module is linked
+   */
+  isAvailable(): boolean {
+    return this.scheduler.isAvailable;
+  }
+
+  /**
+   * Gets all notifications scheduled by the app
+   * @returns Array of notifications; empty if storage can't be read
+   */
+  async getNotifications(): Promise<Notification[]> {
+    try {
+      const notifications = await readValue(
+        this.store,
+        STORAGE_KEYS.SCHEDULED_NOTIFICATIONS,
+        notificationsCodec,
+      );
+      return Array.isArray(notifications) ? notifications : [];
+    } catch (error) {
+      console.error('Error reading scheduled notifications:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Schedules a reminder at the start of each practice session
+   *
+   * Sessions that already have a reminder, or that start before `now`, are
+   * skipped. Reminders are a convenience on top of the calendar events, so
+   * nothing is scheduled (and nothing thrown) without notification permission.
+   *
+   * @param race - Race the sessions prepare for
+   * @param sessions - Sessions to remind about
+   * @param now - Current time (default: now)
+   * @returns The reminders of the sessions, including ones scheduled earlier
+   * @throws If the device scheduler or the storage write fails
+   */
+  schedulePracticeReminders(
+    race: Race,
+    sessions: PracticeSession[],
+    now: Date = new Date(),
+  ): Promise<Notification[]> {
+    return this.enqueue(async () => {
+      const notifications = await this.getNotifications();
+      const sessionIds = new Set(sessions.map(session => session.id));
+      const scheduled = new Set(notifications.map(n => n.practiceSessionId));
+      const pending = sessions.filter(
+        session =>
+          !scheduled.has(session.id) &&
+          parseISO(session.suggestedStartTime).getTime() > now.getTime(),
+      );
+
+      if (pending.length > 0 && (await this.scheduler.requestPermission())) {
+        const created: Notification[] = [];
+        try {
+          for (const session of pending) {
+            const content = this.buildPracticeReminder(session, race);
+            const id = await this.scheduler.schedule(content);
+            created.push({
+              id,
+              notificationType: 'practice-reminder',
+              ...content,
+              raceId: null,
+              practiceSessionId: session.id,
+              deliveryStatus: 'scheduled',
+            });
+          }
+        } finally {
+          if (created.length > 0) {
+            notifications.push(...created);
+            await writeValue(
+              this.store,
+              STORAGE_KEYS.SCHEDULED_NOTIFICATIONS,
+              notifications,
+              notificationsCodec,
+            );
+          }
+        }
+      }
+
+      return notifications.filter(
+        n => n.practiceSessionId !== null && sessionIds.has(n.practiceSessionId),
+      );
+    });
+  }
+
+  /**
+   * Builds the reminder shown when a practice session starts
+   * @private
+   */
+  private buildPracticeReminder(session: PracticeSession, race: Race): NotificationContent {
+    // suggestedStartTime is local time; triggerTime is UTC
+    const start = parseISO(session.suggestedStartTime);
+    const trigger = new Date(start.getTime() - NOTIFICATION_TIMING.PRACTICE_REMINDER * 60000);
+
+    return {
+      title: 'Practice Session Reminder',
+      body: `${session.sessionType} session for ${race.trackName} starts now`,
+      triggerTime: trigger.toISOString(),
+    };
+  }
+
+  /**
+   * Runs read-modify-write operations one at a time
+   * @private
+   */
+  private enqueue<T>(run: () => Promise<T>): Promise<T> {
+    const result = this.writes.then(run, run);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -94,7 +94,7 @@ export type NotificationsCollection = Notification[];
  * Notification timing constants (in minutes)
  */
 export const NOTIFICATION_TIMING = {
-  FAVORITE_REMINDER: 15,        // 15 minutes before race
+  FAVORITE_REMINDER: 15,        // 15 minutes before race (default; Favorite.reminderLeadMinutes overrides)
   CALENDAR_REMINDER: 60,        // 1 hour before race (weekly/special only)
   PRACTICE_REMINDER: 0,         // At practice session start time
 } as const;
@@ -104,19 +104,23 @@ export const NOTIFICATION_TIMING = {
  *
  * ```typescript
  * import { Race } from '../../schedules/types/Race';
+ * import { Favorite } from '../../favorites/types/Favorite';
  * import { PracticeSession } from '../../calendar/types/PracticeSession';
+ * import {
+ *   getReminderLeadMinutes,
+ *   getReminderTriggerTime,
+ * } from '../../favorites/utils/favoriteDetails';
  *
- * // Creating a favorite reminder notification
- * function createFavoriteReminder(race: Race): Notification {
- *   const raceStart = new Date(race.startTime);
- *   const triggerTime = new Date(raceStart.getTime() - NOTIFICATION_TIMING.FAVORITE_REMINDER * 60000);
+ * // Creating a favorite reminder notification (lead time set per favorite)
+ * function createFavoriteReminder(race: Race, favorite: Favorite): Notification {
+ *   const triggerTime = getReminderTriggerTime(race.startTime, favorite);
  *
  *   return {
  *     id: `notif_fav_${race.id}`,
  *     notificationType: 'favorite-reminder',
  *     triggerTime: triggerTime.toISOString(),
  *     title: 'Race Starting Soon!',
- *     body: `Your ${race.carClass} race at ${race.trackName} starts in 15 minutes`,
+ *     body: `Your ${race.carClass} race at ${race.trackName} starts in ${getReminderLeadMinutes(favorite)} minutes`,
  *     raceId: race.id,
  *     practiceSessionId: null,
  *     deliveryStatus: 'scheduled',
@@ -0,0 +1,27 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import type { Race } from '../../schedules/types/Race';
+import type { RaceRule } from '../types/RaceRule';
+import type { RaceRulesStore } from '../services/RaceRulesStore';
+import { useRaceRulesStore } from './useRaceRulesStore';
+
+/**
+ * Hook that tracks the auto-favorite rule matching a race
+ * Re-renders only when the matching rule changes
+ *
+ * @param race - Race to watch (undefined always returns undefined)
+ * @param store - Optional store that overrides the one from context
+ * @returns Matching auto-favorite rule, or undefined if none match
+ */
+export function useAutoFavoriteRule(
+  race: Race | undefined,
+  store?: RaceRulesStore,
+): RaceRule | undefined {
+  const rulesStore = useRaceRulesStore(store);
+
+  const getSnapshot = useCallback(
+    () => (race ? rulesStore.getAutoFavoriteRule(race) : undefined),
+    [rulesStore, race],
+  );
+
+  return useSyncExternalStore(rulesStore.subscribe, getSnapshot);
+}
@@ -0,0 +1,88 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import type { RaceRule, RuleAction, RuleCondition } from '../types/RaceRule';
+import type { RaceRulesStore } from '../services/RaceRulesStore';
+import { getSmartFilterRules } from '../utils/ruleEngine';
+import { useRaceRulesStore } from './useRaceRulesStore';
+
+/**
+ * Fields supplied when creating a rule
+ */
+export interface NewRaceRule {
+  name: string;
+  conditions: RuleCondition[];
+  action: RuleAction;
+}
+
+interface UseRaceRulesResult {
+  /**
+   * All rules, enabled or not
+   */
+  rules: RaceRule[];
+
+  /**
+   * Enabled rules shown as saved filter chips
+   */
+  smartFilterRules: RaceRule[];
+
+  /**
+   * Whether the rules are currently loading
+   */
+  isLoading: boolean;
+
+  /**
+   * Creates and saves an enabled rule
+   * @returns The saved rule
+   */
+  createRule: (rule: NewRaceRule) => Promise<RaceRule>;
+
+  /**
+   * Saves changes to an existing rule
+   */
+  updateRule: (rule: RaceRule) => Promise<void>;
+
+  /**
+   * Removes a rule
+   */
+  removeRule: (ruleId: string) => Promise<void>;
+}
+
+/**
+ * Hook for managing user-defined race rules
+ *
+ * @param store - Optional store that overrides the one from context
+ * @returns Object with rules state and management functions
+ */
+export function useRaceRules(store?: RaceRulesStore): UseRaceRulesResult {
+  const rulesStore = useRaceRulesStore(store);
+  const { rules, isLoading } = useSyncExternalStore(rulesStore.subscribe, rulesStore.getState);
+
+  const smartFilterRules = useMemo(() => getSmartFilterRules(rules), [rules]);
+
+  const createRule = useCallback(
+    async (newRule: NewRaceRule): Promise<RaceRule> => {
+      const createdAt = new Date();
+      const rule: RaceRule = {
+        ...newRule,
+        id: `rule-${createdAt.getTime().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        enabled: true,
+        createdAt,
+      };
+      await rulesStore.saveRule(rule);
+      return rule;
+    },
+    [rulesStore],
+  );
+
+  const updateRule = useCallback((rule: RaceRule) => rulesStore.saveRule(rule), [rulesStore]);
+
+  const removeRule = useCallback((ruleId: string) => rulesStore.removeRule(ruleId), [rulesStore]);
+
+  return {
+    rules,
+    smartFilterRules,
+    isLoading,
+    createRule,
+    updateRule,
+    removeRule,
+  };
+}
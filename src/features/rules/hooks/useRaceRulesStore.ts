@@ -0,0 +1,28 @@
+import { createContext, useContext, useEffect } from 'react';
+import { RaceRulesStore } from '../services/RaceRulesStore';
+import { AsyncStorageRaceRuleRepository } from '../services/AsyncStorageRaceRuleRepository';
+
+// App-wide store used when no provider supplies one
+const defaultRaceRulesStore = new RaceRulesStore(new AsyncStorageRaceRuleRepository());
+
+/**
+ * Context holding the RaceRulesStore shared by all rule hooks
+ */
+export const RaceRulesStoreContext = createContext<RaceRulesStore>(defaultRaceRulesStore);
+
+/**
+ * Gets the shared RaceRulesStore and makes sure it has been loaded
+ *
+ * @param store - Optional store that overrides the one from context
+ * @returns The RaceRulesStore
+ */
+export function useRaceRulesStore(store?: RaceRulesStore): RaceRulesStore {
+  const contextStore = useContext(RaceRulesStoreContext);
+  const resolvedStore = store ?? contextStore;
+
+  useEffect(() => {
+    resolvedStore.load();
+  }, [resolvedStore]);
+
+  return resolvedStore;
+}
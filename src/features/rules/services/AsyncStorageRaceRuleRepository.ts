@@ -0,0 +1,94 @@
+import { STORAGE_KEYS } from '../../../shared/constants/storageKeys';
+import type { KeyValueStore } from '../../../shared/storage/KeyValueStore';
+import { defaultKeyValueStore } from '../../../shared/storage/defaultKeyValueStore';
+import { createJsonCodec, readValue, writeValue } from '../../../shared/storage/jsonCodec';
+import type { RaceRule } from '../types/RaceRule';
+import { isRaceRule } from '../utils/ruleEngine';
+import type { RaceRuleRepository } from './RaceRuleRepository';
+
+/**
+ * Rules are stored as JSON; createdAt is revived as a Date
+ */
+const rulesCodec = createJsonCodec<unknown[]>({ reviveDates: true });
+
+/**
+ * AsyncStorage implementation of RaceRuleRepository
+ *
+ * Writes are queued and run one at a time, like favorites. Malformed rules
+ * in storage are skipped on read rather than failing the whole list.
+ */
+export class AsyncStorageRaceRuleRepository implements RaceRuleRepository {
+  private writes: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param store - Key-value store to persist to (default: AsyncStorage)
+   */
+  constructor(private readonly store: KeyValueStore = defaultKeyValueStore) {}
+
+  /**
+   * Gets all valid rules from storage
+   * @returns Array of rules
+   */
+  async getRules(): Promise<RaceRule[]> {
+    try {
+      const stored = await readValue(this.store, STORAGE_KEYS.RACE_RULES, rulesCodec);
+      if (!Array.isArray(stored)) {
+        return [];
+      }
+
+      const rules = stored.filter(isRaceRule);
+      if (rules.length < stored.length) {
+        console.warn(`Skipped ${stored.length - rules.length} invalid race rule(s)`);
+      }
+      return rules;
+    } catch (error) {
+      console.error('Error reading race rules from storage:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Adds a rule, or replaces the rule with the same id in place
+   * @param rule - The rule to save
+   */
+  async saveRule(rule: RaceRule): Promise<void> {
+    try {
+      await this.update(rules =>
+        rules.some(r => r.id === rule.id)
+          ? rules.map(r => (r.id === rule.id ? rule : r))
+          : [...rules, rule],
+      );
+    } catch (error) {
+      console.error('Error saving race rule to storage:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a rule
+   * @param ruleId - ID of the rule to remove
+   */
+  async removeRule(ruleId: string): Promise<void> {
+    try {
+      await this.update(rules => rules.filter(r => r.id !== ruleId));
+    } catch (error) {
+      console.error('Error removing race rule from storage:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reads, changes and writes the rules list, one update at a time
+   * @private
+   */
+  private update(change: (rules: RaceRule[]) => RaceRule[]): Promise<void> {
+    const run = async (): Promise<void> => {
+      const rules = await this.getRules();
+      await writeValue(this.store, STORAGE_KEYS.RACE_RULES, change(rules), rulesCodec);
+    };
+
+    const result = this.writes.then(run, run);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+}
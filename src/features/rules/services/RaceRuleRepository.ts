@@ -0,0 +1,24 @@
+import type { RaceRule } from '../types/RaceRule';
+
+/**
+ * Repository interface for user-defined race rules
+ */
+export interface RaceRuleRepository {
+  /**
+   * Gets all rules, in the order they were created
+   * @returns Array of rules
+   */
+  getRules(): Promise<RaceRule[]>;
+
+  /**
+   * Adds a rule, or replaces the rule with the same id
+   * @param rule - The rule to save
+   */
+  saveRule(rule: RaceRule): Promise<void>;
+
+  /**
+   * Removes a rule
+   * @param ruleId - ID of the rule to remove
+   */
+  removeRule(ruleId: string): Promise<void>;
+}
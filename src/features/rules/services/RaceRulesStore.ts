@@ -0,0 +1,127 @@
+import type { Race } from '../../schedules/types/Race';
+import type { RaceRule } from '../types/RaceRule';
+import { findAutoFavoriteRule } from '../utils/ruleEngine';
+import type { RaceRuleRepository } from './RaceRuleRepository';
+
+/**
+ * Snapshot of the rules held by a RaceRulesStore
+ */
+export interface RaceRulesState {
+  /**
+   * All rules, enabled or not
+   */
+  rules: RaceRule[];
+
+  /**
+   * Whether the rules are currently loading
+   */
+  isLoading: boolean;
+}
+
+type Listener = () => void;
+
+/**
+ * In-memory race rules shared by every screen and component
+ *
+ * Same shape as FavoritesStore: loads once, writes through to the
+ * repository, and notifies subscribers after each change.
+ */
+export class RaceRulesStore {
+  private state: RaceRulesState = { rules: [], isLoading: true };
+  private readonly listeners = new Set<Listener>();
+  private loading: Promise<void> | null = null;
+
+  /**
+   * @param repository - Repository rules are persisted to
+   */
+  constructor(private readonly repository: RaceRuleRepository) {}
+
+  /**
+   * Registers a listener called after every state change
+   * @returns Function that removes the listener
+   */
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Gets the current snapshot
+   */
+  getState = (): RaceRulesState => this.state;
+
+  /**
+   * Finds the enabled auto-favorite rule that favorites a race
+   * @param race - Race to check
+   * @returns Matching rule, or undefined if none match
+   */
+  getAutoFavoriteRule(race: Race): RaceRule | undefined {
+    return findAutoFavoriteRule(race, this.state.rules);
+  }
+
+  /**
+   * Loads rules from the repository
+   * Only the first call reads storage; later calls share its result
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFromRepository();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Adds a rule, or replaces the rule with the same id
+   * @param rule - The rule to save
+   * @throws If the repository write fails
+   */
+  async saveRule(rule: RaceRule): Promise<void> {
+    await this.repository.saveRule(rule);
+
+    const { rules } = this.state;
+    this.setState({
+      ...this.state,
+      rules: rules.some(r => r.id === rule.id)
+        ? rules.map(r => (r.id === rule.id ? rule : r))
+        : [...rules, rule],
+    });
+  }
+
+  /**
+   * Removes a rule
+   * @param ruleId - ID of the rule to remove
+   * @throws If the repository write fails
+   */
+  async removeRule(ruleId: string): Promise<void> {
+    await this.repository.removeRule(ruleId);
+
+    if (this.state.rules.some(r => r.id === ruleId)) {
+      this.setState({ ...this.state, rules: this.state.rules.filter(r => r.id !== ruleId) });
+    }
+  }
+
+  /**
+   * Reads rules into the store; an unreadable list loads as empty
+   * @private
+   */
+  private async readFromRepository(): Promise<void> {
+    try {
+      const rules = await this.repository.getRules();
+      this.setState({ rules, isLoading: false });
+    } catch (error) {
+      console.error('Error loading race rules:', error);
+      this.setState({ rules: [], isLoading: false });
+    }
+  }
+
+  /**
+   * Stores a new snapshot and notifies subscribers
+   * @private
+   */
+  private setState(state: RaceRulesState): void {
+    this.state = state;
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Race rule types
+ *
+ * A rule is a named set of conditions over Race fields. Rules either
+ * favorite every matching race automatically or show up as a saved filter
+ * chip in the FilterBar.
+ *
+ * @example
+ * ```typescript
+ * const leMansGold: RaceRule = {
+ *   id: 'rule-1',
+ *   name: 'Gold Multi-class at Le Mans',
+ *   action: 'autoFavorite',
+ *   enabled: true,
+ *   createdAt: new Date(),
+ *   conditions: [
+ *     { field: 'licenseRequirement', operator: 'is', value: 'Gold' },
+ *     { field: 'carClass', operator: 'is', value: 'Multi-class' },
+ *     { field: 'trackName', operator: 'contains', value: 'Le Mans' },
+ *   ],
+ * };
+ * ```
+ */
+
+/**
+ * Race fields that hold text or enum values
+ */
+export const RULE_TEXT_FIELDS = [
+  'type',
+  'tier',
+  'trackName',
+  'trackConfiguration',
+  'carClass',
+  'weatherCondition',
+  'timeOfDay',
+  'licenseRequirement',
+] as const;
+
+/**
+ * Race fields that hold numbers
+ */
+export const RULE_NUMBER_FIELDS = ['durationMinutes'] as const;
+
+/**
+ * What a rule does with the races it matches
+ *
+ * @description
+ * - "autoFavorite": Matching races are shown and filtered as favorites
+ * - "smartFilter": The rule appears as a saved filter chip
+ */
+export const RULE_ACTIONS = ['autoFavorite', 'smartFilter'] as const;
+
+export type RuleTextField = (typeof RULE_TEXT_FIELDS)[number];
+export type RuleNumberField = (typeof RULE_NUMBER_FIELDS)[number];
+export type RuleAction = (typeof RULE_ACTIONS)[number];
+
+/**
+ * A single test applied to one Race field
+ *
+ * @description
+ * - "is" / "isNot": Exact comparison (a null field never "is" anything)
+ * - "isOneOf": Field equals any of the values
+ * - "contains": Case-insensitive substring match, e.g. for track names
+ * - "atLeast" / "atMost": Inclusive numeric bounds
+ */
+export type RuleCondition =
+  | { field: RuleTextField; operator: 'is' | 'isNot' | 'contains'; value: string }
+  | { field: RuleTextField; operator: 'isOneOf'; values: string[] }
+  | { field: RuleNumberField; operator: 'atLeast' | 'atMost'; value: number };
+
+/**
+ * User-defined rule
+ */
+export interface RaceRule {
+  /**
+   * Unique identifier
+   */
+  id: string;
+
+  /**
+   * Name shown to the user (and on the filter chip)
+   */
+  name: string;
+
+  /**
+   * Conditions that must all match; a rule without conditions matches nothing
+   */
+  conditions: RuleCondition[];
+
+  /**
+   * What the rule does with matching races
+   */
+  action: RuleAction;
+
+  /**
+   * Disabled rules are kept but never applied
+   */
+  enabled: boolean;
+
+  /**
+   * Timestamp when the rule was created
+   */
+  createdAt: Date;
+}
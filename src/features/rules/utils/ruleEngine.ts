@@ -0,0 +1,152 @@
+/**
+ * Rule Engine
+ *
+ * Pure functions that evaluate RaceRules against races. No storage or UI
+ * access, so the same rules behave identically in hooks, services and tests.
+ */
+
+import type { Race } from '../../schedules/types/Race';
+import {
+  RULE_ACTIONS,
+  RULE_NUMBER_FIELDS,
+  RULE_TEXT_FIELDS,
+  RaceRule,
+  RuleCondition,
+} from '../types/RaceRule';
+
+/**
+ * Checks a single condition against a race
+ *
+ * @param race - Race to check
+ * @param condition - Condition to apply
+ * @returns True if the race satisfies the condition
+ *
+ * @example
+ * evaluateCondition(race, { field: 'carClass', operator: 'is', value: 'LMGT3' })
+ */
+export const evaluateCondition = (race: Race, condition: RuleCondition): boolean => {
+  switch (condition.operator) {
+    case 'is':
+      return race[condition.field] === condition.value;
+    case 'isNot':
+      return race[condition.field] !== condition.value;
+    case 'isOneOf': {
+      const value = race[condition.field];
+      return value !== null && condition.values.includes(value);
+    }
+    case 'contains': {
+      const value = race[condition.field];
+      return value !== null && value.toLowerCase().includes(condition.value.toLowerCase());
+    }
+    case 'atLeast':
+      return race[condition.field] >= condition.value;
+    case 'atMost':
+      return race[condition.field] <= condition.value;
+  }
+};
+
+/**
+ * Checks whether a race matches every condition of a rule
+ *
+ * The enabled flag is not checked here; see findAutoFavoriteRule and
+ * getSmartFilterRules for the rules that are applied.
+ *
+ * @param race - Race to check
+ * @param rule - Rule to apply
+ * @returns True if the rule has conditions and the race satisfies them all
+ */
+export const matchesRule = (race: Race, rule: RaceRule): boolean =>
+  rule.conditions.length > 0 &&
+  rule.conditions.every(condition => evaluateCondition(race, condition));
+
+/**
+ * Filters races by a rule
+ *
+ * @param races - Races to filter
+ * @param rule - Rule to apply
+ * @returns Races matching the rule
+ */
+export const filterByRule = (races: Race[], rule: RaceRule): Race[] =>
+  races.filter(race => matchesRule(race, rule));
+
+/**
+ * Finds the enabled auto-favorite rule that favorites a race
+ *
+ * @param race - Race to check
+ * @param rules - All rules
+ * @returns First matching auto-favorite rule, or undefined if none match
+ */
+export const findAutoFavoriteRule = (race: Race, rules: RaceRule[]): RaceRule | undefined =>
+  rules.find(rule => rule.enabled && rule.action === 'autoFavorite' && matchesRule(race, rule));
+
+/**
+ * Gets the rules shown as saved filter chips
+ *
+ * @param rules - All rules
+ * @returns Enabled smart filter rules, in their stored order
+ */
+export const getSmartFilterRules = (rules: RaceRule[]): RaceRule[] =>
+  rules.filter(rule => rule.enabled && rule.action === 'smartFilter');
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (values as readonly string[]).includes(value);
+
+/**
+ * Checks if a value is a well-formed RuleCondition
+ *
+ * @param value - Value to check (e.g. parsed from storage)
+ * @returns True if the value is a valid condition
+ */
+export const isRuleCondition = (value: unknown): value is RuleCondition => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const condition = value as Record<string, unknown>;
+
+  if (isOneOf(RULE_TEXT_FIELDS, condition.field)) {
+    if (condition.operator === 'isOneOf') {
+      return (
+        Array.isArray(condition.values) && condition.values.every(item => typeof item === 'string')
+      );
+    }
+    return (
+      isOneOf(['is', 'isNot', 'contains'] as const, condition.operator) &&
+      typeof condition.value === 'string'
+    );
+  }
+
+  if (isOneOf(RULE_NUMBER_FIELDS, condition.field)) {
+    return (
+      isOneOf(['atLeast', 'atMost'] as const, condition.operator) &&
+      typeof condition.value === 'number' &&
+      Number.isFinite(condition.value)
+    );
+  }
+
+  return false;
+};
+
+/**
+ * Checks if a value is a well-formed RaceRule
+ *
+ * @param value - Value to check (e.g. parsed from storage)
+ * @returns True if the value is a valid rule
+ */
+export const isRaceRule = (value: unknown): value is RaceRule => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const rule = value as Record<string, unknown>;
+
+  return (
+    typeof rule.id === 'string' &&
+    typeof rule.name === 'string' &&
+    rule.name.trim().length > 0 &&
+    Array.isArray(rule.conditions) &&
+    rule.conditions.every(isRuleCondition) &&
+    isOneOf(RULE_ACTIONS, rule.action) &&
+    typeof rule.enabled === 'boolean' &&
+    rule.createdAt instanceof Date &&
+    !isNaN(rule.createdAt.getTime())
+  );
+};
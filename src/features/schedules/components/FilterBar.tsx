@@ -2,7 +2,8 @@
  * FilterBar Component
  *
  * Button group for selecting race type filters.
- * Allows users to filter races by All, Daily, Weekly, Special, or Favorites.
+ * Allows users to filter races by All, Daily, Weekly, Special, or Favorites,
+ * followed by the user's saved smart filters.
  *
  * Features:
  * - Horizontal scrollable button group
@@ -18,14 +19,26 @@
 
 import React from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, ScrollView } from 'react-native';
-import { RaceFilter, FILTER_LABELS } from '../types/RaceFilter';
+import { RaceFilter, FilterSelection, FILTER_LABELS, SmartFilterKey } from '../types/RaceFilter';
 import { SPACING } from '../../../shared/constants/spacing';
 
+/**
+ * Saved smart filter shown as an extra chip
+ */
+export interface SmartFilterChip {
+  /** Selection value for the chip */
+  key: SmartFilterKey;
+  /** Chip label (the rule name) */
+  label: string;
+}
+
 interface FilterBarProps {
   /** Currently selected filter */
-  selectedFilter: RaceFilter;
+  selectedFilter: FilterSelection;
   /** Callback when filter is changed */
-  onFilterChange: (filter: RaceFilter) => void;
+  onFilterChange: (filter: FilterSelection) => void;
+  /** Saved smart filters, shown after the built-in filters */
+  smartFilters?: SmartFilterChip[];
 }
 
 /**
@@ -42,8 +55,21 @@ interface FilterBarProps {
 export const FilterBar: React.FC<FilterBarProps> = ({
   selectedFilter,
   onFilterChange,
+  smartFilters = [],
 }) => {
   const filters: RaceFilter[] = ['all', 'daily', 'weekly', 'special', 'favorites'];
+  const chips: Array<{ key: FilterSelection; label: string; accessibilityLabel: string }> = [
+    ...filters.map(filter => ({
+      key: filter,
+      label: FILTER_LABELS[filter],
+      accessibilityLabel: `Filter by ${FILTER_LABELS[filter]}`,
+    })),
+    ...smartFilters.map(chip => ({
+      key: chip.key,
+      label: chip.label,
+      accessibilityLabel: `Filter by saved filter ${chip.label}`,
+    })),
+  ];
 
   return (
     <View style={styles.container}>
@@ -52,18 +78,18 @@ export const FilterBar: React.FC<FilterBarProps> = ({
         showsHorizontalScrollIndicator={false}
         contentContainerStyle={styles.scrollContent}
       >
-        {filters.map((filter) => {
-          const isActive = filter === selectedFilter;
+        {chips.map(({ key, label, accessibilityLabel }) => {
+          const isActive = key === selectedFilter;
 
           return (
             <TouchableOpacity
-              key={filter}
+              key={key}
               style={[
                 styles.filterButton,
                 isActive && styles.filterButtonActive,
               ]}
-              onPress={() => onFilterChange(filter)}
-              accessibilityLabel={`Filter by ${FILTER_LABELS[filter]}`}
+              onPress={() => onFilterChange(key)}
+              accessibilityLabel={accessibilityLabel}
               accessibilityRole="button"
               accessibilityState={{ selected: isActive }}
             >
@@ -73,7 +99,7 @@ export const FilterBar: React.FC<FilterBarProps> = ({
                   isActive && styles.filterButtonTextActive,
                 ]}
               >
-                {FILTER_LABELS[filter]}
+                {label}
               </Text>
             </TouchableOpacity>
           );
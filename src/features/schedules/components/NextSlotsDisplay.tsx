@@ -0,0 +1,65 @@
+/**
+ * NextSlotsDisplay Component
+ *
+ * Shows upcoming slots for a repeating daily race.
+ *
+ * Displays:
+ * - "Next slots today: 18:40, 19:20, 20:00, 20:40" while slots remain today
+ * - "Next slot: tomorrow at 00:20" once today's last slot has started
+ *
+ * User Story 6: View Smart Scheduling for Repeating Races
+ */
+
+import React from 'react';
+import { Text, StyleSheet } from 'react-native';
+import { Race } from '../types/Race';
+import { useNextSlots } from '../hooks/useNextSlots';
+import { formatLocalTime, parseUTC } from '../../../shared/utils/dateUtils';
+import { SPACING } from '../../../shared/constants/spacing';
+
+interface NextSlotsDisplayProps {
+  /** Repeating race to expand */
+  race: Race;
+  /** Optional index for testing IDs */
+  index?: number;
+}
+
+const formatSlotTime = (startTime: string): string => formatLocalTime(parseUTC(startTime), 'HH:mm');
+
+/**
+ * NextSlotsDisplay - Upcoming slots for a daily race
+ *
+ * @example
+ * ```tsx
+ * {race.repeatInterval && <NextSlotsDisplay race={race} index={0} />}
+ * ```
+ */
+export const NextSlotsDisplay: React.FC<NextSlotsDisplayProps> = ({ race, index = 0 }) => {
+  const { today, tomorrow } = useNextSlots(race);
+
+  if (today.length > 0) {
+    return (
+      <Text style={styles.slots} testID={`race-card-${index}-next-slots`}>
+        Next slots today: {today.map(slot => formatSlotTime(slot.startTime)).join(', ')}
+      </Text>
+    );
+  }
+
+  if (tomorrow) {
+    return (
+      <Text style={styles.slots} testID={`race-card-${index}-next-slots`}>
+        Next slot: tomorrow at {formatSlotTime(tomorrow.startTime)}
+      </Text>
+    );
+  }
+
+  return null;
+};
+
+const styles = StyleSheet.create({
+  slots: {
+    fontSize: 12,
+    color: '#9ecbff',
+    marginBottom: SPACING.sm,
+  },
+});
@@ -10,6 +10,10 @@
  * - Track name, car class, and race details
  * - Live indicator for races in progress
  * - Tier badges for daily races
+ * - "Next slots today" for repeating daily races
+ * - "Time changed" badge for races rescheduled in the last refresh
+ * - Favorite star and "Follow series" toggle
+ * - Add-to-calendar button with a checkmark once added
  *
  * Requirements:
  * - Component must be <200 lines
@@ -24,12 +28,17 @@ import { formatTimeRange } from '../../../shared/utils/formatters';
 import { SPACING } from '../../../shared/constants/spacing';
 import { RACE_COLORS } from '../../../shared/constants/raceTypes';
 import { FavoriteButton } from '../../favorites/components/FavoriteButton';
+import { SeriesFavoriteButton } from '../../favorites/components/SeriesFavoriteButton';
+import { CalendarButton } from '../../calendar/components/CalendarButton';
+import { NextSlotsDisplay } from './NextSlotsDisplay';
 
 interface RaceCardProps {
   /** Race data to display */
   race: Race;
   /** Optional index for testing IDs */
   index?: number;
+  /** True if the start time changed in the last refresh */
+  timeChanged?: boolean;
 }
 
 /**
@@ -40,7 +49,7 @@ interface RaceCardProps {
  * <RaceCard race={race} index={0} />
  * ```
  */
-export const RaceCard: React.FC<RaceCardProps> = ({ race, index = 0 }) => {
+export const RaceCard: React.FC<RaceCardProps> = ({ race, index = 0, timeChanged = false }) => {
   const { countdown, isLive } = useCountdownTimer(
     race.startTime,
     race.durationMinutes
@@ -74,7 +83,9 @@ export const RaceCard: React.FC<RaceCardProps> = ({ race, index = 0 }) => {
             {race.carClass}
           </Text>
         </View>
-        <FavoriteButton raceId={race.id} />
+        <SeriesFavoriteButton race={race} />
+        <CalendarButton race={race} />
+        <FavoriteButton raceId={race.id} race={race} />
       </View>
 
       {/* Track configuration (if exists) */}
@@ -103,6 +114,11 @@ export const RaceCard: React.FC<RaceCardProps> = ({ race, index = 0 }) => {
         </Text>
       </View>
 
+      {/* Next slots (repeating daily races) */}
+      {race.type === 'daily' && race.repeatInterval !== null && (
+        <NextSlotsDisplay race={race} index={index} />
+      )}
+
       {/* Bottom row: Details */}
       <View style={styles.bottomRow}>
         {/* Race type badge */}
@@ -124,6 +140,13 @@ export const RaceCard: React.FC<RaceCardProps> = ({ race, index = 0 }) => {
           </View>
         )}
 
+        {/* Rescheduled badge */}
+        {timeChanged && (
+          <View style={styles.timeChangedBadge} testID={`race-card-${index}-time-changed`}>
+            <Text style={styles.timeChangedText}>Time changed</Text>
+          </View>
+        )}
+
         {/* Weather */}
         <Text style={styles.detail}>{race.weatherCondition}</Text>
 
@@ -224,6 +247,17 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#ffffff',
   },
+  timeChangedBadge: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    backgroundColor: '#f59e0b',
+  },
+  timeChangedText: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: '#000000',
+  },
   detail: {
     fontSize: 11,
     color: '#999999',
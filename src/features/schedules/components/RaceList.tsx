@@ -8,18 +8,13 @@
  * - FlatList virtualization for performance
  * - Window size optimization (renders 10 items ahead/behind)
  * - Pull-to-refresh support
+ * - Load-more on scroll with a footer spinner
  * - Empty state handling
  * - Automatic sorting by start time
  */
 
 import React from 'react';
-import {
-  FlatList,
-  RefreshControl,
-  View,
-  Text,
-  StyleSheet,
-} from 'react-native';
+import { FlatList, RefreshControl, ActivityIndicator, View, Text, StyleSheet } from 'react-native';
 import { Race } from '../types/Race';
 import { RaceCard } from './RaceCard';
 import { SPACING } from '../../../shared/constants/spacing';
@@ -31,6 +26,12 @@ interface RaceListProps {
   onRefresh?: () => void;
   /** True when refreshing */
   refreshing?: boolean;
+  /** IDs of races whose start time changed in the last refresh */
+  timeChangedIds?: ReadonlySet<string>;
+  /** Called when the list is scrolled near its end */
+  onEndReached?: () => void;
+  /** True while more races are loading */
+  loadingMore?: boolean;
 }
 
 /**
@@ -67,12 +68,15 @@ export const RaceList: React.FC<RaceListProps> = ({
   races,
   onRefresh,
   refreshing = false,
+  timeChangedIds,
+  onEndReached,
+  loadingMore = false,
 }) => {
   /**
    * Renders a single race card
    */
   const renderItem = ({ item, index }: { item: Race; index: number }) => (
-    <RaceCard race={item} index={index} />
+    <RaceCard race={item} index={index} timeChanged={timeChangedIds?.has(item.id)} />
   );
 
   /**
@@ -85,6 +89,13 @@ export const RaceList: React.FC<RaceListProps> = ({
    */
   const ItemSeparator = () => <View style={styles.separator} />;
 
+  /**
+   * Footer spinner shown while the next window loads
+   */
+  const LoadingFooter = loadingMore ? (
+    <ActivityIndicator style={styles.footer} color="#ffffff" testID="race-list-loading-more" />
+  ) : null;
+
   return (
     <FlatList
       data={races}
@@ -92,6 +103,7 @@ export const RaceList: React.FC<RaceListProps> = ({
       keyExtractor={keyExtractor}
       ItemSeparatorComponent={ItemSeparator}
       ListEmptyComponent={EmptyState}
+      ListFooterComponent={LoadingFooter}
       contentContainerStyle={[
         styles.contentContainer,
         races.length === 0 && styles.emptyContainer,
@@ -107,6 +119,9 @@ export const RaceList: React.FC<RaceListProps> = ({
           />
         ) : undefined
       }
+      // Load more when within half a screen of the end
+      onEndReached={onEndReached}
+      onEndReachedThreshold={0.5}
       // Performance optimizations
       windowSize={10} // Render 10 screens worth of content
       maxToRenderPerBatch={10} // Render 10 items per batch
@@ -129,6 +144,9 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  footer: {
+    paddingVertical: SPACING.md,
+  },
   separator: {
     height: 0, // No separator needed, cards have their own margin
   },
@@ -0,0 +1,58 @@
+/**
+ * useNextSlots Hook
+ *
+ * Provides the remaining slots today for a repeating race.
+ * Recalculates every 60 seconds so past slots drop off and the list rolls
+ * over to tomorrow after midnight.
+ */
+
+import { useState, useEffect } from 'react';
+import { Race } from '../types/Race';
+import { DailySlots } from '../types/RaceOccurrence';
+import { RaceRecurrence, DEFAULT_NEXT_SLOT_COUNT } from '../services/RaceRecurrence';
+
+/**
+ * Shared recurrence service using the device timezone
+ */
+const defaultRecurrence = new RaceRecurrence();
+
+/**
+ * Hook for "Next slots today"
+ *
+ * @param race - Repeating race
+ * @param count - Maximum number of slots to show (default: 4)
+ * @param recurrence - Optional recurrence service (for testing)
+ * @returns Today's remaining slots, or tomorrow's first slot
+ *
+ * @example
+ * ```tsx
+ * const { today, tomorrow } = useNextSlots(race);
+ * ```
+ */
+export function useNextSlots(
+  race: Race,
+  count: number = DEFAULT_NEXT_SLOT_COUNT,
+  recurrence: RaceRecurrence = defaultRecurrence,
+): DailySlots {
+  const [slots, setSlots] = useState<DailySlots>(() =>
+    recurrence.getDailySlots(race, new Date(), count),
+  );
+
+  useEffect(() => {
+    const updateSlots = () => {
+      setSlots(recurrence.getDailySlots(race, new Date(), count));
+    };
+
+    // Update immediately when the race changes
+    updateSlots();
+
+    // Update every 60 seconds
+    const intervalId = setInterval(updateSlots, 60000);
+
+    return () => {
+      clearInterval(intervalId);
+    };
+  }, [race, count, recurrence]);
+
+  return slots;
+}
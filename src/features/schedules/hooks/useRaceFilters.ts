@@ -8,9 +8,10 @@
  */
 
 import { useState, useEffect, useCallback } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { RaceFilter, isValidRaceFilter } from '../types/RaceFilter';
+import { FilterSelection, isValidFilterSelection } from '../types/RaceFilter';
 import { STORAGE_KEYS } from '../../../shared/constants/storageKeys';
+import { KeyValueStore } from '../../../shared/storage/KeyValueStore';
+import { defaultKeyValueStore } from '../../../shared/storage/defaultKeyValueStore';
 
 /**
  * Hook for managing race filter selection with persistence
@@ -23,19 +24,22 @@ import { STORAGE_KEYS } from '../../../shared/constants/storageKeys';
  * // Change filter
  * setSelectedFilter('daily');
  *
+ * // Select a saved smart filter
+ * setSelectedFilter(toSmartFilterKey(rule.id));
+ *
  * // Filter is automatically persisted to AsyncStorage
  */
-export const useRaceFilters = () => {
-  const [selectedFilter, setSelectedFilterState] = useState<RaceFilter>('all');
+export const useRaceFilters = (store: KeyValueStore = defaultKeyValueStore) => {
+  const [selectedFilter, setSelectedFilterState] = useState<FilterSelection>('all');
   const [isLoading, setIsLoading] = useState(true);
 
   // Load persisted filter on mount
   useEffect(() => {
     const loadPersistedFilter = async () => {
       try {
-        const storedFilter = await AsyncStorage.getItem(STORAGE_KEYS.SELECTED_FILTER);
+        const storedFilter = await store.getItem(STORAGE_KEYS.SELECTED_FILTER);
 
-        if (storedFilter && isValidRaceFilter(storedFilter)) {
+        if (storedFilter && isValidFilterSelection(storedFilter)) {
           setSelectedFilterState(storedFilter);
         }
       } catch (error) {
@@ -47,25 +51,28 @@ export const useRaceFilters = () => {
     };
 
     loadPersistedFilter();
-  }, []);
+  }, [store]);
 
   /**
    * Set the selected filter and persist it to AsyncStorage
    *
    * @param filter - The new filter to apply
    */
-  const setSelectedFilter = useCallback(async (filter: RaceFilter) => {
-    try {
-      // Update state immediately for responsive UI
-      setSelectedFilterState(filter);
+  const setSelectedFilter = useCallback(
+    async (filter: FilterSelection) => {
+      try {
+        // Update state immediately for responsive UI
+        setSelectedFilterState(filter);
 
-      // Persist to AsyncStorage in background
-      await AsyncStorage.setItem(STORAGE_KEYS.SELECTED_FILTER, filter);
-    } catch (error) {
-      console.error('Failed to persist filter:', error);
-      // State is still updated even if persistence fails
-    }
-  }, []);
+        // Persist to AsyncStorage in background
+        await store.setItem(STORAGE_KEYS.SELECTED_FILTER, filter);
+      } catch (error) {
+        console.error('Failed to persist filter:', error);
+        // State is still updated even if persistence fails
+      }
+    },
+    [store],
+  );
 
   return {
     selectedFilter,
@@ -6,20 +6,50 @@
  *
  * Features:
  * - Loads from AsyncStorage cache
- * - Automatic refresh when data is stale (>24h)
+ * - Automatic refresh when data is stale (past metadata.validUntil, or 24h without metadata)
+ * - Freshness status (fresh / stale / expired) for the header indicator
  * - Manual refresh via pull-to-refresh
  * - Loading and refreshing states
- * - Sample data loading for MVP
+ * - Warning when some races fail validation (the rest are still shown)
+ * - Sample data loading for MVP, or a RemoteScheduleRepository when provided
+ * - Conditional refresh: a 304 from the API keeps the current races on screen
+ * - Diff against the previous cache so changed races can be flagged after refresh
+ * - Loads further 7-day windows on demand (remote source only)
+ * - Silent background refresh when the app opens or returns to the foreground
+ *   with a stale cache (FR-028); the stale cache stays on screen meanwhile
+ * - Calendar events of added races follow each fresh schedule (FR-036)
+ * - Favorites whose race changed ID are re-linked after each fresh schedule
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Race } from '../types/Race';
 import { AsyncStorageScheduleRepository } from '../services/AsyncStorageScheduleRepository';
-import { RaceDataParser } from '../services/RaceDataParser';
+import { ScheduleCache } from '../services/ScheduleRepository';
+import { RemoteScheduleRepository } from '../services/RemoteScheduleRepository';
+import { RaceDataParser, LenientParseResult } from '../services/RaceDataParser';
+import { ScheduleDiff } from '../services/ScheduleDiff';
+import { ScheduleWindowService } from '../services/ScheduleWindowService';
+import { AppStateSource, ScheduleRefreshCoordinator } from '../services/ScheduleRefreshCoordinator';
+import { ScheduleDiffResult } from '../types/ScheduleChange';
+import { ParsedSchedule } from '../types/ScheduleResponse';
+import { ScheduleFreshness } from '../types/ScheduleFreshness';
+import { useCalendarService } from '../../calendar/hooks/useCalendarService';
+import { useFavoritesStore } from '../../favorites/hooks/useFavoritesStore';
 
 // Import sample data
 import { sampleRaces } from '../../../data/sampleRaces';
 
+/**
+ * Sorts races by start time (earliest first)
+ */
+const sortByStartTime = (races: Race[]): Race[] =>
+  [...races].sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+
+// Stateless services shared across renders
+const parser = new RaceDataParser();
+const scheduleDiff = new ScheduleDiff();
+const defaultRepository = new AsyncStorageScheduleRepository();
+
 /**
  * Hook return type
  */
@@ -32,21 +62,38 @@ interface UseRaceScheduleResult {
   isRefreshing: boolean;
   /** Error message if load/refresh failed */
   error: string | null;
+  /** Warning message if some races were skipped (e.g. "2 races could not be loaded") */
+  warning: string | null;
   /** Timestamp of last successful data update */
   lastUpdated: Date | null;
+  /** Changes between the previous cache and the last fresh load (null if there was no cache) */
+  lastDiff: ScheduleDiffResult | null;
+  /** Freshness of the cached schedule (null until the first load completes) */
+  freshness: ScheduleFreshness | null;
   /** Function to manually refresh schedule */
   refresh: () => Promise<void>;
+  /** True while the next schedule window is loading */
+  isLoadingMore: boolean;
+  /** False once no further windows can be loaded */
+  hasMore: boolean;
+  /** Loads the next schedule window (e.g. from RaceList onEndReached) */
+  loadMore: () => Promise<void>;
 }
 
 /**
  * Hook for managing race schedule data
  *
+ * @param remoteRepository - Optional API source (defaults to bundled sample data)
+ * @param appState - Optional AppState for foreground refresh (defaults to React Native AppState)
+ * @param repository - Local schedule cache (defaults to AsyncStorage); pass the
+ *   same cache the remote repository was created with
  * @returns Race schedule state and refresh function
  *
  * @example
  * ```tsx
  * function ScheduleScreen() {
- *   const { races, isLoading, isRefreshing, refresh } = useRaceSchedule();
+ *   const { remote, cache } = useScheduleSource();
+ *   const { races, isLoading, isRefreshing, refresh } = useRaceSchedule(remote, undefined, cache);
  *
  *   if (isLoading) {
  *     return <SkeletonLoader />;
@@ -62,87 +109,182 @@ interface UseRaceScheduleResult {
  * }
  * ```
  */
-export function useRaceSchedule(): UseRaceScheduleResult {
+export function useRaceSchedule(
+  remoteRepository?: RemoteScheduleRepository,
+  appState?: AppStateSource,
+  repository: ScheduleCache = defaultRepository,
+): UseRaceScheduleResult {
   const [races, setRaces] = useState<Race[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [warning, setWarning] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [lastDiff, setLastDiff] = useState<ScheduleDiffResult | null>(null);
+  const [freshness, setFreshness] = useState<ScheduleFreshness | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(Boolean(remoteRepository));
+  const loadingMoreRef = useRef(false);
+  const calendarService = useCalendarService();
+  const favoritesStore = useFavoritesStore();
 
-  const repository = new AsyncStorageScheduleRepository();
-  const parser = new RaceDataParser();
+  // Windowed loading needs the API; sample data is a single fixed schedule
+  const windowService = useMemo(
+    () =>
+      remoteRepository ? new ScheduleWindowService(remoteRepository, { cache: repository }) : null,
+    [remoteRepository, repository],
+  );
 
   /**
    * Loads schedule from sample data (MVP implementation)
-   * In future, this would fetch from API
+   * Runs the sample through the lenient parser so isLive is recomputed
    */
-  const loadSampleData = useCallback(async (): Promise<Race[]> => {
+  const loadSampleData = useCallback(async (): Promise<ParsedSchedule> => {
     try {
-      // Sample data is already typed, just sort and return
-      const sortedRaces = [...sampleRaces].sort((a, b) => {
-        return new Date(a.startTime).getTime() - new Date(b.startTime).getTime();
-      });
-
-      return sortedRaces;
+      const { races: sample, diagnostics }: LenientParseResult = parser.parseLenient(sampleRaces);
+      return { races: sample, metadata: null, diagnostics };
     } catch (err) {
       throw new Error(`Failed to load sample data: ${(err as Error).message}`);
     }
   }, []);
 
   /**
-   * Loads schedule data from cache or sample data
+   * Loads fresh races from the remote API when configured, else sample data,
+   * and saves them to the cache
+   * Races are sorted by start time; skipped races are reported as a warning
+   * Returns null when the API reports the cached schedule is unchanged (304)
    */
-  const loadSchedule = useCallback(async (isManualRefresh = false) => {
-    try {
-      if (isManualRefresh) {
-        setIsRefreshing(true);
-      } else {
-        setIsLoading(true);
+  const loadFreshData = useCallback(async (): Promise<Race[] | null> => {
+    let parsed: ParsedSchedule;
+
+    if (remoteRepository) {
+      // Conditional request; the remote repository updates the cache itself
+      const result = await remoteRepository.refreshSchedule();
+      if (result.status === 'not-modified') {
+        return null;
       }
-      setError(null);
-
-      // Check if cached data exists and is fresh
-      const cached = await repository.getCachedSchedule();
-      const isStale = await repository.isStale();
-      const lastUpdatedTime = await repository.getLastUpdated();
-
-      if (cached && !isStale && !isManualRefresh) {
-        // Use cached data if fresh and not manually refreshing
-        setRaces(cached);
-        setLastUpdated(lastUpdatedTime);
-      } else {
-        // Load sample data (or fetch from API in future)
-        const freshRaces = await loadSampleData();
-
-        // Save to cache
-        await repository.saveSchedule(freshRaces);
-
-        // Update state
-        setRaces(freshRaces);
-        const newLastUpdated = await repository.getLastUpdated();
-        setLastUpdated(newLastUpdated);
+      parsed = result.schedule;
+
+      // The refresh replaced the cache, so windows merged into it are gone
+      await windowService?.reset();
+      setHasMore(true);
+    } else {
+      parsed = await loadSampleData();
+      await repository.saveSchedule(parsed.races, parsed.metadata);
+    }
+
+    const { races: freshRaces, diagnostics } = parsed;
+    const rejectedCount = diagnostics?.rejected.length ?? 0;
+    if (rejectedCount > 0) {
+      console.warn('Skipped invalid races:', diagnostics?.rejected);
+      setWarning(`${rejectedCount} race${rejectedCount === 1 ? '' : 's'} could not be loaded`);
+    }
+
+    return sortByStartTime(freshRaces);
+  }, [remoteRepository, repository, windowService, loadSampleData]);
+
+  /**
+   * Loads fresh data and puts it on screen, diffed against the previous cache
+   * Throws on failure so the refresh coordinator can back off
+   */
+  const applyFreshData = useCallback(async () => {
+    const cached = await repository.getCachedSchedule();
+    const freshRaces = await loadFreshData();
+
+    if (freshRaces) {
+      setRaces(freshRaces);
+      setLastDiff(cached ? scheduleDiff.diff(cached, freshRaces) : null);
+
+      if (cached) {
+        // Favorites stay as they were if re-linking fails
+        favoritesStore
+          .mergeSchedule(cached, freshRaces)
+          .catch(err => console.error('Failed to merge favorites:', err));
       }
-    } catch (err) {
-      const errorMessage = (err as Error).message;
-      setError(errorMessage);
-      console.error('Failed to load schedule:', err);
 
-      // On error, try to use cached data as fallback
+      // A calendar failure must not fail the schedule refresh
+      calendarService
+        .reconcile(freshRaces)
+        .catch(err => console.error('Failed to sync calendar events:', err));
+    } else if (cached) {
+      // Not modified: keep what is on screen, only show the cache if nothing is yet
+      setRaces(current => (current.length > 0 ? current : sortByStartTime(cached)));
+    }
+    setLastUpdated(await repository.getLastUpdated());
+    setFreshness(await repository.getFreshness());
+  }, [repository, loadFreshData, calendarService, favoritesStore]);
+
+  // Shares one in-flight refresh between mount, foreground and pull-to-refresh
+  const coordinator = useMemo(
+    () =>
+      new ScheduleRefreshCoordinator(
+        { isStale: () => repository.isStale(), refresh: applyFreshData },
+        { appState },
+      ),
+    [repository, applyFreshData, appState],
+  );
+
+  /**
+   * Loads schedule data from cache or the fresh data source
+   */
+  const loadSchedule = useCallback(
+    async (isManualRefresh = false) => {
       try {
+        if (isManualRefresh) {
+          setIsRefreshing(true);
+        } else {
+          setIsLoading(true);
+        }
+        setError(null);
+        setWarning(null);
+
+        // Drop windows that are entirely in the past before reading the cache
+        await windowService?.evictPastWindows();
+
+        // Check if cached data exists and is fresh
         const cached = await repository.getCachedSchedule();
-        if (cached) {
-          setRaces(cached);
-          const cachedLastUpdated = await repository.getLastUpdated();
-          setLastUpdated(cachedLastUpdated);
+        const cachedFreshness = await repository.getFreshness();
+        const lastUpdatedTime = await repository.getLastUpdated();
+
+        if (cached && cachedFreshness.status === 'fresh' && !isManualRefresh) {
+          // Use cached data if fresh and not manually refreshing
+          setRaces(sortByStartTime(cached));
+          setLastUpdated(lastUpdatedTime);
+          setFreshness(cachedFreshness);
+        } else if (cached && !isManualRefresh) {
+          // Show the stale cache instead of the skeleton and refresh in the background
+          setRaces(sortByStartTime(cached));
+          setLastUpdated(lastUpdatedTime);
+          setFreshness(cachedFreshness);
+          coordinator.refreshIfStale();
+        } else {
+          // Load from API if configured, otherwise sample data
+          await coordinator.refreshNow();
         }
-      } catch (fallbackErr) {
-        console.error('Failed to load cached data as fallback:', fallbackErr);
+      } catch (err) {
+        const errorMessage = (err as Error).message;
+        setError(errorMessage);
+        console.error('Failed to load schedule:', err);
+
+        // On error, try to use cached data as fallback
+        try {
+          const cached = await repository.getCachedSchedule();
+          if (cached) {
+            setRaces(cached);
+            const cachedLastUpdated = await repository.getLastUpdated();
+            setLastUpdated(cachedLastUpdated);
+            setFreshness(await repository.getFreshness());
+          }
+        } catch (fallbackErr) {
+          console.error('Failed to load cached data as fallback:', fallbackErr);
+        }
+      } finally {
+        setIsLoading(false);
+        setIsRefreshing(false);
       }
-    } finally {
-      setIsLoading(false);
-      setIsRefreshing(false);
-    }
-  }, [loadSampleData]);
+    },
+    [repository, coordinator, windowService],
+  );
 
   /**
    * Manual refresh function for pull-to-refresh
@@ -151,6 +293,30 @@ export function useRaceSchedule(): UseRaceScheduleResult {
     await loadSchedule(true);
   }, [loadSchedule]);
 
+  /**
+   * Loads the next schedule window and merges it into the list
+   * Concurrent calls (e.g. repeated onEndReached) are ignored
+   */
+  const loadMore = useCallback(async () => {
+    if (!windowService || !hasMore || loadingMoreRef.current) {
+      return;
+    }
+
+    loadingMoreRef.current = true;
+    setIsLoadingMore(true);
+    try {
+      const result = await windowService.loadNextWindow();
+      setRaces(sortByStartTime(result.races));
+      setHasMore(result.hasMore);
+    } catch (err) {
+      console.error('Failed to load more races:', err);
+      setError((err as Error).message);
+    } finally {
+      loadingMoreRef.current = false;
+      setIsLoadingMore(false);
+    }
+  }, [windowService, hasMore]);
+
   /**
    * Load schedule on mount
    */
@@ -158,12 +324,26 @@ export function useRaceSchedule(): UseRaceScheduleResult {
     loadSchedule();
   }, [loadSchedule]);
 
+  /**
+   * Refresh a stale schedule whenever the app returns to the foreground
+   */
+  useEffect(() => {
+    coordinator.start();
+    return () => coordinator.stop();
+  }, [coordinator]);
+
   return {
     races,
     isLoading,
     isRefreshing,
     error,
+    warning,
     lastUpdated,
+    lastDiff,
+    freshness,
     refresh,
+    isLoadingMore,
+    hasMore,
+    loadMore,
   };
 }
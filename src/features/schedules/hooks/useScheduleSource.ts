@@ -0,0 +1,49 @@
+import { createContext, useContext } from 'react';
+import { getScheduleApiBaseUrl } from '../../../shared/constants/apiEndpoints';
+import { AsyncStorageScheduleRepository } from '../services/AsyncStorageScheduleRepository';
+import { RemoteScheduleRepository } from '../services/RemoteScheduleRepository';
+import { ScheduleCache } from '../services/ScheduleRepository';
+
+/**
+ * Where the schedule comes from: the API (if configured) and the cache it
+ * writes to
+ */
+export interface ScheduleSource {
+  /** API repository; refreshes and windows are saved to `cache`. Unset means sample data */
+  remote?: RemoteScheduleRepository;
+  /** Local cache shared with the remote repository */
+  cache: ScheduleCache;
+}
+
+/**
+ * Creates a schedule source whose remote repository writes to the given cache
+ *
+ * @param baseUrl - API base URL, or null for sample data (default: getScheduleApiBaseUrl())
+ * @param cache - Local schedule cache (default: AsyncStorage)
+ * @returns The remote repository, if any, and its cache
+ */
+export function createScheduleSource(
+  baseUrl: string | null = getScheduleApiBaseUrl(),
+  cache: ScheduleCache = new AsyncStorageScheduleRepository(),
+): ScheduleSource {
+  return baseUrl ? { remote: new RemoteScheduleRepository({ baseUrl, cache }), cache } : { cache };
+}
+
+// App-wide source used when no provider supplies one
+const defaultScheduleSource = createScheduleSource();
+
+/**
+ * Context holding the ScheduleSource shared by the schedule screens
+ */
+export const ScheduleSourceContext = createContext<ScheduleSource>(defaultScheduleSource);
+
+/**
+ * Gets the shared ScheduleSource
+ *
+ * @param source - Optional source that overrides the one from context
+ * @returns The ScheduleSource
+ */
+export function useScheduleSource(source?: ScheduleSource): ScheduleSource {
+  const contextSource = useContext(ScheduleSourceContext);
+  return source ?? contextSource;
+}
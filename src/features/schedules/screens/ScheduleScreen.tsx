@@ -4,9 +4,17 @@
  * Primary screen of the app displaying race schedule with:
  * - Skeleton loading during initial load (<5s target)
  * - Pull-to-refresh functionality
- * - "Last updated" indicator
+ * - "Last updated" indicator with cache freshness (fresh / stale / expired)
  * - Real-time countdown timers
  * - Color-coded race type indicators
+ * - Warning banner when some races could not be loaded
+ * - Saved smart filter chips; auto-favorite rules count as favorites
+ * - Review prompt for favorites whose race changed ID
+ * - Favorites export/import on the Favorites filter
+ * - Report of calendar events changed by the last refresh
+ * - Calendar settings button in the header (when the device has a calendar)
+ * - "Share as .ics" for the filtered list
+ * - Schedule from the API once configured (useScheduleSource); more races load on scroll
  *
  * User Story 1: View Today's Race Schedule
  * Success Criteria: Display schedule within 5 seconds with skeleton loading
@@ -21,13 +29,34 @@ import {
   StatusBar,
 } from 'react-native';
 import { useRaceSchedule } from '../hooks/useRaceSchedule';
+import { useScheduleSource } from '../hooks/useScheduleSource';
 import { useRaceFilters } from '../hooks/useRaceFilters';
 import { useFavorites } from '../../favorites/hooks/useFavorites';
+import { PendingRelinkReview } from '../../favorites/components/PendingRelinkReview';
+import { FavoritesBackupBar } from '../../favorites/components/FavoritesBackupBar';
+import { FavoriteDetailsEditorHost } from '../../favorites/components/FavoriteDetailsEditorHost';
+import { CalendarSyncReportCard } from '../../calendar/components/CalendarSyncReportCard';
+import { ShareIcsButton } from '../../calendar/components/ShareIcsButton';
+import { CalendarSettingsButton } from '../../calendar/components/CalendarSettingsButton';
+import { useRaceRules } from '../../rules/hooks/useRaceRules';
+import { filterByRule, findAutoFavoriteRule } from '../../rules/utils/ruleEngine';
 import { SkeletonLoader } from '../components/SkeletonLoader';
 import { RaceList } from '../components/RaceList';
-import { FilterBar } from '../components/FilterBar';
+import { FilterBar, SmartFilterChip } from '../components/FilterBar';
 import { applyFilter } from '../utils/raceFilters';
+import { isSmartFilterKey, toSmartFilterKey } from '../types/RaceFilter';
 import { SPACING } from '../../../shared/constants/spacing';
+import { formatDuration } from '../../../shared/utils/formatters';
+import { FreshnessStatus, ScheduleFreshness } from '../types/ScheduleFreshness';
+
+/**
+ * Header indicator colors per freshness status
+ */
+const FRESHNESS_COLORS: Record<FreshnessStatus, string> = {
+  fresh: '#4CAF50',
+  stale: '#f59e0b',
+  expired: '#ff4444',
+};
 
 /**
  * Formats last updated time as relative string
@@ -56,6 +85,20 @@ const formatLastUpdated = (lastUpdated: Date | null): string => {
   }
 };
 
+/**
+ * Formats cache freshness for the header
+ * @param freshness - Freshness of the cached schedule
+ * @returns Formatted string (e.g., "Valid for 5h 20m", "Out of date")
+ */
+const formatFreshness = (freshness: ScheduleFreshness): string => {
+  if (freshness.status === 'fresh' && freshness.staleAt) {
+    const minutes = Math.max(1, Math.ceil((freshness.staleAt.getTime() - Date.now()) / 60000));
+    return `Valid for ${formatDuration(minutes)}`;
+  }
+
+  return freshness.status === 'stale' ? 'Out of date' : 'Expired - pull to refresh';
+};
+
 /**
  * ScheduleScreen - Main screen component
  *
@@ -70,14 +113,20 @@ const formatLastUpdated = (lastUpdated: Date | null): string => {
  * ```
  */
 export const ScheduleScreen: React.FC = () => {
+  const scheduleSource = useScheduleSource();
   const {
     races,
     isLoading,
     isRefreshing,
     error,
+    warning,
     lastUpdated,
+    lastDiff,
+    freshness,
     refresh,
-  } = useRaceSchedule();
+    isLoadingMore,
+    loadMore,
+  } = useRaceSchedule(scheduleSource.remote, undefined, scheduleSource.cache);
 
   const {
     selectedFilter,
@@ -85,13 +134,41 @@ export const ScheduleScreen: React.FC = () => {
     isLoading: isFilterLoading,
   } = useRaceFilters();
 
-  const { favorites } = useFavorites();
+  const { isRaceFavorited } = useFavorites();
+  const { rules, smartFilterRules } = useRaceRules();
 
-  // Filter races based on selected filter
+  const smartFilters = useMemo<SmartFilterChip[]>(
+    () => smartFilterRules.map(rule => ({ key: toSmartFilterKey(rule.id), label: rule.name })),
+    [smartFilterRules],
+  );
+
+  // A saved smart filter that no longer exists falls back to all races
+  const activeRule = useMemo(
+    () => smartFilterRules.find(rule => toSmartFilterKey(rule.id) === selectedFilter),
+    [smartFilterRules, selectedFilter],
+  );
+  const effectiveFilter = isSmartFilterKey(selectedFilter) && !activeRule ? 'all' : selectedFilter;
+
+  // Filter races based on selected filter (series and auto-favorite rules count as favorites)
   const filteredRaces = useMemo(() => {
-    const favoriteIds = favorites.map(f => f.raceId);
-    return applyFilter(races, selectedFilter, favoriteIds);
-  }, [races, selectedFilter, favorites]);
+    if (activeRule) {
+      return filterByRule(races, activeRule);
+    }
+    const favoriteIds = races
+      .filter(race => isRaceFavorited(race) || findAutoFavoriteRule(race, rules) !== undefined)
+      .map(race => race.id);
+    return applyFilter(
+      races,
+      isSmartFilterKey(effectiveFilter) ? 'all' : effectiveFilter,
+      favoriteIds,
+    );
+  }, [races, effectiveFilter, activeRule, isRaceFavorited, rules]);
+
+  // Races rescheduled in the last refresh get a "Time changed" badge
+  const timeChangedIds = useMemo(
+    () => new Set(lastDiff?.rescheduled.map(change => change.raceId) ?? []),
+    [lastDiff],
+  );
 
   // Show skeleton loader during initial load
   if (isLoading) {
@@ -121,6 +198,15 @@ export const ScheduleScreen: React.FC = () => {
             {formatLastUpdated(lastUpdated)}
           </Text>
         )}
+        {freshness && (
+          <Text
+            style={[styles.freshness, { color: FRESHNESS_COLORS[freshness.status] }]}
+            testID="freshness-indicator"
+          >
+            {formatFreshness(freshness)}
+          </Text>
+        )}
+        <CalendarSettingsButton />
       </View>
 
       {/* Error banner */}
@@ -132,18 +218,43 @@ export const ScheduleScreen: React.FC = () => {
         </View>
       )}
 
+      {/* Warning banner (partial data) */}
+      {warning && (
+        <View style={styles.warningBanner} testID="schedule-warning">
+          <Text style={styles.warningText}>{warning}</Text>
+        </View>
+      )}
+
+      {/* Calendar events changed by the last refresh */}
+      <CalendarSyncReportCard />
+
+      {/* Favorites waiting for the user to pick their new race */}
+      <PendingRelinkReview races={races} />
+
       {/* Filter bar */}
       <FilterBar
-        selectedFilter={selectedFilter}
+        selectedFilter={effectiveFilter}
         onFilterChange={setSelectedFilter}
+        smartFilters={smartFilters}
       />
 
-      {/* Race list with pull-to-refresh */}
-      <RaceList
-        races={filteredRaces}
-        onRefresh={refresh}
-        refreshing={isRefreshing}
-      />
+      {/* Calendar file of the races in the current filter */}
+      <ShareIcsButton races={filteredRaces} />
+
+      {/* Backup actions while viewing favorites */}
+      {effectiveFilter === 'favorites' && <FavoritesBackupBar />}
+
+      {/* Race list with pull-to-refresh; long-pressed stars share one details editor */}
+      <FavoriteDetailsEditorHost>
+        <RaceList
+          races={filteredRaces}
+          onRefresh={refresh}
+          refreshing={isRefreshing}
+          timeChangedIds={timeChangedIds}
+          onEndReached={loadMore}
+          loadingMore={isLoadingMore}
+        />
+      </FavoriteDetailsEditorHost>
     </SafeAreaView>
   );
 };
@@ -169,6 +280,10 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#999999',
   },
+  freshness: {
+    fontSize: 12,
+    marginTop: 2,
+  },
   errorBanner: {
     backgroundColor: '#ff4444',
     paddingHorizontal: SPACING.md,
@@ -179,4 +294,14 @@ const styles = StyleSheet.create({
     color: '#ffffff',
     fontWeight: '600',
   },
+  warningBanner: {
+    backgroundColor: '#f59e0b',
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+  },
+  warningText: {
+    fontSize: 13,
+    color: '#000000',
+    fontWeight: '600',
+  },
 });
@@ -2,30 +2,74 @@
  * AsyncStorage implementation of ScheduleRepository
  *
  * Stores schedule data in React Native AsyncStorage for offline-first functionality.
- * Handles serialization/deserialization and cache staleness detection.
+ * Handles serialization/deserialization and cache freshness detection.
+ * The key-value store can be injected (e.g. MemoryKeyValueStore in tests).
  *
  * @see ScheduleRepository for interface documentation
  */
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Race } from '../types/Race';
-import { ScheduleRepository } from './ScheduleRepository';
+import { CacheValidators, ScheduleMetadata } from '../types/ScheduleResponse';
+import { ScheduleFreshness } from '../types/ScheduleFreshness';
+import { ScheduleCache } from './ScheduleRepository';
 import { STORAGE_KEYS } from '../../../shared/constants/storageKeys';
+import { KeyValueStore } from '../../../shared/storage/KeyValueStore';
+import { defaultKeyValueStore } from '../../../shared/storage/defaultKeyValueStore';
+import { normalizeCachedRaces } from '../utils/legacyRaceAdapter';
+import {
+  DEFAULT_FALLBACK_TTL_MS,
+  DEFAULT_STALE_GRACE_MS,
+  computeFreshness,
+  hasValidators,
+  parseStoredMetadata,
+  parseStoredValidators,
+} from '../utils/scheduleFreshness';
+
+export { DEFAULT_FALLBACK_TTL_MS, DEFAULT_STALE_GRACE_MS };
+
+/**
+ * Constructor options for AsyncStorageScheduleRepository
+ */
+export interface AsyncStorageScheduleRepositoryOptions {
+  /**
+   * Store the schedule is kept in (default: AsyncStorage)
+   */
+  store?: KeyValueStore;
+
+  /**
+   * Freshness window used when no metadata.validUntil was saved
+   */
+  fallbackTtlMs?: number;
+
+  /**
+   * How long after going stale the cache is considered expired
+   */
+  staleGraceMs?: number;
+}
 
 /**
  * AsyncStorage-based schedule repository implementation
  *
  * Provides persistent storage for race schedule data using AsyncStorage.
- * Implements caching with 24-hour staleness threshold.
+ * The cache is fresh until the saved metadata.validUntil, or for
+ * fallbackTtlMs after saving when the source provided no metadata.
  */
-export class AsyncStorageScheduleRepository implements ScheduleRepository {
-  private readonly STALE_THRESHOLD_MS = 24 * 60 * 60 * 1000; // 24 hours
+export class AsyncStorageScheduleRepository implements ScheduleCache {
+  private readonly store: KeyValueStore;
+  private readonly fallbackTtlMs: number;
+  private readonly staleGraceMs: number;
+
+  constructor(options: AsyncStorageScheduleRepositoryOptions = {}) {
+    this.store = options.store ?? defaultKeyValueStore;
+    this.fallbackTtlMs = options.fallbackTtlMs ?? DEFAULT_FALLBACK_TTL_MS;
+    this.staleGraceMs = options.staleGraceMs ?? DEFAULT_STALE_GRACE_MS;
+  }
 
   /**
    * Gets schedule from cache
    *
    * Returns cached schedule without refreshing.
-   * If cache is stale (>24h), caller should call saveSchedule with fresh data.
+   * If cache is stale, caller should call saveSchedule with fresh data.
    *
    * @returns Cached races or empty array if no cache
    */
@@ -37,18 +81,26 @@ export class AsyncStorageScheduleRepository implements ScheduleRepository {
   /**
    * Gets cached schedule or null if no cache exists
    *
+   * Caches written in the legacy `name/location/category` shape are
+   * converted to the canonical Race model on read.
+   *
    * @returns Cached races or null
    */
   async getCachedSchedule(): Promise<Race[] | null> {
     try {
-      const data = await AsyncStorage.getItem(STORAGE_KEYS.SCHEDULE);
+      const data = await this.store.getItem(STORAGE_KEYS.SCHEDULE);
 
       if (!data) {
         return null;
       }
 
-      const races: Race[] = JSON.parse(data);
-      return races;
+      const parsed: unknown = JSON.parse(data);
+
+      if (!Array.isArray(parsed)) {
+        return null;
+      }
+
+      return normalizeCachedRaces(parsed);
     } catch (error) {
       console.error('Failed to load cached schedule:', error);
       return null;
@@ -58,23 +110,80 @@ export class AsyncStorageScheduleRepository implements ScheduleRepository {
   /**
    * Saves schedule to AsyncStorage
    *
-   * Persists race array and updates last updated timestamp.
+   * Persists race array and updates last updated timestamp. Metadata and
+   * validators from a previous save are replaced, or removed when none are
+   * given, so they always describe the races currently in the cache.
    *
    * @param races - Races to save
+   * @param metadata - Schedule metadata from the source, if any
+   * @param validators - ETag / Last-Modified of the response, if any
    */
-  async saveSchedule(races: Race[]): Promise<void> {
+  async saveSchedule(
+    races: Race[],
+    metadata: ScheduleMetadata | null = null,
+    validators: CacheValidators | null = null,
+  ): Promise<void> {
     try {
-      await AsyncStorage.setItem(STORAGE_KEYS.SCHEDULE, JSON.stringify(races));
-      await AsyncStorage.setItem(
-        STORAGE_KEYS.SCHEDULE_LAST_UPDATED,
-        new Date().toISOString()
-      );
+      const entries: Array<[string, string]> = [
+        [STORAGE_KEYS.SCHEDULE, JSON.stringify(races)],
+        [STORAGE_KEYS.SCHEDULE_LAST_UPDATED, new Date().toISOString()],
+      ];
+      const removed: string[] = [];
+
+      if (metadata) {
+        entries.push([STORAGE_KEYS.SCHEDULE_METADATA, JSON.stringify(metadata)]);
+      } else {
+        removed.push(STORAGE_KEYS.SCHEDULE_METADATA);
+      }
+      if (hasValidators(validators)) {
+        entries.push([STORAGE_KEYS.SCHEDULE_VALIDATORS, JSON.stringify(validators)]);
+      } else {
+        removed.push(STORAGE_KEYS.SCHEDULE_VALIDATORS);
+      }
+
+      await this.store.multiSet(entries);
+      await this.store.multiRemove(removed);
     } catch (error) {
       console.error('Failed to save schedule:', error);
       throw error;
     }
   }
 
+  /**
+   * Upserts races into the cached schedule
+   *
+   * Races are matched by ID; incoming races replace cached ones. Metadata,
+   * validators and the last updated timestamp are left untouched, so this
+   * is safe for adding extra schedule windows.
+   *
+   * @param races - Races to add or update
+   * @returns The merged cached schedule
+   */
+  async mergeRaces(races: Race[]): Promise<Race[]> {
+    const cached = (await this.getCachedSchedule()) ?? [];
+    const merged = new Map(cached.map(race => [race.id, race]));
+    races.forEach(race => merged.set(race.id, race));
+
+    const result = Array.from(merged.values());
+    await this.store.setItem(STORAGE_KEYS.SCHEDULE, JSON.stringify(result));
+    return result;
+  }
+
+  /**
+   * Removes races from the cached schedule
+   *
+   * @param raceIds - IDs of races to remove
+   * @returns The remaining cached schedule
+   */
+  async removeRaces(raceIds: string[]): Promise<Race[]> {
+    const ids = new Set(raceIds);
+    const cached = (await this.getCachedSchedule()) ?? [];
+    const remaining = cached.filter(race => !ids.has(race.id));
+
+    await this.store.setItem(STORAGE_KEYS.SCHEDULE, JSON.stringify(remaining));
+    return remaining;
+  }
+
   /**
    * Gets the last updated timestamp
    *
@@ -82,7 +191,7 @@ export class AsyncStorageScheduleRepository implements ScheduleRepository {
    */
   async getLastUpdated(): Promise<Date | null> {
     try {
-      const timestamp = await AsyncStorage.getItem(
+      const timestamp = await this.store.getItem(
         STORAGE_KEYS.SCHEDULE_LAST_UPDATED
       );
 
@@ -105,19 +214,85 @@ export class AsyncStorageScheduleRepository implements ScheduleRepository {
   }
 
   /**
-   * Checks if cached schedule is stale (>24 hours old)
+   * Gets the metadata saved with the cached schedule
    *
-   * @returns True if schedule should be refreshed
+   * @returns Saved metadata, or null if none was saved or it is unreadable
    */
-  async isStale(): Promise<boolean> {
-    const lastUpdated = await this.getLastUpdated();
+  async getMetadata(): Promise<ScheduleMetadata | null> {
+    try {
+      const data = await this.store.getItem(STORAGE_KEYS.SCHEDULE_METADATA);
+      return parseStoredMetadata(data);
+    } catch (error) {
+      console.error('Failed to load schedule metadata:', error);
+      return null;
+    }
+  }
 
-    if (!lastUpdated) {
-      return true; // No cache, treat as stale
+  /**
+   * Gets the HTTP validators saved with the cached schedule
+   *
+   * @returns Saved validators, or null if none were saved
+   */
+  async getValidators(): Promise<CacheValidators | null> {
+    try {
+      const data = await this.store.getItem(STORAGE_KEYS.SCHEDULE_VALIDATORS);
+      return parseStoredValidators(data);
+    } catch (error) {
+      console.error('Failed to load schedule validators:', error);
+      return null;
     }
+  }
 
-    const age = Date.now() - lastUpdated.getTime();
-    return age > this.STALE_THRESHOLD_MS;
+  /**
+   * Records that the source confirmed the cached schedule is unchanged
+   *
+   * Called after a 304 Not Modified. Only the last updated timestamp moves;
+   * the schedule, metadata and validators are left untouched.
+   */
+  async markRevalidated(): Promise<void> {
+    try {
+      await this.store.setItem(STORAGE_KEYS.SCHEDULE_LAST_UPDATED, new Date().toISOString());
+    } catch (error) {
+      console.error('Failed to mark schedule as revalidated:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the freshness of the cached schedule
+   *
+   * Uses metadata.validUntil when available, otherwise the last updated
+   * timestamp plus the fallback TTL (see computeFreshness).
+   *
+   * @returns Freshness status, transition times and time remaining
+   *
+   * @example
+   * ```typescript
+   * const { status, remainingMs } = await repository.getFreshness();
+   * // { status: 'fresh', remainingMs: 18000000, ... } → valid for another 5h
+   * ```
+   */
+  async getFreshness(): Promise<ScheduleFreshness> {
+    const lastUpdated = await this.getLastUpdated();
+    const metadata = lastUpdated ? await this.getMetadata() : null;
+
+    return computeFreshness(lastUpdated, metadata, {
+      fallbackTtlMs: this.fallbackTtlMs,
+      staleGraceMs: this.staleGraceMs,
+    });
+  }
+
+  /**
+   * Checks if cached schedule is stale
+   *
+   * The cache is stale once past metadata.validUntil (or the fallback TTL
+   * when no metadata was saved), and always stale when nothing is cached.
+   *
+   * @returns True if schedule should be refreshed
+   */
+  async isStale(): Promise<boolean> {
+    const { status } = await this.getFreshness();
+    return status !== 'fresh';
   }
 
   /**
@@ -127,8 +302,12 @@ export class AsyncStorageScheduleRepository implements ScheduleRepository {
    */
   async clearCache(): Promise<void> {
     try {
-      await AsyncStorage.removeItem(STORAGE_KEYS.SCHEDULE);
-      await AsyncStorage.removeItem(STORAGE_KEYS.SCHEDULE_LAST_UPDATED);
+      await this.store.multiRemove([
+        STORAGE_KEYS.SCHEDULE,
+        STORAGE_KEYS.SCHEDULE_LAST_UPDATED,
+        STORAGE_KEYS.SCHEDULE_METADATA,
+        STORAGE_KEYS.SCHEDULE_VALIDATORS,
+      ]);
     } catch (error) {
       console.error('Failed to clear schedule cache:', error);
       throw error;
@@ -6,19 +6,41 @@
  *
  * Features:
  * - JSON parsing with validation
+ * - Schedule envelopes (API ScheduleResponse and bundled sampleSchedule.json)
+ * - Lenient mode that skips invalid races and reports diagnostics
  * - Type checking and constraint validation
  * - isLive calculation based on current time
  * - Error handling for malformed data
  */
 
-import { Race, RaceType, RaceTier, CarClass, WeatherCondition, TimeOfDay, LicenseRequirement } from '../types/Race';
+import {
+  Race,
+  RaceType,
+  RaceTier,
+  CarClass,
+  WeatherCondition,
+  TimeOfDay,
+  LicenseRequirement,
+  RACE_TYPES,
+  RACE_TIERS,
+  CAR_CLASSES,
+  WEATHER_CONDITIONS,
+  TIMES_OF_DAY,
+  LICENSE_REQUIREMENTS,
+} from '../types/Race';
+import {
+  ParsedSchedule,
+  ParseDiagnostics,
+  RaceParseIssue,
+  ScheduleMetadata,
+} from '../types/ScheduleResponse';
 import { isValidISOString } from '../../../shared/utils/dateUtils';
 import { isRaceLive } from '../../../shared/utils/dateUtils';
 
 /**
  * Raw race data from JSON (before validation)
  */
-interface RawRaceData {
+export interface RawRaceData {
   id: string;
   type: string;
   tier?: string | null;
@@ -43,6 +65,33 @@ export class RaceDataValidationError extends Error {
   }
 }
 
+/**
+ * Options for schedule parsing
+ */
+export interface ParseOptions {
+  /**
+   * Skip invalid races instead of throwing (default: false)
+   * Envelope and metadata errors still throw.
+   */
+  lenient?: boolean;
+}
+
+/**
+ * Result of lenient race array parsing
+ */
+export interface LenientParseResult {
+  races: Race[];
+  diagnostics: ParseDiagnostics;
+}
+
+/**
+ * Raw races from one envelope group, with the group's path for diagnostics
+ */
+interface RawRaceGroup {
+  path: string;
+  items: RawRaceData[];
+}
+
 /**
  * Service for parsing and validating race data
  */
@@ -99,6 +148,218 @@ export class RaceDataParser {
     return data.map((item, index) => this.validateAndTransform(item, index));
   }
 
+  /**
+   * Parses a race array, skipping invalid races instead of throwing
+   *
+   * @param data - Array of raw race data objects
+   * @returns Valid races plus a report of every rejected race
+   *
+   * @example
+   * ```typescript
+   * const { races, diagnostics } = parser.parseLenient(rawRaces);
+   * if (diagnostics.rejected.length > 0) {
+   *   console.warn(`${diagnostics.rejected.length} races could not be loaded`);
+   * }
+   * ```
+   */
+  parseLenient(data: RawRaceData[]): LenientParseResult {
+    if (!Array.isArray(data)) {
+      throw new RaceDataValidationError('Race data must be an array');
+    }
+
+    return this.parseGroupsLenient([{ path: '', items: data }]);
+  }
+
+  /**
+   * Parses a schedule envelope into races and metadata
+   *
+   * Accepts either envelope:
+   * - API ScheduleResponse: `{ schedule: { daily, weekly, special }, metadata }`
+   * - Bundled schedule: `{ dailyRaces: { tierA, tierB, tierC }, weeklyRaces, specialEvents }`
+   *
+   * A flat race array is also accepted for backwards compatibility.
+   *
+   * In lenient mode, invalid races are skipped and reported in `diagnostics`.
+   *
+   * @param data - Parsed JSON value
+   * @param options - Parse options
+   * @returns Flattened races and metadata (null when the envelope has none)
+   * @throws RaceDataValidationError if the envelope or (in strict mode) any race is invalid
+   *
+   * @example
+   * ```typescript
+   * import sampleSchedule from '../../../data/sampleSchedule.json';
+   *
+   * const parser = new RaceDataParser();
+   * const { races, metadata } = parser.parseSchedule(sampleSchedule);
+   * ```
+   */
+  parseSchedule(data: unknown, options: ParseOptions = {}): ParsedSchedule {
+    if (Array.isArray(data)) {
+      return this.parseGroups([{ path: '', items: data }], null, options);
+    }
+
+    if (!this.isObject(data)) {
+      throw new RaceDataValidationError('Schedule data must be an object or an array');
+    }
+
+    const { schedule, dailyRaces } = data;
+
+    if (this.isObject(schedule)) {
+      const groups = [
+        this.optionalGroup(schedule.daily, 'schedule.daily'),
+        this.optionalGroup(schedule.weekly, 'schedule.weekly'),
+        this.optionalGroup(schedule.special, 'schedule.special'),
+      ];
+
+      return this.parseGroups(groups, this.validateMetadata(data.metadata), options);
+    }
+
+    if (this.isObject(dailyRaces)) {
+      const groups = [
+        this.optionalGroup(dailyRaces.tierA, 'dailyRaces.tierA'),
+        this.optionalGroup(dailyRaces.tierB, 'dailyRaces.tierB'),
+        this.optionalGroup(dailyRaces.tierC, 'dailyRaces.tierC'),
+        this.optionalGroup(data.weeklyRaces, 'weeklyRaces'),
+        this.optionalGroup(data.specialEvents, 'specialEvents'),
+      ];
+      const metadata = data.metadata !== undefined ? this.validateMetadata(data.metadata) : null;
+
+      return this.parseGroups(groups, metadata, options);
+    }
+
+    throw new RaceDataValidationError(
+      'Unrecognised schedule format: expected "schedule" or "dailyRaces" envelope',
+    );
+  }
+
+  /**
+   * Parses a JSON string containing a schedule envelope
+   *
+   * @param jsonData - JSON string containing a schedule envelope or race array
+   * @param options - Parse options
+   * @returns Flattened races and metadata
+   * @throws RaceDataValidationError if data is invalid
+   */
+  parseScheduleJSON(jsonData: string, options: ParseOptions = {}): ParsedSchedule {
+    let rawData: unknown;
+    try {
+      rawData = JSON.parse(jsonData);
+    } catch (error) {
+      throw new RaceDataValidationError(`Failed to parse JSON: ${(error as Error).message}`);
+    }
+
+    return this.parseSchedule(rawData, options);
+  }
+
+  /**
+   * Parses envelope groups in strict or lenient mode
+   * @private
+   */
+  private parseGroups(
+    groups: RawRaceGroup[],
+    metadata: ScheduleMetadata | null,
+    options: ParseOptions,
+  ): ParsedSchedule {
+    if (options.lenient) {
+      const { races, diagnostics } = this.parseGroupsLenient(groups);
+      return { races, metadata, diagnostics };
+    }
+
+    const rawRaces = groups.reduce<RawRaceData[]>((all, group) => all.concat(group.items), []);
+    return { races: this.parse(rawRaces), metadata };
+  }
+
+  /**
+   * Validates every race, collecting failures instead of throwing
+   * @private
+   */
+  private parseGroupsLenient(groups: RawRaceGroup[]): LenientParseResult {
+    const races: Race[] = [];
+    const rejected: RaceParseIssue[] = [];
+    let index = 0;
+
+    for (const group of groups) {
+      group.items.forEach((item, groupIndex) => {
+        try {
+          races.push(this.validateAndTransform(item, index));
+        } catch (error) {
+          if (!(error instanceof RaceDataValidationError)) {
+            throw error;
+          }
+
+          rejected.push({
+            index,
+            source: group.path ? `${group.path}[${groupIndex}]` : `[${groupIndex}]`,
+            raceId: typeof item?.id === 'string' ? item.id : null,
+            field: error.field ?? null,
+            reason: error.message,
+          });
+        }
+        index++;
+      });
+    }
+
+    return {
+      races,
+      diagnostics: { total: index, accepted: races.length, rejected },
+    };
+  }
+
+  /**
+   * Validates schedule metadata
+   * @private
+   */
+  private validateMetadata(raw: unknown): ScheduleMetadata {
+    if (!this.isObject(raw)) {
+      throw new RaceDataValidationError('Schedule metadata is required', 'metadata');
+    }
+
+    const readDate = (field: 'generatedAt' | 'validUntil'): string => {
+      const value = raw[field];
+      if (typeof value !== 'string' || !isValidISOString(value)) {
+        throw new RaceDataValidationError(
+          `metadata.${field} must be an ISO 8601 UTC string`,
+          `metadata.${field}`,
+        );
+      }
+      return value;
+    };
+    const generatedAt = readDate('generatedAt');
+    const validUntil = readDate('validUntil');
+
+    const { source } = raw;
+    if (source !== undefined && typeof source !== 'string') {
+      throw new RaceDataValidationError('metadata.source must be a string', 'metadata.source');
+    }
+
+    return { generatedAt, validUntil, ...(source !== undefined && { source }) };
+  }
+
+  /**
+   * Returns an envelope group as an array, treating missing groups as empty
+   * @private
+   */
+  private optionalGroup(value: unknown, path: string): RawRaceGroup {
+    if (value === undefined || value === null) {
+      return { path, items: [] };
+    }
+
+    if (!Array.isArray(value)) {
+      throw new RaceDataValidationError(`${path} must be an array`, path);
+    }
+
+    return { path, items: value };
+  }
+
+  /**
+   * Checks for a non-null, non-array object
+   * @private
+   */
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
   /**
    * Validates and transforms a single raw race object
    *
@@ -110,55 +371,44 @@ export class RaceDataParser {
   private validateAndTransform(raw: any, index: number): Race {
     const context = `race at index ${index}`;
 
+    if (typeof raw !== 'object' || raw === null) {
+      throw new RaceDataValidationError(`${context} must be an object`);
+    }
+
     // Validate required string fields
     this.validateRequiredString(raw.id, 'id', context);
     this.validateRequiredString(raw.trackName, 'trackName', context);
 
     // Validate and cast enum types
-    const type = this.validateEnum(
-      raw.type,
-      ['daily', 'weekly', 'special'],
-      'type',
-      context
-    ) as RaceType;
-
-    const carClass = this.validateEnum(
-      raw.carClass,
-      ['LMP2', 'Hypercar', 'LMGT3', 'Multi-class'],
-      'carClass',
-      context
-    ) as CarClass;
+    const type = this.validateEnum(raw.type, RACE_TYPES, 'type', context) as RaceType;
+
+    const carClass = this.validateEnum(raw.carClass, CAR_CLASSES, 'carClass', context) as CarClass;
 
     const weatherCondition = this.validateEnum(
       raw.weatherCondition,
-      ['Clear', 'Dynamic', 'Real Weather'],
+      WEATHER_CONDITIONS,
       'weatherCondition',
-      context
+      context,
     ) as WeatherCondition;
 
     const timeOfDay = this.validateEnum(
       raw.timeOfDay,
-      ['Morning', 'Afternoon', 'Sunset', 'Night', 'Full Day Cycle'],
+      TIMES_OF_DAY,
       'timeOfDay',
-      context
+      context,
     ) as TimeOfDay;
 
     const licenseRequirement = this.validateEnum(
       raw.licenseRequirement,
-      ['Bronze', 'Silver', 'Gold'],
+      LICENSE_REQUIREMENTS,
       'licenseRequirement',
-      context
+      context,
     ) as LicenseRequirement;
 
     // Validate optional tier (required for daily, null for others)
     let tier: RaceTier | null = null;
     if (raw.tier !== undefined && raw.tier !== null) {
-      tier = this.validateEnum(
-        raw.tier,
-        ['beginner', 'intermediate', 'advanced'],
-        'tier',
-        context
-      ) as RaceTier;
+      tier = this.validateEnum(raw.tier, RACE_TIERS, 'tier', context) as RaceTier;
     }
 
     // Validate startTime ISO 8601 format
@@ -236,7 +486,7 @@ export class RaceDataParser {
    */
   private validateEnum(
     value: any,
-    validValues: string[],
+    validValues: readonly string[],
     field: string,
     context: string
   ): string {
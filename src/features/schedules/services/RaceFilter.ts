@@ -1,13 +1,18 @@
-import type { Race } from '../types/Race';
+import type { Race, RaceType, CarClass } from '../types/Race';
 
 /**
  * Filter options for filtering race schedules
  */
 export interface RaceFilterOptions {
   /**
-   * Filter by category (e.g., "Varsity", "JV", "Novice")
+   * Filter by race type (daily, weekly, special)
    */
-  category?: string;
+  type?: RaceType;
+
+  /**
+   * Filter by car class
+   */
+  carClass?: CarClass;
 
   /**
    * Show only favorited races
@@ -23,7 +28,7 @@ export interface RaceFilterOptions {
   };
 
   /**
-   * Search by name or location
+   * Search by track name, track configuration or car class
    */
   searchTerm?: string;
 }
@@ -43,19 +48,22 @@ export class RaceFilter {
 
     // Filter by favorited only
     if (options.favoritedOnly) {
-      filteredRaces = filteredRaces.filter((race) => race.isFavorited === true);
+      filteredRaces = filteredRaces.filter(race => race.isFavorited === true);
     }
 
-    // Filter by category
-    if (options.category) {
-      filteredRaces = filteredRaces.filter(
-        (race) => race.category.toLowerCase() === options.category?.toLowerCase()
-      );
+    // Filter by race type
+    if (options.type) {
+      filteredRaces = filteredRaces.filter(race => race.type === options.type);
+    }
+
+    // Filter by car class
+    if (options.carClass) {
+      filteredRaces = filteredRaces.filter(race => race.carClass === options.carClass);
     }
 
     // Filter by date range
     if (options.dateRange) {
-      filteredRaces = filteredRaces.filter((race) => {
+      filteredRaces = filteredRaces.filter(race => {
         const raceDate = new Date(race.startTime);
         const startDate = new Date(options.dateRange!.start);
         const endDate = new Date(options.dateRange!.end);
@@ -68,10 +76,10 @@ export class RaceFilter {
     if (options.searchTerm && options.searchTerm.trim() !== '') {
       const searchLower = options.searchTerm.toLowerCase();
       filteredRaces = filteredRaces.filter(
-        (race) =>
-          race.name.toLowerCase().includes(searchLower) ||
-          race.location.toLowerCase().includes(searchLower) ||
-          race.description?.toLowerCase().includes(searchLower)
+        race =>
+          race.trackName.toLowerCase().includes(searchLower) ||
+          race.trackConfiguration?.toLowerCase().includes(searchLower) ||
+          race.carClass.toLowerCase().includes(searchLower),
       );
     }
 
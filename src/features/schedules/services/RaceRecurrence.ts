@@ -0,0 +1,220 @@
+/**
+ * Race recurrence expansion
+ *
+ * Daily races repeat every repeatInterval minutes from their startTime.
+ * RaceRecurrence expands a race into concrete slots with stable occurrence
+ * IDs, and splits them into today and tomorrow using local day boundaries.
+ */
+
+import { addDays, startOfDay } from 'date-fns';
+import { fromZonedTime, toZonedTime } from 'date-fns-tz';
+import type { Race } from '../types/Race';
+import type { DailySlots, RaceOccurrence } from '../types/RaceOccurrence';
+import { getDeviceTimezone } from '../../../shared/utils/timezoneUtils';
+
+/**
+ * Separator between race ID and slot start time in occurrence IDs
+ */
+const OCCURRENCE_ID_SEPARATOR = '@';
+
+/**
+ * Default number of slots shown in "Next slots today"
+ */
+export const DEFAULT_NEXT_SLOT_COUNT = 4;
+
+/**
+ * Options for RaceRecurrence
+ */
+export interface RaceRecurrenceOptions {
+  /**
+   * IANA timezone used for day boundaries (defaults to the device timezone)
+   */
+  timeZone?: string;
+}
+
+/**
+ * Builds a stable occurrence ID
+ *
+ * The ID depends only on the race ID and the slot's absolute start time, so
+ * it does not change with the query window or the device timezone.
+ *
+ * @param raceId - ID of the race series
+ * @param startTime - Slot start time
+ * @returns Occurrence ID
+ *
+ * @example
+ * buildOccurrenceId('race-1', new Date('2025-11-15T14:40:00Z'))
+ * // "race-1@2025-11-15T14:40:00.000Z"
+ */
+export const buildOccurrenceId = (raceId: string, startTime: Date): string => {
+  return `${raceId}${OCCURRENCE_ID_SEPARATOR}${startTime.toISOString()}`;
+};
+
+/**
+ * Splits an occurrence ID into its race ID and slot start time
+ *
+ * @param occurrenceId - ID produced by buildOccurrenceId
+ * @returns Race ID and start time, or null if the ID is not an occurrence ID
+ */
+export const parseOccurrenceId = (
+  occurrenceId: string,
+): { raceId: string; startTime: string } | null => {
+  const separatorIndex = occurrenceId.lastIndexOf(OCCURRENCE_ID_SEPARATOR);
+  if (separatorIndex <= 0) {
+    return null;
+  }
+
+  const startTime = occurrenceId.slice(separatorIndex + 1);
+  if (isNaN(Date.parse(startTime))) {
+    return null;
+  }
+
+  return { raceId: occurrenceId.slice(0, separatorIndex), startTime };
+};
+
+/**
+ * RaceRecurrence expands a race's repeatInterval into concrete slots
+ *
+ * The race's startTime anchors the series; slots repeat every
+ * repeatInterval minutes from there. Races without a repeatInterval have a
+ * single occurrence at their startTime.
+ */
+export class RaceRecurrence {
+  private readonly timeZone: string;
+
+  constructor(options: RaceRecurrenceOptions = {}) {
+    this.timeZone = options.timeZone ?? getDeviceTimezone();
+  }
+
+  /**
+   * Checks whether a race repeats
+   * @param race - Race to check
+   * @returns True if the race has a positive repeatInterval
+   */
+  isRecurring(race: Race): boolean {
+    return race.repeatInterval !== null && race.repeatInterval > 0;
+  }
+
+  /**
+   * Gets all occurrences starting within [from, to)
+   * @param race - Race series to expand
+   * @param from - Window start (inclusive)
+   * @param to - Window end (exclusive)
+   * @returns Occurrences in start time order
+   */
+  getOccurrences(race: Race, from: Date, to: Date): RaceOccurrence[] {
+    const occurrences: RaceOccurrence[] = [];
+    const end = to.getTime();
+    let start = this.firstStartAtOrAfter(race, from);
+
+    while (start !== null && start < end) {
+      occurrences.push(this.createOccurrence(race, start));
+      start = this.nextStart(race, start);
+    }
+
+    return occurrences;
+  }
+
+  /**
+   * Gets the next occurrences starting at or after a given time
+   * @param race - Race series to expand
+   * @param now - Reference time
+   * @param count - Maximum number of occurrences to return
+   * @returns Up to `count` occurrences in start time order
+   */
+  getNextOccurrences(race: Race, now: Date, count: number): RaceOccurrence[] {
+    const occurrences: RaceOccurrence[] = [];
+    let start = this.firstStartAtOrAfter(race, now);
+
+    while (start !== null && occurrences.length < count) {
+      occurrences.push(this.createOccurrence(race, start));
+      start = this.nextStart(race, start);
+    }
+
+    return occurrences;
+  }
+
+  /**
+   * Gets the remaining slots for today, or the first slot tomorrow
+   *
+   * "Today" ends at midnight in the configured timezone. When no slots
+   * remain today, `tomorrow` holds the first slot of the next local day,
+   * or null if the next slot is further away.
+   *
+   * @param race - Race series to expand
+   * @param now - Reference time (defaults to the current time)
+   * @param count - Maximum number of slots for today
+   * @returns Today's remaining slots and, if there are none, tomorrow's first
+   */
+  getDailySlots(race: Race, now: Date = new Date(), count = DEFAULT_NEXT_SLOT_COUNT): DailySlots {
+    const endOfToday = this.getStartOfNextDay(now);
+    const today = this.getNextOccurrences(race, now, count).filter(
+      occurrence => Date.parse(occurrence.startTime) < endOfToday.getTime(),
+    );
+
+    if (today.length > 0) {
+      return { today, tomorrow: null };
+    }
+
+    const endOfTomorrow = this.getStartOfNextDay(endOfToday);
+    const [next] = this.getNextOccurrences(race, endOfToday, 1);
+    const tomorrow = next && Date.parse(next.startTime) < endOfTomorrow.getTime() ? next : null;
+
+    return { today, tomorrow };
+  }
+
+  /**
+   * Gets the start of the day after `date` in the configured timezone
+   * @param date - Reference time
+   * @returns Absolute time of the next local midnight
+   */
+  getStartOfNextDay(date: Date): Date {
+    const zoned = toZonedTime(date, this.timeZone);
+    return fromZonedTime(startOfDay(addDays(zoned, 1)), this.timeZone);
+  }
+
+  /**
+   * Finds the first slot start at or after `from`
+   * @returns Epoch milliseconds, or null if the series has ended
+   */
+  private firstStartAtOrAfter(race: Race, from: Date): number | null {
+    const anchor = Date.parse(race.startTime);
+    if (isNaN(anchor)) {
+      return null;
+    }
+
+    const fromMs = from.getTime();
+    if (anchor >= fromMs) {
+      return anchor;
+    }
+
+    if (!this.isRecurring(race)) {
+      return null;
+    }
+
+    const interval = this.intervalMs(race);
+    return anchor + Math.ceil((fromMs - anchor) / interval) * interval;
+  }
+
+  /**
+   * Gets the slot start following `start`
+   * @returns Epoch milliseconds, or null for non-repeating races
+   */
+  private nextStart(race: Race, start: number): number | null {
+    return this.isRecurring(race) ? start + this.intervalMs(race) : null;
+  }
+
+  private intervalMs(race: Race): number {
+    return (race.repeatInterval ?? 0) * 60 * 1000;
+  }
+
+  private createOccurrence(race: Race, start: number): RaceOccurrence {
+    const startDate = new Date(start);
+    return {
+      id: buildOccurrenceId(race.id, startDate),
+      raceId: race.id,
+      startTime: startDate.toISOString(),
+      durationMinutes: race.durationMinutes,
+    };
+  }
+}
@@ -0,0 +1,402 @@
+/**
+ * HTTP implementation of ScheduleRepository
+ *
+ * Fetches the LMU schedule from `GET /schedules/lmu` and uses
+ * AsyncStorageScheduleRepository as its offline cache. When the network
+ * request fails, the last cached schedule is served instead.
+ *
+ * Refreshes are conditional: the cached response's ETag / Last-Modified are
+ * sent back, and a 304 only bumps the cache timestamp.
+ *
+ * @see specs/001-lmu-schedule-tracker/contracts/schedule-api.yaml
+ * @see ScheduleRepository for interface documentation
+ */
+
+import { Race } from '../types/Race';
+import {
+  CacheValidators,
+  ConditionalScheduleResult,
+  ParsedSchedule,
+  ScheduleApiErrorBody,
+  ScheduleMetadata,
+  ScheduleApiErrorCode,
+  ScheduleQuery,
+  ScheduleResponse,
+} from '../types/ScheduleResponse';
+import { ScheduleFreshness } from '../types/ScheduleFreshness';
+import { ScheduleCache, ScheduleRepository } from './ScheduleRepository';
+import { AsyncStorageScheduleRepository } from './AsyncStorageScheduleRepository';
+import { RaceDataParser } from './RaceDataParser';
+import { SCHEDULE_API_BASE_URLS, SCHEDULE_API_PATH } from '../../../shared/constants/apiEndpoints';
+
+/**
+ * Error codes surfaced by RemoteScheduleRepository
+ *
+ * - INVALID_RANGE / UPSTREAM_ERROR: returned by the API (see contract)
+ * - HTTP_ERROR: non-2xx response without a recognised error code
+ * - NETWORK_ERROR: request never reached the server
+ * - INVALID_RESPONSE: response body is not a ScheduleResponse
+ */
+export type ScheduleFetchErrorCode =
+  | ScheduleApiErrorCode
+  | 'HTTP_ERROR'
+  | 'NETWORK_ERROR'
+  | 'INVALID_RESPONSE';
+
+/**
+ * Error thrown when the schedule API cannot provide a schedule
+ */
+export class ScheduleApiError extends Error {
+  constructor(
+    message: string,
+    public code: ScheduleFetchErrorCode,
+    public status?: number,
+    public details?: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = 'ScheduleApiError';
+  }
+}
+
+/**
+ * Constructor options for RemoteScheduleRepository
+ */
+export interface RemoteScheduleRepositoryOptions {
+  /**
+   * API base URL (default: production RaceControl.gg URL)
+   * Use SCHEDULE_API_BASE_URLS.localMock for the local mock server.
+   */
+  baseUrl?: string;
+
+  /**
+   * Cache used for offline fallback (default: AsyncStorageScheduleRepository)
+   */
+  cache?: ScheduleCache;
+
+  /**
+   * fetch implementation (default: global fetch)
+   */
+  fetchFn?: typeof fetch;
+
+  /**
+   * Parser used to validate race payloads (default: RaceDataParser)
+   */
+  parser?: RaceDataParser;
+
+  /**
+   * Skip invalid races instead of rejecting the whole response (default: true)
+   */
+  lenient?: boolean;
+}
+
+const KNOWN_API_ERROR_CODES: ScheduleApiErrorCode[] = ['INVALID_RANGE', 'UPSTREAM_ERROR'];
+
+const isDefaultQuery = (query: ScheduleQuery): boolean =>
+  Object.values(query).every(value => value === undefined);
+
+/**
+ * Applies a query to a cached race the way the API would
+ */
+const matchesQuery = (race: Race, query: ScheduleQuery): boolean => {
+  const start = Date.parse(race.startTime);
+
+  if (query.from && start < Date.parse(query.from)) {
+    return false;
+  }
+  if (query.to && start > Date.parse(query.to)) {
+    return false;
+  }
+  return !query.type || query.type === 'all' || race.type === query.type;
+};
+
+/**
+ * Schedule repository backed by the schedule HTTP API
+ *
+ * @example
+ * ```typescript
+ * const repository = new RemoteScheduleRepository({
+ *   baseUrl: SCHEDULE_API_BASE_URLS.localMock,
+ * });
+ * const races = await repository.getSchedule();
+ * ```
+ */
+export class RemoteScheduleRepository implements ScheduleRepository {
+  private readonly baseUrl: string;
+  private readonly cache: ScheduleCache;
+  private readonly fetchFn: typeof fetch;
+  private readonly parser: RaceDataParser;
+  private readonly lenient: boolean;
+
+  constructor(options: RemoteScheduleRepositoryOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? SCHEDULE_API_BASE_URLS.production).replace(/\/+$/, '');
+    this.cache = options.cache ?? new AsyncStorageScheduleRepository();
+    this.fetchFn = options.fetchFn ?? ((input, init) => fetch(input, init));
+    this.parser = options.parser ?? new RaceDataParser();
+    this.lenient = options.lenient ?? true;
+  }
+
+  /**
+   * Gets the schedule, preferring fresh cache over the network
+   *
+   * Returns the cached schedule while it is fresh (until metadata.validUntil).
+   * Otherwise fetches from the API and caches the result with its metadata.
+   * If the fetch fails and a cache exists, the stale cache is returned
+   * instead of throwing.
+   *
+   * The cache holds the unfiltered schedule, so a filtered query always
+   * goes to the API and its result is not cached.
+   *
+   * @param query - Optional range and type filter
+   * @returns Races from cache or API
+   * @throws ScheduleApiError if the fetch fails and nothing is cached
+   */
+  async getSchedule(query: ScheduleQuery = {}): Promise<Race[]> {
+    if (!isDefaultQuery(query)) {
+      return this.getFilteredSchedule(query);
+    }
+
+    const cached = await this.cache.getCachedSchedule();
+
+    if (cached && !(await this.cache.isStale())) {
+      return cached;
+    }
+
+    try {
+      const result = await this.refreshSchedule(query);
+      return result.status === 'updated' ? result.schedule.races : cached ?? [];
+    } catch (error) {
+      if (cached) {
+        console.error('Failed to fetch schedule, serving cached data:', error);
+        return cached;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches a filtered schedule, falling back to the matching cached races
+   */
+  private async getFilteredSchedule(query: ScheduleQuery): Promise<Race[]> {
+    try {
+      return await this.fetchSchedule(query);
+    } catch (error) {
+      const cached = await this.cache.getCachedSchedule();
+      if (cached) {
+        console.error('Failed to fetch schedule, serving cached data:', error);
+        return cached.filter(race => matchesQuery(race, query));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches the schedule from the API without touching the cache
+   *
+   * @param query - Optional range and type filter
+   * @returns Validated races from the `daily`, `weekly` and `special` groups
+   * @throws ScheduleApiError for network, HTTP and payload errors
+   * @throws RaceDataValidationError if validation fails (strict mode, or bad metadata)
+   */
+  async fetchSchedule(query: ScheduleQuery = {}): Promise<Race[]> {
+    const { races } = await this.fetchParsedSchedule(query);
+    return races;
+  }
+
+  /**
+   * Fetches the schedule with metadata and, in lenient mode, diagnostics
+   *
+   * @param query - Optional range and type filter
+   * @returns Races, metadata and rejected-race diagnostics
+   * @throws ScheduleApiError for network, HTTP and payload errors
+   * @throws RaceDataValidationError if validation fails (strict mode, or bad metadata)
+   */
+  async fetchParsedSchedule(query: ScheduleQuery = {}): Promise<ParsedSchedule> {
+    const result = await this.fetchConditional(query, null);
+
+    if (result.status === 'not-modified') {
+      throw new ScheduleApiError(
+        'Unexpected 304 response to an unconditional request',
+        'INVALID_RESPONSE',
+        304,
+      );
+    }
+
+    return result.schedule;
+  }
+
+  /**
+   * Refreshes the cache with a conditional request
+   *
+   * Sends the cached ETag / Last-Modified. On 304 the cache is only marked
+   * as revalidated; on 200 the new schedule, metadata and validators are
+   * saved. The cache holds the unfiltered schedule, so a filtered query is
+   * fetched unconditionally and leaves the cache untouched.
+   *
+   * @param query - Optional range and type filter
+   * @returns Whether the schedule changed, with the new schedule if it did
+   * @throws ScheduleApiError for network, HTTP and payload errors
+   */
+  async refreshSchedule(query: ScheduleQuery = {}): Promise<ConditionalScheduleResult> {
+    if (!isDefaultQuery(query)) {
+      return this.fetchConditional(query, null);
+    }
+
+    const cached = await this.cache.getCachedSchedule();
+    const validators = cached ? await this.cache.getValidators() : null;
+
+    const result = await this.fetchConditional(query, validators);
+
+    if (result.status === 'not-modified') {
+      await this.cache.markRevalidated();
+    } else {
+      const { races, metadata } = result.schedule;
+      await this.cache.saveSchedule(races, metadata, result.validators);
+    }
+
+    return result;
+  }
+
+  /**
+   * Fetches the schedule, sending validators as conditional headers
+   *
+   * Does not touch the cache.
+   *
+   * @param query - Optional range and type filter
+   * @param validators - Validators of the cached response, or null for an unconditional request
+   * @returns not-modified on 304, otherwise the parsed schedule and its validators
+   * @throws ScheduleApiError for network, HTTP and payload errors
+   * @throws RaceDataValidationError if validation fails (strict mode, or bad metadata)
+   */
+  async fetchConditional(
+    query: ScheduleQuery,
+    validators: CacheValidators | null,
+  ): Promise<ConditionalScheduleResult> {
+    const url = this.buildUrl(query);
+    const headers: Record<string, string> = { Accept: 'application/json' };
+
+    if (validators?.etag) {
+      headers['If-None-Match'] = validators.etag;
+    }
+    if (validators?.lastModified) {
+      headers['If-Modified-Since'] = validators.lastModified;
+    }
+
+    let response: Response;
+    try {
+      response = await this.fetchFn(url, { method: 'GET', headers });
+    } catch (error) {
+      throw new ScheduleApiError(
+        `Network request failed: ${(error as Error).message}`,
+        'NETWORK_ERROR',
+      );
+    }
+
+    if (response.status === 304) {
+      return { status: 'not-modified' };
+    }
+
+    if (!response.ok) {
+      throw await this.toApiError(response);
+    }
+
+    let body: ScheduleResponse;
+    try {
+      body = await response.json();
+    } catch (error) {
+      throw new ScheduleApiError(
+        `Failed to parse schedule response: ${(error as Error).message}`,
+        'INVALID_RESPONSE',
+        response.status,
+      );
+    }
+
+    if (!body || typeof body.schedule !== 'object' || body.schedule === null) {
+      throw new ScheduleApiError(
+        'Schedule response is missing the "schedule" object',
+        'INVALID_RESPONSE',
+        response.status,
+      );
+    }
+
+    return {
+      status: 'updated',
+      schedule: this.parser.parseSchedule(body, { lenient: this.lenient }),
+      validators: {
+        etag: response.headers.get('ETag') ?? null,
+        lastModified: response.headers.get('Last-Modified') ?? null,
+      },
+    };
+  }
+
+  /**
+   * Gets cached schedule or null if no cache exists
+   */
+  async getCachedSchedule(): Promise<Race[] | null> {
+    return this.cache.getCachedSchedule();
+  }
+
+  /**
+   * Saves schedule and metadata to the cache
+   */
+  async saveSchedule(races: Race[], metadata?: ScheduleMetadata | null): Promise<void> {
+    await this.cache.saveSchedule(races, metadata);
+  }
+
+  /**
+   * Gets the last time the cache was updated
+   */
+  async getLastUpdated(): Promise<Date | null> {
+    return this.cache.getLastUpdated();
+  }
+
+  /**
+   * Checks if the cached schedule is stale
+   */
+  async isStale(): Promise<boolean> {
+    return this.cache.isStale();
+  }
+
+  /**
+   * Gets the freshness of the cached schedule
+   */
+  async getFreshness(): Promise<ScheduleFreshness> {
+    return this.cache.getFreshness();
+  }
+
+  /**
+   * Builds the request URL with query parameters
+   * @private
+   */
+  private buildUrl(query: ScheduleQuery): string {
+    const params = (['from', 'to', 'type'] as const)
+      .filter(key => query[key] !== undefined)
+      .map(key => `${key}=${encodeURIComponent(query[key] as string)}`);
+
+    const queryString = params.length > 0 ? `?${params.join('&')}` : '';
+    return `${this.baseUrl}${SCHEDULE_API_PATH}${queryString}`;
+  }
+
+  /**
+   * Maps a non-2xx response to a ScheduleApiError
+   * @private
+   */
+  private async toApiError(response: Response): Promise<ScheduleApiError> {
+    let body: Partial<ScheduleApiErrorBody> | null = null;
+    try {
+      body = await response.json();
+    } catch {
+      // Error body is optional; fall back to the status code
+    }
+
+    const code = KNOWN_API_ERROR_CODES.find(known => known === body?.code);
+    const fallbackCode: ScheduleFetchErrorCode =
+      response.status >= 500 ? 'UPSTREAM_ERROR' : 'HTTP_ERROR';
+
+    return new ScheduleApiError(
+      body?.message ?? `Schedule request failed with status ${response.status}`,
+      code ?? fallbackCode,
+      response.status,
+      body?.details,
+    );
+  }
+}
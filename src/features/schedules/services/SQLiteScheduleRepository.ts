@@ -0,0 +1,575 @@
+/**
+ * SQLite implementation of ScheduleRepository
+ *
+ * Stores one row per race instead of a single JSON blob, so multi-week
+ * schedules with expanded daily slots can be read and queried without
+ * re-parsing the whole schedule. Races are indexed by start time, type,
+ * track and car class.
+ *
+ * The database driver is injected through the small SqlDatabase interface,
+ * so any SQLite binding (or an in-memory engine in tests) can be used.
+ *
+ * @see ScheduleRepository for interface documentation
+ */
+
+import { CarClass, Race, RaceType } from '../types/Race';
+import { CacheValidators, ScheduleMetadata } from '../types/ScheduleResponse';
+import { ScheduleFreshness } from '../types/ScheduleFreshness';
+import { ScheduleCache } from './ScheduleRepository';
+import { AsyncStorageScheduleRepository } from './AsyncStorageScheduleRepository';
+import {
+  DEFAULT_FALLBACK_TTL_MS,
+  DEFAULT_STALE_GRACE_MS,
+  FreshnessPolicy,
+  computeFreshness,
+  hasValidators,
+  parseStoredMetadata,
+  parseStoredValidators,
+} from '../utils/scheduleFreshness';
+import { isRaceLive } from '../../../shared/utils/dateUtils';
+
+/**
+ * Value that can be bound to or read from a SQL statement
+ */
+export type SqlValue = string | number | null;
+
+/**
+ * Result row keyed by column name
+ */
+export type SqlRow = Record<string, SqlValue>;
+
+/**
+ * Minimal async SQL driver
+ *
+ * The app's driver is openQuickSqliteDatabase (scheduleCacheBackend.ts);
+ * tests use sql.js.
+ */
+export interface SqlDatabase {
+  /**
+   * Runs one statement
+   * @returns Result rows (empty for statements that return none)
+   */
+  execute(sql: string, params?: SqlValue[]): Promise<SqlRow[]>;
+}
+
+/**
+ * Filters for indexed race queries
+ */
+export interface RaceQuery {
+  /**
+   * Races starting at or after this time
+   */
+  from?: Date;
+
+  /**
+   * Races starting before this time
+   */
+  to?: Date;
+
+  /**
+   * Race types to include
+   */
+  types?: RaceType[];
+
+  /**
+   * Exact track name
+   */
+  trackName?: string;
+
+  /**
+   * Car class
+   */
+  carClass?: CarClass;
+
+  /**
+   * Maximum number of races returned
+   */
+  limit?: number;
+}
+
+/**
+ * Schema statements, safe to run on every start
+ */
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS races (
+    id TEXT PRIMARY KEY NOT NULL,
+    type TEXT NOT NULL,
+    tier TEXT,
+    track_name TEXT NOT NULL,
+    track_configuration TEXT,
+    car_class TEXT NOT NULL,
+    start_time TEXT NOT NULL,
+    start_at INTEGER NOT NULL,
+    duration_minutes INTEGER NOT NULL,
+    weather_condition TEXT NOT NULL,
+    time_of_day TEXT NOT NULL,
+    license_requirement TEXT NOT NULL,
+    repeat_interval INTEGER
+  )`,
+  'CREATE INDEX IF NOT EXISTS idx_races_start_at ON races (start_at)',
+  'CREATE INDEX IF NOT EXISTS idx_races_type_start_at ON races (type, start_at)',
+  'CREATE INDEX IF NOT EXISTS idx_races_track_name_start_at ON races (track_name, start_at)',
+  'CREATE INDEX IF NOT EXISTS idx_races_car_class_start_at ON races (car_class, start_at)',
+  `CREATE TABLE IF NOT EXISTS schedule_meta (
+    key TEXT PRIMARY KEY NOT NULL,
+    value TEXT NOT NULL
+  )`,
+];
+
+/**
+ * Keys of the schedule_meta table
+ */
+const META_KEYS = {
+  LAST_UPDATED: 'last_updated',
+  METADATA: 'metadata',
+  VALIDATORS: 'validators',
+  MIGRATED_FROM_ASYNC_STORAGE: 'migrated_from_async_storage',
+} as const;
+
+type MetaKey = (typeof META_KEYS)[keyof typeof META_KEYS];
+
+const INSERT_RACE = `INSERT OR REPLACE INTO races (
+  id, type, tier, track_name, track_configuration, car_class, start_time, start_at,
+  duration_minutes, weather_condition, time_of_day, license_requirement, repeat_interval
+) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+
+/**
+ * SQLite's default limit on bound parameters is 999
+ */
+const MAX_IDS_PER_STATEMENT = 500;
+
+/**
+ * SQLite-based schedule repository implementation
+ *
+ * Drop-in replacement for AsyncStorageScheduleRepository: pass it as the
+ * `cache` of RemoteScheduleRepository and as the repository of
+ * useRaceSchedule. isLive is recomputed on every read rather than stored,
+ * and the user-specific isFavorited flag is not stored.
+ *
+ * @example
+ * ```typescript
+ * const cache = new SQLiteScheduleRepository(sqlDatabase);
+ * await cache.migrateFromAsyncStorage();
+ * const remote = new RemoteScheduleRepository({ cache });
+ * const nextHypercarRaces = await cache.queryRaces({ carClass: 'Hypercar', from: new Date() });
+ * ```
+ */
+export class SQLiteScheduleRepository implements ScheduleCache {
+  private readonly policy: FreshnessPolicy;
+  private ready: Promise<void> | null = null;
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly db: SqlDatabase, options: Partial<FreshnessPolicy> = {}) {
+    this.policy = {
+      fallbackTtlMs: options.fallbackTtlMs ?? DEFAULT_FALLBACK_TTL_MS,
+      staleGraceMs: options.staleGraceMs ?? DEFAULT_STALE_GRACE_MS,
+    };
+  }
+
+  /**
+   * Gets schedule from cache
+   *
+   * @returns Cached races or empty array if no cache
+   */
+  async getSchedule(): Promise<Race[]> {
+    const cached = await this.getCachedSchedule();
+    return cached ?? [];
+  }
+
+  /**
+   * Gets cached schedule, ordered by start time, or null if nothing was saved
+   *
+   * @returns Cached races or null
+   */
+  async getCachedSchedule(): Promise<Race[] | null> {
+    try {
+      await this.initialize();
+      const rows = await this.db.execute('SELECT * FROM races ORDER BY start_at, id');
+
+      if (rows.length === 0 && !(await this.getMeta(META_KEYS.LAST_UPDATED))) {
+        return null;
+      }
+
+      return rows.map(row => this.rowToRace(row));
+    } catch (error) {
+      console.error('Failed to load cached schedule:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Queries cached races using the table indexes
+   *
+   * @param query - Start time range and field filters
+   * @returns Matching races ordered by start time
+   */
+  async queryRaces(query: RaceQuery = {}): Promise<Race[]> {
+    await this.initialize();
+
+    const conditions: string[] = [];
+    const params: SqlValue[] = [];
+
+    if (query.from) {
+      conditions.push('start_at >= ?');
+      params.push(query.from.getTime());
+    }
+    if (query.to) {
+      conditions.push('start_at < ?');
+      params.push(query.to.getTime());
+    }
+    if (query.types && query.types.length > 0) {
+      conditions.push(`type IN (${query.types.map(() => '?').join(', ')})`);
+      params.push(...query.types);
+    }
+    if (query.trackName !== undefined) {
+      conditions.push('track_name = ?');
+      params.push(query.trackName);
+    }
+    if (query.carClass !== undefined) {
+      conditions.push('car_class = ?');
+      params.push(query.carClass);
+    }
+
+    const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+    const limit = query.limit !== undefined ? ' LIMIT ?' : '';
+    if (query.limit !== undefined) {
+      params.push(query.limit);
+    }
+
+    const rows = await this.db.execute(
+      `SELECT * FROM races${where} ORDER BY start_at, id${limit}`,
+      params,
+    );
+    return rows.map(row => this.rowToRace(row));
+  }
+
+  /**
+   * Replaces the cached schedule in one transaction
+   *
+   * Metadata and validators from a previous save are replaced, or removed
+   * when none are given.
+   *
+   * @param races - Races to save
+   * @param metadata - Schedule metadata from the source, if any
+   * @param validators - ETag / Last-Modified of the response, if any
+   */
+  async saveSchedule(
+    races: Race[],
+    metadata: ScheduleMetadata | null = null,
+    validators: CacheValidators | null = null,
+  ): Promise<void> {
+    try {
+      await this.transaction(async () => {
+        await this.db.execute('DELETE FROM races');
+        await this.insertRaces(races);
+        await this.writeHeader(new Date(), metadata, validators);
+      });
+    } catch (error) {
+      console.error('Failed to save schedule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Upserts races into the cached schedule
+   *
+   * Metadata, validators and the last updated timestamp are left untouched.
+   *
+   * @param races - Races to add or update
+   * @returns The merged cached schedule
+   */
+  async mergeRaces(races: Race[]): Promise<Race[]> {
+    await this.transaction(() => this.insertRaces(races));
+    return (await this.getCachedSchedule()) ?? [];
+  }
+
+  /**
+   * Removes races from the cached schedule
+   *
+   * @param raceIds - IDs of races to remove
+   * @returns The remaining cached schedule
+   */
+  async removeRaces(raceIds: string[]): Promise<Race[]> {
+    await this.transaction(async () => {
+      for (let i = 0; i < raceIds.length; i += MAX_IDS_PER_STATEMENT) {
+        const ids = raceIds.slice(i, i + MAX_IDS_PER_STATEMENT);
+        await this.db.execute(
+          `DELETE FROM races WHERE id IN (${ids.map(() => '?').join(', ')})`,
+          ids,
+        );
+      }
+    });
+    return (await this.getCachedSchedule()) ?? [];
+  }
+
+  /**
+   * Gets the last updated timestamp
+   *
+   * @returns Date when schedule was last saved, or null
+   */
+  async getLastUpdated(): Promise<Date | null> {
+    try {
+      const timestamp = await this.getMeta(META_KEYS.LAST_UPDATED);
+
+      if (!timestamp) {
+        return null;
+      }
+
+      const date = new Date(timestamp);
+      return isNaN(date.getTime()) ? null : date;
+    } catch (error) {
+      console.error('Failed to get last updated timestamp:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Gets the metadata saved with the cached schedule
+   *
+   * @returns Saved metadata, or null if none was saved or it is unreadable
+   */
+  async getMetadata(): Promise<ScheduleMetadata | null> {
+    try {
+      return parseStoredMetadata(await this.getMeta(META_KEYS.METADATA));
+    } catch (error) {
+      console.error('Failed to load schedule metadata:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Gets the HTTP validators saved with the cached schedule
+   *
+   * @returns Saved validators, or null if none were saved
+   */
+  async getValidators(): Promise<CacheValidators | null> {
+    try {
+      return parseStoredValidators(await this.getMeta(META_KEYS.VALIDATORS));
+    } catch (error) {
+      console.error('Failed to load schedule validators:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Records that the source confirmed the cached schedule is unchanged
+   */
+  async markRevalidated(): Promise<void> {
+    try {
+      await this.transaction(() => this.setMeta(META_KEYS.LAST_UPDATED, new Date().toISOString()));
+    } catch (error) {
+      console.error('Failed to mark schedule as revalidated:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the freshness of the cached schedule (see computeFreshness)
+   *
+   * @returns Freshness status, transition times and time remaining
+   */
+  async getFreshness(): Promise<ScheduleFreshness> {
+    const lastUpdated = await this.getLastUpdated();
+    const metadata = lastUpdated ? await this.getMetadata() : null;
+
+    return computeFreshness(lastUpdated, metadata, this.policy);
+  }
+
+  /**
+   * Checks if cached schedule is stale
+   *
+   * @returns True if schedule should be refreshed
+   */
+  async isStale(): Promise<boolean> {
+    const { status } = await this.getFreshness();
+    return status !== 'fresh';
+  }
+
+  /**
+   * Clears all cached schedule data
+   *
+   * The AsyncStorage migration marker is kept, so a cleared cache is not
+   * filled again from the old blob.
+   */
+  async clearCache(): Promise<void> {
+    try {
+      await this.transaction(async () => {
+        await this.db.execute('DELETE FROM races');
+        await this.db.execute('DELETE FROM schedule_meta WHERE key != ?', [
+          META_KEYS.MIGRATED_FROM_ASYNC_STORAGE,
+        ]);
+      });
+    } catch (error) {
+      console.error('Failed to clear schedule cache:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Moves the AsyncStorage schedule cache into SQLite, once
+   *
+   * Races, metadata, validators and the original last updated timestamp
+   * are copied in one transaction, so freshness carries over. The
+   * AsyncStorage cache is cleared afterwards. Later calls do nothing.
+   *
+   * @param source - Cache to migrate from (default: AsyncStorageScheduleRepository)
+   * @returns Number of races migrated
+   */
+  async migrateFromAsyncStorage(
+    source: AsyncStorageScheduleRepository = new AsyncStorageScheduleRepository(),
+  ): Promise<number> {
+    await this.initialize();
+    if (await this.getMeta(META_KEYS.MIGRATED_FROM_ASYNC_STORAGE)) {
+      return 0;
+    }
+
+    const races = await source.getCachedSchedule();
+    const lastUpdated = await source.getLastUpdated();
+    const metadata = await source.getMetadata();
+    const validators = await source.getValidators();
+
+    await this.transaction(async () => {
+      if (races) {
+        await this.db.execute('DELETE FROM races');
+        await this.insertRaces(races);
+        await this.writeHeader(lastUpdated ?? new Date(0), metadata, validators);
+      }
+      await this.setMeta(META_KEYS.MIGRATED_FROM_ASYNC_STORAGE, new Date().toISOString());
+    });
+
+    if (races) {
+      await source.clearCache();
+    }
+    return races?.length ?? 0;
+  }
+
+  /**
+   * Creates tables and indexes on first use
+   * @private
+   */
+  private initialize(): Promise<void> {
+    if (!this.ready) {
+      this.ready = SCHEMA.reduce<Promise<unknown>>(
+        (previous, statement) => previous.then(() => this.db.execute(statement)),
+        Promise.resolve(),
+      )
+        .then(() => undefined)
+        .catch(error => {
+          this.ready = null;
+          throw error;
+        });
+    }
+    return this.ready;
+  }
+
+  /**
+   * Runs writes in a transaction, one transaction at a time
+   * @private
+   */
+  private transaction<T>(work: () => Promise<T>): Promise<T> {
+    const run = async (): Promise<T> => {
+      await this.initialize();
+      await this.db.execute('BEGIN');
+      try {
+        const result = await work();
+        await this.db.execute('COMMIT');
+        return result;
+      } catch (error) {
+        await this.db.execute('ROLLBACK');
+        throw error;
+      }
+    };
+
+    const result = this.writes.then(run, run);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Inserts or replaces races (call inside a transaction)
+   * @private
+   */
+  private async insertRaces(races: Race[]): Promise<void> {
+    for (const race of races) {
+      await this.db.execute(INSERT_RACE, [
+        race.id,
+        race.type,
+        race.tier,
+        race.trackName,
+        race.trackConfiguration,
+        race.carClass,
+        race.startTime,
+        Date.parse(race.startTime),
+        race.durationMinutes,
+        race.weatherCondition,
+        race.timeOfDay,
+        race.licenseRequirement,
+        race.repeatInterval,
+      ]);
+    }
+  }
+
+  /**
+   * Writes the timestamp, metadata and validators (call inside a transaction)
+   * @private
+   */
+  private async writeHeader(
+    lastUpdated: Date,
+    metadata: ScheduleMetadata | null,
+    validators: CacheValidators | null,
+  ): Promise<void> {
+    await this.setMeta(META_KEYS.LAST_UPDATED, lastUpdated.toISOString());
+    await this.setMeta(META_KEYS.METADATA, metadata ? JSON.stringify(metadata) : null);
+    await this.setMeta(
+      META_KEYS.VALIDATORS,
+      hasValidators(validators) ? JSON.stringify(validators) : null,
+    );
+  }
+
+  /**
+   * Reads a schedule_meta value
+   * @private
+   */
+  private async getMeta(key: MetaKey): Promise<string | null> {
+    await this.initialize();
+    const rows = await this.db.execute('SELECT value FROM schedule_meta WHERE key = ?', [key]);
+    return rows.length > 0 ? String(rows[0].value) : null;
+  }
+
+  /**
+   * Writes a schedule_meta value, or deletes it when null
+   * @private
+   */
+  private async setMeta(key: MetaKey, value: string | null): Promise<void> {
+    if (value === null) {
+      await this.db.execute('DELETE FROM schedule_meta WHERE key = ?', [key]);
+    } else {
+      await this.db.execute('INSERT OR REPLACE INTO schedule_meta (key, value) VALUES (?, ?)', [
+        key,
+        value,
+      ]);
+    }
+  }
+
+  /**
+   * Maps a races row back to the Race model
+   * @private
+   */
+  private rowToRace(row: SqlRow): Race {
+    return {
+      id: String(row.id),
+      type: row.type as Race['type'],
+      tier: row.tier as Race['tier'],
+      trackName: String(row.track_name),
+      trackConfiguration: row.track_configuration === null ? null : String(row.track_configuration),
+      carClass: row.car_class as Race['carClass'],
+      startTime: String(row.start_time),
+      durationMinutes: Number(row.duration_minutes),
+      weatherCondition: row.weather_condition as Race['weatherCondition'],
+      timeOfDay: row.time_of_day as Race['timeOfDay'],
+      licenseRequirement: row.license_requirement as Race['licenseRequirement'],
+      repeatInterval: row.repeat_interval === null ? null : Number(row.repeat_interval),
+      isLive: isRaceLive(String(row.start_time), Number(row.duration_minutes)),
+    };
+  }
+}
@@ -0,0 +1,108 @@
+import { RACE_SCHEMA } from '../types/Race';
+import type { Race } from '../types/Race';
+import type { RaceChange, RaceFieldChange, ScheduleDiffResult } from '../types/ScheduleChange';
+
+/**
+ * Fields that are computed or user-specific rather than part of the schedule
+ */
+const IGNORED_FIELDS: ReadonlyArray<keyof Race> = ['id', 'isLive', 'isFavorited'];
+
+/**
+ * Schedule fields compared between versions, in RACE_SCHEMA order
+ */
+export const COMPARED_RACE_FIELDS = (Object.keys(RACE_SCHEMA) as Array<keyof Race>).filter(
+  field => !IGNORED_FIELDS.includes(field),
+);
+
+/**
+ * ScheduleDiff service compares two schedules race by race
+ *
+ * Races are matched by ID. Start times are compared as instants, so
+ * "2025-11-15T14:00:00Z" and "2025-11-15T14:00:00.000Z" are equal.
+ */
+export class ScheduleDiff {
+  /**
+   * Compares the previous schedule with a fresh one
+   * @param previousRaces - Cached races (e.g. before a refresh)
+   * @param nextRaces - Fresh races from the schedule source
+   * @returns Races grouped by change kind with field-level before/after values
+   */
+  diff(previousRaces: Race[], nextRaces: Race[]): ScheduleDiffResult {
+    const previousById = new Map(previousRaces.map(race => [race.id, race]));
+    const nextIds = new Set(nextRaces.map(race => race.id));
+
+    const result: ScheduleDiffResult = {
+      added: [],
+      removed: [],
+      rescheduled: [],
+      modified: [],
+      unchanged: [],
+    };
+
+    nextRaces.forEach(after => {
+      const before = previousById.get(after.id);
+
+      if (!before) {
+        result.added.push({ kind: 'added', raceId: after.id, before: null, after, fields: [] });
+        return;
+      }
+
+      const fields = this.compareFields(before, after);
+      if (fields.length === 0) {
+        result.unchanged.push(after.id);
+      } else if (fields.some(change => change.field === 'startTime')) {
+        result.rescheduled.push({ kind: 'rescheduled', raceId: after.id, before, after, fields });
+      } else {
+        result.modified.push({ kind: 'modified', raceId: after.id, before, after, fields });
+      }
+    });
+
+    previousRaces.forEach(before => {
+      if (!nextIds.has(before.id)) {
+        result.removed.push({
+          kind: 'removed',
+          raceId: before.id,
+          before,
+          after: null,
+          fields: [],
+        });
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Checks whether a diff contains any changes
+   * @param result - Diff result
+   * @returns True if any race was added, removed, rescheduled or modified
+   */
+  hasChanges(result: ScheduleDiffResult): boolean {
+    return this.getChanges(result).length > 0;
+  }
+
+  /**
+   * Flattens a diff into a single list of changes
+   * @param result - Diff result
+   * @returns All changes, grouped by kind
+   */
+  getChanges(result: ScheduleDiffResult): RaceChange[] {
+    return [...result.added, ...result.removed, ...result.rescheduled, ...result.modified];
+  }
+
+  /**
+   * Lists fields whose values differ between two versions of a race
+   */
+  private compareFields(before: Race, after: Race): RaceFieldChange[] {
+    return COMPARED_RACE_FIELDS.filter(field => !this.isSameValue(field, before, after)).map(
+      field => ({ field, before: before[field], after: after[field] }),
+    );
+  }
+
+  private isSameValue(field: keyof Race, before: Race, after: Race): boolean {
+    if (field === 'startTime') {
+      return Date.parse(before.startTime) === Date.parse(after.startTime);
+    }
+    return before[field] === after[field];
+  }
+}
@@ -1,5 +1,7 @@
 import type { Race } from '../types/Race';
 import type { FavoritesRepository } from '../../favorites/services/FavoritesRepository';
+import { findMatchingSeries } from '../../favorites/utils/seriesMatching';
+import { planFavoriteRelinks } from '../../favorites/utils/favoriteRelinking';
 
 /**
  * ScheduleMerger service handles merging updated race schedules
@@ -38,7 +40,11 @@ export class ScheduleMerger {
 
   /**
    * Merges new race data with favorites from repository
-   * Removes favorites for races that no longer exist in the schedule
+   * Favorites whose race is no longer in the schedule are re-linked when the
+   * race seems to have only changed ID: confident matches move automatically,
+   * ambiguous ones wait for the user in the pending relink list, and the
+   * rest are removed.
+   * Series favorites are kept and mark every matching race as favorited.
    * @param existingRaces - Current races with user data
    * @param newRaces - Updated races from the schedule source
    * @param favoritesRepository - Repository to manage favorites
@@ -51,21 +57,38 @@ export class ScheduleMerger {
   ): Promise<Race[]> {
     // Get all favorites from repository
     const favorites = await favoritesRepository.getFavorites();
-    const favoriteRaceIds = new Set(favorites.map((f) => f.raceId));
+    const series = await favoritesRepository.getSeriesFavorites();
+    const pending = await favoritesRepository.getPendingRelinks();
 
     // Create a set of new race IDs for quick lookup
     const newRaceIds = new Set(newRaces.map((race) => race.id));
 
-    // Remove favorites for races that no longer exist in the schedule
-    for (const favorite of favorites) {
-      if (!newRaceIds.has(favorite.raceId)) {
-        await favoritesRepository.removeFavorite(favorite.raceId);
-      }
+    // Favorites for races that no longer exist in the schedule
+    const orphans = favorites.filter(f => !newRaceIds.has(f.raceId));
+    const favoriteRaceIds = new Set(
+      favorites.map(f => f.raceId).filter(raceId => newRaceIds.has(raceId)),
+    );
+
+    const plan = planFavoriteRelinks({
+      orphans,
+      previousRaces: existingRaces,
+      pending,
+      races: newRaces,
+      favoritedRaceIds: favoriteRaceIds,
+    });
+
+    if (plan.removed.length > 0) {
+      await favoritesRepository.removeFavorites(plan.removed);
+    }
+    if (plan.relinked.length > 0 || plan.pending.length > 0 || pending.length > 0) {
+      await favoritesRepository.applyRelinks(plan.relinked, plan.pending);
     }
+    plan.relinked.forEach(relinked => favoriteRaceIds.add(relinked.favorite.raceId));
 
     // Merge new races with favorite status
     return newRaces.map((newRace) => {
-      const isFavorited = favoriteRaceIds.has(newRace.id);
+      const isFavorited =
+        favoriteRaceIds.has(newRace.id) || findMatchingSeries(newRace, series) !== undefined;
 
       return {
         ...newRace,
@@ -0,0 +1,227 @@
+/**
+ * Background schedule refresh on app foreground
+ *
+ * FR-028: when the app returns to the foreground with a stale cache, the
+ * schedule is refreshed silently in the background. ScheduleRefreshCoordinator
+ * listens to AppState changes, shares one in-flight refresh between all
+ * callers, and backs off exponentially after failed refreshes.
+ *
+ * @see specs/001-lmu-schedule-tracker/spec.md (FR-028)
+ */
+
+import { AppState, AppStateStatus } from 'react-native';
+
+/**
+ * Default delay after the first failed refresh
+ */
+export const DEFAULT_INITIAL_BACKOFF_MS = 30 * 1000;
+
+/**
+ * Default upper bound for the backoff delay
+ */
+export const DEFAULT_MAX_BACKOFF_MS = 15 * 60 * 1000;
+
+/**
+ * The parts of React Native's AppState the coordinator uses
+ * (a fake can be passed in tests)
+ */
+export interface AppStateSource {
+  currentState: AppStateStatus;
+  addEventListener(
+    type: 'change',
+    listener: (state: AppStateStatus) => void,
+  ): { remove: () => void };
+}
+
+/**
+ * What the coordinator checks and runs
+ */
+export interface RefreshTask {
+  /**
+   * Resolves true when the cached schedule needs refreshing
+   */
+  isStale: () => Promise<boolean>;
+
+  /**
+   * Fetches and applies a fresh schedule; rejects on failure
+   */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Constructor options for ScheduleRefreshCoordinator
+ */
+export interface ScheduleRefreshCoordinatorOptions {
+  /**
+   * AppState to listen to (default: React Native AppState)
+   */
+  appState?: AppStateSource;
+
+  /**
+   * Delay after the first failure, doubled for each further failure (default: 30s)
+   */
+  initialBackoffMs?: number;
+
+  /**
+   * Longest backoff delay (default: 15 minutes)
+   */
+  maxBackoffMs?: number;
+}
+
+/**
+ * Refreshes a stale schedule when the app comes to the foreground
+ *
+ * @example
+ * ```typescript
+ * const coordinator = new ScheduleRefreshCoordinator({
+ *   isStale: () => cache.isStale(),
+ *   refresh: applyFreshSchedule,
+ * });
+ * coordinator.start();
+ * // ...
+ * coordinator.stop();
+ * ```
+ */
+export class ScheduleRefreshCoordinator {
+  private readonly appState: AppStateSource;
+  private readonly initialBackoffMs: number;
+  private readonly maxBackoffMs: number;
+  private subscription: { remove: () => void } | null = null;
+  private lastState: AppStateStatus;
+  private inFlight: Promise<void> | null = null;
+  private failureCount = 0;
+  private backoffUntil = 0;
+
+  constructor(private readonly task: RefreshTask, options: ScheduleRefreshCoordinatorOptions = {}) {
+    this.appState = options.appState ?? AppState;
+    this.initialBackoffMs = options.initialBackoffMs ?? DEFAULT_INITIAL_BACKOFF_MS;
+    this.maxBackoffMs = options.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS;
+    this.lastState = this.appState.currentState;
+  }
+
+  /**
+   * Starts listening for the app returning to the foreground
+   */
+  start(): void {
+    if (this.subscription) {
+      return;
+    }
+    this.lastState = this.appState.currentState;
+    this.subscription = this.appState.addEventListener('change', state =>
+      this.handleAppStateChange(state),
+    );
+  }
+
+  /**
+   * Stops listening; a refresh already in flight still completes
+   */
+  stop(): void {
+    this.subscription?.remove();
+    this.subscription = null;
+  }
+
+  /**
+   * Refreshes in the background if the cache is stale
+   *
+   * Does nothing while backing off after a failure. Failures are logged,
+   * not thrown, so callers can fire and forget.
+   *
+   * @returns True if a refresh ran (or was already running) and succeeded
+   */
+  async refreshIfStale(): Promise<boolean> {
+    if (this.inFlight) {
+      return this.settle(this.inFlight);
+    }
+    if (Date.now() < this.backoffUntil) {
+      return false;
+    }
+
+    try {
+      if (!(await this.task.isStale())) {
+        return false;
+      }
+    } catch (error) {
+      console.error('Failed to check schedule freshness:', error);
+      return false;
+    }
+
+    return this.settle(this.refreshNow());
+  }
+
+  /**
+   * Refreshes now, ignoring freshness and backoff (e.g. pull-to-refresh)
+   *
+   * Joins the refresh already in flight instead of starting another.
+   *
+   * @throws The refresh error, after recording it for backoff
+   */
+  refreshNow(): Promise<void> {
+    if (!this.inFlight) {
+      this.inFlight = this.run().finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  /**
+   * Number of consecutive failed refreshes
+   */
+  getFailureCount(): number {
+    return this.failureCount;
+  }
+
+  /**
+   * When background refreshes resume after a failure (null if not backing off)
+   */
+  getBackoffUntil(): Date | null {
+    return Date.now() < this.backoffUntil ? new Date(this.backoffUntil) : null;
+  }
+
+  /**
+   * Checks for stale data when the app becomes active again
+   * @private
+   */
+  private handleAppStateChange(state: AppStateStatus): void {
+    const wasInBackground = this.lastState !== 'active';
+    this.lastState = state;
+
+    if (state === 'active' && wasInBackground) {
+      this.refreshIfStale();
+    }
+  }
+
+  /**
+   * Runs the refresh task and updates the backoff state
+   * @private
+   */
+  private async run(): Promise<void> {
+    try {
+      await this.task.refresh();
+      this.failureCount = 0;
+      this.backoffUntil = 0;
+    } catch (error) {
+      this.failureCount += 1;
+      const delay = Math.min(
+        this.initialBackoffMs * 2 ** (this.failureCount - 1),
+        this.maxBackoffMs,
+      );
+      this.backoffUntil = Date.now() + delay;
+      throw error;
+    }
+  }
+
+  /**
+   * Resolves whether a refresh succeeded, logging failures
+   * @private
+   */
+  private async settle(refresh: Promise<void>): Promise<boolean> {
+    try {
+      await refresh;
+      return true;
+    } catch (error) {
+      console.error('Background schedule refresh failed:', error);
+      return false;
+    }
+  }
+}
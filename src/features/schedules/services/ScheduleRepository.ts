@@ -6,9 +6,12 @@
  * while keeping the rest of the app agnostic to storage details.
  *
  * @see AsyncStorageScheduleRepository for AsyncStorage implementation
+ * @see SQLiteScheduleRepository for SQLite implementation
  */
 
 import { Race } from '../types/Race';
+import { CacheValidators, ScheduleMetadata } from '../types/ScheduleResponse';
+import { ScheduleFreshness } from '../types/ScheduleFreshness';
 
 /**
  * Repository interface for schedule data operations
@@ -53,8 +56,10 @@ export interface ScheduleRepository {
    * Saves schedule data to local storage
    *
    * Persists race schedule and updates the last updated timestamp.
+   * Metadata, when the source provides it, determines cache freshness.
    *
    * @param races - Array of Race objects to save
+   * @param metadata - Optional schedule metadata (generatedAt, validUntil)
    * @returns Promise that resolves when save is complete
    *
    * @example
@@ -64,12 +69,13 @@ export interface ScheduleRepository {
    * // Schedule is now cached with current timestamp
    * ```
    */
-  saveSchedule(races: Race[]): Promise<void>;
+  saveSchedule(races: Race[], metadata?: ScheduleMetadata | null): Promise<void>;
 
   /**
    * Gets the timestamp of when the schedule was last updated
    *
-   * Used to determine if cached data is stale (>24 hours old).
+   * Used for the "last updated" indicator and as the fallback freshness
+   * baseline when no metadata was saved.
    * Returns null if schedule has never been saved.
    *
    * @returns Promise resolving to Date or null
@@ -85,3 +91,63 @@ export interface ScheduleRepository {
    */
   getLastUpdated(): Promise<Date | null>;
 }
+
+/**
+ * Local schedule cache used by the remote repository, windowed loading and
+ * useRaceSchedule
+ *
+ * Implemented by AsyncStorageScheduleRepository (one JSON blob) and
+ * SQLiteScheduleRepository (indexed rows, for large multi-week schedules).
+ */
+export interface ScheduleCache extends ScheduleRepository {
+  /**
+   * Replaces the cached schedule along with its metadata and HTTP validators
+   */
+  saveSchedule(
+    races: Race[],
+    metadata?: ScheduleMetadata | null,
+    validators?: CacheValidators | null,
+  ): Promise<void>;
+
+  /**
+   * Upserts races by ID without touching metadata, validators or the timestamp
+   * @returns The merged cached schedule
+   */
+  mergeRaces(races: Race[]): Promise<Race[]>;
+
+  /**
+   * Removes races by ID
+   * @returns The remaining cached schedule
+   */
+  removeRaces(raceIds: string[]): Promise<Race[]>;
+
+  /**
+   * Gets the metadata saved with the cached schedule
+   */
+  getMetadata(): Promise<ScheduleMetadata | null>;
+
+  /**
+   * Gets the HTTP validators saved with the cached schedule
+   */
+  getValidators(): Promise<CacheValidators | null>;
+
+  /**
+   * Bumps the last updated timestamp after a 304 Not Modified
+   */
+  markRevalidated(): Promise<void>;
+
+  /**
+   * Gets the freshness of the cached schedule
+   */
+  getFreshness(): Promise<ScheduleFreshness>;
+
+  /**
+   * Checks whether the cached schedule should be refreshed
+   */
+  isStale(): Promise<boolean>;
+
+  /**
+   * Removes the cached schedule and everything saved with it
+   */
+  clearCache(): Promise<void>;
+}
@@ -0,0 +1,271 @@
+/**
+ * Date-range windowed schedule loading
+ *
+ * The schedule API accepts at most 7 days per request. ScheduleWindowService
+ * fetches the schedule beyond the initial load one window at a time, merges
+ * each window into the schedule cache without duplicates, and evicts
+ * windows that lie entirely in the past.
+ *
+ * @see specs/001-lmu-schedule-tracker/contracts/schedule-api.yaml
+ */
+
+import { Race } from '../types/Race';
+import { ScheduleWindow, WindowLoadResult } from '../types/ScheduleWindow';
+import { AsyncStorageScheduleRepository } from './AsyncStorageScheduleRepository';
+import { ScheduleCache } from './ScheduleRepository';
+import { RemoteScheduleRepository } from './RemoteScheduleRepository';
+import { STORAGE_KEYS } from '../../../shared/constants/storageKeys';
+import { KeyValueStore } from '../../../shared/storage/KeyValueStore';
+import { defaultKeyValueStore } from '../../../shared/storage/defaultKeyValueStore';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Longest range the API accepts in one request
+ */
+export const MAX_WINDOW_DAYS = 7;
+
+/**
+ * Default distance ahead of now that can be browsed
+ */
+export const DEFAULT_HORIZON_DAYS = 8 * 7;
+
+/**
+ * Constructor options for ScheduleWindowService
+ */
+export interface ScheduleWindowServiceOptions {
+  /**
+   * Cache the windows are merged into (default: AsyncStorageScheduleRepository)
+   */
+  cache?: ScheduleCache;
+
+  /**
+   * Store the loaded windows are recorded in (default: AsyncStorage)
+   */
+  store?: KeyValueStore;
+
+  /**
+   * Window length in days, capped at MAX_WINDOW_DAYS (default: 7)
+   */
+  windowDays?: number;
+
+  /**
+   * How far ahead of now windows may be loaded (default: 8 weeks)
+   */
+  horizonDays?: number;
+}
+
+/**
+ * Loads and caches the schedule in date-range windows
+ *
+ * @example
+ * ```typescript
+ * const windows = new ScheduleWindowService(remoteRepository);
+ * const { races, hasMore } = await windows.loadNextWindow();
+ * ```
+ */
+export class ScheduleWindowService {
+  private readonly cache: ScheduleCache;
+  private readonly store: KeyValueStore;
+  private readonly windowMs: number;
+  private readonly horizonMs: number;
+
+  constructor(
+    private readonly remote: RemoteScheduleRepository,
+    options: ScheduleWindowServiceOptions = {},
+  ) {
+    this.cache = options.cache ?? new AsyncStorageScheduleRepository();
+    this.store = options.store ?? defaultKeyValueStore;
+    this.windowMs = Math.min(options.windowDays ?? MAX_WINDOW_DAYS, MAX_WINDOW_DAYS) * DAY_MS;
+    this.horizonMs = (options.horizonDays ?? DEFAULT_HORIZON_DAYS) * DAY_MS;
+  }
+
+  /**
+   * Gets the loaded windows, ordered by start
+   */
+  async getWindows(): Promise<ScheduleWindow[]> {
+    try {
+      const data = await this.store.getItem(STORAGE_KEYS.SCHEDULE_WINDOWS);
+      const parsed: unknown = data ? JSON.parse(data) : [];
+
+      return Array.isArray(parsed) ? (parsed as ScheduleWindow[]) : [];
+    } catch (error) {
+      console.error('Failed to load schedule windows:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Fetches one window and merges it into the cache
+   *
+   * Ranges longer than the window length are shortened. Windows that
+   * overlap an already loaded window are combined into one.
+   *
+   * @param from - Window start
+   * @param to - Window end (default: from + window length)
+   * @returns The window record after combining with overlapping windows
+   * @throws ScheduleApiError if the fetch fails
+   */
+  async loadWindow(from: Date, to?: Date): Promise<ScheduleWindow> {
+    const end = Math.min(to?.getTime() ?? Infinity, from.getTime() + this.windowMs);
+    const range = { from: from.toISOString(), to: new Date(end).toISOString() };
+
+    const { races } = await this.remote.fetchParsedSchedule(range);
+    await this.cache.mergeRaces(races);
+
+    const fetched: ScheduleWindow = {
+      ...range,
+      fetchedAt: new Date().toISOString(),
+      raceIds: races.map(race => race.id),
+    };
+
+    const windows = await this.getWindows();
+    const overlapping = windows.filter(window => this.overlaps(window, fetched));
+    const combined = overlapping.reduce(
+      (result, window) => ({
+        from: Date.parse(window.from) < Date.parse(result.from) ? window.from : result.from,
+        to: Date.parse(window.to) > Date.parse(result.to) ? window.to : result.to,
+        fetchedAt: result.fetchedAt,
+        raceIds: Array.from(new Set([...window.raceIds, ...result.raceIds])),
+      }),
+      fetched,
+    );
+
+    await this.saveWindows([...windows.filter(window => !overlapping.includes(window)), combined]);
+    return combined;
+  }
+
+  /**
+   * Loads the window after the base schedule or the last loaded window
+   *
+   * Evicts past windows first. Empty windows are skipped (up to the
+   * horizon) so a quiet week does not stop browsing.
+   *
+   * @param now - Reference time (default: now)
+   * @returns Merged races, the loaded window and whether more can be loaded
+   * @throws ScheduleApiError if a fetch fails
+   */
+  async loadNextWindow(now: Date = new Date()): Promise<WindowLoadResult> {
+    await this.evictPastWindows(now);
+
+    const horizon = now.getTime() + this.horizonMs;
+    let window: ScheduleWindow | null = null;
+    let start = await this.getNextWindowStart(now);
+
+    while (start < horizon) {
+      const cached = (await this.cache.getCachedSchedule()) ?? [];
+      const knownIds = new Set(cached.map(race => race.id));
+      const end = Math.min(horizon, start + this.windowMs);
+
+      window = await this.loadWindow(new Date(start), new Date(end));
+      start = Date.parse(window.to);
+
+      if (window.raceIds.some(id => !knownIds.has(id))) {
+        break;
+      }
+    }
+
+    return {
+      races: (await this.cache.getCachedSchedule()) ?? [],
+      window,
+      hasMore: start < horizon,
+    };
+  }
+
+  /**
+   * Removes windows that ended before `now`
+   *
+   * Finished races returned only by evicted windows are removed from the
+   * cache. Repeating races are kept, since later slots may still be ahead.
+   *
+   * @param now - Reference time (default: now)
+   * @returns IDs of races removed from the cache
+   */
+  async evictPastWindows(now: Date = new Date()): Promise<string[]> {
+    const windows = await this.getWindows();
+    const past = windows.filter(window => Date.parse(window.to) <= now.getTime());
+
+    if (past.length === 0) {
+      return [];
+    }
+
+    const remaining = windows.filter(window => !past.includes(window));
+    const stillReferenced = new Set(remaining.flatMap(window => window.raceIds));
+    const candidates = new Set(past.flatMap(window => window.raceIds));
+    const cached = (await this.cache.getCachedSchedule()) ?? [];
+
+    const evictedIds = cached
+      .filter(race => candidates.has(race.id) && !stillReferenced.has(race.id))
+      .filter(race => this.hasFinished(race, now))
+      .map(race => race.id);
+
+    if (evictedIds.length > 0) {
+      await this.cache.removeRaces(evictedIds);
+    }
+    await this.saveWindows(remaining);
+    return evictedIds;
+  }
+
+  /**
+   * Forgets all loaded windows
+   *
+   * Call after the base schedule is replaced by a full refresh, which
+   * drops any races merged in from windows.
+   */
+  async reset(): Promise<void> {
+    await this.store.removeItem(STORAGE_KEYS.SCHEDULE_WINDOWS);
+  }
+
+  /**
+   * Gets where the next window starts: the end of the last window, else
+   * the end of the range covered by the base schedule, else now
+   *
+   * The base schedule covers MAX_WINDOW_DAYS from when it was generated.
+   * Cached race starts are not used, since one far-future special event
+   * would skip every week before it.
+   * @private
+   */
+  private async getNextWindowStart(now: Date): Promise<number> {
+    const windows = await this.getWindows();
+    if (windows.length > 0) {
+      return Math.max(...windows.map(window => Date.parse(window.to)));
+    }
+
+    const metadata = await this.cache.getMetadata();
+    const baseStart = metadata
+      ? Date.parse(metadata.generatedAt)
+      : (await this.cache.getLastUpdated())?.getTime();
+
+    return baseStart === undefined
+      ? now.getTime()
+      : Math.max(now.getTime(), baseStart + MAX_WINDOW_DAYS * DAY_MS);
+  }
+
+  /**
+   * Saves windows ordered by start
+   * @private
+   */
+  private async saveWindows(windows: ScheduleWindow[]): Promise<void> {
+    const sorted = [...windows].sort((a, b) => Date.parse(a.from) - Date.parse(b.from));
+    await this.store.setItem(STORAGE_KEYS.SCHEDULE_WINDOWS, JSON.stringify(sorted));
+  }
+
+  /**
+   * Checks whether two half-open windows share any time
+   * @private
+   */
+  private overlaps(a: ScheduleWindow, b: ScheduleWindow): boolean {
+    return Date.parse(a.from) < Date.parse(b.to) && Date.parse(b.from) < Date.parse(a.to);
+  }
+
+  /**
+   * Checks whether a non-repeating race has ended
+   * @private
+   */
+  private hasFinished(race: Race, now: Date): boolean {
+    if (race.repeatInterval !== null) {
+      return false;
+    }
+    return Date.parse(race.startTime) + race.durationMinutes * 60 * 1000 <= now.getTime();
+  }
+}
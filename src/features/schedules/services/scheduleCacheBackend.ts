@@ -0,0 +1,85 @@
+/**
+ * Schedule cache backend selection
+ *
+ * The schedule is cached in SQLite (react-native-quick-sqlite) when the
+ * native module is linked, and in AsyncStorage otherwise. The first start
+ * with SQLite moves the existing AsyncStorage cache over.
+ */
+
+import type * as QuickSqlite from 'react-native-quick-sqlite';
+import { AsyncStorageScheduleRepository } from './AsyncStorageScheduleRepository';
+import { ScheduleCache } from './ScheduleRepository';
+import { SQLiteScheduleRepository, SqlDatabase } from './SQLiteScheduleRepository';
+
+/**
+ * Where the schedule cache is kept
+ */
+export type ScheduleCacheBackend = 'sqlite' | 'asyncStorage';
+
+/**
+ * Backend the app caches the schedule in; SQLite falls back to AsyncStorage
+ * when the database cannot be opened
+ */
+export const SCHEDULE_CACHE_BACKEND: ScheduleCacheBackend = 'sqlite';
+
+/**
+ * File name of the schedule database
+ */
+export const SCHEDULE_DATABASE_NAME = 'racesync.db';
+
+/**
+ * Opens the schedule database with react-native-quick-sqlite
+ *
+ * The module is loaded lazily because importing it throws when the native
+ * side is not linked or JSI is unavailable (e.g. under a remote debugger).
+ *
+ * @param name - Database file name (default: SCHEDULE_DATABASE_NAME)
+ * @returns SQL driver, or null if SQLite is unavailable
+ */
+export function openQuickSqliteDatabase(name: string = SCHEDULE_DATABASE_NAME): SqlDatabase | null {
+  try {
+    const { open }: typeof QuickSqlite = require('react-native-quick-sqlite');
+    const connection = open({ name });
+
+    return {
+      execute: async (sql, params) =>
+        (await connection.executeAsync(sql, params)).rows?._array ?? [],
+    };
+  } catch (error) {
+    console.warn('SQLite is unavailable, caching the schedule in AsyncStorage:', error);
+    return null;
+  }
+}
+
+/**
+ * Opens the schedule cache for a backend
+ *
+ * For SQLite, the AsyncStorage cache is migrated first; this only copies
+ * anything on the first start. If the database cannot be opened or the
+ * migration fails, the AsyncStorage cache is returned so the app still
+ * starts.
+ *
+ * @param backend - Cache backend (default: SCHEDULE_CACHE_BACKEND)
+ * @param openDatabase - SQL driver factory (default: openQuickSqliteDatabase)
+ * @param legacyCache - AsyncStorage cache to migrate from and fall back to
+ * @returns The schedule cache to use
+ */
+export async function openScheduleCache(
+  backend: ScheduleCacheBackend = SCHEDULE_CACHE_BACKEND,
+  openDatabase: () => SqlDatabase | null = openQuickSqliteDatabase,
+  legacyCache: AsyncStorageScheduleRepository = new AsyncStorageScheduleRepository(),
+): Promise<ScheduleCache> {
+  const db = backend === 'sqlite' ? openDatabase() : null;
+  if (!db) {
+    return legacyCache;
+  }
+
+  const cache = new SQLiteScheduleRepository(db);
+  try {
+    await cache.migrateFromAsyncStorage(legacyCache);
+    return cache;
+  } catch (error) {
+    console.error('Failed to move the schedule cache to SQLite:', error);
+    return legacyCache;
+  }
+}
@@ -1,41 +1,121 @@
 /**
- * Race entity representing a single race event
+ * Race entity representing a single Le Mans Ultimate race event
+ *
+ * This is the canonical race model used by parsing, storage, filtering and
+ * UI code. Enum unions are derived from the runtime value lists below, so the
+ * same lists drive both compile-time types and runtime validation.
+ *
+ * @see specs/001-lmu-schedule-tracker/data-model.md for complete specifications
+ */
+
+/**
+ * Race categories
+ */
+export const RACE_TYPES = ['daily', 'weekly', 'special'] as const;
+
+/**
+ * Skill tiers (daily races only)
+ */
+export const RACE_TIERS = ['beginner', 'intermediate', 'advanced'] as const;
+
+/**
+ * Car categories
+ */
+export const CAR_CLASSES = ['LMP2', 'Hypercar', 'LMGT3', 'Multi-class'] as const;
+
+/**
+ * Weather types
+ */
+export const WEATHER_CONDITIONS = ['Clear', 'Dynamic', 'Real Weather'] as const;
+
+/**
+ * Time of day progressions
+ */
+export const TIMES_OF_DAY = ['Morning', 'Afternoon', 'Sunset', 'Night', 'Full Day Cycle'] as const;
+
+/**
+ * Minimum safety ratings
+ */
+export const LICENSE_REQUIREMENTS = ['Bronze', 'Silver', 'Gold'] as const;
+
+export type RaceType = (typeof RACE_TYPES)[number];
+export type RaceTier = (typeof RACE_TIERS)[number];
+export type CarClass = (typeof CAR_CLASSES)[number];
+export type WeatherCondition = (typeof WEATHER_CONDITIONS)[number];
+export type TimeOfDay = (typeof TIMES_OF_DAY)[number];
+export type LicenseRequirement = (typeof LICENSE_REQUIREMENTS)[number];
+
+/**
+ * Race entity
  */
 export interface Race {
   /**
-   * Unique identifier for the race
+   * Unique identifier, stable across schedule updates
    */
   id: string;
 
   /**
-   * Name of the race event
+   * Race category for filtering
+   */
+  type: RaceType;
+
+  /**
+   * Skill level (null for weekly/special races)
    */
-  name: string;
+  tier: RaceTier | null;
 
   /**
-   * Date and time when the race starts
+   * Circuit name
+   * @example "Spa-Francorchamps"
    */
-  startTime: Date;
+  trackName: string;
 
   /**
-   * Date and time when the race ends
+   * Track layout variant
+   * @example "Grand Prix"
    */
-  endTime: Date;
+  trackConfiguration: string | null;
 
   /**
-   * Location where the race takes place
+   * Car category
    */
-  location: string;
+  carClass: CarClass;
 
   /**
-   * Category/type of the race (e.g., "Varsity", "JV", "Novice")
+   * Race start time in ISO 8601 UTC format
+   * @example "2025-11-15T19:00:00Z"
    */
-  category: string;
+  startTime: string;
 
   /**
-   * Optional description or notes about the race
+   * Race length in minutes
    */
-  description?: string;
+  durationMinutes: number;
+
+  /**
+   * Weather type
+   */
+  weatherCondition: WeatherCondition;
+
+  /**
+   * Time of day progression
+   */
+  timeOfDay: TimeOfDay;
+
+  /**
+   * Minimum safety rating required
+   */
+  licenseRequirement: LicenseRequirement;
+
+  /**
+   * Minutes between repeats for daily races, null for non-repeating races
+   */
+  repeatInterval: number | null;
+
+  /**
+   * Computed: true if current time is between startTime and startTime + duration
+   */
+  isLive: boolean;
 
   /**
    * Whether this race is favorited by the user
@@ -43,3 +123,82 @@ export interface Race {
    */
   isFavorited?: boolean;
 }
+
+/**
+ * Runtime description of a single Race field
+ */
+export type RaceFieldSchema =
+  | { kind: 'string'; nullable: boolean }
+  | { kind: 'enum'; values: readonly string[]; nullable: boolean }
+  | { kind: 'number'; nullable: boolean }
+  | { kind: 'isoDate' }
+  | { kind: 'boolean'; optional: boolean };
+
+/**
+ * Runtime schema for Race
+ *
+ * Used by isRace for checking persisted data before it is handed to the
+ * rest of the app, and by ScheduleDiff for the fields it compares.
+ * RaceDataParser checks API payloads field by field instead, so it can say
+ * which field of which race is invalid.
+ */
+export const RACE_SCHEMA: Record<keyof Race, RaceFieldSchema> = {
+  id: { kind: 'string', nullable: false },
+  type: { kind: 'enum', values: RACE_TYPES, nullable: false },
+  tier: { kind: 'enum', values: RACE_TIERS, nullable: true },
+  trackName: { kind: 'string', nullable: false },
+  trackConfiguration: { kind: 'string', nullable: true },
+  carClass: { kind: 'enum', values: CAR_CLASSES, nullable: false },
+  startTime: { kind: 'isoDate' },
+  durationMinutes: { kind: 'number', nullable: false },
+  weatherCondition: { kind: 'enum', values: WEATHER_CONDITIONS, nullable: false },
+  timeOfDay: { kind: 'enum', values: TIMES_OF_DAY, nullable: false },
+  licenseRequirement: { kind: 'enum', values: LICENSE_REQUIREMENTS, nullable: false },
+  repeatInterval: { kind: 'number', nullable: true },
+  isLive: { kind: 'boolean', optional: false },
+  isFavorited: { kind: 'boolean', optional: true },
+};
+
+/**
+ * Checks a single value against its field schema
+ */
+const matchesFieldSchema = (value: unknown, schema: RaceFieldSchema): boolean => {
+  switch (schema.kind) {
+    case 'string':
+      return (schema.nullable && value === null) || (typeof value === 'string' && value !== '');
+    case 'enum':
+      return (
+        (schema.nullable && value === null) ||
+        (typeof value === 'string' && schema.values.includes(value))
+      );
+    case 'number':
+      return (
+        (schema.nullable && value === null) ||
+        (typeof value === 'number' && Number.isFinite(value) && value > 0)
+      );
+    case 'isoDate':
+      return typeof value === 'string' && !isNaN(Date.parse(value));
+    case 'boolean':
+      return (schema.optional && value === undefined) || typeof value === 'boolean';
+  }
+};
+
+/**
+ * Type guard checking that a value matches the canonical Race schema
+ *
+ * @example
+ * ```typescript
+ * const cached: unknown[] = JSON.parse(json);
+ * const races = cached.filter(isRace);
+ * ```
+ */
+export const isRace = (value: unknown): value is Race => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const record = value as Record<string, unknown>;
+  return (Object.keys(RACE_SCHEMA) as Array<keyof Race>).every(field =>
+    matchesFieldSchema(record[field], RACE_SCHEMA[field]),
+  );
+};
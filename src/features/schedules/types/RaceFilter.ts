@@ -2,7 +2,8 @@
  * Race Filter Types
  *
  * Defines the available filter options for the race schedule view.
- * Users can filter races by category (Daily, Weekly, Special) or by favorites.
+ * Users can filter races by category (Daily, Weekly, Special), by favorites,
+ * or by a saved smart filter rule.
  *
  * Task: T053 [US2]
  */
@@ -49,3 +50,45 @@ export const FILTER_LABELS: Record<RaceFilter, string> = {
 export const isValidRaceFilter = (value: string): value is RaceFilter => {
   return ['all', 'daily', 'weekly', 'special', 'favorites'].includes(value);
 };
+
+/**
+ * Prefix of filter selections that refer to a saved smart filter rule
+ */
+export const SMART_FILTER_PREFIX = 'rule:' as const;
+
+/**
+ * Selection of a saved smart filter, e.g. "rule:rule-abc123"
+ */
+export type SmartFilterKey = `${typeof SMART_FILTER_PREFIX}${string}`;
+
+/**
+ * Any filter the FilterBar can select: a built-in RaceFilter or a saved smart filter
+ */
+export type FilterSelection = RaceFilter | SmartFilterKey;
+
+/**
+ * Builds the filter selection for a smart filter rule
+ *
+ * @param ruleId - ID of the smart filter rule
+ * @returns Smart filter key
+ */
+export const toSmartFilterKey = (ruleId: string): SmartFilterKey =>
+  `${SMART_FILTER_PREFIX}${ruleId}`;
+
+/**
+ * Helper function to check if a filter selection refers to a smart filter rule
+ *
+ * @param value - The value to check
+ * @returns True if the value is a SmartFilterKey
+ */
+export const isSmartFilterKey = (value: string): value is SmartFilterKey =>
+  value.startsWith(SMART_FILTER_PREFIX) && value.length > SMART_FILTER_PREFIX.length;
+
+/**
+ * Helper function to check if a string is a valid FilterSelection
+ *
+ * @param value - The value to check
+ * @returns True if the value is a RaceFilter or SmartFilterKey
+ */
+export const isValidFilterSelection = (value: string): value is FilterSelection =>
+  isValidRaceFilter(value) || isSmartFilterKey(value);
@@ -0,0 +1,48 @@
+/**
+ * Race occurrence types
+ *
+ * A daily race with a repeatInterval describes a series of slots rather than
+ * a single event. Each concrete slot is a RaceOccurrence, which favorites and
+ * notifications can target individually.
+ */
+
+/**
+ * A single concrete slot of a race series
+ */
+export interface RaceOccurrence {
+  /**
+   * Stable slot identifier derived from the race ID and slot start time
+   * @example "550e8400-e29b-41d4-a716-446655440000@2025-11-15T14:40:00.000Z"
+   */
+  id: string;
+
+  /**
+   * ID of the race series this slot belongs to
+   */
+  raceId: string;
+
+  /**
+   * Slot start time in ISO 8601 UTC format
+   */
+  startTime: string;
+
+  /**
+   * Slot length in minutes (same as the parent race)
+   */
+  durationMinutes: number;
+}
+
+/**
+ * Remaining slots for the current day in the device timezone
+ */
+export interface DailySlots {
+  /**
+   * Upcoming slots that start before the end of today
+   */
+  today: RaceOccurrence[];
+
+  /**
+   * First slot of the next local day, set only when no slots remain today
+   */
+  tomorrow: RaceOccurrence | null;
+}
@@ -0,0 +1,53 @@
+/**
+ * Schedule change types
+ *
+ * Describes what changed between two versions of the schedule, so calendar
+ * events and notifications can follow rescheduled races and the UI can flag
+ * them.
+ */
+
+import { Race } from './Race';
+
+/**
+ * How a race changed between two schedules
+ * - added: only in the new schedule
+ * - removed: only in the old schedule
+ * - rescheduled: startTime changed (other fields may also have changed)
+ * - modified: startTime unchanged, other schedule fields changed
+ */
+export type RaceChangeKind = 'added' | 'removed' | 'rescheduled' | 'modified';
+
+/**
+ * Before/after values for a single changed field
+ */
+export interface RaceFieldChange<K extends keyof Race = keyof Race> {
+  field: K;
+  before: Race[K];
+  after: Race[K];
+}
+
+/**
+ * A single race that differs between two schedules
+ */
+export interface RaceChange {
+  kind: RaceChangeKind;
+  raceId: string;
+  /** Race in the old schedule (null when added) */
+  before: Race | null;
+  /** Race in the new schedule (null when removed) */
+  after: Race | null;
+  /** Changed fields (empty for added/removed races) */
+  fields: RaceFieldChange[];
+}
+
+/**
+ * Result of comparing two schedules
+ */
+export interface ScheduleDiffResult {
+  added: RaceChange[];
+  removed: RaceChange[];
+  rescheduled: RaceChange[];
+  modified: RaceChange[];
+  /** IDs of races present in both schedules with no relevant changes */
+  unchanged: string[];
+}
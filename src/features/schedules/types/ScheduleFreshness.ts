@@ -0,0 +1,38 @@
+/**
+ * Schedule cache freshness types
+ *
+ * The cached schedule goes through three states:
+ * - fresh: before metadata.validUntil (or the fallback TTL when the source
+ *   provided no metadata); no refresh needed
+ * - stale: past validUntil; still shown, but should be refreshed
+ * - expired: stale for longer than the grace period, or nothing cached
+ */
+
+export type FreshnessStatus = 'fresh' | 'stale' | 'expired';
+
+/**
+ * Freshness of the cached schedule at a point in time
+ */
+export interface ScheduleFreshness {
+  status: FreshnessStatus;
+
+  /**
+   * When the cache becomes stale (null if nothing is cached)
+   */
+  staleAt: Date | null;
+
+  /**
+   * When the cache becomes expired (null if nothing is cached)
+   */
+  expiresAt: Date | null;
+
+  /**
+   * Milliseconds until the next status change (0 once expired)
+   */
+  remainingMs: number;
+
+  /**
+   * Where staleAt came from: API metadata, the fallback TTL, or nothing cached
+   */
+  source: 'metadata' | 'ttl' | 'none';
+}
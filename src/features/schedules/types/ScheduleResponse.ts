@@ -0,0 +1,195 @@
+/**
+ * Schedule API payload types
+ *
+ * Mirrors the `GET /schedules/lmu` contract and the bundled sample schedule.
+ * Race entries are left as raw objects here; RaceDataParser is responsible
+ * for validating them into Race.
+ *
+ * @see specs/001-lmu-schedule-tracker/contracts/schedule-api.yaml
+ */
+
+import { Race } from './Race';
+
+/**
+ * Race type filter accepted by the `type` query parameter
+ */
+export type ScheduleTypeFilter = 'daily' | 'weekly' | 'special' | 'all';
+
+/**
+ * Query parameters for `GET /schedules/lmu`
+ */
+export interface ScheduleQuery {
+  /**
+   * Start of the schedule range (ISO 8601)
+   * @example "2025-11-15T00:00:00Z"
+   */
+  from?: string;
+
+  /**
+   * End of the schedule range (ISO 8601, max 7 days after `from`)
+   * @example "2025-11-22T23:59:59Z"
+   */
+  to?: string;
+
+  /**
+   * Race type filter (server default: "all")
+   */
+  type?: ScheduleTypeFilter;
+}
+
+/**
+ * Schedule metadata returned alongside the races
+ */
+export interface ScheduleMetadata {
+  /**
+   * When this schedule was generated (ISO 8601 UTC)
+   */
+  generatedAt: string;
+
+  /**
+   * When this schedule expires (ISO 8601 UTC)
+   */
+  validUntil: string;
+
+  /**
+   * Data source identifier
+   * @example "racecontrol.gg"
+   */
+  source?: string;
+}
+
+/**
+ * Successful response body of `GET /schedules/lmu`
+ */
+export interface ScheduleResponse {
+  schedule: {
+    daily?: unknown[];
+    weekly?: unknown[];
+    special?: unknown[];
+  };
+  metadata: ScheduleMetadata;
+}
+
+/**
+ * Machine-readable error codes defined by the contract
+ */
+export type ScheduleApiErrorCode = 'INVALID_RANGE' | 'UPSTREAM_ERROR';
+
+/**
+ * Error response body of `GET /schedules/lmu`
+ */
+export interface ScheduleApiErrorBody {
+  error: string;
+  message: string;
+  code: ScheduleApiErrorCode | string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Bundled schedule shape used by `src/data/sampleSchedule.json`
+ */
+export interface BundledSchedule {
+  dailyRaces: {
+    tierA?: unknown[];
+    tierB?: unknown[];
+    tierC?: unknown[];
+  };
+  weeklyRaces?: unknown[];
+  specialEvents?: unknown[];
+}
+
+/**
+ * A race rejected during lenient parsing
+ */
+export interface RaceParseIssue {
+  /**
+   * Position in the flattened race list
+   */
+  index: number;
+
+  /**
+   * Location in the source envelope
+   * @example "schedule.weekly[0]"
+   */
+  source: string;
+
+  /**
+   * Race id, if the record had one
+   */
+  raceId: string | null;
+
+  /**
+   * Field that failed validation, if known
+   */
+  field: string | null;
+
+  /**
+   * Human-readable validation message
+   */
+  reason: string;
+}
+
+/**
+ * Report produced by lenient parsing
+ */
+export interface ParseDiagnostics {
+  /**
+   * Number of race records in the input
+   */
+  total: number;
+
+  /**
+   * Number of races that passed validation
+   */
+  accepted: number;
+
+  /**
+   * Races that were skipped
+   */
+  rejected: RaceParseIssue[];
+}
+
+/**
+ * Result of parsing a schedule envelope
+ */
+export interface ParsedSchedule {
+  /**
+   * Validated races, flattened in daily → weekly → special order
+   */
+  races: Race[];
+
+  /**
+   * Schedule metadata, or null when the envelope carries none
+   */
+  metadata: ScheduleMetadata | null;
+
+  /**
+   * Rejected races report (lenient mode only)
+   */
+  diagnostics?: ParseDiagnostics;
+}
+
+/**
+ * HTTP cache validators stored alongside the cached schedule
+ */
+export interface CacheValidators {
+  /**
+   * `ETag` response header, sent back as `If-None-Match`
+   */
+  etag: string | null;
+
+  /**
+   * `Last-Modified` response header, sent back as `If-Modified-Since`
+   */
+  lastModified: string | null;
+}
+
+/**
+ * Result of a conditional schedule request
+ *
+ * - not-modified: the server answered 304; the cached schedule is current
+ * - updated: the server sent a new schedule and fresh validators
+ */
+export type ConditionalScheduleResult =
+  | { status: 'not-modified' }
+  | { status: 'updated'; schedule: ParsedSchedule; validators: CacheValidators };
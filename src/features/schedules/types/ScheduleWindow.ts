@@ -0,0 +1,53 @@
+/**
+ * Schedule window types
+ *
+ * The schedule API caps a request at 7 days, so schedules further ahead are
+ * loaded one window at a time as the user scrolls.
+ */
+
+import { Race } from './Race';
+
+/**
+ * A date range that has been fetched and merged into the schedule cache
+ */
+export interface ScheduleWindow {
+  /**
+   * Window start (ISO 8601 UTC, inclusive)
+   */
+  from: string;
+
+  /**
+   * Window end (ISO 8601 UTC, exclusive)
+   */
+  to: string;
+
+  /**
+   * When the window was fetched (ISO 8601 UTC)
+   */
+  fetchedAt: string;
+
+  /**
+   * IDs of the races the API returned for this window
+   */
+  raceIds: string[];
+}
+
+/**
+ * Result of loading a schedule window
+ */
+export interface WindowLoadResult {
+  /**
+   * Every cached race after merging the window
+   */
+  races: Race[];
+
+  /**
+   * The window that was loaded (null if nothing was left to load)
+   */
+  window: ScheduleWindow | null;
+
+  /**
+   * False once the browse horizon has been reached
+   */
+  hasMore: boolean;
+}
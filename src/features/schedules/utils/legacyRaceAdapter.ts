@@ -0,0 +1,133 @@
+/**
+ * Legacy Race Adapter
+ *
+ * Converts races persisted in the original `name/location/category` shape
+ * into the canonical Race model. Older installs may still have a schedule
+ * cache written in that shape; converting on read keeps the app usable until
+ * the next refresh replaces the cache.
+ */
+
+import { Race, RaceType, RACE_TYPES, CAR_CLASSES, CarClass, isRace } from '../types/Race';
+import { isRaceLive } from '../../../shared/utils/dateUtils';
+
+/**
+ * Race shape written by earlier versions of the app
+ *
+ * Dates were serialized via JSON.stringify, so they come back as strings.
+ */
+export interface LegacyRace {
+  id: string;
+  name: string;
+  startTime: string;
+  endTime: string;
+  location: string;
+  category: string;
+  description?: string;
+  isFavorited?: boolean;
+}
+
+/**
+ * Checks whether a value looks like a legacy race record
+ *
+ * @param value - Value read from storage
+ * @returns True if the value has the legacy `name/location/category` fields
+ */
+export const isLegacyRace = (value: unknown): value is LegacyRace => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const record = value as Record<string, unknown>;
+  return (
+    typeof record.id === 'string' &&
+    typeof record.name === 'string' &&
+    typeof record.location === 'string' &&
+    typeof record.category === 'string' &&
+    typeof record.startTime === 'string' &&
+    typeof record.endTime === 'string'
+  );
+};
+
+/**
+ * Converts a legacy race into the canonical Race model
+ *
+ * Fields the legacy model never stored (weather, time of day, licence) get
+ * neutral placeholder values. Category values that don't match a RaceType
+ * fall back to "special".
+ *
+ * @param legacy - Legacy race record
+ * @returns Canonical race, or null if the legacy dates are unusable
+ *
+ * @example
+ * adaptLegacyRace({
+ *   id: 'race-1',
+ *   name: 'Hypercar Sprint',
+ *   startTime: '2025-03-15T10:00:00.000Z',
+ *   endTime: '2025-03-15T10:45:00.000Z',
+ *   location: 'Monza',
+ *   category: 'Daily',
+ * }) // { id: 'race-1', type: 'daily', trackName: 'Monza', carClass: 'Hypercar', ... }
+ */
+export const adaptLegacyRace = (legacy: LegacyRace): Race | null => {
+  const start = new Date(legacy.startTime);
+  const end = new Date(legacy.endTime);
+
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    return null;
+  }
+
+  const durationMinutes = Math.round((end.getTime() - start.getTime()) / 60000);
+  if (durationMinutes <= 0) {
+    return null;
+  }
+
+  const category = legacy.category.toLowerCase();
+  const type: RaceType = (RACE_TYPES as readonly string[]).includes(category)
+    ? (category as RaceType)
+    : 'special';
+
+  const carClass: CarClass =
+    CAR_CLASSES.find(candidate => legacy.name.includes(candidate)) ?? 'Multi-class';
+
+  const startTime = start.toISOString();
+
+  return {
+    id: legacy.id,
+    type,
+    tier: null,
+    trackName: legacy.location || legacy.name,
+    trackConfiguration: null,
+    carClass,
+    startTime,
+    durationMinutes,
+    weatherCondition: 'Clear',
+    timeOfDay: 'Afternoon',
+    licenseRequirement: 'Bronze',
+    repeatInterval: null,
+    isLive: isRaceLive(startTime, durationMinutes),
+    ...(legacy.isFavorited !== undefined && { isFavorited: legacy.isFavorited }),
+  };
+};
+
+/**
+ * Normalizes a cached race array that may mix canonical and legacy records
+ *
+ * Canonical races pass through unchanged, legacy races are adapted, and
+ * anything else is dropped.
+ *
+ * @param cached - Parsed cache contents
+ * @returns Canonical races
+ */
+export const normalizeCachedRaces = (cached: unknown[]): Race[] => {
+  return cached.reduce<Race[]>((races, item) => {
+    if (isRace(item)) {
+      races.push(item);
+    } else if (isLegacyRace(item)) {
+      const adapted = adaptLegacyRace(item);
+      if (adapted) {
+        races.push(adapted);
+      }
+    }
+    return races;
+  }, []);
+};
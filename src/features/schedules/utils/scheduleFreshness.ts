@@ -0,0 +1,142 @@
+/**
+ * Schedule cache freshness
+ *
+ * Freshness rules shared by every ScheduleCache implementation, so the
+ * AsyncStorage and SQLite caches agree on when a schedule goes stale.
+ */
+
+import { CacheValidators, ScheduleMetadata } from '../types/ScheduleResponse';
+import { ScheduleFreshness } from '../types/ScheduleFreshness';
+
+/**
+ * Default time-to-live when the schedule was saved without metadata
+ */
+export const DEFAULT_FALLBACK_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+/**
+ * Default time a stale cache stays usable before it counts as expired
+ */
+export const DEFAULT_STALE_GRACE_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+/**
+ * Freshness windows of a schedule cache
+ */
+export interface FreshnessPolicy {
+  /**
+   * Freshness window used when no metadata.validUntil was saved
+   */
+  fallbackTtlMs: number;
+
+  /**
+   * How long after going stale the cache is considered expired
+   */
+  staleGraceMs: number;
+}
+
+/**
+ * Works out the freshness of a cached schedule
+ *
+ * Uses metadata.validUntil when available, otherwise the last updated
+ * timestamp plus the fallback TTL. If the cache was updated or
+ * revalidated after validUntil, the metadata validity window
+ * (validUntil - generatedAt) restarts from the last update.
+ *
+ * @param lastUpdated - When the cache was last saved or revalidated (null if never)
+ * @param metadata - Metadata saved with the cache, if any
+ * @param policy - Fallback TTL and stale grace period
+ * @param now - Reference time in milliseconds (default: Date.now())
+ * @returns Freshness status, transition times and time remaining
+ */
+export const computeFreshness = (
+  lastUpdated: Date | null,
+  metadata: ScheduleMetadata | null,
+  policy: FreshnessPolicy,
+  now: number = Date.now(),
+): ScheduleFreshness => {
+  if (!lastUpdated) {
+    return { status: 'expired', staleAt: null, expiresAt: null, remainingMs: 0, source: 'none' };
+  }
+
+  const staleAt = metadata
+    ? getMetadataStaleAt(metadata, lastUpdated, policy.fallbackTtlMs)
+    : new Date(lastUpdated.getTime() + policy.fallbackTtlMs);
+  const expiresAt = new Date(staleAt.getTime() + policy.staleGraceMs);
+  const source = metadata ? 'metadata' : 'ttl';
+
+  if (now < staleAt.getTime()) {
+    return { status: 'fresh', staleAt, expiresAt, remainingMs: staleAt.getTime() - now, source };
+  }
+
+  const remainingMs = Math.max(0, expiresAt.getTime() - now);
+  const status = remainingMs > 0 ? 'stale' : 'expired';
+  return { status, staleAt, expiresAt, remainingMs, source };
+};
+
+/**
+ * Works out when metadata-backed cache goes stale
+ */
+const getMetadataStaleAt = (
+  metadata: ScheduleMetadata,
+  lastUpdated: Date,
+  fallbackTtlMs: number,
+): Date => {
+  const validUntil = Date.parse(metadata.validUntil);
+
+  if (lastUpdated.getTime() <= validUntil) {
+    return new Date(validUntil);
+  }
+
+  const windowMs = validUntil - Date.parse(metadata.generatedAt);
+  return new Date(lastUpdated.getTime() + (windowMs > 0 ? windowMs : fallbackTtlMs));
+};
+
+/**
+ * Reads stored schedule metadata
+ *
+ * @param data - JSON written by a schedule cache
+ * @returns Metadata, or null if missing or unreadable
+ */
+export const parseStoredMetadata = (data: string | null): ScheduleMetadata | null => {
+  if (!data) {
+    return null;
+  }
+
+  const parsed = JSON.parse(data) as Partial<ScheduleMetadata> | null;
+
+  if (
+    typeof parsed?.generatedAt !== 'string' ||
+    typeof parsed.validUntil !== 'string' ||
+    isNaN(Date.parse(parsed.validUntil))
+  ) {
+    return null;
+  }
+
+  return parsed as ScheduleMetadata;
+};
+
+/**
+ * Reads stored HTTP validators
+ *
+ * @param data - JSON written by a schedule cache
+ * @returns Validators, or null if missing or neither header was saved
+ */
+export const parseStoredValidators = (data: string | null): CacheValidators | null => {
+  if (!data) {
+    return null;
+  }
+
+  const parsed = JSON.parse(data) as Partial<CacheValidators> | null;
+  const etag = typeof parsed?.etag === 'string' ? parsed.etag : null;
+  const lastModified = typeof parsed?.lastModified === 'string' ? parsed.lastModified : null;
+
+  return etag || lastModified ? { etag, lastModified } : null;
+};
+
+/**
+ * Checks whether validators are worth saving
+ *
+ * @param validators - Validators from a response
+ * @returns True if at least one header is present
+ */
+export const hasValidators = (validators: CacheValidators | null): validators is CacheValidators =>
+  Boolean(validators && (validators.etag || validators.lastModified));
@@ -2,7 +2,9 @@
  * AppNavigator - Main navigation configuration
  *
  * Sets up React Navigation stack navigator for the app.
- * Currently contains ScheduleScreen as the initial route.
+ * ScheduleScreen is the initial route; PracticePlannerScreen opens when a
+ * race is added to the calendar with practice sessions, and
+ * CalendarSettingsScreen from the schedule header.
  *
  * Future routes will include:
  * - Settings screen
@@ -13,12 +15,17 @@
 import React from 'react';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { ScheduleScreen } from '../features/schedules/screens/ScheduleScreen';
+import { PracticePlannerScreen } from '../features/calendar/screens/PracticePlannerScreen';
+import { CalendarSettingsScreen } from '../features/calendar/screens/CalendarSettingsScreen';
+import type { Race } from '../features/schedules/types/Race';
 
 /**
  * Type definition for navigation stack parameters
  */
 export type RootStackParamList = {
   Schedule: undefined;
+  PracticePlanner: { race: Race };
+  CalendarSettings: undefined;
   // Future screens will be added here
   // RaceDetail: { raceId: string };
   // Settings: undefined;
@@ -62,6 +69,16 @@ export const AppNavigator: React.FC = () => {
           headerShown: false, // ScheduleScreen has its own header
         }}
       />
+      <Stack.Screen
+        name="PracticePlanner"
+        component={PracticePlannerScreen}
+        options={{ title: 'Practice Planner' }}
+      />
+      <Stack.Screen
+        name="CalendarSettings"
+        component={CalendarSettingsScreen}
+        options={{ title: 'Calendar Settings' }}
+      />
     </Stack.Navigator>
   );
 };
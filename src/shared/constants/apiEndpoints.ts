@@ -0,0 +1,40 @@
+/**
+ * Schedule API endpoint constants
+ *
+ * Server URLs from the schedule API contract.
+ *
+ * @see specs/001-lmu-schedule-tracker/contracts/schedule-api.yaml
+ */
+
+export const SCHEDULE_API_BASE_URLS = {
+  production: 'https://api.racecontrol.gg/v1', // RaceControl.gg (future)
+  localMock: 'http://localhost:3000/api/v1', // Local development mock server
+} as const;
+
+/**
+ * Path of the LMU schedule endpoint, relative to the base URL
+ */
+export const SCHEDULE_API_PATH = '/schedules/lmu' as const;
+
+export type ScheduleApiEnvironment = keyof typeof SCHEDULE_API_BASE_URLS;
+
+/**
+ * Environment the app fetches the schedule from, or null to show the
+ * bundled sample data
+ *
+ * Null until the production API is live. Set it to 'localMock' to develop
+ * against the local mock server.
+ */
+export const SCHEDULE_API_ENVIRONMENT: ScheduleApiEnvironment | null = null;
+
+/**
+ * Gets the schedule API base URL for an environment
+ *
+ * @param environment - API environment (default: SCHEDULE_API_ENVIRONMENT)
+ * @returns Base URL without the schedule path, or null when no environment is set
+ */
+export function getScheduleApiBaseUrl(
+  environment: ScheduleApiEnvironment | null = SCHEDULE_API_ENVIRONMENT,
+): string | null {
+  return environment ? SCHEDULE_API_BASE_URLS[environment] : null;
+}
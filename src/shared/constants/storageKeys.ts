@@ -10,15 +10,29 @@
  */
 export const STORAGE_PREFIX = 'racesync:' as const;
 
+/**
+ * Prefix for values set aside because a storage migration failed on them
+ * (followed by the original key, e.g. 'racesync:quarantine:racesync:schedule')
+ */
+export const STORAGE_QUARANTINE_PREFIX = 'racesync:quarantine:' as const;
+
 /**
  * AsyncStorage keys for persisting app data
  */
 export const STORAGE_KEYS = {
+  /**
+   * Storage schema versions
+   *
+   * @description Schema version of each stored value, used by the storage migration runner
+   * @type {string} JSON-serialized object mapping storage keys to version numbers
+   */
+  SCHEMA_VERSION: 'racesync:schema-version',
+
   /**
    * Race schedule cache
    *
-   * @description Stores the complete race schedule including daily, weekly, and special events
-   * @type {string} JSON-serialized object with dailyRaces, weeklyRaces, and specialEvents
+   * @description Stores the complete race schedule (daily, weekly, and special races in one list)
+   * @type {string} JSON-serialized flat array of Race objects
    */
   SCHEDULE: 'racesync:schedule',
 
@@ -30,6 +44,30 @@ export const STORAGE_KEYS = {
    */
   SCHEDULE_LAST_UPDATED: 'racesync:schedule-last-updated',
 
+  /**
+   * Schedule metadata
+   *
+   * @description Metadata returned with the cached schedule, used for freshness checks
+   * @type {string} JSON-serialized ScheduleMetadata ({ generatedAt, validUntil, source? })
+   */
+  SCHEDULE_METADATA: 'racesync:schedule-metadata',
+
+  /**
+   * Schedule HTTP validators
+   *
+   * @description ETag and Last-Modified of the cached schedule response, for conditional requests
+   * @type {string} JSON-serialized CacheValidators ({ etag, lastModified })
+   */
+  SCHEDULE_VALIDATORS: 'racesync:schedule-validators',
+
+  /**
+   * Loaded schedule windows
+   *
+   * @description Date ranges fetched beyond the initial schedule, with the race IDs each returned
+   * @type {string} JSON-serialized array of ScheduleWindow objects
+   */
+  SCHEDULE_WINDOWS: 'racesync:schedule-windows',
+
   /**
    * User's favorite races
    *
@@ -38,14 +76,62 @@ export const STORAGE_KEYS = {
    */
   FAVORITES: 'racesync:favorites',
 
+  /**
+   * User's favorite race series
+   *
+   * @description Array of SeriesFavorite objects, each matching every race in a recurring series
+   * @type {string} JSON-serialized array of SeriesFavorite objects
+   */
+  FAVORITE_SERIES: 'racesync:favorite-series',
+
+  /**
+   * Favorites waiting for review after their race ID changed
+   *
+   * @description Orphaned favorites with the new races they may belong to, for the user to confirm
+   * @type {string} JSON-serialized array of PendingRelink objects
+   */
+  PENDING_RELINKS: 'racesync:pending-relinks',
+
+  /**
+   * User-defined race rules
+   *
+   * @description Rules that auto-favorite matching races or appear as saved filter chips
+   * @type {string} JSON-serialized array of RaceRule objects
+   */
+  RACE_RULES: 'racesync:race-rules',
+
   /**
    * Calendar event mappings
    *
-   * @description Maps race IDs to device calendar event IDs for synced events
-   * @type {string} JSON-serialized object mapping race IDs to calendar event IDs
+   * @description Calendar events created for races, with the device event ID of each
+   * @type {string} JSON-serialized array of CalendarEvent objects
    */
   CALENDAR_MAPPINGS: 'racesync:calendar-mappings',
 
+  /**
+   * Last calendar sync report
+   *
+   * @description Calendar events updated, cancelled or removed by the last sync that changed any
+   * @type {string} JSON-serialized CalendarSyncReport object
+   */
+  CALENDAR_SYNC_REPORT: 'racesync:calendar-sync-report',
+
+  /**
+   * Cancelled race handling
+   *
+   * @description What to do with calendar events of races that disappear from the schedule
+   * @type {string} Plain string value ("mark" | "remove")
+   */
+  CALENDAR_CANCELLATION_MODE: 'racesync:calendar-cancellation-mode',
+
+  /**
+   * Favorites calendar feed state
+   *
+   * @description Races last published in the favorites feed and the SEQUENCE of each event
+   * @type {string} JSON-serialized IcsFeedState ({ races, sequences })
+   */
+  ICS_FEED_STATE: 'racesync:ics-feed-state',
+
   /**
    * Scheduled notification IDs
    *
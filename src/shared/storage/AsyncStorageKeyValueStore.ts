@@ -0,0 +1,46 @@
+/**
+ * AsyncStorage implementation of KeyValueStore
+ *
+ * @see KeyValueStore for interface documentation
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { KeyValuePair, KeyValueStore } from './KeyValueStore';
+
+/**
+ * KeyValueStore backed by React Native AsyncStorage
+ */
+export class AsyncStorageKeyValueStore implements KeyValueStore {
+  getItem(key: string): Promise<string | null> {
+    return AsyncStorage.getItem(key);
+  }
+
+  setItem(key: string, value: string): Promise<void> {
+    return AsyncStorage.setItem(key, value);
+  }
+
+  removeItem(key: string): Promise<void> {
+    return AsyncStorage.removeItem(key);
+  }
+
+  async multiGet(keys: string[]): Promise<KeyValuePair[]> {
+    const pairs = await AsyncStorage.multiGet(keys);
+    return pairs.map(([key, value]) => [key, value]);
+  }
+
+  multiSet(entries: Array<[string, string]>): Promise<void> {
+    return AsyncStorage.multiSet(entries);
+  }
+
+  multiRemove(keys: string[]): Promise<void> {
+    return AsyncStorage.multiRemove(keys);
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    return [...(await AsyncStorage.getAllKeys())];
+  }
+
+  clear(): Promise<void> {
+    return AsyncStorage.clear();
+  }
+}
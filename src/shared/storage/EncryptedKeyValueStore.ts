@@ -0,0 +1,115 @@
+/**
+ * Encrypted KeyValueStore
+ *
+ * Encrypts values before they reach the underlying store. Keys stay in
+ * plain text so values can still be looked up. The cipher is injected, so
+ * key management (e.g. a key held in the device keychain) stays outside
+ * the storage layer.
+ *
+ * @see KeyValueStore for interface documentation
+ */
+
+import { KeyValuePair, KeyValueStore } from './KeyValueStore';
+
+/**
+ * Marks values written by EncryptedKeyValueStore
+ */
+export const ENCRYPTED_VALUE_PREFIX = 'enc:v1:';
+
+/**
+ * Symmetric cipher for stored values
+ */
+export interface ValueCipher {
+  /**
+   * Encrypts a value
+   * @returns Ciphertext as a string (e.g. base64)
+   */
+  encrypt(plaintext: string): Promise<string>;
+
+  /**
+   * Decrypts a value produced by encrypt
+   * @throws If the ciphertext cannot be decrypted
+   */
+  decrypt(ciphertext: string): Promise<string>;
+}
+
+/**
+ * KeyValueStore wrapper that encrypts values at rest
+ *
+ * Values stored before encryption was turned on are read as they are and
+ * encrypted the next time they are written.
+ *
+ * @example
+ * ```typescript
+ * const store = new EncryptedKeyValueStore(new AsyncStorageKeyValueStore(), keychainCipher);
+ * await store.setItem(STORAGE_KEYS.FAVORITES, json); // stored as 'enc:v1:...'
+ * ```
+ */
+export class EncryptedKeyValueStore implements KeyValueStore {
+  /**
+   * @param store - Underlying store that receives ciphertext
+   * @param cipher - Cipher used for every value
+   */
+  constructor(private readonly store: KeyValueStore, private readonly cipher: ValueCipher) {}
+
+  async getItem(key: string): Promise<string | null> {
+    return this.decryptValue(await this.store.getItem(key));
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.store.setItem(key, await this.encryptValue(value));
+  }
+
+  removeItem(key: string): Promise<void> {
+    return this.store.removeItem(key);
+  }
+
+  async multiGet(keys: string[]): Promise<KeyValuePair[]> {
+    const pairs = await this.store.multiGet(keys);
+    return Promise.all(
+      pairs.map(
+        async ([key, value]): Promise<KeyValuePair> => [key, await this.decryptValue(value)],
+      ),
+    );
+  }
+
+  async multiSet(entries: Array<[string, string]>): Promise<void> {
+    const encrypted = await Promise.all(
+      entries.map(
+        async ([key, value]): Promise<[string, string]> => [key, await this.encryptValue(value)],
+      ),
+    );
+    await this.store.multiSet(encrypted);
+  }
+
+  multiRemove(keys: string[]): Promise<void> {
+    return this.store.multiRemove(keys);
+  }
+
+  getAllKeys(): Promise<string[]> {
+    return this.store.getAllKeys();
+  }
+
+  clear(): Promise<void> {
+    return this.store.clear();
+  }
+
+  /**
+   * Encrypts a value and marks it as encrypted
+   * @private
+   */
+  private async encryptValue(value: string): Promise<string> {
+    return `${ENCRYPTED_VALUE_PREFIX}${await this.cipher.encrypt(value)}`;
+  }
+
+  /**
+   * Decrypts a marked value; unmarked values are returned as they are
+   * @private
+   */
+  private async decryptValue(value: string | null): Promise<string | null> {
+    if (value === null || !value.startsWith(ENCRYPTED_VALUE_PREFIX)) {
+      return value;
+    }
+    return this.cipher.decrypt(value.slice(ENCRYPTED_VALUE_PREFIX.length));
+  }
+}
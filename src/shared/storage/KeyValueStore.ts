@@ -0,0 +1,64 @@
+/**
+ * KeyValueStore Interface
+ *
+ * Abstracts string key-value persistence so repositories and hooks receive
+ * their storage by injection instead of importing AsyncStorage directly.
+ * Mirrors the AsyncStorage API, including batched reads and writes.
+ *
+ * @see AsyncStorageKeyValueStore for the device implementation
+ * @see MemoryKeyValueStore for tests
+ * @see EncryptedKeyValueStore for encryption at rest
+ * @see NamespacedKeyValueStore for STORAGE_PREFIX namespacing
+ */
+
+/**
+ * Key and value as returned by multiGet (null when the key is missing)
+ */
+export type KeyValuePair = [string, string | null];
+
+/**
+ * Asynchronous string key-value store
+ */
+export interface KeyValueStore {
+  /**
+   * Reads one value
+   * @returns The stored string, or null if missing
+   */
+  getItem(key: string): Promise<string | null>;
+
+  /**
+   * Writes one value
+   */
+  setItem(key: string, value: string): Promise<void>;
+
+  /**
+   * Deletes one value
+   */
+  removeItem(key: string): Promise<void>;
+
+  /**
+   * Reads several values in one batch
+   * @returns Pairs in the order of `keys`
+   */
+  multiGet(keys: string[]): Promise<KeyValuePair[]>;
+
+  /**
+   * Writes several values in one batch
+   */
+  multiSet(entries: Array<[string, string]>): Promise<void>;
+
+  /**
+   * Deletes several values in one batch
+   */
+  multiRemove(keys: string[]): Promise<void>;
+
+  /**
+   * Lists every stored key
+   */
+  getAllKeys(): Promise<string[]>;
+
+  /**
+   * Deletes every stored value
+   */
+  clear(): Promise<void>;
+}
@@ -0,0 +1,62 @@
+/**
+ * In-memory implementation of KeyValueStore
+ *
+ * Nothing is persisted. Used in tests and wherever a throwaway store is
+ * enough.
+ *
+ * @see KeyValueStore for interface documentation
+ */
+
+import { KeyValuePair, KeyValueStore } from './KeyValueStore';
+
+/**
+ * KeyValueStore backed by a Map
+ *
+ * @example
+ * ```typescript
+ * const store = new MemoryKeyValueStore({ 'racesync:theme': 'dark' });
+ * const repository = new AsyncStorageFavoritesRepository(store);
+ * ```
+ */
+export class MemoryKeyValueStore implements KeyValueStore {
+  private readonly values: Map<string, string>;
+
+  /**
+   * @param initialValues - Values the store starts with
+   */
+  constructor(initialValues: Record<string, string> = {}) {
+    this.values = new Map(Object.entries(initialValues));
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.values.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.values.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.values.delete(key);
+  }
+
+  async multiGet(keys: string[]): Promise<KeyValuePair[]> {
+    return keys.map(key => [key, this.values.get(key) ?? null]);
+  }
+
+  async multiSet(entries: Array<[string, string]>): Promise<void> {
+    entries.forEach(([key, value]) => this.values.set(key, value));
+  }
+
+  async multiRemove(keys: string[]): Promise<void> {
+    keys.forEach(key => this.values.delete(key));
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    return Array.from(this.values.keys());
+  }
+
+  async clear(): Promise<void> {
+    this.values.clear();
+  }
+}
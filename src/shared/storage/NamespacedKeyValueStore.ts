@@ -0,0 +1,73 @@
+/**
+ * Namespaced KeyValueStore
+ *
+ * Keeps RaceSync data under STORAGE_PREFIX inside a store that other
+ * libraries share. Keys are prefixed on the way in, key listings only
+ * include namespaced keys, and clear() leaves other keys alone.
+ *
+ * @see KeyValueStore for interface documentation
+ */
+
+import { STORAGE_PREFIX } from '../constants/storageKeys';
+import { KeyValuePair, KeyValueStore } from './KeyValueStore';
+
+/**
+ * KeyValueStore wrapper that confines keys to a namespace
+ *
+ * Keys that already start with the namespace (such as STORAGE_KEYS values)
+ * are used as they are, so `'theme'` and `'racesync:theme'` name the same
+ * value.
+ */
+export class NamespacedKeyValueStore implements KeyValueStore {
+  /**
+   * @param store - Underlying store
+   * @param namespace - Key prefix (default: STORAGE_PREFIX)
+   */
+  constructor(
+    private readonly store: KeyValueStore,
+    private readonly namespace: string = STORAGE_PREFIX,
+  ) {}
+
+  /**
+   * Gets the key a value is stored under in the underlying store
+   *
+   * @param key - Namespaced or bare key
+   * @returns Namespaced key
+   */
+  toStorageKey(key: string): string {
+    return key.startsWith(this.namespace) ? key : `${this.namespace}${key}`;
+  }
+
+  getItem(key: string): Promise<string | null> {
+    return this.store.getItem(this.toStorageKey(key));
+  }
+
+  setItem(key: string, value: string): Promise<void> {
+    return this.store.setItem(this.toStorageKey(key), value);
+  }
+
+  removeItem(key: string): Promise<void> {
+    return this.store.removeItem(this.toStorageKey(key));
+  }
+
+  multiGet(keys: string[]): Promise<KeyValuePair[]> {
+    return this.store.multiGet(keys.map(key => this.toStorageKey(key)));
+  }
+
+  multiSet(entries: Array<[string, string]>): Promise<void> {
+    return this.store.multiSet(entries.map(([key, value]) => [this.toStorageKey(key), value]));
+  }
+
+  multiRemove(keys: string[]): Promise<void> {
+    return this.store.multiRemove(keys.map(key => this.toStorageKey(key)));
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    const keys = await this.store.getAllKeys();
+    return keys.filter(key => key.startsWith(this.namespace));
+  }
+
+  async clear(): Promise<void> {
+    await this.store.multiRemove(await this.getAllKeys());
+  }
+}
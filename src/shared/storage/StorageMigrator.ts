@@ -0,0 +1,272 @@
+/**
+ * Storage schema migrations
+ *
+ * Every value under STORAGE_KEYS has a schema version, recorded in
+ * `racesync:schema-version`. Values written before versioning existed are
+ * version 1. At app start StorageMigrator runs each key's pending steps in
+ * version order, so cached installs are upgraded instead of silently
+ * breaking when a model changes.
+ *
+ * A value whose migration fails is moved to a quarantine key and removed,
+ * so the app starts with an empty value instead of crashing on it.
+ */
+
+import { STORAGE_KEYS, STORAGE_QUARANTINE_PREFIX, StorageKey } from '../constants/storageKeys';
+import { BASELINE_SCHEMA_VERSION, STORAGE_MIGRATIONS } from './storageMigrations';
+import { KeyValueStore } from './KeyValueStore';
+import { defaultKeyValueStore } from './defaultKeyValueStore';
+
+/**
+ * One upgrade step for one storage key
+ */
+export interface StorageMigration {
+  /**
+   * Key whose value is upgraded
+   */
+  key: StorageKey;
+
+  /**
+   * Version the value has after this step
+   */
+  version: number;
+
+  /**
+   * What the step changes, for logs
+   */
+  description: string;
+
+  /**
+   * Upgrades the stored string; returns null to delete the value
+   * Throws if the value cannot be upgraded (it is then quarantined)
+   */
+  migrate: (value: string) => string | null;
+}
+
+/**
+ * Schema version per storage key
+ */
+export type SchemaVersions = Partial<Record<StorageKey, number>>;
+
+/**
+ * A value set aside because its migration failed
+ */
+export interface QuarantinedValue {
+  key: StorageKey;
+
+  /**
+   * The stored string as it was before the failed migration
+   */
+  value: string;
+
+  /**
+   * Schema version of the value
+   */
+  version: number;
+
+  /**
+   * Error message of the failed step
+   */
+  error: string;
+
+  /**
+   * When the value was quarantined (ISO 8601 UTC)
+   */
+  quarantinedAt: string;
+}
+
+/**
+ * Outcome of a migration run
+ */
+export interface MigrationReport {
+  /**
+   * Keys whose stored value was upgraded
+   */
+  migrated: StorageKey[];
+
+  /**
+   * Keys whose stored value failed to migrate and was quarantined
+   */
+  quarantined: StorageKey[];
+
+  /**
+   * Schema versions after the run
+   */
+  versions: SchemaVersions;
+}
+
+/**
+ * Gets the key a quarantined value is stored under
+ *
+ * @param key - Original storage key
+ * @returns Quarantine key
+ */
+export const getQuarantineKey = (key: StorageKey): string => `${STORAGE_QUARANTINE_PREFIX}${key}`;
+
+/**
+ * Runs storage migrations
+ *
+ * @example
+ * ```typescript
+ * const report = await new StorageMigrator().run();
+ * if (report.quarantined.length > 0) {
+ *   console.warn('Reset unreadable data:', report.quarantined);
+ * }
+ * ```
+ */
+export class StorageMigrator {
+  private readonly migrations: StorageMigration[];
+
+  /**
+   * @param migrations - Migration steps (default: STORAGE_MIGRATIONS)
+   * @param store - Store holding the values (default: AsyncStorage)
+   * @throws Error if a key has two steps for the same version
+   */
+  constructor(
+    migrations: StorageMigration[] = STORAGE_MIGRATIONS,
+    private readonly store: KeyValueStore = defaultKeyValueStore,
+  ) {
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+
+    const seen = new Set<string>();
+    this.migrations.forEach(({ key, version }) => {
+      const id = `${key}@${version}`;
+      if (seen.has(id)) {
+        throw new Error(`Duplicate storage migration for ${key} version ${version}`);
+      }
+      seen.add(id);
+    });
+  }
+
+  /**
+   * Gets the schema version each value will have after migrating
+   *
+   * @param key - Storage key
+   * @returns Highest migration version for the key, or the baseline version
+   */
+  getLatestVersion(key: StorageKey): number {
+    return this.migrations
+      .filter(migration => migration.key === key)
+      .reduce((latest, { version }) => Math.max(latest, version), BASELINE_SCHEMA_VERSION);
+  }
+
+  /**
+   * Gets the recorded schema versions
+   *
+   * @returns Versions by key; keys never migrated are absent
+   */
+  async getVersions(): Promise<SchemaVersions> {
+    try {
+      const data = await this.store.getItem(STORAGE_KEYS.SCHEMA_VERSION);
+      const parsed: unknown = data ? JSON.parse(data) : {};
+
+      return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+        ? (parsed as SchemaVersions)
+        : {};
+    } catch (error) {
+      console.error('Failed to load storage schema versions:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Upgrades every stored value to its latest schema version
+   *
+   * Keys are migrated one at a time and their version is recorded right
+   * after, so an interrupted run resumes where it stopped. Values newer
+   * than the known migrations (e.g. after a downgrade) are left alone.
+   *
+   * @returns Keys migrated and quarantined, and the resulting versions
+   */
+  async run(): Promise<MigrationReport> {
+    const versions = await this.getVersions();
+    const report: MigrationReport = { migrated: [], quarantined: [], versions };
+    const keys = Array.from(new Set(this.migrations.map(migration => migration.key)));
+
+    for (const key of keys) {
+      const current = versions[key] ?? BASELINE_SCHEMA_VERSION;
+      const latest = this.getLatestVersion(key);
+
+      if (current >= latest) {
+        // Record keys that are already current, so every key has a version
+        if (versions[key] === undefined) {
+          versions[key] = current;
+          await this.store.setItem(STORAGE_KEYS.SCHEMA_VERSION, JSON.stringify(versions));
+        }
+        continue;
+      }
+
+      const stored = await this.store.getItem(key);
+      if (stored !== null) {
+        try {
+          const upgraded = this.migrateValue(key, stored, current);
+          if (upgraded === null) {
+            await this.store.removeItem(key);
+          } else {
+            await this.store.setItem(key, upgraded);
+          }
+          report.migrated.push(key);
+        } catch (error) {
+          console.error(`Failed to migrate ${key}, quarantining it:`, error);
+          await this.quarantine(key, stored, current, error);
+          report.quarantined.push(key);
+        }
+      }
+
+      versions[key] = latest;
+      await this.store.setItem(STORAGE_KEYS.SCHEMA_VERSION, JSON.stringify(versions));
+    }
+
+    return report;
+  }
+
+  /**
+   * Gets the quarantined value of a key
+   *
+   * @param key - Original storage key
+   * @returns The quarantine record, or null if none
+   */
+  async getQuarantined(key: StorageKey): Promise<QuarantinedValue | null> {
+    try {
+      const data = await this.store.getItem(getQuarantineKey(key));
+      return data ? (JSON.parse(data) as QuarantinedValue) : null;
+    } catch (error) {
+      console.error('Failed to load quarantined value:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Applies the pending steps of one key in version order
+   * @private
+   */
+  private migrateValue(key: StorageKey, stored: string, fromVersion: number): string | null {
+    return this.migrations
+      .filter(migration => migration.key === key && migration.version > fromVersion)
+      .reduce<string | null>(
+        (value, migration) => (value === null ? null : migration.migrate(value)),
+        stored,
+      );
+  }
+
+  /**
+   * Moves a value that failed to migrate out of its key
+   * @private
+   */
+  private async quarantine(
+    key: StorageKey,
+    value: string,
+    version: number,
+    error: unknown,
+  ): Promise<void> {
+    const record: QuarantinedValue = {
+      key,
+      value,
+      version,
+      error: error instanceof Error ? error.message : String(error),
+      quarantinedAt: new Date().toISOString(),
+    };
+
+    await this.store.setItem(getQuarantineKey(key), JSON.stringify(record));
+    await this.store.removeItem(key);
+  }
+}
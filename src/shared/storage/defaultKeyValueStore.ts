@@ -0,0 +1,14 @@
+/**
+ * Default app storage
+ *
+ * AsyncStorage, namespaced under STORAGE_PREFIX. Repositories and hooks use
+ * it when no store is injected.
+ */
+
+import { AsyncStorageKeyValueStore } from './AsyncStorageKeyValueStore';
+import { KeyValueStore } from './KeyValueStore';
+import { NamespacedKeyValueStore } from './NamespacedKeyValueStore';
+
+export const defaultKeyValueStore: KeyValueStore = new NamespacedKeyValueStore(
+  new AsyncStorageKeyValueStore(),
+);
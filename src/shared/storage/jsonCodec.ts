@@ -0,0 +1,89 @@
+/**
+ * JSON codecs for KeyValueStore values
+ *
+ * Dates survive JSON.stringify only as ISO 8601 strings. The date-reviving
+ * codec turns those strings back into Date objects on read, so models with
+ * Date fields (e.g. RaceRule.createdAt) don't need manual conversion.
+ */
+
+import { KeyValueStore } from './KeyValueStore';
+
+/**
+ * Converts values to and from stored strings
+ */
+export interface ValueCodec<T> {
+  encode(value: T): string;
+  decode(data: string): T;
+}
+
+/**
+ * ISO 8601 date-time with an explicit UTC offset, as written by Date.toISOString
+ */
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * JSON.parse reviver that turns ISO 8601 date-time strings into Dates
+ */
+export const reviveIsoDates = (_key: string, value: unknown): unknown => {
+  if (typeof value === 'string' && ISO_DATE_TIME.test(value)) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : date;
+  }
+  return value;
+};
+
+/**
+ * Creates a JSON codec
+ *
+ * Only revive dates for models whose date fields are Dates: Race.startTime,
+ * for example, is an ISO string and must stay one. Models with free-text
+ * fields need a codec that revives only their date fields.
+ *
+ * @param options.reviveDates - Turn ISO 8601 strings into Dates on decode
+ * @returns Codec for values of type T
+ *
+ * @example
+ * ```typescript
+ * const rulesCodec = createJsonCodec<RaceRule[]>({ reviveDates: true });
+ * const rules = await readValue(store, STORAGE_KEYS.RACE_RULES, rulesCodec);
+ * ```
+ */
+export const createJsonCodec = <T>({ reviveDates = false } = {}): ValueCodec<T> => ({
+  encode: value => JSON.stringify(value),
+  decode: data => JSON.parse(data, reviveDates ? reviveIsoDates : undefined) as T,
+});
+
+/**
+ * Reads and decodes a value
+ *
+ * @param store - Store to read from
+ * @param key - Storage key
+ * @param codec - Codec for the value
+ * @returns Decoded value, or null if the key is missing
+ * @throws If the stored string cannot be decoded
+ */
+export const readValue = async <T>(
+  store: KeyValueStore,
+  key: string,
+  codec: ValueCodec<T>,
+): Promise<T | null> => {
+  const data = await store.getItem(key);
+  return data === null ? null : codec.decode(data);
+};
+
+/**
+ * Encodes and writes a value
+ *
+ * @param store - Store to write to
+ * @param key - Storage key
+ * @param value - Value to store
+ * @param codec - Codec for the value
+ */
+export const writeValue = async <T>(
+  store: KeyValueStore,
+  key: string,
+  value: T,
+  codec: ValueCodec<T>,
+): Promise<void> => {
+  await store.setItem(key, codec.encode(value));
+};
@@ -0,0 +1,175 @@
+/**
+ * Storage migration steps
+ *
+ * Append a step whenever the shape of a stored value changes; never edit
+ * or reorder a released step. Steps must also accept values that are
+ * already in the target shape, since an interrupted run may repeat them.
+ */
+
+import type { StorageMigration } from './StorageMigrator';
+import { STORAGE_KEYS } from '../constants/storageKeys';
+import { normalizeCachedRaces } from '../../features/schedules/utils/legacyRaceAdapter';
+import {
+  isValidReminderLead,
+  normalizeNote,
+  normalizeTags,
+} from '../../features/favorites/utils/favoriteDetails';
+
+/**
+ * Version of values written before schema versioning existed
+ */
+export const BASELINE_SCHEMA_VERSION = 1;
+
+/**
+ * Grouped schedule shape written by the earliest builds
+ */
+const LEGACY_SCHEDULE_GROUPS = ['dailyRaces', 'weeklyRaces', 'specialEvents'] as const;
+
+/**
+ * Schedule v2: one flat list of canonical races
+ *
+ * Flattens the grouped `dailyRaces/weeklyRaces/specialEvents` object and
+ * converts legacy `name/location/category` records to the Race model.
+ */
+const migrateScheduleToFlatRaces = (value: string): string => {
+  const parsed: unknown = JSON.parse(value);
+
+  if (Array.isArray(parsed)) {
+    return JSON.stringify(normalizeCachedRaces(parsed));
+  }
+
+  if (typeof parsed === 'object' && parsed !== null) {
+    const groups = parsed as Record<string, unknown>;
+    if (LEGACY_SCHEDULE_GROUPS.some(group => Array.isArray(groups[group]))) {
+      const races = LEGACY_SCHEDULE_GROUPS.flatMap(group =>
+        Array.isArray(groups[group]) ? (groups[group] as unknown[]) : [],
+      );
+      return JSON.stringify(normalizeCachedRaces(races));
+    }
+  }
+
+  throw new Error('Unrecognized schedule payload');
+};
+
+/**
+ * Favorites v2: one valid record per race
+ *
+ * Drops records without a raceId and duplicates, and fills in
+ * notificationEnabled and favoritedAt where older builds left them out.
+ */
+const migrateFavoritesToValidRecords = (value: string): string => {
+  const parsed: unknown = JSON.parse(value);
+
+  if (!Array.isArray(parsed)) {
+    throw new Error('Favorites payload is not an array');
+  }
+
+  const seen = new Set<string>();
+  const favorites = parsed.flatMap(item => {
+    const record = (typeof item === 'object' && item !== null ? item : {}) as Record<
+      string,
+      unknown
+    >;
+    if (typeof record.raceId !== 'string' || seen.has(record.raceId)) {
+      return [];
+    }
+    seen.add(record.raceId);
+
+    const favoritedAt =
+      typeof record.favoritedAt === 'string' && !isNaN(Date.parse(record.favoritedAt))
+        ? record.favoritedAt
+        : new Date(0).toISOString();
+
+    return [
+      {
+        ...record,
+        raceId: record.raceId,
+        favoritedAt,
+        notificationEnabled: record.notificationEnabled === true,
+      },
+    ];
+  });
+
+  return JSON.stringify(favorites);
+};
+
+/**
+ * Favorites v3: optional note, tags and reminder lead time
+ *
+ * Keeps the new fields only when they are usable, so readers can rely on
+ * note being a non-empty string, tags a non-empty list of unique strings,
+ * and reminderLeadMinutes a whole number of minutes.
+ */
+const migrateFavoritesDetails = (value: string): string => {
+  const parsed: unknown = JSON.parse(value);
+
+  if (!Array.isArray(parsed)) {
+    throw new Error('Favorites payload is not an array');
+  }
+
+  const favorites = parsed.map(item => {
+    const { note, tags, reminderLeadMinutes, ...record } = item as Record<string, unknown>;
+    const favorite: Record<string, unknown> = record;
+
+    const normalizedNote = typeof note === 'string' ? normalizeNote(note) : undefined;
+    if (normalizedNote !== undefined) {
+      favorite.note = normalizedNote;
+    }
+
+    const normalizedTags = Array.isArray(tags)
+      ? normalizeTags(tags.filter((tag): tag is string => typeof tag === 'string'))
+      : [];
+    if (normalizedTags.length > 0) {
+      favorite.tags = normalizedTags;
+    }
+
+    if (isValidReminderLead(reminderLeadMinutes)) {
+      favorite.reminderLeadMinutes = reminderLeadMinutes;
+    }
+
+    return favorite;
+  });
+
+  return JSON.stringify(favorites);
+};
+
+/**
+ * Baseline entry for every stored key, so each `racesync:` key has a
+ * registered version that the runner records on the first run
+ *
+ * The step never runs: values are already at the baseline version. Keys
+ * added to STORAGE_KEYS are registered here automatically.
+ */
+const BASELINE_MIGRATIONS: StorageMigration[] = Object.values(STORAGE_KEYS)
+  .filter(key => key !== STORAGE_KEYS.SCHEMA_VERSION)
+  .map(key => ({
+    key,
+    version: BASELINE_SCHEMA_VERSION,
+    description: 'Baseline schema',
+    migrate: value => value,
+  }));
+
+/**
+ * All storage migration steps
+ */
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  ...BASELINE_MIGRATIONS,
+  {
+    key: STORAGE_KEYS.SCHEDULE,
+    version: 2,
+    description: 'Flatten grouped schedules and convert legacy races to the Race model',
+    migrate: migrateScheduleToFlatRaces,
+  },
+  {
+    key: STORAGE_KEYS.FAVORITES,
+    version: 2,
+    description: 'Drop invalid and duplicate favorites and fill in missing fields',
+    migrate: migrateFavoritesToValidRecords,
+  },
+  {
+    key: STORAGE_KEYS.FAVORITES,
+    version: 3,
+    description: 'Normalize favorite notes, tags and reminder lead times',
+    migrate: migrateFavoritesDetails,
+  },
+];